@@ -8,13 +8,21 @@ import { AppProvider } from "./context/app-context";
 import NotFound from "@/pages/not-found";
 import HomePage from "@/pages/home-page";
 import AuthPage from "@/pages/auth-page";
+import AccountPage from "@/pages/account-page";
 import AdminDashboard from "@/pages/admin-dashboard";
 import { ProtectedRoute } from "./lib/protected-route";
 
 function Router() {
   return (
     <Switch>
+      {/* The storefront routes all render HomePage, which reads the URL
+          itself, so the cart and checkout stay open between them */}
       <Route path="/" component={HomePage} />
+      <Route path="/shop" component={HomePage} />
+      <Route path="/shop/:categorySlug" component={HomePage} />
+      <Route path="/product/:slug" component={HomePage} />
+      <Route path="/contact" component={HomePage} />
+      <Route path="/account" component={AccountPage} />
       <Route path="/auth" component={AuthPage} />
       <ProtectedRoute path="/admin" component={AdminDashboard} />
       <Route component={NotFound} />
@@ -1,5 +1,12 @@
 import { apiRequest } from "@/lib/queryClient";
-import type { Category, InsertCategory, SiteSettings, UpdateSiteSettings } from "@shared/schema";
+import type {
+  Category,
+  DeliveryZone,
+  InsertCategory,
+  InsertDeliveryZone,
+  SiteSettings,
+  UpdateSiteSettings,
+} from "@shared/schema";
 
 export const adminApi = {
   // Site settings
@@ -41,4 +48,25 @@ export const adminApi = {
     const res = await apiRequest("DELETE", `/api/admin/categories/${id}`);
     if (!res.ok) throw new Error("Failed to delete category");
   },
+
+  // Delivery zones
+  getDeliveryZones: async (): Promise<DeliveryZone[]> => {
+    const res = await fetch("/api/admin/delivery-zones", { credentials: "include" });
+    if (!res.ok) throw new Error("Failed to fetch delivery zones");
+    return res.json();
+  },
+
+  createDeliveryZone: async (zone: InsertDeliveryZone): Promise<DeliveryZone> => {
+    const res = await apiRequest("POST", "/api/admin/delivery-zones", zone);
+    return res.json();
+  },
+
+  updateDeliveryZone: async (id: string, zone: InsertDeliveryZone): Promise<DeliveryZone> => {
+    const res = await apiRequest("PUT", `/api/admin/delivery-zones/${id}`, zone);
+    return res.json();
+  },
+
+  deleteDeliveryZone: async (id: string): Promise<void> => {
+    await apiRequest("DELETE", `/api/admin/delivery-zones/${id}`);
+  },
 };
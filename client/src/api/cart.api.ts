@@ -0,0 +1,49 @@
+import { apiRequest } from "@/lib/queryClient";
+import type { Cart, CartLine, CheckoutCart, DeliveryCheck, Order } from "@shared/schema";
+
+type CartLineKey = Pick<CartLine, "productId" | "variantId">;
+
+// Lines for a variant are addressed by product id plus the variant
+const cartItemUrl = ({ productId, variantId }: CartLineKey) =>
+  `/api/cart/items/${productId}${variantId ? `?variantId=${encodeURIComponent(variantId)}` : ""}`;
+
+export const cartApi = {
+  getCart: async (): Promise<Cart> => {
+    const res = await fetch("/api/cart", { credentials: "include" });
+    if (!res.ok) throw new Error("Failed to fetch cart");
+    return res.json();
+  },
+
+  addItem: async (line: CartLineKey, quantity: number): Promise<Cart> => {
+    const res = await apiRequest("POST", "/api/cart/items", {
+      productId: line.productId,
+      variantId: line.variantId ?? undefined,
+      quantity,
+    });
+    return res.json();
+  },
+
+  updateItem: async (line: CartLineKey, quantity: number): Promise<Cart> => {
+    const res = await apiRequest("PUT", cartItemUrl(line), { quantity });
+    return res.json();
+  },
+
+  removeItem: async (line: CartLineKey): Promise<Cart> => {
+    const res = await apiRequest("DELETE", cartItemUrl(line));
+    return res.json();
+  },
+
+  // Whether the cart can be delivered to a PIN code, and what it costs
+  checkDelivery: async (pinCode: string): Promise<DeliveryCheck> => {
+    const res = await fetch(`/api/delivery/serviceability?pinCode=${encodeURIComponent(pinCode)}`, {
+      credentials: "include",
+    });
+    if (!res.ok) throw new Error("Failed to check delivery");
+    return res.json();
+  },
+
+  checkout: async (checkoutData: CheckoutCart): Promise<Order> => {
+    const res = await apiRequest("POST", "/api/cart/checkout", checkoutData);
+    return res.json();
+  },
+};
@@ -0,0 +1,64 @@
+import { apiRequest } from "@/lib/queryClient";
+import type {
+  Customer,
+  CustomerAddress,
+  InsertCustomerAddress,
+  LoginCodeSent,
+  Order,
+  Page,
+  UpdateCustomer,
+} from "@shared/schema";
+
+export const customerApi = {
+  requestLoginCode: async (phone: string): Promise<LoginCodeSent> => {
+    const res = await apiRequest("POST", "/api/customer/login-code", { phone });
+    return res.json();
+  },
+
+  login: async (phone: string, code: string): Promise<Customer> => {
+    const res = await apiRequest("POST", "/api/customer/login", { phone, code });
+    return res.json();
+  },
+
+  logout: async (): Promise<void> => {
+    await apiRequest("POST", "/api/customer/logout");
+  },
+
+  updateProfile: async (profile: UpdateCustomer): Promise<Customer> => {
+    const res = await apiRequest("PUT", "/api/customer", profile);
+    return res.json();
+  },
+
+  // Newest first
+  getOrders: async (cursor?: string, limit?: number): Promise<Page<Order>> => {
+    const searchParams = new URLSearchParams();
+    if (cursor) searchParams.set("cursor", cursor);
+    if (limit) searchParams.set("limit", String(limit));
+
+    const res = await fetch(`/api/customer/orders${searchParams.toString() ? `?${searchParams.toString()}` : ""}`, {
+      credentials: "include",
+    });
+    if (!res.ok) throw new Error("Failed to fetch your orders");
+    return res.json();
+  },
+  // Address book
+  getAddresses: async (): Promise<CustomerAddress[]> => {
+    const res = await fetch("/api/customer/addresses", { credentials: "include" });
+    if (!res.ok) throw new Error("Failed to fetch your addresses");
+    return res.json();
+  },
+
+  createAddress: async (address: InsertCustomerAddress): Promise<CustomerAddress> => {
+    const res = await apiRequest("POST", "/api/customer/addresses", address);
+    return res.json();
+  },
+
+  updateAddress: async (id: string, address: InsertCustomerAddress): Promise<CustomerAddress> => {
+    const res = await apiRequest("PUT", `/api/customer/addresses/${id}`, address);
+    return res.json();
+  },
+
+  deleteAddress: async (id: string): Promise<void> => {
+    await apiRequest("DELETE", `/api/customer/addresses/${id}`);
+  },
+};
@@ -1,5 +1,14 @@
 import { apiRequest } from "@/lib/queryClient";
-import type { Order, InsertOrder } from "@shared/schema";
+import type { Order, InsertOrder, OrderStatus, OrderSummary, ListSort, Page } from "@shared/schema";
+
+export type OrderListParams = {
+  // Order total
+  minPrice?: number;
+  maxPrice?: number;
+  sort?: ListSort;
+  cursor?: string;
+  limit?: number;
+};
 
 export const ordersApi = {
   // Public endpoints
@@ -9,14 +18,27 @@ export const ordersApi = {
   },
 
   // Admin endpoints
-  getOrders: async (): Promise<Order[]> => {
-    const res = await fetch("/api/admin/orders", {
+  getOrders: async (params: OrderListParams = {}): Promise<Page<Order>> => {
+    const searchParams = new URLSearchParams();
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined) searchParams.set(key, String(value));
+    });
+
+    const res = await fetch(`/api/admin/orders${searchParams.toString() ? `?${searchParams.toString()}` : ""}`, {
       credentials: "include",
     });
     if (!res.ok) throw new Error("Failed to fetch orders");
     return res.json();
   },
 
+  getOrderSummary: async (): Promise<OrderSummary> => {
+    const res = await fetch("/api/admin/orders/summary", {
+      credentials: "include",
+    });
+    if (!res.ok) throw new Error("Failed to fetch order summary");
+    return res.json();
+  },
+
   getOrder: async (id: string): Promise<Order> => {
     const res = await fetch(`/api/admin/orders/${id}`, {
       credentials: "include",
@@ -25,7 +47,7 @@ export const ordersApi = {
     return res.json();
   },
 
-  updateOrderStatus: async (id: string, status: "pending" | "completed" | "cancelled"): Promise<Order> => {
+  updateOrderStatus: async (id: string, status: OrderStatus): Promise<Order> => {
     const res = await apiRequest("PUT", `/api/admin/orders/${id}/status`, { status });
     return res.json();
   },
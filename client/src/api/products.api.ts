@@ -1,14 +1,35 @@
 import { apiRequest } from "@/lib/queryClient";
-import type { Product, InsertProduct } from "@shared/schema";
+import type {
+  Product,
+  InsertProduct,
+  ArrangeProductImages,
+  ProductImportReport,
+  ListSort,
+  Page,
+} from "@shared/schema";
+
+export type ProductListParams = {
+  categoryId?: string;
+  type?: Product["type"];
+  species?: string;
+  q?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  inStock?: boolean;
+  available?: boolean;
+  sort?: ListSort;
+  cursor?: string;
+  limit?: number;
+};
 
 export const productsApi = {
   // Public endpoints
-  getProducts: async (filters?: { categoryId?: string; type?: string; species?: string }): Promise<Product[]> => {
+  getProducts: async (params: ProductListParams = {}): Promise<Page<Product>> => {
     const searchParams = new URLSearchParams();
-    if (filters?.categoryId) searchParams.set("categoryId", filters.categoryId);
-    if (filters?.type) searchParams.set("type", filters.type);
-    if (filters?.species) searchParams.set("species", filters.species);
-    
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined && value !== "") searchParams.set(key, String(value));
+    });
+
     const url = `/api/products${searchParams.toString() ? `?${searchParams.toString()}` : ""}`;
     const res = await fetch(url);
     if (!res.ok) throw new Error("Failed to fetch products");
@@ -21,6 +42,12 @@ export const productsApi = {
     return res.json();
   },
 
+  getProductBySlug: async (slug: string): Promise<Product> => {
+    const res = await fetch(`/api/products/slug/${encodeURIComponent(slug)}`);
+    if (!res.ok) throw new Error(res.status === 404 ? "Product not found" : "Failed to fetch product");
+    return res.json();
+  },
+
   // Admin endpoints
   createProduct: async (productData: InsertProduct, images?: FileList): Promise<Product> => {
     const formData = new FormData();
@@ -66,4 +93,49 @@ export const productsApi = {
     const res = await apiRequest("DELETE", `/api/admin/products/${id}`);
     if (!res.ok) throw new Error("Failed to delete product");
   },
+
+  // Checks a CSV (and optional zip of images) and, unless it's a dry run,
+  // imports it. A file with row errors comes back as a report, not an error.
+  importProducts: async (file: File, images: File | null, dryRun: boolean): Promise<ProductImportReport> => {
+    const formData = new FormData();
+    formData.append("file", file);
+    if (images) formData.append("images", images);
+
+    const res = await fetch(`/api/admin/products/import${dryRun ? "?dryRun=true" : ""}`, {
+      method: "POST",
+      body: formData,
+      credentials: "include",
+    });
+
+    const body = await res.json().catch(() => null);
+    if (!res.ok && !body?.errors) throw new Error(body?.message || "Failed to import products");
+    return body;
+  },
+
+  // Gallery endpoints; each returns the product with its updated images
+  addImages: async (id: string, images: FileList): Promise<Product> => {
+    const formData = new FormData();
+    Array.from(images).forEach(file => {
+      formData.append("images", file);
+    });
+
+    const res = await fetch(`/api/admin/products/${id}/images`, {
+      method: "POST",
+      body: formData,
+      credentials: "include",
+    });
+
+    if (!res.ok) throw new Error((await res.json().catch(() => null))?.message || "Failed to upload images");
+    return res.json();
+  },
+
+  arrangeImages: async (id: string, arrangement: ArrangeProductImages): Promise<Product> => {
+    const res = await apiRequest("PUT", `/api/admin/products/${id}/images`, arrangement);
+    return res.json();
+  },
+
+  deleteImage: async (id: string, src: string): Promise<Product> => {
+    const res = await apiRequest("DELETE", `/api/admin/products/${id}/images?src=${encodeURIComponent(src)}`);
+    return res.json();
+  },
 };
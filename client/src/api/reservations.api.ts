@@ -0,0 +1,35 @@
+import { apiRequest } from "@/lib/queryClient";
+import type { InsertReservation, Order, Reservation, ReservationHold } from "@shared/schema";
+
+export const reservationsApi = {
+  // Public endpoints
+  getHolds: async (): Promise<ReservationHold[]> => {
+    const res = await fetch("/api/reservations/holds");
+    if (!res.ok) throw new Error("Failed to fetch reservations");
+    return res.json();
+  },
+
+  reserve: async (reservation: InsertReservation): Promise<Reservation> => {
+    const res = await apiRequest("POST", "/api/reservations", reservation);
+    return res.json();
+  },
+
+  // Admin endpoints
+  getReservations: async (): Promise<Reservation[]> => {
+    const res = await fetch("/api/admin/reservations", {
+      credentials: "include",
+    });
+    if (!res.ok) throw new Error("Failed to fetch reservations");
+    return res.json();
+  },
+
+  convert: async (id: string): Promise<{ reservation: Reservation; order: Order }> => {
+    const res = await apiRequest("POST", `/api/admin/reservations/${id}/convert`);
+    return res.json();
+  },
+
+  cancel: async (id: string): Promise<Reservation> => {
+    const res = await apiRequest("POST", `/api/admin/reservations/${id}/cancel`);
+    return res.json();
+  },
+};
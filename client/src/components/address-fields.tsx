@@ -0,0 +1,121 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { indianStates, type DeliveryAddress, type IndianState } from "@shared/schema";
+
+// An address being typed; the state is empty until one is chosen
+export type AddressFormData = Omit<DeliveryAddress, "state"> & { state: IndianState | "" };
+
+export const emptyAddress: AddressFormData = {
+  house: "",
+  street: "",
+  landmark: "",
+  city: "",
+  state: "",
+  pinCode: "",
+};
+
+// Only once the form has been submitted, so the state has been chosen
+export const toDeliveryAddress = (address: AddressFormData): DeliveryAddress => ({
+  ...address,
+  state: address.state as IndianState,
+});
+
+interface AddressFieldsProps {
+  value: AddressFormData;
+  onChange: (address: AddressFormData) => void;
+  disabled?: boolean;
+  // Keeps ids and test ids apart when a page has more than one address form
+  idPrefix: string;
+}
+
+export default function AddressFields({ value, onChange, disabled, idPrefix }: AddressFieldsProps) {
+  const update = (field: keyof AddressFormData) => (e: React.ChangeEvent<HTMLInputElement>) =>
+    onChange({ ...value, [field]: e.target.value });
+
+  return (
+    <div className="grid grid-cols-2 gap-3">
+      <div className="col-span-2">
+        <Label htmlFor={`${idPrefix}-house`}>House / Flat *</Label>
+        <Input
+          id={`${idPrefix}-house`}
+          placeholder="Flat 4B, Green Towers"
+          value={value.house}
+          onChange={update("house")}
+          required
+          disabled={disabled}
+          data-testid={`input-${idPrefix}-house`}
+        />
+      </div>
+      <div className="col-span-2">
+        <Label htmlFor={`${idPrefix}-street`}>Street / Area *</Label>
+        <Input
+          id={`${idPrefix}-street`}
+          placeholder="MG Road, Andheri West"
+          value={value.street}
+          onChange={update("street")}
+          required
+          disabled={disabled}
+          data-testid={`input-${idPrefix}-street`}
+        />
+      </div>
+      <div className="col-span-2">
+        <Label htmlFor={`${idPrefix}-landmark`}>Landmark</Label>
+        <Input
+          id={`${idPrefix}-landmark`}
+          placeholder="Near City Mall"
+          value={value.landmark}
+          onChange={update("landmark")}
+          disabled={disabled}
+          data-testid={`input-${idPrefix}-landmark`}
+        />
+      </div>
+      <div>
+        <Label htmlFor={`${idPrefix}-city`}>City *</Label>
+        <Input
+          id={`${idPrefix}-city`}
+          value={value.city}
+          onChange={update("city")}
+          required
+          disabled={disabled}
+          data-testid={`input-${idPrefix}-city`}
+        />
+      </div>
+      <div>
+        <Label htmlFor={`${idPrefix}-pin-code`}>PIN Code *</Label>
+        <Input
+          id={`${idPrefix}-pin-code`}
+          inputMode="numeric"
+          maxLength={6}
+          pattern="[1-9][0-9]{5}"
+          title="6-digit PIN code"
+          value={value.pinCode}
+          onChange={update("pinCode")}
+          required
+          disabled={disabled}
+          data-testid={`input-${idPrefix}-pin-code`}
+        />
+      </div>
+      <div className="col-span-2">
+        <Label htmlFor={`${idPrefix}-state`}>State *</Label>
+        <Select
+          value={value.state}
+          onValueChange={(state) => onChange({ ...value, state: state as IndianState })}
+          required
+          disabled={disabled}
+        >
+          <SelectTrigger id={`${idPrefix}-state`} data-testid={`select-${idPrefix}-state`}>
+            <SelectValue placeholder="Choose a state" />
+          </SelectTrigger>
+          <SelectContent>
+            {indianStates.map((state) => (
+              <SelectItem key={state} value={state}>
+                {state}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+}
@@ -5,11 +5,15 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { ShoppingCart, Package, Tags, Loader2 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { useAppContext } from "@/context/app-context";
-import type { SiteSettings, UpdateSiteSettings } from "@shared/schema";
+import { productsApi } from "@/api/products.api";
+import { ordersApi } from "@/api/orders.api";
+import { indianStates, type IndianState, type OrderSummary, type SiteSettings, type UpdateSiteSettings } from "@shared/schema";
 
 export default function AdminHome() {
   const [settingsData, setSettingsData] = useState<UpdateSiteSettings>({
@@ -19,7 +23,27 @@ export default function AdminHome() {
 
   const { toast } = useToast();
   const queryClient = useQueryClient();
-  const { categories, products, orders } = useAppContext();
+  const { categories } = useAppContext();
+
+  const { data: orderSummary } = useQuery<OrderSummary>({
+    queryKey: ["/api/admin/orders", "summary"],
+  });
+
+  const { data: recentOrders } = useQuery({
+    queryKey: ["/api/admin/orders", { limit: 5 }],
+    queryFn: () => ordersApi.getOrders({ limit: 5 }),
+  });
+
+  // Only the totals are needed, so a single product per page will do
+  const { data: allProducts } = useQuery({
+    queryKey: ["/api/products", { limit: 1 }],
+    queryFn: () => productsApi.getProducts({ limit: 1 }),
+  });
+
+  const { data: activeProductPage } = useQuery({
+    queryKey: ["/api/products", { available: true, inStock: true, limit: 1 }],
+    queryFn: () => productsApi.getProducts({ available: true, inStock: true, limit: 1 }),
+  });
 
   const { data: siteSettings, isLoading: settingsLoading } = useQuery<SiteSettings>({
     queryKey: ["/api/public/settings"],
@@ -31,6 +55,12 @@ export default function AdminHome() {
       setSettingsData({
         description: siteSettings.description,
         youtubeUrl: siteSettings.youtubeUrl,
+        reservationHoldHours: siteSettings.reservationHoldHours,
+        gstState: siteSettings.gstState,
+        pricesIncludeGst: siteSettings.pricesIncludeGst,
+        businessName: siteSettings.businessName,
+        businessAddress: siteSettings.businessAddress,
+        gstin: siteSettings.gstin,
       });
     }
   }, [siteSettings]);
@@ -55,10 +85,11 @@ export default function AdminHome() {
   };
 
 
-  const totalOrders = orders?.length || 0;
-  const activeProducts = products?.filter(p => p.available && p.stock > 0).length || 0;
+  const totalOrders = orderSummary?.count || 0;
+  const activeProducts = activeProductPage?.total || 0;
   const totalCategories = categories?.length || 0;
-  const totalRevenue = orders?.reduce((sum, order) => sum + order.totalAmountINR, 0) || 0;
+  const totalRevenue = orderSummary?.revenueINR || 0;
+  const orders = recentOrders?.items;
 
   const formatPrice = (price: number) => {
     return new Intl.NumberFormat('en-IN', {
@@ -113,6 +144,108 @@ export default function AdminHome() {
                 Add a YouTube video to showcase on your homepage.
               </p>
             </div>
+
+            <div>
+              <Label htmlFor="reservation-hold-hours">Reservation Hold (hours)</Label>
+              <Input
+                id="reservation-hold-hours"
+                type="number"
+                min="1"
+                max="168"
+                step="1"
+                value={settingsData.reservationHoldHours ?? ""}
+                onChange={(e) => setSettingsData(prev => ({ ...prev, reservationHoldHours: parseInt(e.target.value) || undefined }))}
+                disabled={updateSettingsMutation.isPending || settingsLoading}
+                data-testid="input-reservation-hold-hours"
+              />
+              <p className="text-sm text-muted-foreground mt-1">
+                How long a reserved pet is held for a customer before it goes back on sale.
+              </p>
+            </div>
+
+            <div>
+              <Label htmlFor="business-name">Business Name</Label>
+              <Input
+                id="business-name"
+                value={settingsData.businessName ?? ""}
+                onChange={(e) => setSettingsData(prev => ({ ...prev, businessName: e.target.value }))}
+                disabled={updateSettingsMutation.isPending || settingsLoading}
+                data-testid="input-business-name"
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="business-address">Business Address</Label>
+              <Textarea
+                id="business-address"
+                placeholder="Shop address as it should appear on invoices..."
+                value={settingsData.businessAddress ?? ""}
+                onChange={(e) => setSettingsData(prev => ({ ...prev, businessAddress: e.target.value }))}
+                disabled={updateSettingsMutation.isPending || settingsLoading}
+                className="h-24"
+                data-testid="input-business-address"
+              />
+              <p className="text-sm text-muted-foreground mt-1">
+                Printed with the business name at the top of invoices and packing slips.
+              </p>
+            </div>
+
+            <div>
+              <Label htmlFor="gstin">GSTIN</Label>
+              <Input
+                id="gstin"
+                placeholder="e.g. 30ABCDE1234F1Z5"
+                value={settingsData.gstin ?? ""}
+                onChange={(e) => setSettingsData(prev => ({ ...prev, gstin: e.target.value.toUpperCase() }))}
+                disabled={updateSettingsMutation.isPending || settingsLoading}
+                data-testid="input-gstin"
+              />
+              <p className="text-sm text-muted-foreground mt-1">
+                Leave blank if the shop isn't registered for GST.
+              </p>
+            </div>
+
+            <div>
+              <Label htmlFor="gst-state">GST Registration State</Label>
+              <Select
+                value={settingsData.gstState ?? "off"}
+                onValueChange={(value) =>
+                  setSettingsData(prev => ({ ...prev, gstState: value === "off" ? null : (value as IndianState) }))
+                }
+                disabled={updateSettingsMutation.isPending || settingsLoading}
+              >
+                <SelectTrigger id="gst-state" data-testid="select-gst-state">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="off">Not registered (no GST)</SelectItem>
+                  {indianStates.map((state) => (
+                    <SelectItem key={state} value={state}>
+                      {state}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-sm text-muted-foreground mt-1">
+                Orders delivered within this state are charged CGST and SGST; orders to other states are charged IGST.
+              </p>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div>
+                <Label htmlFor="prices-include-gst">Prices include GST</Label>
+                <p className="text-sm text-muted-foreground mt-1">
+                  When off, GST is added to product prices at checkout.
+                </p>
+              </div>
+              <Switch
+                id="prices-include-gst"
+                checked={settingsData.pricesIncludeGst ?? true}
+                onCheckedChange={(checked) => setSettingsData(prev => ({ ...prev, pricesIncludeGst: checked }))}
+                disabled={updateSettingsMutation.isPending || settingsLoading || !settingsData.gstState}
+                data-testid="switch-prices-include-gst"
+              />
+            </div>
             
             <Button 
               type="submit" 
@@ -187,13 +320,13 @@ export default function AdminHome() {
           <CardTitle>Recent Activity</CardTitle>
         </CardHeader>
         <CardContent>
-          {orders?.length === 0 && products?.length === 0 && categories?.length === 0 ? (
+          {orders?.length === 0 && allProducts?.total === 0 && categories?.length === 0 ? (
             <p className="text-muted-foreground text-center py-8" data-testid="text-no-activity">
               No recent activity. Start by adding some categories and products.
             </p>
           ) : (
             <div className="space-y-3">
-              {orders?.slice(0, 5).map((order, index) => (
+              {orders?.map((order, index) => (
                 <div key={order.id} className="flex items-center justify-between py-2 border-b border-border last:border-0" data-testid={`item-recent-order-${index}`}>
                   <div>
                     <p className="font-medium">New order from {order.customer.name}</p>
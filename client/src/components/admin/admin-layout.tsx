@@ -7,6 +7,8 @@ import {
   Package, 
   ShoppingCart, 
   Tags, 
+  CalendarClock,
+  Truck,
   LogOut,
   Menu 
 } from "lucide-react";
@@ -14,9 +16,11 @@ import { useAuth } from "@/hooks/use-auth";
 import ProductsManagement from "./products-management";
 import OrdersManagement from "./orders-management";
 import CategoriesManagement from "./categories-management";
+import ReservationsManagement from "./reservations-management";
+import DeliveryZonesManagement from "./delivery-zones-management";
 import AdminHome from "./admin-home";
 
-type AdminPage = "dashboard" | "products" | "orders" | "categories";
+type AdminPage = "dashboard" | "products" | "orders" | "reservations" | "categories" | "delivery";
 
 export default function AdminLayout() {
   const [currentPage, setCurrentPage] = useState<AdminPage>("dashboard");
@@ -30,8 +34,10 @@ export default function AdminLayout() {
   const navigation = [
     { id: "dashboard", label: "Dashboard", icon: Home },
     { id: "orders", label: "Orders", icon: ShoppingCart },
+    { id: "reservations", label: "Reservations", icon: CalendarClock },
     { id: "products", label: "Products", icon: Package },
     { id: "categories", label: "Categories", icon: Tags },
+    { id: "delivery", label: "Delivery", icon: Truck },
   ];
 
   const renderContent = () => {
@@ -42,8 +48,12 @@ export default function AdminLayout() {
         return <ProductsManagement />;
       case "orders":
         return <OrdersManagement />;
+      case "reservations":
+        return <ReservationsManagement />;
       case "categories":
         return <CategoriesManagement />;
+      case "delivery":
+        return <DeliveryZonesManagement />;
       default:
         return <AdminHome />;
     }
@@ -1,16 +1,35 @@
 import { useState } from "react";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Plus, Edit, Trash2, Loader2 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { useAppContext } from "@/context/app-context";
-import type { Category, InsertCategory } from "@shared/schema";
+import GstFields from "./gst-fields";
+import {
+  categoryPath,
+  categoryWithDescendants,
+  type Category,
+  type CategoryNode,
+  type CategoryDeletion,
+  type InsertCategory,
+} from "@shared/schema";
+
+// Depth first, so each category comes straight after its parent
+const flattenTree = (nodes: CategoryNode[], depth = 0): { category: CategoryNode; depth: number }[] =>
+  nodes.flatMap(node => [{ category: node, depth }, ...flattenTree(node.children, depth + 1)]);
+
+// Radix selects can't have an empty value
+const TOP_LEVEL = "none";
+
+type ProductAction = "reassign" | "archive";
 
 export default function CategoriesManagement() {
   const [isCreateOpen, setIsCreateOpen] = useState(false);
@@ -18,12 +37,39 @@ export default function CategoriesManagement() {
   const [categoryData, setCategoryData] = useState<InsertCategory>({
     name: "",
     description: "",
+    parentId: null,
+    hsnCode: null,
+    gstRatePercent: null,
   });
+  const [deletingCategory, setDeletingCategory] = useState<Category | null>(null);
+  const [productAction, setProductAction] = useState<ProductAction>("reassign");
+  const [reassignTo, setReassignTo] = useState("");
 
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const { categories } = useAppContext();
 
+  const { data: categoryTree } = useQuery<CategoryNode[]>({
+    queryKey: ["/api/categories", "tree"],
+  });
+
+  const pathName = (id: string) => categoryPath(categories ?? [], id).map(c => c.name).join(" › ");
+
+  // A category can't go under itself or anything below it
+  const excludedParents = editingCategory ? categoryWithDescendants(categories ?? [], editingCategory.id) : [];
+  const parentOptions = (categories ?? [])
+    .filter(category => !excludedParents.includes(category.id))
+    .map(category => ({ id: category.id, label: pathName(category.id) }))
+    .sort((a, b) => a.label.localeCompare(b.label));
+
+  // Products that would be left without a category, fetched when deletion is asked for
+  const { data: productCount, isLoading: isCountLoading } = useQuery<{ count: number }>({
+    queryKey: ["/api/admin/categories", deletingCategory?.id, "product-count"],
+    enabled: !!deletingCategory,
+  });
+  const affectedProducts = productCount?.count ?? 0;
+  const reassignOptions = parentOptions.filter(option => option.id !== deletingCategory?.id);
+
   const createCategoryMutation = useMutation({
     mutationFn: async (data: InsertCategory) => {
       const res = await apiRequest("POST", "/api/admin/categories", data);
@@ -55,13 +101,18 @@ export default function CategoriesManagement() {
   });
 
   const deleteCategoryMutation = useMutation({
-    mutationFn: async (id: string) => {
-      const res = await apiRequest("DELETE", `/api/admin/categories/${id}`);
+    mutationFn: async ({ id, deletion }: { id: string; deletion: CategoryDeletion }) => {
+      const params = new URLSearchParams();
+      if (deletion.reassignTo) params.set("reassignTo", deletion.reassignTo);
+      if (deletion.archiveProducts) params.set("archiveProducts", "true");
+      const res = await apiRequest("DELETE", `/api/admin/categories/${id}?${params}`);
       return res;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/categories"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
       toast({ title: "Category deleted successfully" });
+      setDeletingCategory(null);
     },
     onError: (error: Error) => {
       toast({ title: "Failed to delete category", description: error.message, variant: "destructive" });
@@ -70,7 +121,7 @@ export default function CategoriesManagement() {
 
   const handleCreate = () => {
     setEditingCategory(null);
-    setCategoryData({ name: "", description: "" });
+    setCategoryData({ name: "", description: "", parentId: null, hsnCode: null, gstRatePercent: null });
     setIsCreateOpen(true);
   };
 
@@ -79,6 +130,9 @@ export default function CategoriesManagement() {
     setCategoryData({
       name: category.name,
       description: category.description,
+      parentId: category.parentId,
+      hsnCode: category.hsnCode,
+      gstRatePercent: category.gstRatePercent,
     });
     setIsCreateOpen(true);
   };
@@ -86,7 +140,7 @@ export default function CategoriesManagement() {
   const handleCloseDialog = () => {
     setIsCreateOpen(false);
     setEditingCategory(null);
-    setCategoryData({ name: "", description: "" });
+    setCategoryData({ name: "", description: "", parentId: null, hsnCode: null, gstRatePercent: null });
   };
 
   const handleSubmit = (e: React.FormEvent) => {
@@ -99,12 +153,23 @@ export default function CategoriesManagement() {
     }
   };
 
-  const handleDelete = (id: string) => {
-    if (confirm("Are you sure you want to delete this category? This action cannot be undone.")) {
-      deleteCategoryMutation.mutate(id);
-    }
+  const handleDelete = (category: Category) => {
+    setDeletingCategory(category);
+    setProductAction("reassign");
+    setReassignTo("");
   };
 
+  const handleConfirmDelete = () => {
+    if (!deletingCategory) return;
+    const deletion: CategoryDeletion =
+      affectedProducts === 0 ? {}
+      : productAction === "archive" ? { archiveProducts: true }
+      : { reassignTo };
+    deleteCategoryMutation.mutate({ id: deletingCategory.id, deletion });
+  };
+
+  const canDelete = !isCountLoading && (affectedProducts === 0 || productAction === "archive" || !!reassignTo);
+
   const isLoading = createCategoryMutation.isPending || updateCategoryMutation.isPending;
 
   return (
@@ -143,6 +208,27 @@ export default function CategoriesManagement() {
                 />
               </div>
               
+              <div>
+                <Label htmlFor="category-parent">Parent category</Label>
+                <Select
+                  value={categoryData.parentId ?? TOP_LEVEL}
+                  onValueChange={(value) => setCategoryData(prev => ({ ...prev, parentId: value === TOP_LEVEL ? null : value }))}
+                  disabled={isLoading}
+                >
+                  <SelectTrigger id="category-parent" data-testid="select-category-parent">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={TOP_LEVEL}>None (top level)</SelectItem>
+                    {parentOptions.map((option) => (
+                      <SelectItem key={option.id} value={option.id}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
               <div>
                 <Label htmlFor="category-description">Description</Label>
                 <Textarea
@@ -155,6 +241,14 @@ export default function CategoriesManagement() {
                   data-testid="input-category-description"
                 />
               </div>
+
+              <GstFields
+                value={categoryData}
+                onChange={(gst) => setCategoryData(prev => ({ ...prev, ...gst }))}
+                disabled={isLoading}
+                idPrefix="category"
+                inheritLabel={categoryData.parentId ? "Parent category's" : "Not set (no GST)"}
+              />
               
               <div className="flex justify-end space-x-2 pt-4">
                 <Button type="button" variant="outline" onClick={handleCloseDialog} disabled={isLoading}>
@@ -176,19 +270,104 @@ export default function CategoriesManagement() {
         </Dialog>
       </div>
 
+      {/* Delete confirmation, saying what happens to the category's products */}
+      <Dialog open={!!deletingCategory} onOpenChange={(open) => !open && setDeletingCategory(null)}>
+        <DialogContent className="max-w-md forest-card">
+          <DialogHeader>
+            <DialogTitle>Delete {deletingCategory?.name}?</DialogTitle>
+            <DialogDescription>
+              Its subcategories will move to the top level. This action cannot be undone.
+            </DialogDescription>
+          </DialogHeader>
+
+          {isCountLoading ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : affectedProducts > 0 && (
+            <div className="space-y-4">
+              <p className="text-sm" data-testid="text-delete-category-products">
+                {affectedProducts === 1 ? "1 product is" : `${affectedProducts} products are`} in this category.
+                Choose what happens to {affectedProducts === 1 ? "it" : "them"}:
+              </p>
+              <RadioGroup
+                value={productAction}
+                onValueChange={(value) => setProductAction(value as ProductAction)}
+                disabled={deleteCategoryMutation.isPending}
+              >
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem value="reassign" id="delete-reassign" data-testid="radio-delete-reassign" />
+                  <Label htmlFor="delete-reassign">Move to another category</Label>
+                </div>
+                {productAction === "reassign" && (
+                  <Select value={reassignTo} onValueChange={setReassignTo} disabled={deleteCategoryMutation.isPending}>
+                    <SelectTrigger className="ml-6 w-auto" data-testid="select-reassign-category">
+                      <SelectValue placeholder="Select category" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {reassignOptions.map((option) => (
+                        <SelectItem key={option.id} value={option.id}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem value="archive" id="delete-archive" data-testid="radio-delete-archive" />
+                  <Label htmlFor="delete-archive">Archive the products, taking them off the store</Label>
+                </div>
+              </RadioGroup>
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-2 pt-4">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setDeletingCategory(null)}
+              disabled={deleteCategoryMutation.isPending}
+            >
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleConfirmDelete}
+              disabled={!canDelete || deleteCategoryMutation.isPending}
+              data-testid="button-confirm-delete-category"
+            >
+              {deleteCategoryMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Delete Category
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
       {/* Categories List */}
       <div className="space-y-4">
-        {categories?.map((category) => (
-          <Card key={category.id} className="forest-card">
+        {flattenTree(categoryTree ?? []).map(({ category, depth }) => (
+          <Card key={category.id} className="forest-card" style={{ marginLeft: `${depth * 1.5}rem` }}>
             <CardContent className="p-6">
               <div className="flex justify-between items-start">
                 <div className="flex-1">
                   <h3 className="font-semibold text-lg mb-2" data-testid={`text-category-name-${category.id}`}>
                     {category.name}
                   </h3>
+                  {category.parentId && (
+                    <p className="text-xs text-muted-foreground mb-1" data-testid={`text-category-parent-${category.id}`}>
+                      In {pathName(category.parentId)}
+                    </p>
+                  )}
                   <p className="text-muted-foreground text-sm" data-testid={`text-category-description-${category.id}`}>
                     {category.description || "No description provided"}
                   </p>
+                  {(category.hsnCode || category.gstRatePercent !== null) && (
+                    <p className="text-xs text-muted-foreground mt-2" data-testid={`text-category-gst-${category.id}`}>
+                      {category.hsnCode && `HSN ${category.hsnCode}`}
+                      {category.hsnCode && category.gstRatePercent !== null && " · "}
+                      {category.gstRatePercent !== null && `GST ${category.gstRatePercent}%`}
+                    </p>
+                  )}
                   <p className="text-xs text-muted-foreground mt-2">
                     Slug: <span className="font-mono" data-testid={`text-category-slug-${category.id}`}>{category.slug}</span>
                   </p>
@@ -206,7 +385,7 @@ export default function CategoriesManagement() {
                   <Button
                     variant="destructive"
                     size="sm"
-                    onClick={() => handleDelete(category.id)}
+                    onClick={() => handleDelete(category)}
                     disabled={deleteCategoryMutation.isPending}
                     data-testid={`button-delete-category-${category.id}`}
                   >
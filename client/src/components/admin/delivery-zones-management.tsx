@@ -0,0 +1,328 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Plus, Edit, Trash2, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { adminApi } from "@/api/admin.api";
+import type { DeliveryZone, InsertDeliveryZone } from "@shared/schema";
+
+// Fees are typed as text so a field can be left empty
+type ZoneForm = {
+  name: string;
+  // Separated by commas, spaces or new lines
+  pinPrefixes: string;
+  flatFeeINR: string;
+  perKgFeeINR: string;
+  freeAboveINR: string;
+  deliversPets: boolean;
+};
+
+const emptyForm: ZoneForm = {
+  name: "",
+  pinPrefixes: "",
+  flatFeeINR: "",
+  perKgFeeINR: "",
+  freeAboveINR: "",
+  deliversPets: false,
+};
+
+const toForm = (zone: DeliveryZone): ZoneForm => ({
+  name: zone.name,
+  pinPrefixes: zone.pinPrefixes.join(", "),
+  flatFeeINR: String(zone.flatFeeINR),
+  perKgFeeINR: String(zone.perKgFeeINR),
+  freeAboveINR: zone.freeAboveINR === null ? "" : String(zone.freeAboveINR),
+  deliversPets: zone.deliversPets,
+});
+
+const fromForm = (form: ZoneForm): InsertDeliveryZone => ({
+  name: form.name,
+  pinPrefixes: form.pinPrefixes.split(/[\s,]+/).filter(Boolean),
+  flatFeeINR: Number(form.flatFeeINR) || 0,
+  perKgFeeINR: Number(form.perKgFeeINR) || 0,
+  freeAboveINR: form.freeAboveINR ? Number(form.freeAboveINR) : null,
+  deliversPets: form.deliversPets,
+});
+
+export default function DeliveryZonesManagement() {
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingZone, setEditingZone] = useState<DeliveryZone | null>(null);
+  const [zoneData, setZoneData] = useState<ZoneForm>(emptyForm);
+
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: zones, isLoading: isZonesLoading } = useQuery({
+    queryKey: ["/api/admin/delivery-zones"],
+    queryFn: () => adminApi.getDeliveryZones(),
+  });
+
+  const formatPrice = (price: number) => {
+    return new Intl.NumberFormat('en-IN', {
+      style: 'currency',
+      currency: 'INR',
+      maximumFractionDigits: 0,
+    }).format(price);
+  };
+
+  const saveZoneMutation = useMutation({
+    mutationFn: ({ id, zone }: { id?: string; zone: InsertDeliveryZone }) =>
+      id ? adminApi.updateDeliveryZone(id, zone) : adminApi.createDeliveryZone(zone),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/delivery-zones"] });
+      toast({ title: editingZone ? "Delivery zone updated successfully" : "Delivery zone created successfully" });
+      handleCloseDialog();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to save delivery zone", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteZoneMutation = useMutation({
+    mutationFn: (id: string) => adminApi.deleteDeliveryZone(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/delivery-zones"] });
+      toast({ title: "Delivery zone deleted successfully" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to delete delivery zone", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleCreate = () => {
+    setEditingZone(null);
+    setZoneData(emptyForm);
+    setIsFormOpen(true);
+  };
+
+  const handleEdit = (zone: DeliveryZone) => {
+    setEditingZone(zone);
+    setZoneData(toForm(zone));
+    setIsFormOpen(true);
+  };
+
+  const handleCloseDialog = () => {
+    setIsFormOpen(false);
+    setEditingZone(null);
+    setZoneData(emptyForm);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveZoneMutation.mutate({ id: editingZone?.id, zone: fromForm(zoneData) });
+  };
+
+  const handleDelete = (zone: DeliveryZone) => {
+    if (confirm(`Delete ${zone.name}? Its PIN codes will no longer be delivered to.`)) {
+      deleteZoneMutation.mutate(zone.id);
+    }
+  };
+
+  const isLoading = saveZoneMutation.isPending;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-serif font-bold mb-2">Delivery Zones</h2>
+          <p className="text-muted-foreground">Where orders are delivered and what delivery costs</p>
+        </div>
+        <Dialog open={isFormOpen} onOpenChange={(open) => !open && handleCloseDialog()}>
+          <DialogTrigger asChild>
+            <Button onClick={handleCreate} data-testid="button-add-delivery-zone">
+              <Plus className="mr-2 h-4 w-4" />
+              Add Zone
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto forest-card">
+            <DialogHeader>
+              <DialogTitle>
+                {editingZone ? "Edit Delivery Zone" : "Create Delivery Zone"}
+              </DialogTitle>
+              <DialogDescription>
+                A PIN code belongs to the zone with the longest prefix it starts with.
+              </DialogDescription>
+            </DialogHeader>
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <Label htmlFor="zone-name">Name *</Label>
+                <Input
+                  id="zone-name"
+                  placeholder="e.g., Mumbai city"
+                  value={zoneData.name}
+                  onChange={(e) => setZoneData(prev => ({ ...prev, name: e.target.value }))}
+                  required
+                  disabled={isLoading}
+                  data-testid="input-zone-name"
+                />
+              </div>
+
+              <div>
+                <Label htmlFor="zone-pin-prefixes">PIN codes or prefixes *</Label>
+                <Textarea
+                  id="zone-pin-prefixes"
+                  placeholder="e.g., 400, 401101"
+                  value={zoneData.pinPrefixes}
+                  onChange={(e) => setZoneData(prev => ({ ...prev, pinPrefixes: e.target.value }))}
+                  required
+                  disabled={isLoading}
+                  className="h-20 font-mono"
+                  data-testid="input-zone-pin-prefixes"
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  Whole PIN codes, or their first digits to cover an area.
+                </p>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="zone-flat-fee">Flat fee (INR)</Label>
+                  <Input
+                    id="zone-flat-fee"
+                    type="number"
+                    min="0"
+                    step="1"
+                    placeholder="0"
+                    value={zoneData.flatFeeINR}
+                    onChange={(e) => setZoneData(prev => ({ ...prev, flatFeeINR: e.target.value }))}
+                    disabled={isLoading}
+                    data-testid="input-zone-flat-fee"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="zone-per-kg-fee">Per kg (INR)</Label>
+                  <Input
+                    id="zone-per-kg-fee"
+                    type="number"
+                    min="0"
+                    step="1"
+                    placeholder="0"
+                    value={zoneData.perKgFeeINR}
+                    onChange={(e) => setZoneData(prev => ({ ...prev, perKgFeeINR: e.target.value }))}
+                    disabled={isLoading}
+                    data-testid="input-zone-per-kg-fee"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <Label htmlFor="zone-free-above">Free delivery from (INR)</Label>
+                <Input
+                  id="zone-free-above"
+                  type="number"
+                  min="1"
+                  step="1"
+                  placeholder="Never free"
+                  value={zoneData.freeAboveINR}
+                  onChange={(e) => setZoneData(prev => ({ ...prev, freeAboveINR: e.target.value }))}
+                  disabled={isLoading}
+                  data-testid="input-zone-free-above"
+                />
+              </div>
+
+              <div className="flex items-center justify-between">
+                <Label htmlFor="zone-delivers-pets">Delivers pets</Label>
+                <Switch
+                  id="zone-delivers-pets"
+                  checked={zoneData.deliversPets}
+                  onCheckedChange={(checked) => setZoneData(prev => ({ ...prev, deliversPets: checked }))}
+                  disabled={isLoading}
+                  data-testid="switch-zone-delivers-pets"
+                />
+              </div>
+
+              <div className="flex justify-end space-x-2 pt-4">
+                <Button type="button" variant="outline" onClick={handleCloseDialog} disabled={isLoading}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={isLoading} data-testid="button-save-delivery-zone">
+                  {isLoading ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      {editingZone ? "Updating..." : "Creating..."}
+                    </>
+                  ) : (
+                    editingZone ? "Update Zone" : "Create Zone"
+                  )}
+                </Button>
+              </div>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {/* Zones List */}
+      <div className="space-y-4">
+        {isZonesLoading && (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        )}
+
+        {zones?.map((zone) => (
+          <Card key={zone.id} className="forest-card">
+            <CardContent className="p-6">
+              <div className="flex justify-between items-start">
+                <div className="flex-1 space-y-2">
+                  <div className="flex items-center gap-2">
+                    <h3 className="font-semibold text-lg" data-testid={`text-zone-name-${zone.id}`}>
+                      {zone.name}
+                    </h3>
+                    {zone.deliversPets && <Badge variant="secondary">Delivers pets</Badge>}
+                  </div>
+                  <p className="text-sm font-mono text-muted-foreground" data-testid={`text-zone-prefixes-${zone.id}`}>
+                    {zone.pinPrefixes.join(", ")}
+                  </p>
+                  <p className="text-sm" data-testid={`text-zone-fees-${zone.id}`}>
+                    {formatPrice(zone.flatFeeINR)}
+                    {zone.perKgFeeINR > 0 && ` + ${formatPrice(zone.perKgFeeINR)} per kg`}
+                    {zone.freeAboveINR !== null && ` · free from ${formatPrice(zone.freeAboveINR)}`}
+                  </p>
+                </div>
+                <div className="flex space-x-2 ml-4">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleEdit(zone)}
+                    data-testid={`button-edit-zone-${zone.id}`}
+                  >
+                    <Edit className="h-4 w-4 mr-1" />
+                    Edit
+                  </Button>
+                  <Button
+                    variant="destructive"
+                    size="sm"
+                    onClick={() => handleDelete(zone)}
+                    disabled={deleteZoneMutation.isPending}
+                    data-testid={`button-delete-zone-${zone.id}`}
+                  >
+                    <Trash2 className="h-4 w-4 mr-1" />
+                    Delete
+                  </Button>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+
+        {zones?.length === 0 && (
+          <Card className="forest-card">
+            <CardContent className="p-12 text-center" data-testid="text-no-delivery-zones">
+              <p className="text-muted-foreground text-lg">
+                No delivery zones yet, so every PIN code is delivered to for free. Add a zone to start charging for delivery.
+              </p>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
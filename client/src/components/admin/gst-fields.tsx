@@ -0,0 +1,65 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { gstRates } from "@shared/schema";
+
+type GstValue = {
+  hsnCode?: string | null;
+  gstRatePercent?: number | null;
+};
+
+interface GstFieldsProps {
+  value: GstValue;
+  // Called with just the field that changed
+  onChange: (change: GstValue) => void;
+  disabled?: boolean;
+  // Keeps ids and test ids apart between the product and category forms
+  idPrefix: string;
+  // Shown for an empty field, saying what it falls back to
+  inheritLabel: string;
+}
+
+// Radix selects can't have an empty value
+const INHERIT = "inherit";
+
+export default function GstFields({ value, onChange, disabled, idPrefix, inheritLabel }: GstFieldsProps) {
+  return (
+    <div className="grid grid-cols-2 gap-4">
+      <div>
+        <Label htmlFor={`${idPrefix}-hsn-code`}>HSN Code</Label>
+        <Input
+          id={`${idPrefix}-hsn-code`}
+          inputMode="numeric"
+          maxLength={8}
+          pattern="\d{4}|\d{6}|\d{8}"
+          title="4, 6 or 8 digits"
+          placeholder={inheritLabel}
+          value={value.hsnCode ?? ""}
+          onChange={(e) => onChange({ hsnCode: e.target.value || null })}
+          disabled={disabled}
+          data-testid={`input-${idPrefix}-hsn-code`}
+        />
+      </div>
+      <div>
+        <Label htmlFor={`${idPrefix}-gst-rate`}>GST Rate</Label>
+        <Select
+          value={value.gstRatePercent == null ? INHERIT : String(value.gstRatePercent)}
+          onValueChange={(rate) => onChange({ gstRatePercent: rate === INHERIT ? null : Number(rate) })}
+          disabled={disabled}
+        >
+          <SelectTrigger id={`${idPrefix}-gst-rate`} data-testid={`select-${idPrefix}-gst-rate`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={INHERIT}>{inheritLabel}</SelectItem>
+            {gstRates.map((rate) => (
+              <SelectItem key={rate} value={String(rate)}>
+                {rate}%
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,189 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { GripVertical, Loader2, Star, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { productsApi } from "@/api/products.api";
+import ResponsiveImage from "@/components/responsive-image";
+import type { Product, ProductImage } from "@shared/schema";
+
+interface ImageGalleryProps {
+  product: Product;
+  onChange: (product: Product) => void;
+  disabled?: boolean;
+}
+
+// Edits a saved product's images directly: every change is sent as it's made
+export default function ImageGallery({ product, onChange, disabled }: ImageGalleryProps) {
+  const [altText, setAltText] = useState<Record<string, string>>({});
+  const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
+
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Drafts are replaced by what the server saved
+  useEffect(() => {
+    setAltText(Object.fromEntries(product.images.map(image => [image.src, image.alt])));
+  }, [product.images]);
+
+  const handleSuccess = (updated: Product) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+    onChange(updated);
+  };
+
+  const handleError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const uploadMutation = useMutation({
+    mutationFn: (files: FileList) => productsApi.addImages(product.id, files),
+    onSuccess: (updated: Product) => {
+      handleSuccess(updated);
+      toast({ title: "Images added" });
+    },
+    onError: handleError("Failed to upload images"),
+  });
+
+  const arrangeMutation = useMutation({
+    mutationFn: (images: ProductImage[]) =>
+      productsApi.arrangeImages(product.id, {
+        images: images.map(image => ({ src: image.src, alt: altText[image.src] ?? image.alt })),
+      }),
+    onSuccess: handleSuccess,
+    onError: handleError("Failed to update images"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (src: string) => productsApi.deleteImage(product.id, src),
+    onSuccess: (updated: Product) => {
+      handleSuccess(updated);
+      toast({ title: "Image deleted" });
+    },
+    onError: handleError("Failed to delete image"),
+  });
+
+  const isBusy = disabled || uploadMutation.isPending || arrangeMutation.isPending || deleteMutation.isPending;
+
+  const moveImage = (from: number, to: number) => {
+    if (from === to) return;
+    const images = [...product.images];
+    const [moved] = images.splice(from, 1);
+    images.splice(to, 0, moved);
+    arrangeMutation.mutate(images);
+  };
+
+  const handleDrop = (index: number) => {
+    if (draggedIndex !== null) moveImage(draggedIndex, index);
+    setDraggedIndex(null);
+  };
+
+  const handleAltBlur = (image: ProductImage) => {
+    if ((altText[image.src] ?? "") !== image.alt) {
+      arrangeMutation.mutate(product.images);
+    }
+  };
+
+  const handleDelete = (src: string) => {
+    if (confirm("Delete this image? Variants shown with it will use the cover instead.")) {
+      deleteMutation.mutate(src);
+    }
+  };
+
+  const handleFilesSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files?.length) uploadMutation.mutate(e.target.files);
+    e.target.value = "";
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between items-center">
+        <Label>Images</Label>
+        {isBusy && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+      </div>
+
+      {product.images.length === 0 ? (
+        <p className="text-sm text-muted-foreground" data-testid="text-no-images">
+          No images yet.
+        </p>
+      ) : (
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+          {product.images.map((image, index) => (
+            <div
+              key={image.src}
+              draggable={!isBusy}
+              onDragStart={() => setDraggedIndex(index)}
+              onDragOver={(e) => e.preventDefault()}
+              onDrop={() => handleDrop(index)}
+              onDragEnd={() => setDraggedIndex(null)}
+              className={`relative rounded-lg border border-border p-2 space-y-2 ${draggedIndex === index ? "opacity-50" : ""}`}
+              data-testid={`card-gallery-image-${index}`}
+            >
+              <div className="relative">
+                <ResponsiveImage
+                  image={image}
+                  sizes="200px"
+                  alt={image.alt || product.name}
+                  className="w-full h-24 object-cover rounded-md"
+                />
+                <GripVertical className="absolute top-1 left-1 h-4 w-4 text-white drop-shadow cursor-grab" />
+                {index === 0 && (
+                  <Badge className="absolute top-1 right-1" data-testid="badge-cover-image">Cover</Badge>
+                )}
+              </div>
+              <Input
+                type="text"
+                placeholder="Alt text"
+                maxLength={200}
+                value={altText[image.src] ?? ""}
+                onChange={(e) => setAltText(prev => ({ ...prev, [image.src]: e.target.value }))}
+                onBlur={() => handleAltBlur(image)}
+                disabled={isBusy}
+                className="h-8 text-sm"
+                data-testid={`input-image-alt-${index}`}
+              />
+              <div className="flex justify-between">
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => moveImage(index, 0)}
+                  disabled={isBusy || index === 0}
+                  data-testid={`button-set-cover-${index}`}
+                >
+                  <Star className="h-4 w-4 mr-1" />
+                  Cover
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleDelete(image.src)}
+                  disabled={isBusy}
+                  data-testid={`button-delete-image-${index}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Input
+        id="product-gallery-upload"
+        type="file"
+        multiple
+        accept="image/*"
+        onChange={handleFilesSelected}
+        disabled={isBusy}
+        data-testid="input-gallery-upload"
+      />
+      <p className="text-sm text-muted-foreground">
+        Add up to 5 images at a time. Drag images to reorder them; the first is the cover.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+import { useState } from "react";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationItem,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import type { Page } from "@shared/schema";
+
+// A cursor only leads to the page after it, so the cursors of the pages
+// already visited are kept to go back. Changing resetKey (e.g. the filters)
+// starts again from the first page.
+export function useCursorPages(resetKey: string) {
+  const [state, setState] = useState<{ resetKey: string; cursors: string[] }>({ resetKey, cursors: [] });
+  const cursors = state.resetKey === resetKey ? state.cursors : [];
+
+  return {
+    cursor: cursors[cursors.length - 1] as string | undefined,
+    pageNumber: cursors.length + 1,
+    next: (cursor: string) => setState({ resetKey, cursors: [...cursors, cursor] }),
+    previous: () => setState({ resetKey, cursors: cursors.slice(0, -1) }),
+  };
+}
+
+interface ListPaginationProps {
+  page: Page<unknown> | undefined;
+  pageNumber: number;
+  pageSize: number;
+  onPrevious: () => void;
+  onNext: (cursor: string) => void;
+  testId: string;
+}
+
+export default function ListPagination({ page, pageNumber, pageSize, onPrevious, onNext, testId }: ListPaginationProps) {
+  if (!page || (pageNumber === 1 && !page.nextCursor)) return null;
+
+  const first = (pageNumber - 1) * pageSize + 1;
+  const hasPrevious = pageNumber > 1;
+  const nextCursor = page.nextCursor;
+
+  return (
+    <div className="flex flex-col sm:flex-row items-center justify-between gap-2">
+      <p className="text-sm text-muted-foreground" data-testid={`text-${testId}-range`}>
+        Showing {first}–{first + page.items.length - 1} of {page.total}
+      </p>
+      <Pagination className="mx-0 w-auto">
+        <PaginationContent>
+          <PaginationItem>
+            <PaginationPrevious
+              href="#"
+              onClick={(e) => {
+                e.preventDefault();
+                if (hasPrevious) onPrevious();
+              }}
+              aria-disabled={!hasPrevious}
+              className={hasPrevious ? "" : "pointer-events-none opacity-50"}
+              data-testid={`button-${testId}-previous`}
+            />
+          </PaginationItem>
+          <PaginationItem>
+            <span className="px-2 text-sm" data-testid={`text-${testId}-page`}>
+              Page {pageNumber} of {Math.max(1, Math.ceil(page.total / pageSize))}
+            </span>
+          </PaginationItem>
+          <PaginationItem>
+            <PaginationNext
+              href="#"
+              onClick={(e) => {
+                e.preventDefault();
+                if (nextCursor) onNext(nextCursor);
+              }}
+              aria-disabled={!nextCursor}
+              className={nextCursor ? "" : "pointer-events-none opacity-50"}
+              data-testid={`button-${testId}-next`}
+            />
+          </PaginationItem>
+        </PaginationContent>
+      </Pagination>
+    </div>
+  );
+}
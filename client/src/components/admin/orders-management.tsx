@@ -1,33 +1,98 @@
-import { useState } from "react";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
-import { Eye, Loader2 } from "lucide-react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Eye, FileText, Loader2, Package } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import type { Order } from "@shared/schema";
+import { ordersApi, type OrderListParams } from "@/api/orders.api";
+import ListPagination, { useCursorPages } from "@/components/admin/list-pagination";
+import { formatAddress, MAX_PRINT_BATCH, orderStatusTransitions, type ListSort, type Order, type OrderStatus, type PrintFormat } from "@shared/schema";
+
+const PAGE_SIZE = 25;
+
+const sortLabels: Record<ListSort, string> = {
+  newest: "Newest first",
+  price: "Total: low to high",
+  name: "Customer (A–Z)",
+};
+
+const statusLabels: Record<OrderStatus, string> = {
+  pending: "Pending",
+  confirmed: "Confirmed",
+  packed: "Packed",
+  out_for_delivery: "Out for Delivery",
+  delivered: "Delivered",
+  cancelled: "Cancelled",
+  returned: "Returned",
+  refunded: "Refunded",
+};
+
+// Print pages open in a new tab, where the browser can print or save them
+const invoiceUrl = (ids: string[], format: PrintFormat) =>
+  ids.length === 1
+    ? `/api/admin/orders/${ids[0]}/invoice?format=${format}`
+    : `/api/admin/orders/invoices?ids=${ids.join(",")}&format=${format}`;
+
+const packingSlipUrl = (ids: string[], format: PrintFormat) =>
+  ids.length === 1
+    ? `/api/admin/orders/${ids[0]}/packing-slip?format=${format}`
+    : `/api/admin/orders/packing-slips?ids=${ids.join(",")}&format=${format}`;
+
+// Orders called off before they were invoiced can't be given an invoice
+const canInvoice = (order: Order) =>
+  Boolean(order.invoiceNumber) || (order.status !== "cancelled" && order.status !== "refunded");
 
 export default function OrdersManagement() {
   const [selectedOrder, setSelectedOrder] = useState<Order | null>(null);
   const [isDetailOpen, setIsDetailOpen] = useState(false);
+  const [sort, setSort] = useState<ListSort>("newest");
+  const [totalInput, setTotalInput] = useState({ min: "", max: "" });
+  const [totalRange, setTotalRange] = useState(totalInput);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
 
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
-  const { data: orders, isLoading } = useQuery<Order[]>({
-    queryKey: ["/api/admin/orders"],
+  // Filter once typing pauses
+  useEffect(() => {
+    const timeout = setTimeout(() => setTotalRange(totalInput), 300);
+    return () => clearTimeout(timeout);
+  }, [totalInput]);
+
+  const filters: OrderListParams = {
+    sort,
+    minPrice: totalRange.min ? Number(totalRange.min) : undefined,
+    maxPrice: totalRange.max ? Number(totalRange.max) : undefined,
+  };
+  const pages = useCursorPages(JSON.stringify(filters));
+
+  const { data: orderPage, isLoading, error } = useQuery({
+    queryKey: ["/api/admin/orders", { ...filters, cursor: pages.cursor }],
+    queryFn: () => ordersApi.getOrders({ ...filters, cursor: pages.cursor, limit: PAGE_SIZE }),
+    placeholderData: keepPreviousData,
   });
+  const orders = orderPage?.items;
+
+  // Keep the open order current, e.g. once printing gives it an invoice number
+  useEffect(() => {
+    setSelectedOrder((current) => orders?.find((order) => order.id === current?.id) ?? current);
+  }, [orders]);
 
   const updateStatusMutation = useMutation({
-    mutationFn: async ({ id, status }: { id: string; status: string }) => {
+    mutationFn: async ({ id, status }: { id: string; status: OrderStatus }) => {
       const res = await apiRequest("PUT", `/api/admin/orders/${id}/status`, { status });
       return res.json();
     },
-    onSuccess: () => {
+    onSuccess: (order: Order) => {
       queryClient.invalidateQueries({ queryKey: ["/api/admin/orders"] });
+      setSelectedOrder((current) => (current?.id === order.id ? order : current));
       toast({ title: "Order status updated successfully" });
     },
     onError: (error: Error) => {
@@ -43,6 +108,15 @@ export default function OrdersManagement() {
     }).format(price);
   };
 
+  // Tax is worked out to the paisa
+  const formatTax = (amount: number) => {
+    return new Intl.NumberFormat('en-IN', {
+      style: 'currency',
+      currency: 'INR',
+      minimumFractionDigits: 2,
+    }).format(amount);
+  };
+
   const formatDate = (date: string | Date) => {
     return new Date(date).toLocaleDateString('en-IN', {
       year: 'numeric',
@@ -53,13 +127,18 @@ export default function OrdersManagement() {
     });
   };
 
-  const getStatusColor = (status: string) => {
+  const getStatusColor = (status: OrderStatus) => {
     switch (status) {
       case "pending":
         return "bg-yellow-500/20 text-yellow-400";
-      case "completed":
+      case "confirmed":
+      case "packed":
+      case "out_for_delivery":
+        return "bg-blue-500/20 text-blue-400";
+      case "delivered":
         return "bg-green-500/20 text-green-400";
       case "cancelled":
+      case "returned":
         return "bg-red-500/20 text-red-400";
       default:
         return "bg-gray-500/20 text-gray-400";
@@ -71,10 +150,27 @@ export default function OrdersManagement() {
     setIsDetailOpen(true);
   };
 
-  const handleStatusUpdate = (orderId: string, newStatus: string) => {
+  const handleStatusUpdate = (orderId: string, newStatus: OrderStatus) => {
     updateStatusMutation.mutate({ id: orderId, status: newStatus });
   };
 
+  const toggleSelected = (orderId: string, checked: boolean) => {
+    setSelectedIds((current) =>
+      checked ? [...current, orderId] : current.filter((id) => id !== orderId)
+    );
+  };
+
+  const pageIds = orders?.map((order) => order.id) ?? [];
+  const isPageSelected = pageIds.length > 0 && pageIds.every((id) => selectedIds.includes(id));
+  const togglePageSelected = (checked: boolean) => {
+    setSelectedIds((current) =>
+      checked
+        ? [...current, ...pageIds.filter((id) => !current.includes(id))]
+        : current.filter((id) => !pageIds.includes(id))
+    );
+  };
+  const isBatchTooLarge = selectedIds.length > MAX_PRINT_BATCH;
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center py-12">
@@ -91,11 +187,111 @@ export default function OrdersManagement() {
       </div>
 
       <Card className="forest-card">
-        <CardHeader>
+        <CardHeader className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 space-y-0">
           <CardTitle>All Orders</CardTitle>
+          <div className="flex flex-wrap items-end gap-2">
+            <div>
+              <Label htmlFor="order-min-total" className="text-xs text-muted-foreground">Min total (₹)</Label>
+              <Input
+                id="order-min-total"
+                type="number"
+                min="0"
+                value={totalInput.min}
+                onChange={(e) => setTotalInput(prev => ({ ...prev, min: e.target.value }))}
+                className="w-28"
+                data-testid="input-order-min-total"
+              />
+            </div>
+            <div>
+              <Label htmlFor="order-max-total" className="text-xs text-muted-foreground">Max total (₹)</Label>
+              <Input
+                id="order-max-total"
+                type="number"
+                min="0"
+                value={totalInput.max}
+                onChange={(e) => setTotalInput(prev => ({ ...prev, max: e.target.value }))}
+                className="w-28"
+                data-testid="input-order-max-total"
+              />
+            </div>
+            <Select value={sort} onValueChange={(value) => setSort(value as ListSort)}>
+              <SelectTrigger className="w-48" aria-label="Sort orders" data-testid="select-order-sort">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(sortLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
         </CardHeader>
-        <CardContent>
-          {orders?.length === 0 ? (
+        <CardContent className="space-y-4">
+          {selectedIds.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2" data-testid="toolbar-order-selection">
+              <span className="text-sm text-muted-foreground mr-2" data-testid="text-selected-orders">
+                {selectedIds.length} selected
+              </span>
+              {isBatchTooLarge ? (
+                <span className="text-sm text-destructive" data-testid="text-print-batch-too-large">
+                  Select at most {MAX_PRINT_BATCH} orders to print
+                </span>
+              ) : (
+                <>
+                  <Button variant="outline" size="sm" asChild>
+                    <a
+                      href={invoiceUrl(selectedIds, "html")}
+                      target="_blank"
+                      rel="noopener"
+                      data-testid="button-print-invoices"
+                    >
+                      <FileText className="h-4 w-4 mr-1" />
+                      Invoices
+                    </a>
+                  </Button>
+                  <Button variant="outline" size="sm" asChild>
+                    <a
+                      href={invoiceUrl(selectedIds, "pdf")}
+                      target="_blank"
+                      rel="noopener"
+                      data-testid="button-download-invoices"
+                    >
+                      Invoices PDF
+                    </a>
+                  </Button>
+                  <Button variant="outline" size="sm" asChild>
+                    <a
+                      href={packingSlipUrl(selectedIds, "html")}
+                      target="_blank"
+                      rel="noopener"
+                      data-testid="button-print-packing-slips"
+                    >
+                      <Package className="h-4 w-4 mr-1" />
+                      Packing slips
+                    </a>
+                  </Button>
+                  <Button variant="outline" size="sm" asChild>
+                    <a
+                      href={packingSlipUrl(selectedIds, "pdf")}
+                      target="_blank"
+                      rel="noopener"
+                      data-testid="button-download-packing-slips"
+                    >
+                      Packing slips PDF
+                    </a>
+                  </Button>
+                </>
+              )}
+              <Button variant="ghost" size="sm" onClick={() => setSelectedIds([])} data-testid="button-clear-selection">
+                Clear
+              </Button>
+            </div>
+          )}
+          {error ? (
+            <div className="text-center py-8" data-testid="text-orders-error">
+              <p className="text-red-400">{error.message}</p>
+            </div>
+          ) : orders?.length === 0 ? (
             <div className="text-center py-8" data-testid="text-no-orders">
               <p className="text-muted-foreground">No orders found.</p>
             </div>
@@ -104,6 +300,14 @@ export default function OrdersManagement() {
               <table className="w-full">
                 <thead>
                   <tr className="border-b border-border">
+                    <th className="py-3 px-4 w-10">
+                      <Checkbox
+                        checked={isPageSelected}
+                        onCheckedChange={(checked) => togglePageSelected(checked === true)}
+                        aria-label="Select all orders on this page"
+                        data-testid="checkbox-select-page-orders"
+                      />
+                    </th>
                     <th className="text-left py-3 px-4">Order ID</th>
                     <th className="text-left py-3 px-4">Customer</th>
                     <th className="text-left py-3 px-4">Total</th>
@@ -115,6 +319,14 @@ export default function OrdersManagement() {
                 <tbody>
                   {orders?.map((order) => (
                     <tr key={order.id} className="border-b border-border" data-testid={`row-order-${order.id}`}>
+                      <td className="py-3 px-4">
+                        <Checkbox
+                          checked={selectedIds.includes(order.id)}
+                          onCheckedChange={(checked) => toggleSelected(order.id, checked === true)}
+                          aria-label={`Select order #${order.id.slice(-8)}`}
+                          data-testid={`checkbox-select-order-${order.id}`}
+                        />
+                      </td>
                       <td className="py-3 px-4" data-testid={`text-order-id-${order.id}`}>
                         #{order.id.slice(-8)}
                       </td>
@@ -126,7 +338,7 @@ export default function OrdersManagement() {
                       </td>
                       <td className="py-3 px-4">
                         <Badge className={getStatusColor(order.status)} data-testid={`badge-order-status-${order.id}`}>
-                          {order.status.charAt(0).toUpperCase() + order.status.slice(1)}
+                          {statusLabels[order.status]}
                         </Badge>
                       </td>
                       <td className="py-3 px-4" data-testid={`text-order-date-${order.id}`}>
@@ -145,16 +357,22 @@ export default function OrdersManagement() {
                           </Button>
                           <Select
                             value={order.status}
-                            onValueChange={(value) => handleStatusUpdate(order.id, value)}
-                            disabled={updateStatusMutation.isPending}
+                            onValueChange={(value) => handleStatusUpdate(order.id, value as OrderStatus)}
+                            disabled={
+                              updateStatusMutation.isPending ||
+                              orderStatusTransitions[order.status].length === 0
+                            }
                           >
-                            <SelectTrigger className="w-32" data-testid={`select-status-${order.id}`}>
+                            <SelectTrigger className="w-40" data-testid={`select-status-${order.id}`}>
                               <SelectValue />
                             </SelectTrigger>
                             <SelectContent>
-                              <SelectItem value="pending">Pending</SelectItem>
-                              <SelectItem value="completed">Completed</SelectItem>
-                              <SelectItem value="cancelled">Cancelled</SelectItem>
+                              {/* Only the current status and the steps the lifecycle allows from it */}
+                              {[order.status, ...orderStatusTransitions[order.status]].map((status) => (
+                                <SelectItem key={status} value={status} disabled={status === order.status}>
+                                  {statusLabels[status]}
+                                </SelectItem>
+                              ))}
                             </SelectContent>
                           </Select>
                         </div>
@@ -165,6 +383,14 @@ export default function OrdersManagement() {
               </table>
             </div>
           )}
+          <ListPagination
+            page={orderPage}
+            pageNumber={pages.pageNumber}
+            pageSize={PAGE_SIZE}
+            onPrevious={pages.previous}
+            onNext={pages.next}
+            testId="orders"
+          />
         </CardContent>
       </Card>
 
@@ -198,7 +424,7 @@ export default function OrdersManagement() {
                     )}
                     <div className="md:col-span-2">
                       <span className="font-medium">Address:</span>
-                      <span className="ml-2" data-testid="text-detail-customer-address">{selectedOrder.customer.address}</span>
+                      <span className="ml-2" data-testid="text-detail-customer-address">{formatAddress(selectedOrder.customer.address)}</span>
                     </div>
                   </div>
                 </div>
@@ -212,9 +438,20 @@ export default function OrdersManagement() {
                         <div className="flex justify-between items-start">
                           <div>
                             <h4 className="font-medium" data-testid={`text-product-name-${index}`}>{product.name}</h4>
+                            {product.variantName && (
+                              <p className="text-sm text-muted-foreground" data-testid={`text-product-variant-${index}`}>
+                                {product.variantName}
+                              </p>
+                            )}
                             <p className="text-sm text-muted-foreground">
                               Quantity: <span data-testid={`text-product-quantity-${index}`}>{product.quantity}</span>
                             </p>
+                            {selectedOrder.gst?.lines[index] && (
+                              <p className="text-xs text-muted-foreground" data-testid={`text-product-gst-${index}`}>
+                                {selectedOrder.gst.lines[index].hsnCode && `HSN ${selectedOrder.gst.lines[index].hsnCode} · `}
+                                GST {selectedOrder.gst.lines[index].ratePercent}%: {formatTax(selectedOrder.gst.lines[index].taxINR)}
+                              </p>
+                            )}
                           </div>
                           <div className="text-right">
                             <p className="font-medium" data-testid={`text-product-total-${index}`}>
@@ -232,12 +469,67 @@ export default function OrdersManagement() {
 
                 {/* Order Summary */}
                 <div className="border-t border-border pt-4">
+                  <div className="flex justify-between items-center text-sm">
+                    <span>Subtotal:</span>
+                    <span data-testid="text-detail-subtotal">{formatPrice(selectedOrder.subtotalINR)}</span>
+                  </div>
+                  {selectedOrder.gst && (
+                    <div className="text-sm text-muted-foreground" data-testid="section-detail-gst">
+                      <div className="flex justify-between items-center">
+                        <span>
+                          Taxable value ({selectedOrder.gst.pricesIncludeGst ? "prices include GST" : "GST added"}):
+                        </span>
+                        <span data-testid="text-detail-taxable-value">{formatTax(selectedOrder.gst.taxableValueINR)}</span>
+                      </div>
+                      {selectedOrder.gst.delivery && (
+                        <div className="flex justify-between items-center">
+                          <span>GST on delivery ({selectedOrder.gst.delivery.ratePercent}%):</span>
+                          <span data-testid="text-detail-delivery-gst">{formatTax(selectedOrder.gst.delivery.taxINR)}</span>
+                        </div>
+                      )}
+                      {selectedOrder.gst.interState ? (
+                        <div className="flex justify-between items-center">
+                          <span>IGST:</span>
+                          <span data-testid="text-detail-igst">{formatTax(selectedOrder.gst.igstINR)}</span>
+                        </div>
+                      ) : (
+                        <>
+                          <div className="flex justify-between items-center">
+                            <span>CGST:</span>
+                            <span data-testid="text-detail-cgst">{formatTax(selectedOrder.gst.cgstINR)}</span>
+                          </div>
+                          <div className="flex justify-between items-center">
+                            <span>SGST:</span>
+                            <span data-testid="text-detail-sgst">{formatTax(selectedOrder.gst.sgstINR)}</span>
+                          </div>
+                        </>
+                      )}
+                      {selectedOrder.gst.roundOffINR !== 0 && (
+                        <div className="flex justify-between items-center">
+                          <span>Round off:</span>
+                          <span data-testid="text-detail-round-off">{formatTax(selectedOrder.gst.roundOffINR)}</span>
+                        </div>
+                      )}
+                    </div>
+                  )}
+                  <div className="flex justify-between items-center text-sm mb-2">
+                    <span>Delivery{selectedOrder.deliveryZone && ` (${selectedOrder.deliveryZone})`}:</span>
+                    <span data-testid="text-detail-delivery-fee">
+                      {selectedOrder.deliveryFeeINR > 0 ? formatPrice(selectedOrder.deliveryFeeINR) : "Free"}
+                    </span>
+                  </div>
                   <div className="flex justify-between items-center text-lg font-semibold">
                     <span>Total Amount:</span>
                     <span className="text-accent" data-testid="text-detail-total">
                       {formatPrice(selectedOrder.totalAmountINR)}
                     </span>
                   </div>
+                  {selectedOrder.invoiceNumber && (
+                    <div className="flex justify-between items-center text-sm text-muted-foreground mt-2">
+                      <span>Invoice:</span>
+                      <span data-testid="text-detail-invoice-number">{selectedOrder.invoiceNumber}</span>
+                    </div>
+                  )}
                   <div className="flex justify-between items-center text-sm text-muted-foreground mt-2">
                     <span>Order Date:</span>
                     <span data-testid="text-detail-date">{formatDate(selectedOrder.createdAt)}</span>
@@ -245,10 +537,78 @@ export default function OrdersManagement() {
                   <div className="flex justify-between items-center text-sm mt-1">
                     <span>Status:</span>
                     <Badge className={getStatusColor(selectedOrder.status)} data-testid="badge-detail-status">
-                      {selectedOrder.status.charAt(0).toUpperCase() + selectedOrder.status.slice(1)}
+                      {statusLabels[selectedOrder.status]}
                     </Badge>
                   </div>
                 </div>
+
+                {/* Printing */}
+                <div className="flex flex-wrap gap-2 border-t border-border pt-4" data-testid="section-detail-print">
+                  {canInvoice(selectedOrder) && (
+                    <>
+                      <Button variant="outline" size="sm" asChild>
+                        <a
+                          href={invoiceUrl([selectedOrder.id], "html")}
+                          target="_blank"
+                          rel="noopener"
+                          data-testid="button-print-invoice"
+                        >
+                          <FileText className="h-4 w-4 mr-1" />
+                          Invoice
+                        </a>
+                      </Button>
+                      <Button variant="outline" size="sm" asChild>
+                        <a
+                          href={invoiceUrl([selectedOrder.id], "pdf")}
+                          target="_blank"
+                          rel="noopener"
+                          data-testid="button-download-invoice"
+                        >
+                          Invoice PDF
+                        </a>
+                      </Button>
+                    </>
+                  )}
+                  <Button variant="outline" size="sm" asChild>
+                    <a
+                      href={packingSlipUrl([selectedOrder.id], "html")}
+                      target="_blank"
+                      rel="noopener"
+                      data-testid="button-print-packing-slip"
+                    >
+                      <Package className="h-4 w-4 mr-1" />
+                      Packing slip
+                    </a>
+                  </Button>
+                  <Button variant="outline" size="sm" asChild>
+                    <a
+                      href={packingSlipUrl([selectedOrder.id], "pdf")}
+                      target="_blank"
+                      rel="noopener"
+                      data-testid="button-download-packing-slip"
+                    >
+                      Packing slip PDF
+                    </a>
+                  </Button>
+                </div>
+
+                {/* Status Timeline */}
+                <div className="border-t border-border pt-4">
+                  <h3 className="text-lg font-semibold mb-3">Timeline</h3>
+                  <ol className="space-y-3">
+                    {selectedOrder.statusHistory.map((change, index) => (
+                      <li key={index} className="flex items-center gap-3 text-sm" data-testid={`item-status-history-${index}`}>
+                        <span
+                          className={`h-2.5 w-2.5 rounded-full ${
+                            index === selectedOrder.statusHistory.length - 1 ? "bg-accent" : "bg-border"
+                          }`}
+                        />
+                        <span className="font-medium w-36">{statusLabels[change.status]}</span>
+                        <span className="text-muted-foreground">{formatDate(change.changedAt)}</span>
+                      </li>
+                    ))}
+                  </ol>
+                </div>
               </div>
             </>
           )}
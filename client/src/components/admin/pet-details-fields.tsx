@@ -0,0 +1,229 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import type { PetDetails, PetSex, Vaccination } from "@shared/schema";
+
+interface PetDetailsFieldsProps {
+  value: Partial<PetDetails>;
+  onChange: (value: Partial<PetDetails>) => void;
+  onCertificateChange: (file: File | null) => void;
+  disabled?: boolean;
+}
+
+export default function PetDetailsFields({ value, onChange, onCertificateChange, disabled }: PetDetailsFieldsProps) {
+  // Blank inputs are left out rather than sent as empty strings, which would fail validation
+  const setField = <K extends keyof PetDetails>(field: K, fieldValue: PetDetails[K] | "") => {
+    onChange({ ...value, [field]: fieldValue === "" ? undefined : fieldValue });
+  };
+
+  const vaccinations = value.vaccinations || [];
+
+  const setVaccination = (index: number, vaccination: Vaccination) => {
+    setField("vaccinations", vaccinations.map((v, i) => (i === index ? vaccination : v)));
+  };
+
+  const today = new Date().toISOString().slice(0, 10);
+
+  return (
+    <div className="space-y-4 border-t border-border pt-4">
+      <h3 className="text-lg font-semibold">Pet Details</h3>
+
+      <div className="grid md:grid-cols-2 gap-4">
+        <div>
+          <Label htmlFor="pet-breed">Breed *</Label>
+          <Input
+            id="pet-breed"
+            type="text"
+            value={value.breed || ""}
+            onChange={(e) => setField("breed", e.target.value)}
+            required
+            disabled={disabled}
+            data-testid="input-pet-breed"
+          />
+        </div>
+
+        <div>
+          <Label htmlFor="pet-sex">Sex *</Label>
+          <Select
+            value={value.sex || ""}
+            onValueChange={(sex: PetSex) => setField("sex", sex)}
+            disabled={disabled}
+          >
+            <SelectTrigger id="pet-sex" data-testid="select-pet-sex">
+              <SelectValue placeholder="Select sex" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="male">Male</SelectItem>
+              <SelectItem value="female">Female</SelectItem>
+              <SelectItem value="pair">Pair</SelectItem>
+              <SelectItem value="unsexed">Not yet sexed</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div>
+          <Label htmlFor="pet-dob">Date of Birth</Label>
+          <Input
+            id="pet-dob"
+            type="date"
+            max={today}
+            value={value.dateOfBirth || ""}
+            onChange={(e) => setField("dateOfBirth", e.target.value)}
+            disabled={disabled}
+            data-testid="input-pet-dob"
+          />
+        </div>
+
+        <div>
+          <Label htmlFor="pet-colour">Colour</Label>
+          <Input
+            id="pet-colour"
+            type="text"
+            value={value.colour || ""}
+            onChange={(e) => setField("colour", e.target.value)}
+            disabled={disabled}
+            data-testid="input-pet-colour"
+          />
+        </div>
+
+        <div>
+          <Label htmlFor="pet-weight">Weight (kg)</Label>
+          <Input
+            id="pet-weight"
+            type="number"
+            min="0"
+            step="0.1"
+            value={value.weightKg ?? ""}
+            onChange={(e) => setField("weightKg", e.target.value === "" ? "" : parseFloat(e.target.value))}
+            disabled={disabled}
+            data-testid="input-pet-weight"
+          />
+        </div>
+
+        <div>
+          <Label htmlFor="pet-dewormed">Last Dewormed</Label>
+          <Input
+            id="pet-dewormed"
+            type="date"
+            max={today}
+            value={value.lastDewormedOn || ""}
+            onChange={(e) => setField("lastDewormedOn", e.target.value)}
+            disabled={disabled}
+            data-testid="input-pet-dewormed"
+          />
+        </div>
+
+        <div>
+          <Label htmlFor="pet-microchip">Microchip Number</Label>
+          <Input
+            id="pet-microchip"
+            type="text"
+            inputMode="numeric"
+            placeholder="15 digits"
+            value={value.microchipNumber || ""}
+            onChange={(e) => setField("microchipNumber", e.target.value)}
+            disabled={disabled}
+            data-testid="input-pet-microchip"
+          />
+        </div>
+
+        <div>
+          <Label htmlFor="pet-kci">KCI Registration Number</Label>
+          <Input
+            id="pet-kci"
+            type="text"
+            value={value.kciRegistrationNumber || ""}
+            onChange={(e) => setField("kciRegistrationNumber", e.target.value)}
+            disabled={disabled}
+            data-testid="input-pet-kci"
+          />
+        </div>
+      </div>
+
+      <div className="flex items-center space-x-2">
+        <Checkbox
+          id="pet-pedigree"
+          checked={!!value.pedigreePapers}
+          onCheckedChange={(checked) => setField("pedigreePapers", checked === true)}
+          disabled={disabled}
+          data-testid="checkbox-pet-pedigree"
+        />
+        <Label htmlFor="pet-pedigree">Pedigree papers included</Label>
+      </div>
+
+      <div>
+        <div className="flex justify-between items-center mb-2">
+          <Label>Vaccinations</Label>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => setField("vaccinations", [...vaccinations, { name: "", date: "" }])}
+            disabled={disabled}
+            data-testid="button-add-vaccination"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add
+          </Button>
+        </div>
+        <div className="space-y-2">
+          {vaccinations.map((vaccination, index) => (
+            <div key={index} className="flex gap-2" data-testid={`row-vaccination-${index}`}>
+              <Input
+                type="text"
+                placeholder="Vaccine"
+                value={vaccination.name}
+                onChange={(e) => setVaccination(index, { ...vaccination, name: e.target.value })}
+                required
+                disabled={disabled}
+                data-testid={`input-vaccination-name-${index}`}
+              />
+              <Input
+                type="date"
+                max={today}
+                value={vaccination.date}
+                onChange={(e) => setVaccination(index, { ...vaccination, date: e.target.value })}
+                required
+                disabled={disabled}
+                data-testid={`input-vaccination-date-${index}`}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => setField("vaccinations", vaccinations.filter((_, i) => i !== index))}
+                disabled={disabled}
+                data-testid={`button-remove-vaccination-${index}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <Label htmlFor="pet-certificate">Health Certificate</Label>
+        <Input
+          id="pet-certificate"
+          type="file"
+          accept="image/*"
+          onChange={(e) => onCertificateChange(e.target.files?.[0] || null)}
+          disabled={disabled}
+          data-testid="input-pet-certificate"
+        />
+        {value.healthCertificate && (
+          <p className="text-sm text-muted-foreground mt-1">
+            <a href={value.healthCertificate} target="_blank" rel="noopener noreferrer" className="text-accent hover:underline">
+              Current certificate
+            </a>
+            {" "}— choose a file to replace it.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
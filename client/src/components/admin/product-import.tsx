@@ -0,0 +1,165 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { CheckCircle2, Loader2, Upload } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { productsApi } from "@/api/products.api";
+import type { ProductImportReport } from "@shared/schema";
+
+export default function ProductImport() {
+  const [isOpen, setIsOpen] = useState(false);
+  const [csvFile, setCsvFile] = useState<File | null>(null);
+  const [zipFile, setZipFile] = useState<File | null>(null);
+  const [report, setReport] = useState<ProductImportReport | null>(null);
+
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const importMutation = useMutation({
+    mutationFn: (dryRun: boolean) => productsApi.importProducts(csvFile!, zipFile, dryRun),
+    onSuccess: (result: ProductImportReport) => {
+      setReport(result);
+      if (result.imported > 0) {
+        queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+        toast({ title: `Imported ${result.imported} products` });
+      }
+    },
+    onError: (error: Error) => {
+      setReport(null);
+      toast({ title: "Failed to import products", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (!open) {
+      setCsvFile(null);
+      setZipFile(null);
+      setReport(null);
+    }
+  };
+
+  // A new file needs checking again before it can be imported
+  const handleFileChange = (setFile: (file: File | null) => void) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    setFile(e.target.files?.[0] ?? null);
+    setReport(null);
+  };
+
+  const isChecked = report?.dryRun && report.errors.length === 0;
+  const isImported = !!report && !report.dryRun && report.imported > 0;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" data-testid="button-import-products">
+          <Upload className="mr-2 h-4 w-4" />
+          Import CSV
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto forest-card">
+        <DialogHeader>
+          <DialogTitle>Import Products</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Columns: <code>name, category, type, species, price, stock, description, images</code>.
+            Category is the category's slug and type is <code>food</code> or <code>accessory</code>; pets are added
+            one by one. List several images separated by <code>|</code>, each a link or the name of a file in the zip.
+            An export is a ready-made example.
+          </p>
+
+          <div>
+            <Label htmlFor="import-csv">CSV file *</Label>
+            <Input
+              id="import-csv"
+              type="file"
+              accept=".csv,text/csv"
+              onChange={handleFileChange(setCsvFile)}
+              disabled={importMutation.isPending}
+              data-testid="input-import-csv"
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="import-zip">Images (zip)</Label>
+            <Input
+              id="import-zip"
+              type="file"
+              accept=".zip,application/zip"
+              onChange={handleFileChange(setZipFile)}
+              disabled={importMutation.isPending}
+              data-testid="input-import-zip"
+            />
+          </div>
+
+          {report && (
+            <div className="border-t border-border pt-4 space-y-2" data-testid="import-report">
+              {isImported ? (
+                <p className="flex items-center text-green-400" data-testid="text-import-result">
+                  <CheckCircle2 className="mr-2 h-4 w-4" />
+                  Imported {report.imported} of {report.rows} products.
+                </p>
+              ) : report.errors.length === 0 ? (
+                <p className="flex items-center text-green-400" data-testid="text-import-result">
+                  <CheckCircle2 className="mr-2 h-4 w-4" />
+                  All {report.rows} rows are valid and ready to import.
+                </p>
+              ) : (
+                <>
+                  <p className="text-red-400" data-testid="text-import-result">
+                    {new Set(report.errors.map(error => error.row)).size} of {report.rows} rows have errors
+                    {report.dryRun ? "." : "; nothing was imported."} Fix them and check the file again.
+                  </p>
+                  <div className="max-h-64 overflow-y-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="border-b border-border">
+                          <th className="text-left py-2 px-2">Row</th>
+                          <th className="text-left py-2 px-2">Problem</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {report.errors.map((error, index) => (
+                          <tr key={index} className="border-b border-border" data-testid={`row-import-error-${index}`}>
+                            <td className="py-2 px-2">{error.row}</td>
+                            <td className="py-2 px-2 text-muted-foreground">{error.message}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-2 pt-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => importMutation.mutate(true)}
+              disabled={!csvFile || importMutation.isPending || isImported}
+              data-testid="button-check-import"
+            >
+              {importMutation.isPending && importMutation.variables && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Check File
+            </Button>
+            <Button
+              type="button"
+              onClick={() => importMutation.mutate(false)}
+              disabled={!isChecked || importMutation.isPending}
+              data-testid="button-run-import"
+            >
+              {importMutation.isPending && !importMutation.variables && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Import
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
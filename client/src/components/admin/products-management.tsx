@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
@@ -8,21 +8,59 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
-import { Plus, Edit, Trash2, Loader2 } from "lucide-react";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Plus, Edit, Trash2, Loader2, Download } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { useAppContext } from "@/context/app-context";
-import type { Product, InsertProduct, Category } from "@shared/schema";
+import StockHistory from "@/components/admin/stock-history";
+import PetDetailsFields from "@/components/admin/pet-details-fields";
+import GstFields from "@/components/admin/gst-fields";
+import VariantFields, { cleanOptions, type VariantData } from "@/components/admin/variant-fields";
+import ImageGallery from "@/components/admin/image-gallery";
+import ProductImport from "@/components/admin/product-import";
+import ResponsiveImage from "@/components/responsive-image";
+import ListPagination, { useCursorPages } from "@/components/admin/list-pagination";
+import { productsApi } from "@/api/products.api";
+import { categoryPath, type Product, type InsertProduct, type Category, type PetDetails, type ListSort } from "@shared/schema";
+
+const PAGE_SIZE = 24;
+
+const sortLabels: Record<ListSort, string> = {
+  newest: "Newest first",
+  price: "Price: low to high",
+  name: "Name (A–Z)",
+};
 
 export default function ProductsManagement() {
   const [isCreateOpen, setIsCreateOpen] = useState(false);
   const [editingProduct, setEditingProduct] = useState<Product | null>(null);
   const [productData, setProductData] = useState<Partial<InsertProduct>>({});
   const [selectedFiles, setSelectedFiles] = useState<FileList | null>(null);
+  const [petDetails, setPetDetails] = useState<Partial<PetDetails>>({});
+  const [certificateFile, setCertificateFile] = useState<File | null>(null);
+  const [variantData, setVariantData] = useState<VariantData>({ options: [], variants: [] });
+  const [sort, setSort] = useState<ListSort>("newest");
 
   const { toast } = useToast();
   const queryClient = useQueryClient();
-  const { products, categories } = useAppContext();
+  const { categories } = useAppContext();
+  const pages = useCursorPages(sort);
+
+  const { data: productPage } = useQuery({
+    queryKey: ["/api/products", { sort, cursor: pages.cursor, limit: PAGE_SIZE }],
+    queryFn: () => productsApi.getProducts({ sort, cursor: pages.cursor, limit: PAGE_SIZE }),
+    placeholderData: keepPreviousData,
+  });
+  const products = productPage?.items;
+
+  // Subcategories are listed with their parents, e.g. Dogs › Food
+  const categoryOptions = (categories ?? [])
+    .map(category => ({
+      id: category.id,
+      label: categoryPath(categories ?? [], category.id).map(c => c.name).join(" › "),
+    }))
+    .sort((a, b) => a.label.localeCompare(b.label));
 
   const createProductMutation = useMutation({
     mutationFn: async (formData: FormData) => {
@@ -90,13 +128,19 @@ export default function ProductsManagement() {
     setEditingProduct(null);
     setProductData({});
     setSelectedFiles(null);
+    setPetDetails({});
+    setCertificateFile(null);
+    setVariantData({ options: [], variants: [] });
     setIsCreateOpen(true);
   };
 
   const handleEdit = (product: Product) => {
     setEditingProduct(product);
-    setProductData(product);
+    setProductData({ ...product, categoryId: product.categoryId ?? undefined });
     setSelectedFiles(null);
+    setPetDetails(product.petDetails || {});
+    setCertificateFile(null);
+    setVariantData({ options: product.options, variants: product.variants });
     setIsCreateOpen(true);
   };
 
@@ -105,13 +149,30 @@ export default function ProductsManagement() {
     setEditingProduct(null);
     setProductData({});
     setSelectedFiles(null);
+    setPetDetails({});
+    setCertificateFile(null);
+    setVariantData({ options: [], variants: [] });
+  };
+
+  // With variants, price and stock are set per variant and only shown on the product
+  const hasVariants = productData.type !== "pet" && variantData.variants.length > 0;
+  const variantTotals = {
+    priceInINR: Math.min(...variantData.variants.map(variant => variant.priceInINR || 0)),
+    stock: variantData.variants.reduce((total, variant) => total + (variant.stock || 0), 0),
   };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     
     const formData = new FormData();
-    formData.append("productData", JSON.stringify(productData));
+    formData.append("productData", JSON.stringify({
+      ...productData,
+      ...(hasVariants ? variantTotals : {}),
+      petDetails: productData.type === "pet" ? petDetails : null,
+      // Pets are sold one by one, never in variants
+      options: productData.type === "pet" ? [] : cleanOptions(variantData.options),
+      variants: productData.type === "pet" ? [] : variantData.variants,
+    }));
     
     if (selectedFiles) {
       Array.from(selectedFiles).forEach(file => {
@@ -119,6 +180,18 @@ export default function ProductsManagement() {
       });
     }
 
+    if (productData.type === "pet" && certificateFile) {
+      formData.append("healthCertificate", certificateFile);
+    }
+
+    // Lets the server keep sales made while the form was open
+    if (editingProduct) {
+      formData.append("stockSeen", JSON.stringify({
+        stock: editingProduct.stock,
+        variants: Object.fromEntries(editingProduct.variants.map(variant => [variant.id, variant.stock])),
+      }));
+    }
+
     if (editingProduct) {
       updateProductMutation.mutate({ id: editingProduct.id, formData });
     } else {
@@ -134,6 +207,222 @@ export default function ProductsManagement() {
 
   const isLoading = createProductMutation.isPending || updateProductMutation.isPending;
 
+  // Keep the edit form in step so saving details doesn't undo a recorded movement
+  const handleStockAdjusted = (product: Product) => {
+    setEditingProduct(product);
+    setProductData(prev => ({ ...prev, stock: product.stock }));
+    setVariantData(prev => ({
+      ...prev,
+      variants: prev.variants.map(variant => ({
+        ...variant,
+        stock: product.variants.find(v => v.id === variant.id)?.stock ?? variant.stock,
+      })),
+    }));
+  };
+
+  // A deleted image can no longer be shown for a variant
+  const handleGalleryChange = (product: Product) => {
+    setEditingProduct(product);
+    setVariantData(prev => ({
+      ...prev,
+      variants: prev.variants.map(variant =>
+        product.images.some(image => image.src === variant.image) ? variant : { ...variant, image: null }
+      ),
+    }));
+  };
+
+  const productForm = (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="grid md:grid-cols-2 gap-4">
+        <div>
+          <Label htmlFor="product-name">Name *</Label>
+          <Input
+            id="product-name"
+            type="text"
+            value={productData.name || ""}
+            onChange={(e) => setProductData(prev => ({ ...prev, name: e.target.value }))}
+            required
+            disabled={isLoading}
+            data-testid="input-product-name"
+          />
+        </div>
+        
+        <div>
+          <Label htmlFor="product-category">Category *</Label>
+          <Select 
+            value={productData.categoryId || ""} 
+            onValueChange={(value) => setProductData(prev => ({ ...prev, categoryId: value }))}
+            disabled={isLoading}
+          >
+            <SelectTrigger data-testid="select-product-category">
+              <SelectValue placeholder="Select category" />
+            </SelectTrigger>
+            <SelectContent>
+              {categoryOptions.map((option) => (
+                <SelectItem key={option.id} value={option.id}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        
+        <div>
+          <Label htmlFor="product-type">Type *</Label>
+          <Select 
+            value={productData.type || ""} 
+            onValueChange={(value: "pet" | "food" | "accessory") => setProductData(prev => ({ ...prev, type: value }))}
+            disabled={isLoading}
+          >
+            <SelectTrigger data-testid="select-product-type">
+              <SelectValue placeholder="Select type" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="pet">Pet</SelectItem>
+              <SelectItem value="food">Food</SelectItem>
+              <SelectItem value="accessory">Accessory</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        
+        <div>
+          <Label htmlFor="product-species">Species</Label>
+          <Input
+            id="product-species"
+            type="text"
+            placeholder="e.g., Dog, Cat, Fish"
+            value={productData.species || ""}
+            onChange={(e) => setProductData(prev => ({ ...prev, species: e.target.value }))}
+            disabled={isLoading}
+            data-testid="input-product-species"
+          />
+        </div>
+        
+        <div>
+          <Label htmlFor="product-price">Price (INR) *</Label>
+          <Input
+            id="product-price"
+            type="number"
+            min="1"
+            step="1"
+            value={(hasVariants ? variantTotals.priceInINR : productData.priceInINR) || ""}
+            onChange={(e) => setProductData(prev => ({ ...prev, priceInINR: parseInt(e.target.value) }))}
+            required
+            disabled={isLoading || hasVariants}
+            data-testid="input-product-price"
+          />
+        </div>
+        
+        <div>
+          <Label htmlFor="product-stock">Stock *</Label>
+          <Input
+            id="product-stock"
+            type="number"
+            min="0"
+            value={(hasVariants ? variantTotals.stock : productData.stock) || ""}
+            onChange={(e) => setProductData(prev => ({ ...prev, stock: parseInt(e.target.value) }))}
+            required
+            disabled={isLoading || hasVariants}
+            data-testid="input-product-stock"
+          />
+        </div>
+
+        <div>
+          <Label htmlFor="product-weight">Shipping Weight (g)</Label>
+          <Input
+            id="product-weight"
+            type="number"
+            min="1"
+            step="1"
+            placeholder={hasVariants ? "Unless a variant sets its own" : "For delivery fees by weight"}
+            value={productData.weightGrams ?? ""}
+            onChange={(e) => setProductData(prev => ({ ...prev, weightGrams: e.target.value ? parseInt(e.target.value) : null }))}
+            disabled={isLoading}
+            data-testid="input-product-weight"
+          />
+        </div>
+
+        <div className="md:col-span-2">
+          <GstFields
+            value={productData}
+            onChange={(gst) => setProductData(prev => ({ ...prev, ...gst }))}
+            disabled={isLoading}
+            idPrefix="product"
+            inheritLabel="Category's"
+          />
+        </div>
+      </div>
+      
+      {productData.type === "pet" && (
+        <PetDetailsFields
+          value={petDetails}
+          onChange={setPetDetails}
+          onCertificateChange={setCertificateFile}
+          disabled={isLoading}
+        />
+      )}
+
+      {productData.type && productData.type !== "pet" && (
+        <VariantFields
+          value={variantData}
+          onChange={setVariantData}
+          images={editingProduct?.images || []}
+          defaultPrice={productData.priceInINR}
+          disabled={isLoading}
+        />
+      )}
+
+      <div>
+        <Label htmlFor="product-description">Description *</Label>
+        <Textarea
+          id="product-description"
+          value={productData.description || ""}
+          onChange={(e) => setProductData(prev => ({ ...prev, description: e.target.value }))}
+          required
+          disabled={isLoading}
+          className="h-20"
+          data-testid="input-product-description"
+        />
+      </div>
+      
+      {editingProduct ? (
+        <ImageGallery product={editingProduct} onChange={handleGalleryChange} disabled={isLoading} />
+      ) : (
+        <div>
+          <Label htmlFor="product-images">Images</Label>
+          <Input
+            id="product-images"
+            type="file"
+            multiple
+            accept="image/*"
+            onChange={(e) => setSelectedFiles(e.target.files)}
+            disabled={isLoading}
+            data-testid="input-product-images"
+          />
+          <p className="text-sm text-muted-foreground mt-1">
+            Select up to 5 images. The first is the cover; more can be added after creating the product.
+          </p>
+        </div>
+      )}
+      
+      <div className="flex justify-end space-x-2 pt-4">
+        <Button type="button" variant="outline" onClick={handleCloseDialog} disabled={isLoading}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={isLoading} data-testid="button-save-product">
+          {isLoading ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              {editingProduct ? "Updating..." : "Creating..."}
+            </>
+          ) : (
+            editingProduct ? "Update Product" : "Create Product"
+          )}
+        </Button>
+      </div>
+    </form>
+  );
+
   return (
     <div className="space-y-6">
       <div className="flex justify-between items-center">
@@ -141,163 +430,59 @@ export default function ProductsManagement() {
           <h2 className="text-2xl font-serif font-bold mb-2">Product Management</h2>
           <p className="text-muted-foreground">Manage your pet shop inventory</p>
         </div>
-        <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
-          <DialogTrigger asChild>
-            <Button onClick={handleCreate} data-testid="button-add-product">
-              <Plus className="mr-2 h-4 w-4" />
-              Add Product
-            </Button>
-          </DialogTrigger>
-          <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto forest-card">
-            <DialogHeader>
-              <DialogTitle>
-                {editingProduct ? "Edit Product" : "Create New Product"}
-              </DialogTitle>
-            </DialogHeader>
-            
-            <form onSubmit={handleSubmit} className="space-y-4">
-              <div className="grid md:grid-cols-2 gap-4">
-                <div>
-                  <Label htmlFor="product-name">Name *</Label>
-                  <Input
-                    id="product-name"
-                    type="text"
-                    value={productData.name || ""}
-                    onChange={(e) => setProductData(prev => ({ ...prev, name: e.target.value }))}
-                    required
-                    disabled={isLoading}
-                    data-testid="input-product-name"
-                  />
-                </div>
-                
-                <div>
-                  <Label htmlFor="product-category">Category *</Label>
-                  <Select 
-                    value={productData.categoryId || ""} 
-                    onValueChange={(value) => setProductData(prev => ({ ...prev, categoryId: value }))}
-                    disabled={isLoading}
-                  >
-                    <SelectTrigger data-testid="select-product-category">
-                      <SelectValue placeholder="Select category" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {categories?.map((category) => (
-                        <SelectItem key={category.id} value={category.id}>
-                          {category.name}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                </div>
-                
-                <div>
-                  <Label htmlFor="product-type">Type *</Label>
-                  <Select 
-                    value={productData.type || ""} 
-                    onValueChange={(value: "pet" | "food" | "accessory") => setProductData(prev => ({ ...prev, type: value }))}
-                    disabled={isLoading}
-                  >
-                    <SelectTrigger data-testid="select-product-type">
-                      <SelectValue placeholder="Select type" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="pet">Pet</SelectItem>
-                      <SelectItem value="food">Food</SelectItem>
-                      <SelectItem value="accessory">Accessory</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
-                
-                <div>
-                  <Label htmlFor="product-species">Species</Label>
-                  <Input
-                    id="product-species"
-                    type="text"
-                    placeholder="e.g., Dog, Cat, Fish"
-                    value={productData.species || ""}
-                    onChange={(e) => setProductData(prev => ({ ...prev, species: e.target.value }))}
-                    disabled={isLoading}
-                    data-testid="input-product-species"
-                  />
-                </div>
-                
-                <div>
-                  <Label htmlFor="product-price">Price (INR) *</Label>
-                  <Input
-                    id="product-price"
-                    type="number"
-                    min="1"
-                    step="1"
-                    value={productData.priceInINR || ""}
-                    onChange={(e) => setProductData(prev => ({ ...prev, priceInINR: parseInt(e.target.value) }))}
-                    required
-                    disabled={isLoading}
-                    data-testid="input-product-price"
-                  />
-                </div>
-                
-                <div>
-                  <Label htmlFor="product-stock">Stock *</Label>
-                  <Input
-                    id="product-stock"
-                    type="number"
-                    min="0"
-                    value={productData.stock || ""}
-                    onChange={(e) => setProductData(prev => ({ ...prev, stock: parseInt(e.target.value) }))}
-                    required
-                    disabled={isLoading}
-                    data-testid="input-product-stock"
-                  />
-                </div>
-              </div>
+        <div className="flex space-x-2">
+          <Button variant="outline" asChild>
+            <a href="/api/admin/products/export" download data-testid="button-export-products">
+              <Download className="mr-2 h-4 w-4" />
+              Export CSV
+            </a>
+          </Button>
+          <ProductImport />
+          <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+            <DialogTrigger asChild>
+              <Button onClick={handleCreate} data-testid="button-add-product">
+                <Plus className="mr-2 h-4 w-4" />
+                Add Product
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto forest-card">
+              <DialogHeader>
+                <DialogTitle>
+                  {editingProduct ? "Edit Product" : "Create New Product"}
+                </DialogTitle>
+              </DialogHeader>
               
-              <div>
-                <Label htmlFor="product-description">Description *</Label>
-                <Textarea
-                  id="product-description"
-                  value={productData.description || ""}
-                  onChange={(e) => setProductData(prev => ({ ...prev, description: e.target.value }))}
-                  required
-                  disabled={isLoading}
-                  className="h-20"
-                  data-testid="input-product-description"
-                />
-              </div>
-              
-              <div>
-                <Label htmlFor="product-images">Images</Label>
-                <Input
-                  id="product-images"
-                  type="file"
-                  multiple
-                  accept="image/*"
-                  onChange={(e) => setSelectedFiles(e.target.files)}
-                  disabled={isLoading}
-                  data-testid="input-product-images"
-                />
-                <p className="text-sm text-muted-foreground mt-1">
-                  Select up to 5 images. Leave empty to keep existing images when editing.
-                </p>
-              </div>
-              
-              <div className="flex justify-end space-x-2 pt-4">
-                <Button type="button" variant="outline" onClick={handleCloseDialog} disabled={isLoading}>
-                  Cancel
-                </Button>
-                <Button type="submit" disabled={isLoading} data-testid="button-save-product">
-                  {isLoading ? (
-                    <>
-                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                      {editingProduct ? "Updating..." : "Creating..."}
-                    </>
-                  ) : (
-                    editingProduct ? "Update Product" : "Create Product"
-                  )}
-                </Button>
-              </div>
-            </form>
-          </DialogContent>
-        </Dialog>
+              {editingProduct ? (
+                <Tabs defaultValue="details">
+                  <TabsList className="grid w-full grid-cols-2 mb-4">
+                    <TabsTrigger value="details" data-testid="tab-product-details">Details</TabsTrigger>
+                    <TabsTrigger value="history" data-testid="tab-stock-history">Stock History</TabsTrigger>
+                  </TabsList>
+                  <TabsContent value="details">{productForm}</TabsContent>
+                  <TabsContent value="history">
+                    <StockHistory product={editingProduct} onAdjusted={handleStockAdjusted} />
+                  </TabsContent>
+                </Tabs>
+              ) : (
+                productForm
+              )}
+            </DialogContent>
+          </Dialog>
+        </div>
+      </div>
+
+      <div className="flex justify-end items-center space-x-2">
+        <Label htmlFor="admin-product-sort" className="text-sm text-muted-foreground">Sort by</Label>
+        <Select value={sort} onValueChange={(value) => setSort(value as ListSort)}>
+          <SelectTrigger id="admin-product-sort" className="w-48" data-testid="select-admin-product-sort">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(sortLabels).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
       </div>
 
       {/* Products Grid */}
@@ -306,9 +491,10 @@ export default function ProductsManagement() {
           <Card key={product.id} className="forest-card">
             <CardHeader className="pb-3">
               {product.images.length > 0 ? (
-                <img 
-                  src={product.images[0]} 
-                  alt={product.name}
+                <ResponsiveImage
+                  image={product.images[0]}
+                  sizes="(min-width: 1024px) 33vw, (min-width: 768px) 50vw, 100vw"
+                  alt={product.images[0].alt || product.name}
                   className="w-full h-32 object-cover rounded-lg"
                   data-testid={`img-admin-product-${product.id}`}
                 />
@@ -330,11 +516,13 @@ export default function ProductsManagement() {
                 </div>
                 
                 <p className="text-sm text-muted-foreground" data-testid={`text-admin-product-price-${product.id}`}>
+                  {product.variants.length > 0 && "From "}
                   {formatPrice(product.priceInINR)}
                 </p>
                 
                 <p className="text-sm text-muted-foreground" data-testid={`text-admin-product-stock-${product.id}`}>
                   Stock: {product.stock}
+                  {product.variants.length > 0 && ` across ${product.variants.length} variants`}
                 </p>
                 
                 <div className="flex space-x-2 pt-2">
@@ -371,6 +559,15 @@ export default function ProductsManagement() {
           </div>
         )}
       </div>
+
+      <ListPagination
+        page={productPage}
+        pageNumber={pages.pageNumber}
+        pageSize={PAGE_SIZE}
+        onPrevious={pages.previous}
+        onNext={pages.next}
+        testId="admin-products"
+      />
     </div>
   );
 }
@@ -0,0 +1,184 @@
+import { useQuery, useQueries, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, ShoppingCart, XCircle } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { reservationsApi } from "@/api/reservations.api";
+import type { Product, Reservation, ReservationStatus } from "@shared/schema";
+
+const statusLabels: Record<ReservationStatus, string> = {
+  active: "Active",
+  expired: "Expired",
+  cancelled: "Cancelled",
+  converted: "Converted to order",
+};
+
+export default function ReservationsManagement() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: reservations, isLoading } = useQuery<Reservation[]>({
+    queryKey: ["/api/admin/reservations"],
+  });
+
+  // The reserved pets, fetched one by one as the catalogue is paged
+  const productIds = Array.from(new Set(reservations?.map(reservation => reservation.productId)));
+  const productQueries = useQueries({
+    queries: productIds.map(id => ({ queryKey: ["/api/products", id] })),
+  });
+
+  const handleSuccess = (title: string) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/reservations"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/reservations/holds"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/orders"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+    toast({ title });
+  };
+
+  const convertMutation = useMutation({
+    mutationFn: (id: string) => reservationsApi.convert(id),
+    onSuccess: () => handleSuccess("Reservation converted to an order"),
+    onError: (error: Error) => {
+      toast({ title: "Failed to convert reservation", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: (id: string) => reservationsApi.cancel(id),
+    onSuccess: () => handleSuccess("Reservation cancelled and pet released"),
+    onError: (error: Error) => {
+      toast({ title: "Failed to cancel reservation", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const formatDate = (date: string | Date) => {
+    return new Date(date).toLocaleDateString('en-IN', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  const getStatusColor = (status: ReservationStatus) => {
+    switch (status) {
+      case "active":
+        return "bg-yellow-500/20 text-yellow-400";
+      case "converted":
+        return "bg-green-500/20 text-green-400";
+      default:
+        return "bg-gray-500/20 text-gray-400";
+    }
+  };
+
+  const productName = (productId: string) => {
+    const query = productQueries[productIds.indexOf(productId)];
+    if (query?.isLoading) return "Loading...";
+    return (query?.data as Product | undefined)?.name || "Deleted product";
+  };
+
+  const handleCancel = (id: string) => {
+    if (confirm("Cancel this reservation and put the pet back on sale?")) {
+      cancelMutation.mutate(id);
+    }
+  };
+
+  const isUpdating = convertMutation.isPending || cancelMutation.isPending;
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-border" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-serif font-bold mb-2">Reservations</h2>
+        <p className="text-muted-foreground">Pets held for customers who want to visit before buying</p>
+      </div>
+
+      <Card className="forest-card">
+        <CardHeader>
+          <CardTitle>All Reservations</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {reservations?.length === 0 ? (
+            <div className="text-center py-8" data-testid="text-no-reservations">
+              <p className="text-muted-foreground">No reservations yet.</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-border">
+                    <th className="text-left py-3 px-4">Pet</th>
+                    <th className="text-left py-3 px-4">Customer</th>
+                    <th className="text-left py-3 px-4">Status</th>
+                    <th className="text-left py-3 px-4">Reserved</th>
+                    <th className="text-left py-3 px-4">Hold Until</th>
+                    <th className="text-left py-3 px-4">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {reservations?.map((reservation) => (
+                    <tr key={reservation.id} className="border-b border-border" data-testid={`row-reservation-${reservation.id}`}>
+                      <td className="py-3 px-4" data-testid={`text-reservation-product-${reservation.id}`}>
+                        {productName(reservation.productId)}
+                      </td>
+                      <td className="py-3 px-4" data-testid={`text-reservation-customer-${reservation.id}`}>
+                        <div>{reservation.customer.name}</div>
+                        <div className="text-sm text-muted-foreground">{reservation.customer.phone}</div>
+                      </td>
+                      <td className="py-3 px-4">
+                        <Badge className={getStatusColor(reservation.status)} data-testid={`badge-reservation-status-${reservation.id}`}>
+                          {statusLabels[reservation.status]}
+                        </Badge>
+                        {reservation.orderId && (
+                          <div className="text-sm text-muted-foreground mt-1">Order #{reservation.orderId.slice(-8)}</div>
+                        )}
+                      </td>
+                      <td className="py-3 px-4">{formatDate(reservation.createdAt)}</td>
+                      <td className="py-3 px-4" data-testid={`text-reservation-expires-${reservation.id}`}>
+                        {formatDate(reservation.expiresAt)}
+                      </td>
+                      <td className="py-3 px-4">
+                        {reservation.status === "active" && (
+                          <div className="flex space-x-2">
+                            <Button
+                              size="sm"
+                              onClick={() => convertMutation.mutate(reservation.id)}
+                              disabled={isUpdating}
+                              data-testid={`button-convert-reservation-${reservation.id}`}
+                            >
+                              <ShoppingCart className="h-4 w-4 mr-1" />
+                              Create Order
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleCancel(reservation.id)}
+                              disabled={isUpdating}
+                              data-testid={`button-cancel-reservation-${reservation.id}`}
+                            >
+                              <XCircle className="h-4 w-4 mr-1" />
+                              Cancel
+                            </Button>
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
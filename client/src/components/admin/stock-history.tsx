@@ -0,0 +1,224 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { variantLabel, type InsertStockMovement, type Product, type StockMovement, type StockMovementType } from "@shared/schema";
+
+const movementLabels: Record<StockMovementType, string> = {
+  sale: "Sale",
+  restock: "Order restock",
+  adjustment: "Manual adjustment",
+  received: "Goods received",
+  damage: "Damage / loss",
+  reservation: "Reserved",
+  release: "Reservation released",
+};
+
+interface StockHistoryProps {
+  product: Product;
+  onAdjusted: (product: Product) => void;
+}
+
+export default function StockHistory({ product, onAdjusted }: StockHistoryProps) {
+  const [type, setType] = useState<InsertStockMovement["type"]>("received");
+  // Products with variants keep stock per variant, so movements name one
+  const [variantId, setVariantId] = useState(product.variants[0]?.id ?? "");
+  const [quantity, setQuantity] = useState("");
+  const [reason, setReason] = useState("");
+
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const movementsQueryKey = ["/api/admin/products", product.id, "stock-movements"];
+
+  const { data: movements, isLoading } = useQuery<StockMovement[]>({
+    queryKey: movementsQueryKey,
+  });
+
+  const recordMovementMutation = useMutation({
+    mutationFn: async (movement: InsertStockMovement) => {
+      const res = await apiRequest("POST", `/api/admin/products/${product.id}/stock-movements`, movement);
+      return res.json();
+    },
+    onSuccess: (updated: Product) => {
+      queryClient.invalidateQueries({ queryKey: movementsQueryKey });
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      toast({ title: "Stock movement recorded" });
+      setQuantity("");
+      setReason("");
+      onAdjusted(updated);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to record stock movement", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const formatDate = (date: string | Date) => {
+    return new Date(date).toLocaleDateString('en-IN', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    // Received and damage are entered as counts; adjustments carry their own sign
+    const amount = parseInt(quantity);
+    const signedQuantity = type === "damage" ? -Math.abs(amount) : type === "received" ? Math.abs(amount) : amount;
+
+    recordMovementMutation.mutate({ type, quantity: signedQuantity, reason, variantId: variantId || null });
+  };
+
+  const variantName = (id: string | null) => {
+    if (!id) return "";
+    const variant = product.variants.find(v => v.id === id);
+    return variant ? variantLabel(product.options, variant) : "Removed variant";
+  };
+
+  const selectedVariant = product.variants.find(v => v.id === variantId);
+
+  return (
+    <div className="space-y-6">
+      <form onSubmit={handleSubmit} className="space-y-4">
+        {product.variants.length > 0 && (
+          <div>
+            <Label htmlFor="movement-variant">Variant</Label>
+            <Select
+              value={variantId}
+              onValueChange={setVariantId}
+              disabled={recordMovementMutation.isPending}
+            >
+              <SelectTrigger id="movement-variant" data-testid="select-movement-variant">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {product.variants.map((variant) => (
+                  <SelectItem key={variant.id} value={variant.id}>
+                    {variantLabel(product.options, variant)} ({variant.sku})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        <div className="grid md:grid-cols-3 gap-4">
+          <div>
+            <Label htmlFor="movement-type">Movement</Label>
+            <Select
+              value={type}
+              onValueChange={(value: InsertStockMovement["type"]) => setType(value)}
+              disabled={recordMovementMutation.isPending}
+            >
+              <SelectTrigger id="movement-type" data-testid="select-movement-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="received">{movementLabels.received}</SelectItem>
+                <SelectItem value="damage">{movementLabels.damage}</SelectItem>
+                <SelectItem value="adjustment">{movementLabels.adjustment}</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div>
+            <Label htmlFor="movement-quantity">Quantity</Label>
+            <Input
+              id="movement-quantity"
+              type="number"
+              step="1"
+              placeholder={type === "adjustment" ? "e.g., -2 or 3" : "e.g., 5"}
+              value={quantity}
+              onChange={(e) => setQuantity(e.target.value)}
+              required
+              disabled={recordMovementMutation.isPending}
+              data-testid="input-movement-quantity"
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="movement-reason">Reason</Label>
+            <Input
+              id="movement-reason"
+              type="text"
+              placeholder="e.g., Supplier delivery"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              required
+              disabled={recordMovementMutation.isPending}
+              data-testid="input-movement-reason"
+            />
+          </div>
+        </div>
+
+        <div className="flex justify-between items-center">
+          <p className="text-sm text-muted-foreground" data-testid="text-current-stock">
+            Current stock: {product.stock}
+            {selectedVariant && ` (${selectedVariant.stock} of ${variantLabel(product.options, selectedVariant)})`}
+          </p>
+          <Button type="submit" disabled={recordMovementMutation.isPending} data-testid="button-record-movement">
+            {recordMovementMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Record Movement
+          </Button>
+        </div>
+      </form>
+
+      <div className="border-t border-border pt-4">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-border" />
+          </div>
+        ) : movements?.length === 0 ? (
+          <p className="text-muted-foreground text-center py-8" data-testid="text-no-stock-movements">
+            No stock movements recorded yet.
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-border">
+                  <th className="text-left py-2 px-2">Date</th>
+                  <th className="text-left py-2 px-2">Movement</th>
+                  {product.variants.length > 0 && <th className="text-left py-2 px-2">Variant</th>}
+                  <th className="text-right py-2 px-2">Change</th>
+                  <th className="text-right py-2 px-2">Stock</th>
+                  <th className="text-left py-2 px-2">By</th>
+                  <th className="text-left py-2 px-2">Reason</th>
+                </tr>
+              </thead>
+              <tbody>
+                {movements?.map((movement) => (
+                  <tr key={movement.id} className="border-b border-border" data-testid={`row-stock-movement-${movement.id}`}>
+                    <td className="py-2 px-2 whitespace-nowrap">{formatDate(movement.createdAt)}</td>
+                    <td className="py-2 px-2">
+                      <Badge variant="secondary">{movementLabels[movement.type]}</Badge>
+                    </td>
+                    {product.variants.length > 0 && (
+                      <td className="py-2 px-2">{variantName(movement.variantId)}</td>
+                    )}
+                    <td className={`py-2 px-2 text-right font-medium ${movement.quantity < 0 ? "text-red-400" : "text-green-400"}`}>
+                      {movement.quantity > 0 ? `+${movement.quantity}` : movement.quantity}
+                    </td>
+                    <td className="py-2 px-2 text-right">{movement.stockAfter}</td>
+                    <td className="py-2 px-2">{movement.actor}</td>
+                    <td className="py-2 px-2 text-muted-foreground">{movement.reason}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,244 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2, Wand2 } from "lucide-react";
+import { variantLabel, type InsertProductVariant, type ProductImage, type ProductOption } from "@shared/schema";
+
+export interface VariantData {
+  options: ProductOption[];
+  variants: InsertProductVariant[];
+}
+
+interface VariantFieldsProps {
+  value: VariantData;
+  onChange: (value: VariantData) => void;
+  images: ProductImage[];
+  defaultPrice?: number;
+  disabled?: boolean;
+}
+
+// Option values are typed as a comma-separated list and tidied up here
+export function cleanOptions(options: ProductOption[]): ProductOption[] {
+  return options.map(option => ({
+    name: option.name.trim(),
+    values: option.values.map(value => value.trim()).filter(Boolean),
+  }));
+}
+
+const NO_IMAGE = "none";
+
+export default function VariantFields({ value, onChange, images, defaultPrice, disabled }: VariantFieldsProps) {
+  const { options, variants } = value;
+
+  const setOption = (index: number, option: ProductOption) => {
+    onChange({ ...value, options: options.map((o, i) => (i === index ? option : o)) });
+  };
+
+  const setVariant = (index: number, variant: InsertProductVariant) => {
+    onChange({ ...value, variants: variants.map((v, i) => (i === index ? variant : v)) });
+  };
+
+  // One variant per combination of option values; variants that are still
+  // valid keep their SKU, price and stock
+  const handleGenerate = () => {
+    const cleaned = cleanOptions(options).filter(option => option.name && option.values.length > 0);
+    const combinations = cleaned.reduce<Record<string, string>[]>(
+      (combos, option) => combos.flatMap(combo => option.values.map(v => ({ ...combo, [option.name]: v }))),
+      [{}]
+    );
+
+    onChange({
+      options: cleaned,
+      variants: cleaned.length === 0 ? [] : combinations.map(combination =>
+        variants.find(v => variantLabel(cleaned, v) === variantLabel(cleaned, { options: combination })) ?? {
+          sku: "",
+          options: combination,
+          priceInINR: defaultPrice || 0,
+          stock: 0,
+          weightGrams: null,
+          image: null,
+        }
+      ),
+    });
+  };
+
+  return (
+    <div className="space-y-4 border-t border-border pt-4">
+      <div className="flex justify-between items-center">
+        <div>
+          <h3 className="text-lg font-semibold">Variants</h3>
+          <p className="text-sm text-muted-foreground">
+            Pack sizes, colours or sizes sold with their own price and stock.
+          </p>
+        </div>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onChange({ ...value, options: [...options, { name: "", values: [] }] })}
+          disabled={disabled}
+          data-testid="button-add-option"
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Add Option
+        </Button>
+      </div>
+
+      {options.map((option, index) => (
+        <div key={index} className="flex gap-2" data-testid={`row-option-${index}`}>
+          <Input
+            type="text"
+            placeholder="Option, e.g. Pack size"
+            value={option.name}
+            onChange={(e) => setOption(index, { ...option, name: e.target.value })}
+            disabled={disabled}
+            className="w-1/3"
+            data-testid={`input-option-name-${index}`}
+          />
+          <Input
+            type="text"
+            placeholder="Values, e.g. 1kg, 3kg"
+            value={option.values.join(",")}
+            onChange={(e) => setOption(index, { ...option, values: e.target.value.split(",") })}
+            disabled={disabled}
+            data-testid={`input-option-values-${index}`}
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange({ ...value, options: options.filter((_, i) => i !== index) })}
+            disabled={disabled}
+            data-testid={`button-remove-option-${index}`}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+
+      {(options.length > 0 || variants.length > 0) && (
+        <Button
+          type="button"
+          variant="secondary"
+          size="sm"
+          onClick={handleGenerate}
+          disabled={disabled}
+          data-testid="button-generate-variants"
+        >
+          <Wand2 className="h-4 w-4 mr-1" />
+          {variants.length > 0 ? "Update Variants from Options" : "Generate Variants"}
+        </Button>
+      )}
+
+      {variants.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-border">
+                <th className="text-left py-2 px-1">Variant</th>
+                <th className="text-left py-2 px-1">SKU *</th>
+                <th className="text-left py-2 px-1">Price *</th>
+                <th className="text-left py-2 px-1">Stock *</th>
+                <th className="text-left py-2 px-1">Weight (g)</th>
+                <th className="text-left py-2 px-1">Image</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {variants.map((variant, index) => (
+                <tr key={variant.id ?? index} className="border-b border-border" data-testid={`row-variant-${index}`}>
+                  <td className="py-2 px-1 whitespace-nowrap">
+                    <Label>{variantLabel(cleanOptions(options), variant) || "—"}</Label>
+                  </td>
+                  <td className="py-2 px-1">
+                    <Input
+                      type="text"
+                      value={variant.sku}
+                      onChange={(e) => setVariant(index, { ...variant, sku: e.target.value })}
+                      required
+                      disabled={disabled}
+                      data-testid={`input-variant-sku-${index}`}
+                    />
+                  </td>
+                  <td className="py-2 px-1">
+                    <Input
+                      type="number"
+                      min="1"
+                      step="1"
+                      value={variant.priceInINR || ""}
+                      onChange={(e) => setVariant(index, { ...variant, priceInINR: parseInt(e.target.value) })}
+                      required
+                      disabled={disabled}
+                      className="w-24"
+                      data-testid={`input-variant-price-${index}`}
+                    />
+                  </td>
+                  <td className="py-2 px-1">
+                    <Input
+                      type="number"
+                      min="0"
+                      value={variant.stock}
+                      onChange={(e) => setVariant(index, { ...variant, stock: parseInt(e.target.value) || 0 })}
+                      required
+                      disabled={disabled}
+                      className="w-20"
+                      data-testid={`input-variant-stock-${index}`}
+                    />
+                  </td>
+                  <td className="py-2 px-1">
+                    <Input
+                      type="number"
+                      min="1"
+                      step="1"
+                      placeholder="Product's"
+                      value={variant.weightGrams ?? ""}
+                      onChange={(e) => setVariant(index, { ...variant, weightGrams: e.target.value ? parseInt(e.target.value) : null })}
+                      disabled={disabled}
+                      className="w-24"
+                      data-testid={`input-variant-weight-${index}`}
+                    />
+                  </td>
+                  <td className="py-2 px-1">
+                    <Select
+                      value={variant.image || NO_IMAGE}
+                      onValueChange={(image) => setVariant(index, { ...variant, image: image === NO_IMAGE ? null : image })}
+                      disabled={disabled || images.length === 0}
+                    >
+                      <SelectTrigger className="w-28" data-testid={`select-variant-image-${index}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_IMAGE}>Product image</SelectItem>
+                        {images.map((image, imageIndex) => (
+                          <SelectItem key={image.src} value={image.src}>
+                            Image {imageIndex + 1}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </td>
+                  <td className="py-2 px-1">
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => onChange({ ...value, variants: variants.filter((_, i) => i !== index) })}
+                      disabled={disabled}
+                      data-testid={`button-remove-variant-${index}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-sm text-muted-foreground mt-2">
+            The product is listed from its lowest variant price, with the variants' combined stock.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetFooter } from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import { Minus, Plus, Trash2 } from "lucide-react";
+import { useCart } from "@/hooks/use-cart";
+import type { CartLine } from "@shared/schema";
+
+interface CartDrawerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onCheckout: () => void;
+}
+
+export default function CartDrawer({ isOpen, onClose, onCheckout }: CartDrawerProps) {
+  const { cart, updateItemMutation, removeItemMutation } = useCart();
+
+  const formatPrice = (price: number) => {
+    return new Intl.NumberFormat('en-IN', {
+      style: 'currency',
+      currency: 'INR',
+      maximumFractionDigits: 0,
+    }).format(price);
+  };
+
+  const lines = cart?.lines || [];
+  // Variants of one product are separate lines
+  const lineKey = (line: CartLine) => line.variantId ? `${line.productId}-${line.variantId}` : line.productId;
+  const hasUnavailableLines = lines.some(line => !line.purchasable);
+  const isUpdating = updateItemMutation.isPending || removeItemMutation.isPending;
+
+  return (
+    <Sheet open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="forest-card flex flex-col w-full sm:max-w-md" data-testid="drawer-cart">
+        <SheetHeader>
+          <SheetTitle className="text-2xl font-serif font-bold">Your Cart</SheetTitle>
+        </SheetHeader>
+
+        <div className="flex-1 overflow-y-auto py-4 space-y-4">
+          {lines.length === 0 && (
+            <p className="text-muted-foreground text-center py-12" data-testid="text-cart-empty">
+              Your cart is empty.
+            </p>
+          )}
+          {lines.map((line) => (
+            <div key={lineKey(line)} className="flex gap-4 border-b border-border pb-4" data-testid={`item-cart-${lineKey(line)}`}>
+              {line.image ? (
+                <img src={line.image} alt={line.name} className="w-16 h-16 rounded-lg object-cover" />
+              ) : (
+                <div className="w-16 h-16 rounded-lg bg-muted flex items-center justify-center text-2xl">🐾</div>
+              )}
+              <div className="flex-1 space-y-1">
+                <div className="flex justify-between items-start">
+                  <div>
+                    <h4 className="font-medium" data-testid={`text-cart-name-${lineKey(line)}`}>{line.name}</h4>
+                    {line.variantName && (
+                      <p className="text-sm text-muted-foreground" data-testid={`text-cart-variant-${lineKey(line)}`}>
+                        {line.variantName}
+                      </p>
+                    )}
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => removeItemMutation.mutate(line)}
+                    disabled={isUpdating}
+                    data-testid={`button-cart-remove-${lineKey(line)}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+                <p className="text-sm text-muted-foreground">{formatPrice(line.priceInINR)} each</p>
+                {!line.purchasable && (
+                  <p className="text-sm text-destructive" data-testid={`text-cart-unavailable-${lineKey(line)}`}>
+                    {line.stock > 0 ? `Only ${line.stock} left in stock` : "No longer available"}
+                  </p>
+                )}
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => updateItemMutation.mutate({ ...line, quantity: line.quantity - 1 })}
+                      disabled={isUpdating || line.quantity <= 1}
+                      data-testid={`button-cart-decrease-${lineKey(line)}`}
+                    >
+                      <Minus className="h-4 w-4" />
+                    </Button>
+                    <span className="w-8 text-center" data-testid={`text-cart-quantity-${lineKey(line)}`}>
+                      {line.quantity}
+                    </span>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => updateItemMutation.mutate({ ...line, quantity: line.quantity + 1 })}
+                      disabled={isUpdating || line.quantity >= line.stock}
+                      data-testid={`button-cart-increase-${lineKey(line)}`}
+                    >
+                      <Plus className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <span className="font-semibold text-accent">
+                    {formatPrice(line.priceInINR * line.quantity)}
+                  </span>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <SheetFooter className="flex-col sm:flex-col space-y-4 border-t border-border pt-4">
+          <div className="flex justify-between items-center font-semibold text-lg w-full">
+            <span>Total:</span>
+            <span className="text-accent" data-testid="text-cart-total">
+              {formatPrice(cart?.totalAmountINR || 0)}
+            </span>
+          </div>
+          {cart && !cart.pricesIncludeGst && cart.gstINR > 0 && (
+            <p className="text-sm text-muted-foreground w-full" data-testid="text-cart-gst-note">
+              Plus {formatPrice(cart.gstINR)} GST at checkout
+            </p>
+          )}
+          {hasUnavailableLines && (
+            <p className="text-sm text-destructive">
+              Remove or adjust unavailable items before checking out.
+            </p>
+          )}
+          <Button
+            className="w-full"
+            onClick={onCheckout}
+            disabled={lines.length === 0 || hasUnavailableLines}
+            data-testid="button-cart-checkout"
+          >
+            Checkout
+          </Button>
+        </SheetFooter>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -1,27 +1,38 @@
-import { useState } from "react";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Loader2, X } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
-import type { Product, InsertOrder } from "@shared/schema";
+import { useCart } from "@/hooks/use-cart";
+import { useCustomer } from "@/hooks/use-customer";
+import { cartApi } from "@/api/cart.api";
+import { customerApi } from "@/api/customer.api";
+import AddressFields, { emptyAddress, toDeliveryAddress, type AddressFormData } from "@/components/address-fields";
+import { formatAddress, type CheckoutCart, type CustomerAddress, type DeliveryAddress } from "@shared/schema";
+
+// The saved address's fields, without its label and ids
+const addressFields = ({ house, street, landmark, city, state, pinCode }: CustomerAddress): AddressFormData => ({
+  house,
+  street,
+  landmark,
+  city,
+  state,
+  pinCode,
+});
 
 interface CheckoutModalProps {
   isOpen: boolean;
-  product: Product | null;
-  quantity: number;
   onClose: () => void;
   onSuccess: () => void;
 }
 
 export default function CheckoutModal({ 
   isOpen, 
-  product, 
-  quantity, 
   onClose, 
   onSuccess 
 }: CheckoutModalProps) {
@@ -29,11 +40,64 @@ export default function CheckoutModal({
     name: "",
     phone: "",
     altPhone: "",
-    address: "",
+    address: emptyAddress,
   });
+  // The saved address picked, or "" for one typed in
+  const [savedAddressId, setSavedAddressId] = useState("");
+  const [saveAddress, setSaveAddress] = useState(false);
 
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { cart } = useCart();
+  const { customer } = useCustomer();
+
+  const { data: savedAddresses = [] } = useQuery({
+    queryKey: ["/api/customer/addresses"],
+    queryFn: () => customerApi.getAddresses(),
+    enabled: isOpen && !!customer,
+  });
+
+  // A signed-in customer's details fill in whatever hasn't been typed
+  useEffect(() => {
+    if (!isOpen || !customer) return;
+    setCustomerData((prev) => ({
+      ...prev,
+      name: prev.name || customer.name,
+      phone: prev.phone || customer.phone,
+    }));
+  }, [isOpen, customer]);
+
+  // Quoted again as the cart changes, since weight and subtotal set the fee
+  const pinCode = customerData.address.pinCode;
+  const { data: delivery, isFetching: isCheckingDelivery } = useQuery({
+    queryKey: ["/api/delivery/serviceability", pinCode, cart?.totalAmountINR, cart?.itemCount],
+    queryFn: () => cartApi.checkDelivery(pinCode),
+    enabled: isOpen && /^[1-9]\d{5}$/.test(pinCode),
+  });
+  const deliveryFeeINR = delivery?.serviceable ? delivery.feeINR : 0;
+  // Once the PIN code is quoted, GST covers the delivery fee as well
+  const gstINR = delivery?.gstINR ?? cart?.gstINR ?? 0;
+  const addedGstINR = cart && !cart.pricesIncludeGst ? gstINR : 0;
+
+  const saveAddressMutation = useMutation({
+    mutationFn: (address: DeliveryAddress) => customerApi.createAddress({ ...address, label: "" }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/customer/addresses"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Your address wasn't saved",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSavedAddressChange = (id: string) => {
+    setSavedAddressId(id);
+    const saved = savedAddresses.find((address) => address.id === id);
+    setCustomerData(prev => ({ ...prev, address: saved ? addressFields(saved) : emptyAddress }));
+  };
 
   const formatPrice = (price: number) => {
     return new Intl.NumberFormat('en-IN', {
@@ -44,17 +108,21 @@ export default function CheckoutModal({
   };
 
   const orderMutation = useMutation({
-    mutationFn: async (orderData: InsertOrder) => {
-      const res = await apiRequest("POST", "/api/orders", orderData);
-      return await res.json();
-    },
-    onSuccess: () => {
+    mutationFn: (checkoutData: CheckoutCart) => cartApi.checkout(checkoutData),
+    onSuccess: (_order, checkoutData) => {
+      if (customer && saveAddress && !savedAddressId) {
+        saveAddressMutation.mutate(checkoutData.customer.address);
+      }
       queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/cart"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/customer/orders"] });
       toast({
         title: "Order placed successfully!",
         description: "We'll contact you soon with delivery details.",
       });
-      setCustomerData({ name: "", phone: "", altPhone: "", address: "" });
+      setCustomerData({ name: "", phone: "", altPhone: "", address: emptyAddress });
+      setSavedAddressId("");
+      setSaveAddress(false);
       onSuccess();
     },
     onError: (error: Error) => {
@@ -69,33 +137,23 @@ export default function CheckoutModal({
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!product) return;
-
-    const orderData: InsertOrder = {
-      products: [
-        {
-          productId: product.id,
-          quantity,
-        },
-      ],
+    const checkoutData: CheckoutCart = {
       customer: {
         name: customerData.name,
         phone: customerData.phone,
         altPhone: customerData.altPhone || undefined,
-        address: customerData.address,
+        address: toDeliveryAddress(customerData.address),
       },
     };
 
-    orderMutation.mutate(orderData);
+    orderMutation.mutate(checkoutData);
   };
 
-  if (!product) return null;
-
-  const totalAmount = product.priceInINR * quantity;
+  const lines = cart?.lines || [];
 
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
-      <DialogContent className="max-w-md forest-card" data-testid="modal-checkout">
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto forest-card" data-testid="modal-checkout">
         <DialogHeader>
           <div className="flex justify-between items-start">
             <DialogTitle className="text-2xl font-serif font-bold">Checkout</DialogTitle>
@@ -147,46 +205,108 @@ export default function CheckoutModal({
             />
           </div>
           
-          <div>
-            <Label htmlFor="customer-address">Address *</Label>
-            <Textarea
-              id="customer-address"
-              placeholder="Enter your complete address"
+          <div className="space-y-3">
+            <Label>Delivery Address *</Label>
+            {savedAddresses.length > 0 && (
+              <Select
+                value={savedAddressId || "new"}
+                onValueChange={(value) => handleSavedAddressChange(value === "new" ? "" : value)}
+                disabled={orderMutation.isPending}
+              >
+                <SelectTrigger data-testid="select-saved-address">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {savedAddresses.map((address) => (
+                    <SelectItem key={address.id} value={address.id}>
+                      {address.label ? `${address.label}: ` : ""}{formatAddress(address)}
+                    </SelectItem>
+                  ))}
+                  <SelectItem value="new">A new address</SelectItem>
+                </SelectContent>
+              </Select>
+            )}
+            <AddressFields
               value={customerData.address}
-              onChange={(e) => setCustomerData(prev => ({ ...prev, address: e.target.value }))}
-              required
+              onChange={(address) => {
+                setSavedAddressId("");
+                setCustomerData(prev => ({ ...prev, address }));
+              }}
               disabled={orderMutation.isPending}
-              className="h-20"
-              data-testid="input-customer-address"
+              idPrefix="customer-address"
             />
+            {customer && !savedAddressId && (
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="save-address"
+                  checked={saveAddress}
+                  onCheckedChange={(checked) => setSaveAddress(checked === true)}
+                  disabled={orderMutation.isPending}
+                  data-testid="checkbox-save-address"
+                />
+                <Label htmlFor="save-address" className="font-normal">Save this address to my account</Label>
+              </div>
+            )}
           </div>
           
           <div className="border-t border-border pt-4">
             <div className="space-y-2 mb-4">
-              <div className="flex justify-between text-sm">
-                <span>Product:</span>
-                <span data-testid="text-checkout-product">{product.name}</span>
-              </div>
-              <div className="flex justify-between text-sm">
-                <span>Quantity:</span>
-                <span data-testid="text-checkout-quantity">{quantity}</span>
-              </div>
-              <div className="flex justify-between text-sm">
-                <span>Unit Price:</span>
-                <span data-testid="text-checkout-unit-price">{formatPrice(product.priceInINR)}</span>
-              </div>
+              {lines.map((line) => (
+                <div
+                  key={`${line.productId}-${line.variantId ?? ""}`}
+                  className="flex justify-between text-sm"
+                  data-testid={`item-checkout-${line.variantId ?? line.productId}`}
+                >
+                  <span>
+                    {line.name}{line.variantName && ` (${line.variantName})`} × {line.quantity}
+                  </span>
+                  <span>{formatPrice(line.priceInINR * line.quantity)}</span>
+                </div>
+              ))}
+              {addedGstINR > 0 && (
+                <div className="flex justify-between text-sm" data-testid="text-checkout-gst">
+                  <span>GST</span>
+                  <span>{formatPrice(addedGstINR)}</span>
+                </div>
+              )}
+              {delivery?.serviceable && (
+                <div className="flex justify-between text-sm" data-testid="text-checkout-delivery">
+                  <span>Delivery{delivery.zone && ` (${delivery.zone})`}</span>
+                  <span>{delivery.feeINR > 0 ? formatPrice(delivery.feeINR) : "Free"}</span>
+                </div>
+              )}
+              {delivery?.serviceable && delivery.feeINR > 0 && delivery.freeAboveINR !== null && (
+                <p className="text-xs text-muted-foreground">
+                  Free delivery on orders from {formatPrice(delivery.freeAboveINR)}
+                </p>
+              )}
+              {delivery && !delivery.serviceable && (
+                <p className="text-sm text-destructive" data-testid="text-checkout-not-serviceable">
+                  {delivery.reason}
+                </p>
+              )}
               <div className="flex justify-between items-center font-semibold text-lg border-t border-border pt-2">
                 <span>Total Amount:</span>
                 <span className="text-accent" data-testid="text-checkout-total">
-                  {formatPrice(totalAmount)}
+                  {formatPrice((cart?.totalAmountINR || 0) + addedGstINR + deliveryFeeINR)}
                 </span>
               </div>
+              {cart?.pricesIncludeGst && gstINR > 0 && (
+                <p className="text-xs text-muted-foreground text-right" data-testid="text-checkout-included-gst">
+                  Includes {formatPrice(gstINR)} GST
+                </p>
+              )}
             </div>
             
             <Button 
               type="submit" 
               className="w-full"
-              disabled={orderMutation.isPending}
+              disabled={
+                orderMutation.isPending ||
+                lines.length === 0 ||
+                isCheckingDelivery ||
+                delivery?.serviceable === false
+              }
               data-testid="button-place-order"
             >
               {orderMutation.isPending ? (
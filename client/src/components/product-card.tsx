@@ -1,12 +1,16 @@
 import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import ResponsiveImage from "@/components/responsive-image";
 import type { Product } from "@shared/schema";
 
 interface ProductCardProps {
   product: Product;
   onClick: () => void;
+  // Set while another customer holds this pet
+  reservedUntil?: Date | string;
 }
 
-export default function ProductCard({ product, onClick }: ProductCardProps) {
+export default function ProductCard({ product, onClick, reservedUntil }: ProductCardProps) {
   const formatPrice = (price: number) => {
     return new Intl.NumberFormat('en-IN', {
       style: 'currency',
@@ -15,16 +19,27 @@ export default function ProductCard({ product, onClick }: ProductCardProps) {
     }).format(price);
   };
 
+  // Only shown once the hold has taken the last one; other units stay on sale
+  const isReserved = !!reservedUntil && product.stock === 0;
+  // A product with variants is priced at its cheapest variant
+  const hasPriceRange = product.variants.some(variant => variant.priceInINR !== product.priceInINR);
+
   return (
     <Card 
-      className="forest-card cursor-pointer transform hover:scale-105 transition-all duration-200 overflow-hidden"
+      className="forest-card cursor-pointer transform hover:scale-105 transition-all duration-200 overflow-hidden relative"
       onClick={onClick}
       data-testid={`card-product-${product.id}`}
     >
+      {isReserved && (
+        <Badge className="absolute top-3 right-3 bg-yellow-500/90 text-black" data-testid={`badge-reserved-${product.id}`}>
+          Reserved
+        </Badge>
+      )}
       {product.images.length > 0 ? (
-        <img 
-          src={product.images[0]} 
-          alt={product.name}
+        <ResponsiveImage
+          image={product.images[0]}
+          sizes="(min-width: 1024px) 25vw, (min-width: 768px) 33vw, 100vw"
+          alt={product.images[0].alt || product.name}
           className="w-full h-48 object-cover"
           data-testid={`img-product-${product.id}`}
         />
@@ -47,10 +62,11 @@ export default function ProductCard({ product, onClick }: ProductCardProps) {
         </p>
         <div className="flex justify-between items-center">
           <span className="text-xl font-bold text-accent" data-testid={`text-price-${product.id}`}>
+            {hasPriceRange && "From "}
             {formatPrice(product.priceInINR)}
           </span>
           <span className="text-sm text-muted-foreground" data-testid={`text-stock-${product.id}`}>
-            {product.stock > 0 ? `In Stock: ${product.stock}` : "Out of Stock"}
+            {product.stock > 0 ? `In Stock: ${product.stock}` : isReserved ? "Reserved" : "Out of Stock"}
           </span>
         </div>
       </CardContent>
@@ -0,0 +1,271 @@
+import { useEffect, useRef, useState } from "react";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import {
+  Carousel,
+  CarouselContent,
+  CarouselItem,
+  CarouselNext,
+  CarouselPrevious,
+  type CarouselApi,
+} from "@/components/ui/carousel";
+import ResponsiveImage from "@/components/responsive-image";
+import { Maximize2, ZoomIn, ZoomOut } from "lucide-react";
+import type { Product, ProductImage } from "@shared/schema";
+
+const MAX_ZOOM = 4;
+
+interface ProductGalleryProps {
+  product: Product;
+  // Image to bring into view, e.g. the one shown for the chosen variant
+  activeSrc?: string | null;
+}
+
+type Zoom = { scale: number; x: number; y: number };
+
+const NO_ZOOM: Zoom = { scale: 1, x: 0, y: 0 };
+
+const touchDistance = (touches: React.TouchList) =>
+  Math.hypot(touches[0].clientX - touches[1].clientX, touches[0].clientY - touches[1].clientY);
+
+interface ZoomableImageProps {
+  image: ProductImage;
+  alt: string;
+  zoom: Zoom;
+  onZoomChange: (zoom: Zoom) => void;
+}
+
+// Pinch or double-click to zoom, then drag to pan
+function ZoomableImage({ image, alt, zoom, onZoomChange }: ZoomableImageProps) {
+  const gesture = useRef<{ distance: number; clientX: number; clientY: number; zoom: Zoom } | null>(null);
+
+  const handleTouchStart = (e: React.TouchEvent) => {
+    gesture.current = {
+      distance: e.touches.length === 2 ? touchDistance(e.touches) : 0,
+      clientX: e.touches[0].clientX,
+      clientY: e.touches[0].clientY,
+      zoom,
+    };
+  };
+
+  const handleTouchMove = (e: React.TouchEvent) => {
+    const start = gesture.current;
+    if (!start) return;
+
+    if (e.touches.length === 2 && start.distance) {
+      const scale = Math.min(MAX_ZOOM, Math.max(1, (start.zoom.scale * touchDistance(e.touches)) / start.distance));
+      onZoomChange(scale === 1 ? NO_ZOOM : { ...start.zoom, scale });
+    } else if (e.touches.length === 1 && zoom.scale > 1) {
+      onZoomChange({
+        ...zoom,
+        x: start.zoom.x + e.touches[0].clientX - start.clientX,
+        y: start.zoom.y + e.touches[0].clientY - start.clientY,
+      });
+    }
+  };
+
+  const handleMouseMove = (e: React.MouseEvent) => {
+    if (e.buttons === 1 && zoom.scale > 1) {
+      onZoomChange({ ...zoom, x: zoom.x + e.movementX, y: zoom.y + e.movementY });
+    }
+  };
+
+  return (
+    <div
+      className="flex h-full w-full items-center justify-center overflow-hidden"
+      style={{ touchAction: zoom.scale > 1 ? "none" : "pan-y" }}
+      onTouchStart={handleTouchStart}
+      onTouchMove={handleTouchMove}
+      onTouchEnd={() => (gesture.current = null)}
+      onMouseMove={handleMouseMove}
+      onDoubleClick={() => onZoomChange(zoom.scale > 1 ? NO_ZOOM : { ...NO_ZOOM, scale: 2.5 })}
+    >
+      <ResponsiveImage
+        image={image}
+        sizes="100vw"
+        alt={alt}
+        draggable={false}
+        className={`max-h-[85vh] max-w-full object-contain select-none ${zoom.scale > 1 ? "cursor-grab" : "cursor-zoom-in"}`}
+        style={{ transform: `translate(${zoom.x}px, ${zoom.y}px) scale(${zoom.scale})` }}
+      />
+    </div>
+  );
+}
+
+export default function ProductGallery({ product, activeSrc }: ProductGalleryProps) {
+  const { images } = product;
+  const [api, setApi] = useState<CarouselApi>();
+  const [lightboxApi, setLightboxApi] = useState<CarouselApi>();
+  const [current, setCurrent] = useState(0);
+  const [isLightboxOpen, setIsLightboxOpen] = useState(false);
+  // Fixed while open: changing embla's options re-initialises the carousel
+  const [lightboxStart, setLightboxStart] = useState(0);
+  const [zoom, setZoom] = useState<Zoom>(NO_ZOOM);
+
+  // Both carousels follow whichever one the customer moves
+  useEffect(() => {
+    const carousels = [api, lightboxApi].filter((carousel): carousel is NonNullable<CarouselApi> => !!carousel);
+    const handlers = carousels.map(carousel => {
+      const onSelect = () => {
+        setCurrent(carousel.selectedScrollSnap());
+        setZoom(NO_ZOOM);
+      };
+      carousel.on("select", onSelect);
+      return () => carousel.off("select", onSelect);
+    });
+    return () => handlers.forEach(off => off());
+  }, [api, lightboxApi]);
+
+  useEffect(() => {
+    [api, lightboxApi].forEach(carousel => {
+      if (carousel && carousel.selectedScrollSnap() !== current) carousel.scrollTo(current);
+    });
+  }, [api, lightboxApi, current]);
+
+  useEffect(() => {
+    const index = images.findIndex(image => image.src === activeSrc);
+    if (index >= 0) setCurrent(index);
+  }, [activeSrc, images]);
+
+  if (images.length === 0) {
+    return (
+      <div className="w-full aspect-square rounded-xl bg-muted flex items-center justify-center text-6xl">
+        {product.type === "pet" ? "🐾" : product.type === "food" ? "🥘" : "🎾"}
+      </div>
+    );
+  }
+
+  const imageAlt = (image: ProductImage, index: number) =>
+    image.alt || (images.length > 1 ? `${product.name}, image ${index + 1} of ${images.length}` : product.name);
+
+  const openLightbox = () => {
+    setZoom(NO_ZOOM);
+    setLightboxStart(current);
+    setIsLightboxOpen(true);
+  };
+
+  // The lightbox carousel is unmounted on close, so its API goes with it
+  const handleLightboxOpenChange = (open: boolean) => {
+    setIsLightboxOpen(open);
+    if (!open) setLightboxApi(undefined);
+  };
+
+  const handleLightboxKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "ArrowLeft") lightboxApi?.scrollPrev();
+    if (e.key === "ArrowRight") lightboxApi?.scrollNext();
+  };
+
+  const hasMany = images.length > 1;
+
+  return (
+    <div className="space-y-3">
+      <Carousel setApi={setApi} tabIndex={0} aria-label={`${product.name} images`} data-testid="carousel-product-images">
+        <CarouselContent>
+          {images.map((image, index) => (
+            <CarouselItem key={image.src}>
+              <button type="button" className="block w-full cursor-zoom-in" onClick={openLightbox} data-testid={`button-open-lightbox-${index}`}>
+                <ResponsiveImage
+                  image={image}
+                  sizes="(min-width: 768px) 336px, 100vw"
+                  loading={index === 0 ? "eager" : "lazy"}
+                  alt={imageAlt(image, index)}
+                  className="w-full aspect-square object-cover rounded-xl"
+                  data-testid={index === 0 ? "img-product-modal" : `img-product-modal-${index}`}
+                />
+              </button>
+            </CarouselItem>
+          ))}
+        </CarouselContent>
+        {hasMany && (
+          <>
+            <CarouselPrevious className="left-2" data-testid="button-gallery-previous" />
+            <CarouselNext className="right-2" data-testid="button-gallery-next" />
+          </>
+        )}
+        <Button
+          type="button"
+          variant="secondary"
+          size="icon"
+          className="absolute bottom-2 right-2 h-8 w-8 rounded-full opacity-80"
+          onClick={openLightbox}
+          data-testid="button-gallery-fullscreen"
+        >
+          <Maximize2 className="h-4 w-4" />
+          <span className="sr-only">View full screen</span>
+        </Button>
+      </Carousel>
+
+      {hasMany && (
+        <div className="flex gap-2 overflow-x-auto pb-1" data-testid="list-gallery-thumbnails">
+          {images.map((image, index) => (
+            <button
+              key={image.src}
+              type="button"
+              onClick={() => setCurrent(index)}
+              aria-label={`Show image ${index + 1}`}
+              aria-current={index === current}
+              className={`shrink-0 rounded-md overflow-hidden border-2 transition-opacity ${
+                index === current ? "border-primary" : "border-transparent opacity-60 hover:opacity-100"
+              }`}
+              data-testid={`button-gallery-thumbnail-${index}`}
+            >
+              <ResponsiveImage image={image} sizes="64px" alt="" className="h-16 w-16 object-cover" />
+            </button>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={isLightboxOpen} onOpenChange={handleLightboxOpenChange}>
+        <DialogContent
+          className="max-w-none w-screen h-[100dvh] p-0 border-0 bg-black/95 text-white sm:rounded-none flex flex-col"
+          onKeyDown={handleLightboxKeyDown}
+          data-testid="lightbox-product-images"
+        >
+          <DialogTitle className="sr-only">{product.name} images</DialogTitle>
+          <Carousel
+            setApi={setLightboxApi}
+            opts={{ startIndex: lightboxStart, watchDrag: zoom.scale === 1 }}
+            className="flex-1 flex items-center"
+          >
+            <CarouselContent className="h-[85vh]">
+              {images.map((image, index) => (
+                <CarouselItem key={image.src} className="h-full">
+                  <ZoomableImage
+                    image={image}
+                    alt={imageAlt(image, index)}
+                    zoom={index === current ? zoom : NO_ZOOM}
+                    onZoomChange={setZoom}
+                  />
+                </CarouselItem>
+              ))}
+            </CarouselContent>
+            {hasMany && (
+              <>
+                <CarouselPrevious className="left-4" />
+                <CarouselNext className="right-4" />
+              </>
+            )}
+          </Carousel>
+          <div className="flex items-center justify-center gap-4 pb-4 text-white">
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => setZoom(zoom.scale > 1 ? NO_ZOOM : { ...NO_ZOOM, scale: 2.5 })}
+              className="text-white hover:text-white hover:bg-white/10"
+              data-testid="button-lightbox-zoom"
+            >
+              {zoom.scale > 1 ? <ZoomOut className="h-5 w-5" /> : <ZoomIn className="h-5 w-5" />}
+              <span className="sr-only">{zoom.scale > 1 ? "Zoom out" : "Zoom in"}</span>
+            </Button>
+            {hasMany && (
+              <span className="text-sm" data-testid="text-lightbox-position">
+                {current + 1} / {images.length}
+              </span>
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
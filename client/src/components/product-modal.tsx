@@ -1,23 +1,43 @@
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Minus, Plus, X } from "lucide-react";
-import type { Product } from "@shared/schema";
+import ProductGallery from "@/components/product-gallery";
+import { CalendarClock, FileText, Minus, Plus, ShoppingCart, X } from "lucide-react";
+import type { PetSex, Product } from "@shared/schema";
+
+const sexLabels: Record<PetSex, string> = {
+  male: "Male",
+  female: "Female",
+  pair: "Pair",
+  unsexed: "Not yet sexed",
+};
 
 interface ProductModalProps {
   product: Product | null;
   quantity: number;
   onQuantityChange: (quantity: number) => void;
+  variantId: string | null;
+  onVariantChange: (variantId: string) => void;
   onClose: () => void;
+  onAddToCart: () => void;
   onBuyNow: () => void;
+  onReserve: () => void;
+  isAddingToCart?: boolean;
+  reservedUntil?: Date | string;
 }
 
 export default function ProductModal({ 
   product, 
   quantity, 
   onQuantityChange, 
+  variantId,
+  onVariantChange,
   onClose, 
-  onBuyNow 
+  onAddToCart,
+  onBuyNow,
+  onReserve,
+  isAddingToCart = false,
+  reservedUntil,
 }: ProductModalProps) {
   if (!product) return null;
 
@@ -29,6 +49,41 @@ export default function ProductModal({
     }).format(price);
   };
 
+  const formatDate = (date: string) => {
+    return new Date(date).toLocaleDateString('en-IN', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  const formatAge = (dateOfBirth: string) => {
+    const born = new Date(dateOfBirth);
+    const now = new Date();
+    const months = (now.getFullYear() - born.getFullYear()) * 12 + now.getMonth() - born.getMonth() - (now.getDate() < born.getDate() ? 1 : 0);
+    if (months < 1) {
+      const weeks = Math.floor((now.getTime() - born.getTime()) / (7 * 24 * 60 * 60 * 1000));
+      return `${weeks} ${weeks === 1 ? "week" : "weeks"}`;
+    }
+    if (months < 24) return `${months} ${months === 1 ? "month" : "months"}`;
+    return `${Math.floor(months / 12)} years`;
+  };
+
+  const petDetails = product.type === "pet" ? product.petDetails : null;
+
+  // Products with variants are priced and stocked per variant
+  const variant = product.variants.find(v => v.id === variantId) ?? null;
+  const { priceInINR, stock } = variant ?? product;
+
+  // Picking a value keeps the other chosen options where such a variant exists
+  const handleOptionSelect = (optionName: string, value: string) => {
+    const wanted = { ...variant?.options, [optionName]: value };
+    const match =
+      product.variants.find(v => product.options.every(option => v.options[option.name] === wanted[option.name])) ??
+      product.variants.find(v => v.options[optionName] === value);
+    if (match) onVariantChange(match.id);
+  };
+
   const handleQuantityDecrease = () => {
     if (quantity > 1) {
       onQuantityChange(quantity - 1);
@@ -36,12 +91,12 @@ export default function ProductModal({
   };
 
   const handleQuantityIncrease = () => {
-    if (quantity < product.stock) {
+    if (quantity < stock) {
       onQuantityChange(quantity + 1);
     }
   };
 
-  const totalPrice = product.priceInINR * quantity;
+  const totalPrice = priceInINR * quantity;
 
   return (
     <Dialog open={!!product} onOpenChange={onClose}>
@@ -59,18 +114,7 @@ export default function ProductModal({
         
         <div className="grid md:grid-cols-2 gap-6">
           <div>
-            {product.images.length > 0 ? (
-              <img 
-                src={product.images[0]} 
-                alt={product.name}
-                className="w-full rounded-xl"
-                data-testid="img-product-modal"
-              />
-            ) : (
-              <div className="w-full aspect-square rounded-xl bg-muted flex items-center justify-center text-6xl">
-                {product.type === "pet" ? "🐾" : product.type === "food" ? "🥘" : "🎾"}
-              </div>
-            )}
+            <ProductGallery key={product.id} product={product} activeSrc={variant?.image} />
           </div>
           
           <div className="space-y-4">
@@ -96,19 +140,136 @@ export default function ProductModal({
                     <span data-testid="text-product-species">{product.species}</span>
                   </div>
                 )}
+                {petDetails && (
+                  <>
+                    <div className="flex justify-between">
+                      <span>Breed:</span>
+                      <span data-testid="text-pet-breed">{petDetails.breed}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span>Sex:</span>
+                      <span data-testid="text-pet-sex">{sexLabels[petDetails.sex]}</span>
+                    </div>
+                    {petDetails.dateOfBirth && (
+                      <div className="flex justify-between">
+                        <span>Age:</span>
+                        <span data-testid="text-pet-age">
+                          {formatAge(petDetails.dateOfBirth)} (born {formatDate(petDetails.dateOfBirth)})
+                        </span>
+                      </div>
+                    )}
+                    {petDetails.colour && (
+                      <div className="flex justify-between">
+                        <span>Colour:</span>
+                        <span data-testid="text-pet-colour">{petDetails.colour}</span>
+                      </div>
+                    )}
+                    {petDetails.weightKg !== undefined && (
+                      <div className="flex justify-between">
+                        <span>Weight:</span>
+                        <span data-testid="text-pet-weight">{petDetails.weightKg} kg</span>
+                      </div>
+                    )}
+                  </>
+                )}
+                {variant && (
+                  <div className="flex justify-between">
+                    <span>SKU:</span>
+                    <span data-testid="text-variant-sku">{variant.sku}</span>
+                  </div>
+                )}
                 <div className="flex justify-between">
                   <span>Available:</span>
                   <span data-testid="text-product-stock">
-                    {product.stock > 0 ? `${product.stock} in stock` : "Out of stock"}
+                    {stock > 0
+                      ? `${stock} in stock`
+                      : reservedUntil
+                        ? `Reserved until ${new Date(reservedUntil).toLocaleString('en-IN', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}`
+                        : "Out of stock"}
                   </span>
                 </div>
               </div>
             </div>
             
+            {petDetails && (
+              <div>
+                <h3 className="text-lg font-semibold mb-2">Health & Papers</h3>
+                <div className="space-y-2 text-sm">
+                  <div>
+                    <span>Vaccinations:</span>
+                    {petDetails.vaccinations.length > 0 ? (
+                      <ul className="mt-1 space-y-1" data-testid="list-pet-vaccinations">
+                        {petDetails.vaccinations.map((vaccination, index) => (
+                          <li key={index} className="flex justify-between text-muted-foreground">
+                            <span>{vaccination.name}</span>
+                            <span>{formatDate(vaccination.date)}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    ) : (
+                      <span className="ml-2 text-muted-foreground">None recorded</span>
+                    )}
+                  </div>
+                  <div className="flex justify-between">
+                    <span>Last dewormed:</span>
+                    <span data-testid="text-pet-dewormed">
+                      {petDetails.lastDewormedOn ? formatDate(petDetails.lastDewormedOn) : "Not recorded"}
+                    </span>
+                  </div>
+                  {petDetails.microchipNumber && (
+                    <div className="flex justify-between">
+                      <span>Microchip:</span>
+                      <span data-testid="text-pet-microchip">{petDetails.microchipNumber}</span>
+                    </div>
+                  )}
+                  <div className="flex justify-between">
+                    <span>KCI registration:</span>
+                    <span data-testid="text-pet-kci">{petDetails.kciRegistrationNumber || "Not registered"}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>Pedigree papers:</span>
+                    <span data-testid="text-pet-pedigree">{petDetails.pedigreePapers ? "Included" : "Not included"}</span>
+                  </div>
+                  {petDetails.healthCertificate && (
+                    <a
+                      href={petDetails.healthCertificate}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="inline-flex items-center text-accent hover:underline"
+                      data-testid="link-pet-health-certificate"
+                    >
+                      <FileText className="mr-1 h-4 w-4" />
+                      View health certificate
+                    </a>
+                  )}
+                </div>
+              </div>
+            )}
+
             <div className="border-t border-border pt-4">
+              {product.options.map((option) => (
+                <div key={option.name} className="mb-4">
+                  <label className="block text-sm font-medium mb-2">{option.name}:</label>
+                  <div className="flex flex-wrap gap-2">
+                    {option.values.map((value) => (
+                      <Button
+                        key={value}
+                        variant={variant?.options[option.name] === value ? "default" : "outline"}
+                        size="sm"
+                        onClick={() => handleOptionSelect(option.name, value)}
+                        disabled={!product.variants.some(v => v.options[option.name] === value)}
+                        data-testid={`button-option-${option.name}-${value}`.toLowerCase().replace(/\s+/g, "-")}
+                      >
+                        {value}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+              ))}
+
               <div className="flex items-center justify-between mb-4">
                 <span className="text-2xl font-bold text-accent" data-testid="text-product-price">
-                  {formatPrice(product.priceInINR)}
+                  {formatPrice(priceInINR)}
                 </span>
               </div>
               
@@ -131,7 +292,7 @@ export default function ProductModal({
                     variant="outline"
                     size="sm"
                     onClick={handleQuantityIncrease}
-                    disabled={quantity >= product.stock}
+                    disabled={quantity >= stock}
                     data-testid="button-quantity-increase"
                   >
                     <Plus className="h-4 w-4" />
@@ -150,14 +311,36 @@ export default function ProductModal({
                 </div>
               )}
               
-              <Button 
-                className="w-full"
-                onClick={onBuyNow}
-                disabled={product.stock === 0}
-                data-testid="button-buy-now"
-              >
-                {product.stock === 0 ? "Out of Stock" : "Buy Now"}
-              </Button>
+              <div className="grid grid-cols-2 gap-2">
+                <Button
+                  variant="outline"
+                  onClick={onAddToCart}
+                  disabled={stock === 0 || isAddingToCart}
+                  data-testid="button-add-to-cart"
+                >
+                  <ShoppingCart className="mr-2 h-4 w-4" />
+                  Add to Cart
+                </Button>
+                <Button 
+                  onClick={onBuyNow}
+                  disabled={stock === 0 || isAddingToCart}
+                  data-testid="button-buy-now"
+                >
+                  {stock === 0 ? "Out of Stock" : "Buy Now"}
+                </Button>
+              </div>
+
+              {product.type === "pet" && product.stock > 0 && (
+                <Button
+                  variant="secondary"
+                  className="w-full mt-2"
+                  onClick={onReserve}
+                  data-testid="button-reserve"
+                >
+                  <CalendarClock className="mr-2 h-4 w-4" />
+                  Reserve & Visit First
+                </Button>
+              )}
             </div>
           </div>
         </div>
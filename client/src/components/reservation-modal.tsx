@@ -0,0 +1,160 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { reservationsApi } from "@/api/reservations.api";
+import AddressFields, { emptyAddress, toDeliveryAddress } from "@/components/address-fields";
+import type { InsertReservation, Product, Reservation } from "@shared/schema";
+
+interface ReservationModalProps {
+  product: Product | null;
+  holdHours: number;
+  onClose: () => void;
+}
+
+export default function ReservationModal({ product, holdHours, onClose }: ReservationModalProps) {
+  const [customerData, setCustomerData] = useState({
+    name: "",
+    phone: "",
+    altPhone: "",
+    address: emptyAddress,
+  });
+
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const formatDateTime = (date: string | Date) => {
+    return new Date(date).toLocaleString('en-IN', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  const reserveMutation = useMutation({
+    mutationFn: (reservation: InsertReservation) => reservationsApi.reserve(reservation),
+    onSuccess: (reservation: Reservation) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reservations/holds"] });
+      toast({
+        title: `${product?.name} is reserved for you`,
+        description: `We'll hold it until ${formatDateTime(reservation.expiresAt)}. Visit us or call to complete the purchase.`,
+      });
+      setCustomerData({ name: "", phone: "", altPhone: "", address: emptyAddress });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Reservation failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!product) return;
+
+    reserveMutation.mutate({
+      productId: product.id,
+      customer: {
+        name: customerData.name,
+        phone: customerData.phone,
+        altPhone: customerData.altPhone || undefined,
+        address: toDeliveryAddress(customerData.address),
+      },
+    });
+  };
+
+  return (
+    <Dialog open={!!product} onOpenChange={onClose}>
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto forest-card" data-testid="modal-reservation">
+        <DialogHeader>
+          <div className="flex justify-between items-start">
+            <DialogTitle className="text-2xl font-serif font-bold">Reserve {product?.name}</DialogTitle>
+            <Button variant="ghost" size="sm" onClick={onClose} data-testid="button-close-reservation">
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </DialogHeader>
+
+        <p className="text-sm text-muted-foreground" data-testid="text-reservation-hold">
+          We'll hold this pet for you for {holdHours} {holdHours === 1 ? "hour" : "hours"} so you can visit
+          before buying. After that it goes back on sale.
+        </p>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label htmlFor="reservation-name">Full Name *</Label>
+            <Input
+              id="reservation-name"
+              type="text"
+              placeholder="Enter your full name"
+              value={customerData.name}
+              onChange={(e) => setCustomerData(prev => ({ ...prev, name: e.target.value }))}
+              required
+              disabled={reserveMutation.isPending}
+              data-testid="input-reservation-name"
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="reservation-phone">Phone Number *</Label>
+            <Input
+              id="reservation-phone"
+              type="tel"
+              placeholder="+91 98765 43210"
+              value={customerData.phone}
+              onChange={(e) => setCustomerData(prev => ({ ...prev, phone: e.target.value }))}
+              required
+              disabled={reserveMutation.isPending}
+              data-testid="input-reservation-phone"
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="reservation-alt-phone">Alternative Phone</Label>
+            <Input
+              id="reservation-alt-phone"
+              type="tel"
+              placeholder="Alternative contact"
+              value={customerData.altPhone}
+              onChange={(e) => setCustomerData(prev => ({ ...prev, altPhone: e.target.value }))}
+              disabled={reserveMutation.isPending}
+              data-testid="input-reservation-alt-phone"
+            />
+          </div>
+
+          <AddressFields
+            value={customerData.address}
+            onChange={(address) => setCustomerData(prev => ({ ...prev, address }))}
+            disabled={reserveMutation.isPending}
+            idPrefix="reservation-address"
+          />
+
+          <Button
+            type="submit"
+            className="w-full"
+            disabled={reserveMutation.isPending}
+            data-testid="button-confirm-reservation"
+          >
+            {reserveMutation.isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Reserving...
+              </>
+            ) : (
+              "Reserve Pet"
+            )}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
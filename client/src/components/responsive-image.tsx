@@ -0,0 +1,36 @@
+import type { ImgHTMLAttributes } from "react";
+import type { ProductImage } from "@shared/schema";
+
+interface ResponsiveImageProps extends Omit<ImgHTMLAttributes<HTMLImageElement>, "src" | "srcSet" | "width" | "height"> {
+  image: ProductImage;
+  // Rendered width of the image, so the browser can pick a rendition
+  sizes: string;
+}
+
+// Product photo offered as WebP renditions, with the JPEG/PNG as fallback
+export default function ResponsiveImage({ image, sizes, ...props }: ResponsiveImageProps) {
+  const img = (
+    <img
+      src={image.src}
+      width={image.width ?? undefined}
+      height={image.height ?? undefined}
+      loading="lazy"
+      decoding="async"
+      {...props}
+    />
+  );
+
+  // Images uploaded before renditions were generated have only their src
+  if (image.renditions.length === 0) return img;
+
+  return (
+    <picture className="contents">
+      <source
+        type="image/webp"
+        srcSet={image.renditions.map(rendition => `${rendition.src} ${rendition.width}w`).join(", ")}
+        sizes={sizes}
+      />
+      {img}
+    </picture>
+  );
+}
@@ -1,58 +1,82 @@
 import { createContext, useContext, ReactNode, useEffect } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { useSocket } from "@/hooks/use-socket";
-import type { Category, Product, Order } from "@shared/schema";
+import type { Category, ReservationHold } from "@shared/schema";
 
+// Products and orders are paged, so each view queries the page it shows;
+// live updates invalidate every such query
 interface AppContextType {
   categories: Category[] | undefined;
-  products: Product[] | undefined;
-  orders: Order[] | undefined;
+  reservationHolds: ReservationHold[] | undefined;
   isLoading: boolean;
 }
 
 const AppContext = createContext<AppContextType | null>(null);
 
 export function AppProvider({ children }: { children: ReactNode }) {
-  const { data: categories, refetch: refetchCategories } = useQuery<Category[]>({
+  const queryClient = useQueryClient();
+
+  const { data: categories } = useQuery<Category[]>({
     queryKey: ["/api/categories"],
   });
 
-  const { data: products, refetch: refetchProducts } = useQuery<Product[]>({
-    queryKey: ["/api/products"],
+  const { data: reservationHolds, refetch: refetchReservationHolds } = useQuery<ReservationHold[]>({
+    queryKey: ["/api/reservations/holds"],
   });
 
-  const { data: orders, refetch: refetchOrders } = useQuery<Order[]>({
-    queryKey: ["/api/admin/orders"],
-    queryFn: undefined, // This will only work if user is authenticated
-    retry: false,
-  });
+  // Also refreshes the category tree
+  const refetchCategories = () => queryClient.invalidateQueries({ queryKey: ["/api/categories"] });
+  const refetchProducts = () => queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+  const refetchOrders = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/orders"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/customer/orders"] });
+  };
+
+  const handleReservationChange = () => {
+    refetchReservationHolds();
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/reservations"] });
+  };
 
   // Handle WebSocket events for real-time updates
   useSocket({
     onCategoryCreated: () => refetchCategories(),
     onCategoryUpdated: () => refetchCategories(),
-    onCategoryDeleted: () => refetchCategories(),
+    onCategoryDeleted: () => {
+      refetchCategories();
+      // Its products may have been moved or archived
+      refetchProducts();
+      queryClient.invalidateQueries({ queryKey: ["/api/cart"] });
+    },
     onProductCreated: () => refetchProducts(),
-    onProductUpdated: () => refetchProducts(),
-    onProductDeleted: () => refetchProducts(),
+    onProductUpdated: () => {
+      refetchProducts();
+      // Cart lines are re-priced against the current product
+      queryClient.invalidateQueries({ queryKey: ["/api/cart"] });
+    },
+    onProductDeleted: () => {
+      refetchProducts();
+      queryClient.invalidateQueries({ queryKey: ["/api/cart"] });
+    },
     onOrderCreated: () => {
       refetchOrders();
       refetchProducts(); // Refresh products to update stock
+      queryClient.invalidateQueries({ queryKey: ["/api/cart"] });
     },
     onOrderUpdated: () => refetchOrders(),
+    onReservationCreated: handleReservationChange,
+    onReservationUpdated: handleReservationChange,
     onSettingsUpdated: () => {
       // Settings are handled by individual components
     },
   });
 
-  const isLoading = !categories && !products;
+  const isLoading = !categories;
 
   return (
     <AppContext.Provider
       value={{
         categories,
-        products,
-        orders,
+        reservationHolds,
         isLoading,
       }}
     >
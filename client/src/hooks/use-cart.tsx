@@ -0,0 +1,56 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { cartApi } from "@/api/cart.api";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { Cart, CartLine } from "@shared/schema";
+
+type CartLineChange = Pick<CartLine, "productId" | "variantId" | "quantity">;
+
+export function useCart() {
+  const { toast } = useToast();
+
+  const { data: cart, isLoading } = useQuery<Cart>({
+    queryKey: ["/api/cart"],
+  });
+
+  const onCartChanged = (updated: Cart) => {
+    queryClient.setQueryData(["/api/cart"], updated);
+  };
+
+  const onCartError = (error: Error) => {
+    toast({
+      title: "Cart update failed",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const addItemMutation = useMutation({
+    mutationFn: ({ quantity, ...line }: CartLineChange) =>
+      cartApi.addItem(line, quantity),
+    onSuccess: onCartChanged,
+    onError: onCartError,
+  });
+
+  const updateItemMutation = useMutation({
+    mutationFn: ({ quantity, ...line }: CartLineChange) =>
+      cartApi.updateItem(line, quantity),
+    onSuccess: onCartChanged,
+    onError: onCartError,
+  });
+
+  const removeItemMutation = useMutation({
+    mutationFn: (line: Pick<CartLine, "productId" | "variantId">) =>
+      cartApi.removeItem(line),
+    onSuccess: onCartChanged,
+    onError: onCartError,
+  });
+
+  return {
+    cart,
+    isLoading,
+    addItemMutation,
+    updateItemMutation,
+    removeItemMutation,
+  };
+}
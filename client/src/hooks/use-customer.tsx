@@ -0,0 +1,82 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { customerApi } from "@/api/customer.api";
+import { getQueryFn, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { Customer, UpdateCustomer } from "@shared/schema";
+
+type LoginData = { phone: string; code: string };
+
+// The signed-in customer account, null when signed out
+export function useCustomer() {
+  const { toast } = useToast();
+
+  const { data: customer, isLoading } = useQuery<Customer | null>({
+    queryKey: ["/api/customer"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const onSignedIn = (customer: Customer | null) => {
+    queryClient.setQueryData(["/api/customer"], customer);
+    queryClient.removeQueries({ queryKey: ["/api/customer/orders"] });
+    queryClient.removeQueries({ queryKey: ["/api/customer/addresses"] });
+  };
+
+  const requestCodeMutation = useMutation({
+    mutationFn: (phone: string) => customerApi.requestLoginCode(phone),
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't send the code",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const loginMutation = useMutation({
+    mutationFn: ({ phone, code }: LoginData) => customerApi.login(phone, code),
+    onSuccess: onSignedIn,
+    onError: (error: Error) => {
+      toast({
+        title: "Sign in failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: () => customerApi.logout(),
+    onSuccess: () => onSignedIn(null),
+    onError: (error: Error) => {
+      toast({
+        title: "Sign out failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateProfileMutation = useMutation({
+    mutationFn: (profile: UpdateCustomer) => customerApi.updateProfile(profile),
+    onSuccess: (updated: Customer) => {
+      queryClient.setQueryData(["/api/customer"], updated);
+      toast({ title: "Profile saved" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't save your profile",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return {
+    customer: customer ?? null,
+    isLoading,
+    requestCodeMutation,
+    loginMutation,
+    logoutMutation,
+    updateProfileMutation,
+  };
+}
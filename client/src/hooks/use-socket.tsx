@@ -10,6 +10,8 @@ interface SocketEvents {
   onProductDeleted?: (data: any) => void;
   onOrderCreated?: (data: any) => void;
   onOrderUpdated?: (data: any) => void;
+  onReservationCreated?: (data: any) => void;
+  onReservationUpdated?: (data: any) => void;
   onSettingsUpdated?: (data: any) => void;
 }
 
@@ -76,6 +78,12 @@ export function useSocket(events: SocketEvents) {
               case "order:updated":
                 eventsRef.current.onOrderUpdated?.(data);
                 break;
+              case "reservation:created":
+                eventsRef.current.onReservationCreated?.(data);
+                break;
+              case "reservation:updated":
+                eventsRef.current.onReservationUpdated?.(data);
+                break;
               case "settings:updated":
                 eventsRef.current.onSettingsUpdated?.(data);
                 break;
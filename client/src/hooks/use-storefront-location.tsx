@@ -0,0 +1,103 @@
+import { useLocation, useSearch } from "wouter";
+import { listSorts, type ListSort, type Product } from "@shared/schema";
+
+export type StorefrontSection = "home" | "products" | "contact";
+
+// Shop filters as they appear in the query string; prices stay as typed
+export type ShopFilters = {
+  q: string;
+  type: Product["type"] | null;
+  minPrice: string;
+  maxPrice: string;
+  inStock: boolean;
+  // No sort means best match first when searching, newest first otherwise
+  sort: ListSort | null;
+};
+
+const productTypes: Product["type"][] = ["pet", "food", "accessory"];
+
+// A product opened from the shop remembers the shop URL it was opened from,
+// so the shop stays behind it and closing it goes back there
+type ProductHistoryState = { background?: string } | null;
+
+const parseFilters = (search: string): ShopFilters => {
+  const params = new URLSearchParams(search);
+  const type = params.get("type") as Product["type"];
+  const sort = params.get("sort") as ListSort;
+  return {
+    q: params.get("q") ?? "",
+    type: productTypes.includes(type) ? type : null,
+    minPrice: params.get("minPrice") ?? "",
+    maxPrice: params.get("maxPrice") ?? "",
+    inStock: params.get("inStock") === "true",
+    sort: listSorts.includes(sort) ? sort : null,
+  };
+};
+
+// /shop or /shop/<category slug>, with the filters that are set
+export const shopUrl = (categorySlug: string | null, filters: Partial<ShopFilters> = {}) => {
+  const params = new URLSearchParams();
+  if (filters.q) params.set("q", filters.q);
+  if (filters.type) params.set("type", filters.type);
+  if (filters.minPrice) params.set("minPrice", filters.minPrice);
+  if (filters.maxPrice) params.set("maxPrice", filters.maxPrice);
+  if (filters.inStock) params.set("inStock", "true");
+  if (filters.sort) params.set("sort", filters.sort);
+  const path = categorySlug ? `/shop/${encodeURIComponent(categorySlug)}` : "/shop";
+  const query = params.toString();
+  return query ? `${path}?${query}` : path;
+};
+
+/**
+ * The storefront's state as the URL holds it: the section, the category and
+ * filters being browsed and the product open, so any of them can be linked
+ * to and the back button steps through them.
+ */
+export function useStorefrontLocation() {
+  const [location, navigate] = useLocation();
+  const search = useSearch();
+
+  const productSlug = location.match(/^\/product\/([^/]+)$/)?.[1];
+  const background = productSlug ? (window.history.state as ProductHistoryState)?.background : undefined;
+  const [shopPath, shopSearch = ""] = productSlug ? (background ?? "/shop").split("?") : [location, search];
+
+  const section: StorefrontSection =
+    location === "/" ? "home" : location === "/contact" ? "contact" : "products";
+  const categoryMatch = shopPath.match(/^\/shop\/([^/]+)$/)?.[1];
+  const categorySlug = categoryMatch ? decodeURIComponent(categoryMatch) : null;
+  const filters = parseFilters(shopSearch);
+
+  // Filters typed into a field replace the current entry rather than adding
+  // one per keystroke
+  const setFilters = (changes: Partial<ShopFilters>, options: { replace?: boolean } = {}) =>
+    navigate(shopUrl(categorySlug, { ...filters, ...changes }), {
+      replace: options.replace && section === "products" && !productSlug,
+    });
+
+  // Categories and product types narrow the shop one at a time
+  const showCategory = (slug: string | null) => navigate(shopUrl(slug, { ...filters, type: null }));
+  const showType = (type: Product["type"]) => navigate(shopUrl(null, { ...filters, type }));
+
+  const openProduct = (product: Product) =>
+    navigate(`/product/${encodeURIComponent(product.slug)}`, {
+      state: { background: search ? `${location}?${search}` : location },
+    });
+
+  const closeProduct = () => {
+    if (background) window.history.back();
+    else navigate("/shop");
+  };
+
+  return {
+    section,
+    categorySlug,
+    productSlug: productSlug ? decodeURIComponent(productSlug) : null,
+    filters,
+    navigate,
+    setFilters,
+    showCategory,
+    showType,
+    openProduct,
+    closeProduct,
+  };
+}
@@ -0,0 +1,540 @@
+import { useEffect, useState } from "react";
+import { Link } from "wouter";
+import { useInfiniteQuery, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ArrowLeft, Edit, Loader2, LogOut, Plus, Trash2 } from "lucide-react";
+import { useCustomer } from "@/hooks/use-customer";
+import { useToast } from "@/hooks/use-toast";
+import { customerApi } from "@/api/customer.api";
+import ForestAnimation from "@/components/forest-animation";
+import AddressFields, { emptyAddress, toDeliveryAddress, type AddressFormData } from "@/components/address-fields";
+import {
+  formatAddress,
+  type Customer,
+  type CustomerAddress,
+  type InsertCustomerAddress,
+  type LoginCodeSent,
+  type OrderStatus,
+} from "@shared/schema";
+
+const PAGE_SIZE = 10;
+
+const statusLabels: Record<OrderStatus, string> = {
+  pending: "Pending",
+  confirmed: "Confirmed",
+  packed: "Packed",
+  out_for_delivery: "Out for Delivery",
+  delivered: "Delivered",
+  cancelled: "Cancelled",
+  returned: "Returned",
+  refunded: "Refunded",
+};
+
+const getStatusColor = (status: OrderStatus) => {
+  switch (status) {
+    case "pending":
+      return "bg-yellow-500/20 text-yellow-400";
+    case "confirmed":
+    case "packed":
+    case "out_for_delivery":
+      return "bg-blue-500/20 text-blue-400";
+    case "delivered":
+      return "bg-green-500/20 text-green-400";
+    case "cancelled":
+    case "returned":
+      return "bg-red-500/20 text-red-400";
+    default:
+      return "bg-gray-500/20 text-gray-400";
+  }
+};
+
+const formatPrice = (price: number) => {
+  return new Intl.NumberFormat('en-IN', {
+    style: 'currency',
+    currency: 'INR',
+    maximumFractionDigits: 0,
+  }).format(price);
+};
+
+const formatDate = (date: string | Date) => {
+  return new Date(date).toLocaleDateString('en-IN', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+};
+
+// Phone number, then the code sent to it
+function SignInForm() {
+  const { requestCodeMutation, loginMutation } = useCustomer();
+  const [phone, setPhone] = useState("");
+  const [code, setCode] = useState("");
+  const [sent, setSent] = useState<LoginCodeSent | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  // Ticks while waiting to be allowed to resend
+  useEffect(() => {
+    if (!sent) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [sent]);
+
+  const resendIn = sent ? Math.ceil((new Date(sent.resendAt).getTime() - now) / 1000) : 0;
+
+  const requestCode = () => {
+    requestCodeMutation.mutate(phone, {
+      onSuccess: (result) => {
+        setSent(result);
+        setCode("");
+        setNow(Date.now());
+      },
+    });
+  };
+
+  const handleRequestCode = (e: React.FormEvent) => {
+    e.preventDefault();
+    requestCode();
+  };
+
+  const handleLogin = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!sent) return;
+    loginMutation.mutate({ phone: sent.phone, code }, { onError: () => setCode("") });
+  };
+
+  if (!sent) {
+    return (
+      <form onSubmit={handleRequestCode} className="space-y-4">
+        <div>
+          <Label htmlFor="signin-phone">Mobile number</Label>
+          <Input
+            id="signin-phone"
+            type="tel"
+            placeholder="98765 43210"
+            value={phone}
+            onChange={(e) => setPhone(e.target.value)}
+            required
+            disabled={requestCodeMutation.isPending}
+            data-testid="input-signin-phone"
+          />
+          <p className="text-xs text-muted-foreground mt-1">We'll text you a 6-digit code.</p>
+        </div>
+        <Button type="submit" className="w-full" disabled={requestCodeMutation.isPending} data-testid="button-send-code">
+          {requestCodeMutation.isPending ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Sending...
+            </>
+          ) : (
+            "Send Code"
+          )}
+        </Button>
+      </form>
+    );
+  }
+
+  return (
+    <form onSubmit={handleLogin} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="signin-code">Enter the code sent to {sent.phone}</Label>
+        <InputOTP
+          id="signin-code"
+          maxLength={6}
+          value={code}
+          onChange={setCode}
+          disabled={loginMutation.isPending}
+          data-testid="input-signin-code"
+        >
+          <InputOTPGroup>
+            {Array.from({ length: 6 }, (_, index) => (
+              <InputOTPSlot key={index} index={index} />
+            ))}
+          </InputOTPGroup>
+        </InputOTP>
+      </div>
+      <Button
+        type="submit"
+        className="w-full"
+        disabled={loginMutation.isPending || code.length !== 6}
+        data-testid="button-verify-code"
+      >
+        {loginMutation.isPending ? (
+          <>
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            Signing In...
+          </>
+        ) : (
+          "Sign In"
+        )}
+      </Button>
+      <div className="flex justify-between text-sm">
+        <button
+          type="button"
+          className="text-muted-foreground hover:text-foreground"
+          onClick={() => setSent(null)}
+          data-testid="button-change-phone"
+        >
+          Change number
+        </button>
+        <button
+          type="button"
+          className="text-muted-foreground hover:text-foreground disabled:opacity-50"
+          onClick={requestCode}
+          disabled={resendIn > 0 || requestCodeMutation.isPending}
+          data-testid="button-resend-code"
+        >
+          {resendIn > 0 ? `Resend code in ${resendIn}s` : "Resend code"}
+        </button>
+      </div>
+    </form>
+  );
+}
+
+function OrderHistory() {
+  const { data, isLoading, error, fetchNextPage, hasNextPage, isFetchingNextPage } = useInfiniteQuery({
+    queryKey: ["/api/customer/orders"],
+    queryFn: ({ pageParam }) => customerApi.getOrders(pageParam, PAGE_SIZE),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+  });
+  const orders = data?.pages.flatMap((page) => page.items) ?? [];
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin" />
+      </div>
+    );
+  }
+  if (error) {
+    return (
+      <p className="text-center text-red-400 py-8" data-testid="text-my-orders-error">
+        {error.message}
+      </p>
+    );
+  }
+  if (orders.length === 0) {
+    return (
+      <div className="text-center py-8" data-testid="text-no-my-orders">
+        <p className="text-muted-foreground mb-4">You haven't placed any orders yet.</p>
+        <Link href="/shop">
+          <Button variant="outline">Browse the shop</Button>
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {orders.map((order) => (
+        <div key={order.id} className="border border-border rounded-lg p-4" data-testid={`card-my-order-${order.id}`}>
+          <div className="flex justify-between items-start mb-2">
+            <div>
+              <p className="font-semibold">#{order.id.slice(-8)}</p>
+              <p className="text-sm text-muted-foreground">{formatDate(order.createdAt)}</p>
+            </div>
+            <Badge className={getStatusColor(order.status)} data-testid={`badge-my-order-status-${order.id}`}>
+              {statusLabels[order.status]}
+            </Badge>
+          </div>
+          <ul className="text-sm text-muted-foreground space-y-1 mb-2">
+            {order.products.map((item, index) => (
+              <li key={index}>
+                {item.name}
+                {item.variantName ? ` (${item.variantName})` : ""} × {item.quantity}
+              </li>
+            ))}
+          </ul>
+          <p className="font-semibold text-accent" data-testid={`text-my-order-total-${order.id}`}>
+            {formatPrice(order.totalAmountINR)}
+            {order.deliveryFeeINR > 0 && (
+              <span className="ml-2 text-xs font-normal text-muted-foreground">
+                incl. {formatPrice(order.deliveryFeeINR)} delivery
+              </span>
+            )}
+          </p>
+        </div>
+      ))}
+      {hasNextPage && (
+        <Button
+          variant="outline"
+          className="w-full"
+          onClick={() => fetchNextPage()}
+          disabled={isFetchingNextPage}
+          data-testid="button-more-orders"
+        >
+          {isFetchingNextPage ? <Loader2 className="h-4 w-4 animate-spin" /> : "Show more orders"}
+        </Button>
+      )}
+    </div>
+  );
+}
+
+function ProfileForm({ customer }: { customer: Customer }) {
+  const { updateProfileMutation } = useCustomer();
+  const [profile, setProfile] = useState({ name: customer.name, email: customer.email });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateProfileMutation.mutate(profile);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div>
+        <Label htmlFor="profile-phone">Mobile number</Label>
+        <Input id="profile-phone" value={customer.phone} disabled data-testid="input-profile-phone" />
+      </div>
+      <div>
+        <Label htmlFor="profile-name">Name</Label>
+        <Input
+          id="profile-name"
+          value={profile.name}
+          onChange={(e) => setProfile(prev => ({ ...prev, name: e.target.value }))}
+          required
+          disabled={updateProfileMutation.isPending}
+          data-testid="input-profile-name"
+        />
+      </div>
+      <div>
+        <Label htmlFor="profile-email">Email (optional)</Label>
+        <Input
+          id="profile-email"
+          type="email"
+          value={profile.email}
+          onChange={(e) => setProfile(prev => ({ ...prev, email: e.target.value }))}
+          disabled={updateProfileMutation.isPending}
+          data-testid="input-profile-email"
+        />
+      </div>
+      <Button type="submit" disabled={updateProfileMutation.isPending} data-testid="button-save-profile">
+        {updateProfileMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+        Save Profile
+      </Button>
+    </form>
+  );
+}
+
+// A saved address being added (no id) or edited
+type AddressDraft = { id?: string; label: string; address: AddressFormData };
+
+function AddressBook() {
+  const [draft, setDraft] = useState<AddressDraft | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: addresses, isLoading } = useQuery({
+    queryKey: ["/api/customer/addresses"],
+    queryFn: () => customerApi.getAddresses(),
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: ({ id, address }: { id?: string; address: InsertCustomerAddress }) =>
+      id ? customerApi.updateAddress(id, address) : customerApi.createAddress(address),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/customer/addresses"] });
+      toast({ title: "Address saved" });
+      setDraft(null);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't save the address", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => customerApi.deleteAddress(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/customer/addresses"] });
+      toast({ title: "Address deleted" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't delete the address", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleEdit = ({ id, label, house, street, landmark, city, state, pinCode }: CustomerAddress) => {
+    setDraft({ id, label, address: { house, street, landmark, city, state, pinCode } });
+  };
+
+  const handleDelete = (id: string) => {
+    if (confirm("Delete this address?")) {
+      deleteMutation.mutate(id);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+    saveMutation.mutate({
+      id: draft.id,
+      address: { ...toDeliveryAddress(draft.address), label: draft.label },
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {addresses?.length === 0 && (
+        <p className="text-center text-muted-foreground py-4" data-testid="text-no-addresses">
+          No saved addresses yet. Save one here or when you check out.
+        </p>
+      )}
+      {addresses?.map((address) => (
+        <div
+          key={address.id}
+          className="border border-border rounded-lg p-4 flex justify-between items-start gap-4"
+          data-testid={`card-address-${address.id}`}
+        >
+          <div>
+            {address.label && <p className="font-semibold">{address.label}</p>}
+            <p className="text-sm text-muted-foreground">{formatAddress(address)}</p>
+          </div>
+          <div className="flex space-x-2 shrink-0">
+            <Button variant="outline" size="sm" onClick={() => handleEdit(address)} data-testid={`button-edit-address-${address.id}`}>
+              <Edit className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => handleDelete(address.id)}
+              disabled={deleteMutation.isPending}
+              data-testid={`button-delete-address-${address.id}`}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      ))}
+      <Button
+        variant="outline"
+        className="w-full"
+        onClick={() => setDraft({ label: "", address: emptyAddress })}
+        data-testid="button-add-address"
+      >
+        <Plus className="h-4 w-4 mr-2" />
+        Add Address
+      </Button>
+
+      <Dialog open={!!draft} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto forest-card" data-testid="modal-address">
+          <DialogHeader>
+            <DialogTitle>{draft?.id ? "Edit Address" : "Add Address"}</DialogTitle>
+          </DialogHeader>
+          {draft && (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <Label htmlFor="address-label">Label</Label>
+                <Input
+                  id="address-label"
+                  placeholder="Home, Office..."
+                  maxLength={40}
+                  value={draft.label}
+                  onChange={(e) => setDraft({ ...draft, label: e.target.value })}
+                  disabled={saveMutation.isPending}
+                  data-testid="input-address-label"
+                />
+              </div>
+              <AddressFields
+                value={draft.address}
+                onChange={(address) => setDraft({ ...draft, address })}
+                disabled={saveMutation.isPending}
+                idPrefix="address-book"
+              />
+              <Button type="submit" className="w-full" disabled={saveMutation.isPending} data-testid="button-save-address">
+                {saveMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+                Save Address
+              </Button>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+export default function AccountPage() {
+  const { customer, isLoading, logoutMutation } = useCustomer();
+
+  useEffect(() => {
+    document.title = "My Account | PetShopForest";
+  }, []);
+
+  return (
+    <div className="min-h-screen bg-background text-foreground">
+      <ForestAnimation />
+
+      <div className="relative z-10 container mx-auto px-4 py-8 max-w-2xl">
+        <Link href="/shop" className="inline-flex items-center text-muted-foreground hover:text-foreground mb-6" data-testid="link-back-to-shop">
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back to the shop
+        </Link>
+
+        {isLoading ? (
+          <div className="flex justify-center py-16">
+            <Loader2 className="h-8 w-8 animate-spin" />
+          </div>
+        ) : !customer ? (
+          <Card className="forest-card max-w-md mx-auto">
+            <CardHeader className="text-center">
+              <CardTitle className="text-2xl font-serif font-bold">Sign in to your account</CardTitle>
+              <p className="text-muted-foreground">Track your orders and check out faster</p>
+            </CardHeader>
+            <CardContent>
+              <SignInForm />
+            </CardContent>
+          </Card>
+        ) : (
+          <Card className="forest-card">
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+              <CardTitle className="text-2xl font-serif font-bold" data-testid="text-account-greeting">
+                {customer.name ? `Hello, ${customer.name}` : "My Account"}
+              </CardTitle>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => logoutMutation.mutate()}
+                disabled={logoutMutation.isPending}
+                data-testid="button-customer-logout"
+              >
+                <LogOut className="h-4 w-4 mr-2" />
+                Sign Out
+              </Button>
+            </CardHeader>
+            <CardContent>
+              <Tabs defaultValue="orders" className="w-full">
+                <TabsList className="grid w-full grid-cols-3 mb-6">
+                  <TabsTrigger value="orders" data-testid="tab-my-orders">My Orders</TabsTrigger>
+                  <TabsTrigger value="addresses" data-testid="tab-addresses">Addresses</TabsTrigger>
+                  <TabsTrigger value="profile" data-testid="tab-profile">Profile</TabsTrigger>
+                </TabsList>
+                <TabsContent value="orders">
+                  <OrderHistory />
+                </TabsContent>
+                <TabsContent value="addresses">
+                  <AddressBook />
+                </TabsContent>
+                <TabsContent value="profile">
+                  <ProfileForm customer={customer} />
+                </TabsContent>
+              </Tabs>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,36 +1,186 @@
-import { useState } from "react";
+import { Fragment, useEffect, useRef, useState } from "react";
 import { Link } from "wouter";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useInfiniteQuery, useQueryClient, keepPreviousData } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Card, CardContent } from "@/components/ui/card";
-import { MapPin, Phone, Mail, Clock } from "lucide-react";
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from "@/components/ui/breadcrumb";
+import { MapPin, Phone, Mail, Clock, ShoppingCart, Search, X, Loader2 } from "lucide-react";
 import ForestAnimation from "@/components/forest-animation";
 import ProductCard from "@/components/product-card";
 import ProductModal from "@/components/product-modal";
 import CheckoutModal from "@/components/checkout-modal";
 import SuccessModal from "@/components/success-modal";
+import CartDrawer from "@/components/cart-drawer";
+import ReservationModal from "@/components/reservation-modal";
 import { useAppContext } from "@/context/app-context";
-import type { Product, Category, SiteSettings } from "@shared/schema";
+import { useCart } from "@/hooks/use-cart";
+import { useCustomer } from "@/hooks/use-customer";
+import { useToast } from "@/hooks/use-toast";
+import { useStorefrontLocation } from "@/hooks/use-storefront-location";
+import { productsApi, type ProductListParams } from "@/api/products.api";
+import { categoryPath, type Product, type CategoryNode, type SiteSettings, type ListSort } from "@shared/schema";
+
+const PAGE_SIZE = 24;
+
+const sortLabels: Record<ListSort, string> = {
+  newest: "Newest",
+  price: "Price: low to high",
+  name: "Name (A–Z)",
+};
+
+const findCategoryNode = (nodes: CategoryNode[], id: string): CategoryNode | undefined =>
+  nodes.find(node => node.id === id) ?? findCategoryNode(nodes.flatMap(node => node.children), id);
 
 export default function HomePage() {
-  const [activeSection, setActiveSection] = useState("home");
-  const [selectedCategory, setSelectedCategory] = useState<string>("all");
-  const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
+  const [isCartOpen, setIsCartOpen] = useState(false);
   const [isCheckoutOpen, setIsCheckoutOpen] = useState(false);
   const [isSuccessOpen, setIsSuccessOpen] = useState(false);
   const [quantity, setQuantity] = useState(1);
+  const [variantId, setVariantId] = useState<string | null>(null);
+  const [reservingProduct, setReservingProduct] = useState<Product | null>(null);
+  const {
+    section: activeSection,
+    categorySlug,
+    productSlug,
+    filters,
+    navigate,
+    setFilters,
+    showCategory,
+    showType,
+    openProduct,
+    closeProduct,
+  } = useStorefrontLocation();
+  const [searchInput, setSearchInput] = useState(filters.q);
+  const [priceInput, setPriceInput] = useState({ min: filters.minPrice, max: filters.maxPrice });
+  const loadMoreRef = useRef<HTMLDivElement>(null);
 
-  const { categories, products } = useAppContext();
+  const { categories, reservationHolds } = useAppContext();
+  const { cart, addItemMutation } = useCart();
+  const { customer } = useCustomer();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
 
   const { data: siteSettings } = useQuery<SiteSettings>({
     queryKey: ["/api/public/settings"],
   });
 
-  const filteredProducts = products?.filter(product => {
-    if (selectedCategory === "all") return true;
-    return product.categoryId === selectedCategory || product.type === selectedCategory;
-  }) || [];
+  const { data: categoryTree } = useQuery<CategoryNode[]>({
+    queryKey: ["/api/categories", "tree"],
+  });
+
+  // Search and filter once typing pauses
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      const q = searchInput.trim();
+      if (q === filters.q && priceInput.min === filters.minPrice && priceInput.max === filters.maxPrice) return;
+      setFilters({ q, minPrice: priceInput.min, maxPrice: priceInput.max }, { replace: true });
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [searchInput, priceInput, categorySlug, filters.q, filters.type, filters.minPrice, filters.maxPrice, filters.inStock, filters.sort]);
+
+  // Going back or forward to other filters puts them in the fields
+  useEffect(() => {
+    setSearchInput(current => (current.trim() === filters.q ? current : filters.q));
+  }, [filters.q]);
+  useEffect(() => {
+    setPriceInput({ min: filters.minPrice, max: filters.maxPrice });
+  }, [filters.minPrice, filters.maxPrice]);
+
+  const searchQuery = filters.q;
+  const selectedCategory = categorySlug ? categories?.find(category => category.slug === categorySlug) : undefined;
+  const isCategoryPending = !!categorySlug && !selectedCategory;
+  const isUnknownCategory = isCategoryPending && !!categories;
+  // Browsing a category includes its subcategories' products
+  const selectedPath = selectedCategory ? categoryPath(categories ?? [], selectedCategory.id) : [];
+  const subcategories = selectedCategory ? findCategoryNode(categoryTree ?? [], selectedCategory.id)?.children ?? [] : [];
+  const productFilters: ProductListParams = {
+    q: searchQuery || undefined,
+    categoryId: selectedCategory?.id,
+    type: filters.type ?? undefined,
+    minPrice: filters.minPrice ? Number(filters.minPrice) : undefined,
+    maxPrice: filters.maxPrice ? Number(filters.maxPrice) : undefined,
+    inStock: filters.inStock || undefined,
+    sort: filters.sort ?? undefined,
+  };
+
+  // The product a /product/<slug> URL names, shown over the shop
+  const { data: selectedProduct, error: productError } = useQuery<Product>({
+    queryKey: ["/api/products", "slug", productSlug],
+    queryFn: () => productsApi.getProductBySlug(productSlug!),
+    enabled: !!productSlug,
+    retry: false,
+  });
+
+  useEffect(() => {
+    if (!productError) return;
+    toast({ title: productError.message, variant: "destructive" });
+    navigate("/shop", { replace: true });
+  }, [productError]);
+
+  // Keeps the tab's title in step with the page, as the server titles it on load
+  const pageTitle = productSlug
+    ? selectedProduct?.name
+    : activeSection === "products"
+      ? selectedCategory?.name ?? "Shop"
+      : activeSection === "contact" ? "Contact" : undefined;
+  useEffect(() => {
+    document.title = pageTitle ? `${pageTitle} | PetShopForest` : "PetShopForest";
+  }, [pageTitle]);
+
+  // Start on the first variant that can be bought
+  useEffect(() => {
+    if (!selectedProduct) return;
+    setQuantity(1);
+    const variant = selectedProduct.variants.find(v => v.stock > 0) ?? selectedProduct.variants[0];
+    setVariantId(variant?.id ?? null);
+  }, [selectedProduct?.id]);
+
+  const {
+    data: productPages,
+    error: productsError,
+    fetchNextPage,
+    hasNextPage,
+    isFetching,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: ["/api/products", "storefront", productFilters],
+    queryFn: ({ pageParam }) => productsApi.getProducts({ ...productFilters, cursor: pageParam, limit: PAGE_SIZE }),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (page) => page.nextCursor ?? undefined,
+    placeholderData: keepPreviousData,
+    // A category named in the URL is looked up before its products
+    enabled: !isCategoryPending,
+  });
+  const products = productPages?.pages.flatMap(page => page.items) ?? [];
+  const productTotal = productPages?.pages[0]?.total ?? 0;
+  const isFiltering = isFetching && !isFetchingNextPage;
+
+  // Infinite scroll: the next page loads as the end of the grid comes into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasNextPage) return;
+
+    const observer = new IntersectionObserver(
+      ([entry]) => {
+        if (entry.isIntersecting && !isFetchingNextPage) fetchNextPage();
+      },
+      { rootMargin: "400px" }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [activeSection, hasNextPage, isFetchingNextPage, fetchNextPage]);
+
 
   const getYouTubeEmbedUrl = (url: string) => {
     if (!url) return "";
@@ -39,12 +189,53 @@ export default function HomePage() {
   };
 
   const handleProductClick = (product: Product) => {
-    setSelectedProduct(product);
+    queryClient.setQueryData(["/api/products", "slug", product.slug], product);
+    openProduct(product);
+  };
+
+  const handleVariantChange = (id: string) => {
+    setVariantId(id);
     setQuantity(1);
   };
 
+  const handleAddToCart = () => {
+    if (!selectedProduct) return;
+
+    addItemMutation.mutate(
+      { productId: selectedProduct.id, variantId, quantity },
+      {
+        onSuccess: () => {
+          toast({ title: `${selectedProduct.name} added to cart` });
+          closeProduct();
+        },
+      }
+    );
+  };
+
   const handleBuyNow = () => {
-    setSelectedProduct(null);
+    if (!selectedProduct) return;
+
+    addItemMutation.mutate(
+      { productId: selectedProduct.id, variantId, quantity },
+      {
+        onSuccess: () => {
+          closeProduct();
+          setIsCheckoutOpen(true);
+        },
+      }
+    );
+  };
+
+  const handleReserve = () => {
+    setReservingProduct(selectedProduct ?? null);
+    closeProduct();
+  };
+
+  const reservedUntil = (product: Product) =>
+    reservationHolds?.find(hold => hold.productId === product.id)?.expiresAt;
+
+  const handleCheckout = () => {
+    setIsCartOpen(false);
     setIsCheckoutOpen(true);
   };
 
@@ -64,28 +255,75 @@ export default function HomePage() {
             <div className="flex items-center space-x-4">
               <h1 className="text-xl font-serif font-bold text-accent">🌲 PetShopForest</h1>
             </div>
+            <div className="relative flex-1 max-w-xs mx-4">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                type="search"
+                placeholder="Search pets, food, toys..."
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
+                className="pl-9 pr-9"
+                aria-label="Search products"
+                data-testid="input-search"
+              />
+              {searchInput && (
+                <button
+                  type="button"
+                  onClick={() => setSearchInput("")}
+                  className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
+                  aria-label="Clear search"
+                  data-testid="button-clear-search"
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              )}
+            </div>
             <div className="hidden md:flex space-x-6">
-              <button 
-                onClick={() => setActiveSection("home")}
+              <Link
+                href="/"
                 className={`text-muted-foreground hover:text-foreground transition-colors ${activeSection === "home" ? "text-foreground" : ""}`}
                 data-testid="nav-home"
               >
                 Home
-              </button>
-              <button 
-                onClick={() => setActiveSection("products")}
+              </Link>
+              <Link
+                href="/shop"
                 className={`text-muted-foreground hover:text-foreground transition-colors ${activeSection === "products" ? "text-foreground" : ""}`}
                 data-testid="nav-shop"
               >
                 Shop
-              </button>
-              <button 
-                onClick={() => setActiveSection("contact")}
+              </Link>
+              <Link
+                href="/contact"
                 className={`text-muted-foreground hover:text-foreground transition-colors ${activeSection === "contact" ? "text-foreground" : ""}`}
                 data-testid="nav-contact"
               >
                 Contact
-              </button>
+              </Link>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="relative"
+                onClick={() => setIsCartOpen(true)}
+                data-testid="nav-cart"
+              >
+                <ShoppingCart className="h-5 w-5" />
+                {!!cart?.itemCount && (
+                  <span
+                    className="absolute -top-1 -right-1 rounded-full bg-accent text-accent-foreground text-xs min-w-5 h-5 px-1 flex items-center justify-center"
+                    data-testid="text-cart-count"
+                  >
+                    {cart.itemCount}
+                  </span>
+                )}
+              </Button>
+              <Link
+                href="/account"
+                className="text-muted-foreground hover:text-foreground transition-colors"
+                data-testid="nav-account"
+              >
+                {customer ? "My Account" : "Sign In"}
+              </Link>
               <Link href="/auth">
                 <Button variant="outline" size="sm" data-testid="nav-admin">
                   Admin
@@ -112,7 +350,7 @@ export default function HomePage() {
                   {siteSettings?.description || "Discover a magical world of pets, premium food, and accessories in our enchanted forest marketplace."}
                 </p>
                 <Button 
-                  onClick={() => setActiveSection("products")}
+                  onClick={() => navigate("/shop")}
                   className="bg-primary hover:bg-primary/90 text-primary-foreground px-8 py-4 text-lg font-semibold transform hover:scale-105 transition-all"
                   data-testid="button-explore"
                 >
@@ -168,66 +406,203 @@ export default function HomePage() {
             <div className="container mx-auto px-4 py-12">
               <div className="text-center mb-12">
                 <h2 className="text-3xl md:text-5xl font-serif font-bold mb-4">Our Forest Collection</h2>
-                <p className="text-xl text-muted-foreground">Browse by category to find the perfect companions and supplies</p>
+                {searchQuery ? (
+                  <p className="text-xl text-muted-foreground" data-testid="text-search-results">
+                    {isFiltering ? "Searching" : `${productTotal} results`} for “{searchQuery}”
+                  </p>
+                ) : (
+                  <p className="text-xl text-muted-foreground">Browse by category to find the perfect companions and supplies</p>
+                )}
               </div>
 
               {/* Category Navigation */}
               <div className="flex flex-wrap justify-center gap-4 mb-12">
                 <Button
-                  variant={selectedCategory === "all" ? "default" : "secondary"}
-                  onClick={() => setSelectedCategory("all")}
+                  variant={!categorySlug && !filters.type ? "default" : "secondary"}
+                  onClick={() => showCategory(null)}
                   data-testid="filter-all"
                 >
                   All Items
                 </Button>
-                {categories?.map((category) => (
+                {categoryTree?.map((category) => (
                   <Button
                     key={category.id}
-                    variant={selectedCategory === category.id ? "default" : "secondary"}
-                    onClick={() => setSelectedCategory(category.id)}
+                    variant={selectedPath[0]?.id === category.id ? "default" : "secondary"}
+                    onClick={() => showCategory(category.slug)}
                     data-testid={`filter-${category.slug}`}
                   >
                     {category.name}
                   </Button>
                 ))}
                 <Button
-                  variant={selectedCategory === "pet" ? "default" : "secondary"}
-                  onClick={() => setSelectedCategory("pet")}
+                  variant={filters.type === "pet" ? "default" : "secondary"}
+                  onClick={() => showType("pet")}
                   data-testid="filter-pets"
                 >
                   Pets
                 </Button>
                 <Button
-                  variant={selectedCategory === "food" ? "default" : "secondary"}
-                  onClick={() => setSelectedCategory("food")}
+                  variant={filters.type === "food" ? "default" : "secondary"}
+                  onClick={() => showType("food")}
                   data-testid="filter-food"
                 >
                   Food
                 </Button>
                 <Button
-                  variant={selectedCategory === "accessory" ? "default" : "secondary"}
-                  onClick={() => setSelectedCategory("accessory")}
+                  variant={filters.type === "accessory" ? "default" : "secondary"}
+                  onClick={() => showType("accessory")}
                   data-testid="filter-accessories"
                 >
                   Accessories
                 </Button>
               </div>
 
+              {/* Where the shopper is in the category tree, and where they can go next */}
+              {selectedPath.length > 0 && (
+                <div className="flex flex-col items-center gap-4 mb-8">
+                  <Breadcrumb data-testid="breadcrumb-category">
+                    <BreadcrumbList>
+                      <BreadcrumbItem>
+                        <BreadcrumbLink asChild>
+                          <Link href="/shop">All Items</Link>
+                        </BreadcrumbLink>
+                      </BreadcrumbItem>
+                      {selectedPath.map((category, index) => (
+                        <Fragment key={category.id}>
+                          <BreadcrumbSeparator />
+                          <BreadcrumbItem>
+                            {index === selectedPath.length - 1 ? (
+                              <BreadcrumbPage>{category.name}</BreadcrumbPage>
+                            ) : (
+                              <BreadcrumbLink asChild>
+                                <Link href={`/shop/${category.slug}`} data-testid={`breadcrumb-${category.slug}`}>
+                                  {category.name}
+                                </Link>
+                              </BreadcrumbLink>
+                            )}
+                          </BreadcrumbItem>
+                        </Fragment>
+                      ))}
+                    </BreadcrumbList>
+                  </Breadcrumb>
+                  {subcategories.length > 0 && (
+                    <div className="flex flex-wrap justify-center gap-2">
+                      {subcategories.map((category) => (
+                        <Button
+                          key={category.id}
+                          variant="outline"
+                          size="sm"
+                          onClick={() => showCategory(category.slug)}
+                          data-testid={`filter-${category.slug}`}
+                        >
+                          {category.name}
+                        </Button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {/* Filters */}
+              <div className="flex flex-wrap items-end justify-center gap-4 mb-8">
+                <div>
+                  <Label htmlFor="filter-min-price" className="text-sm text-muted-foreground">Min price (₹)</Label>
+                  <Input
+                    id="filter-min-price"
+                    type="number"
+                    min="0"
+                    value={priceInput.min}
+                    onChange={(e) => setPriceInput(prev => ({ ...prev, min: e.target.value }))}
+                    className="w-32"
+                    data-testid="input-min-price"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="filter-max-price" className="text-sm text-muted-foreground">Max price (₹)</Label>
+                  <Input
+                    id="filter-max-price"
+                    type="number"
+                    min="0"
+                    value={priceInput.max}
+                    onChange={(e) => setPriceInput(prev => ({ ...prev, max: e.target.value }))}
+                    className="w-32"
+                    data-testid="input-max-price"
+                  />
+                </div>
+                <div className="flex items-center space-x-2 h-10">
+                  <Switch
+                    id="filter-in-stock"
+                    checked={filters.inStock}
+                    onCheckedChange={(inStock) => setFilters({ inStock })}
+                    data-testid="switch-in-stock"
+                  />
+                  <Label htmlFor="filter-in-stock">In stock only</Label>
+                </div>
+                <div>
+                  <Label htmlFor="product-sort" className="text-sm text-muted-foreground">Sort by</Label>
+                  <Select
+                    value={filters.sort ?? (searchQuery ? "relevance" : "newest")}
+                    onValueChange={(value) => setFilters({ sort: value === "relevance" ? null : (value as ListSort) })}
+                  >
+                    <SelectTrigger id="product-sort" className="w-48" data-testid="select-product-sort">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {searchQuery && <SelectItem value="relevance">Best match</SelectItem>}
+                      {Object.entries(sortLabels).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
               {/* Products Grid */}
               <div className="grid sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6 mb-12">
-                {filteredProducts.map((product) => (
+                {products.map((product) => (
                   <ProductCard
                     key={product.id}
                     product={product}
                     onClick={() => handleProductClick(product)}
+                    reservedUntil={reservedUntil(product)}
                   />
                 ))}
-                {filteredProducts.length === 0 && (
+                {productsError && (
+                  <div className="col-span-full text-center py-12" data-testid="text-products-error">
+                    <p className="text-red-400">{productsError.message}</p>
+                  </div>
+                )}
+                {isUnknownCategory && (
+                  <div className="col-span-full text-center py-12" data-testid="text-unknown-category">
+                    <p className="text-muted-foreground text-lg">This category doesn't exist.</p>
+                  </div>
+                )}
+                {products.length === 0 && !isFiltering && !productsError && !isCategoryPending && (
                   <div className="col-span-full text-center py-12" data-testid="text-no-products">
-                    <p className="text-muted-foreground text-lg">No products found in this category.</p>
+                    <p className="text-muted-foreground text-lg">
+                      {searchQuery
+                        ? `No products match “${searchQuery}”.`
+                        : filters.minPrice || filters.maxPrice || filters.inStock
+                          ? "No products match these filters."
+                          : "No products found in this category."}
+                    </p>
                   </div>
                 )}
               </div>
+
+              {hasNextPage && (
+                <div ref={loadMoreRef} className="flex justify-center mb-12">
+                  <Button
+                    variant="secondary"
+                    onClick={() => fetchNextPage()}
+                    disabled={isFetchingNextPage}
+                    data-testid="button-load-more"
+                  >
+                    {isFetchingNextPage && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Load more
+                  </Button>
+                </div>
+              )}
             </div>
           </section>
         )}
@@ -316,17 +691,33 @@ export default function HomePage() {
 
       {/* Modals */}
       <ProductModal
-        product={selectedProduct}
+        product={productSlug ? selectedProduct ?? null : null}
         quantity={quantity}
         onQuantityChange={setQuantity}
-        onClose={() => setSelectedProduct(null)}
+        variantId={variantId}
+        onVariantChange={handleVariantChange}
+        onClose={closeProduct}
+        onAddToCart={handleAddToCart}
         onBuyNow={handleBuyNow}
+        onReserve={handleReserve}
+        isAddingToCart={addItemMutation.isPending}
+        reservedUntil={productSlug && selectedProduct ? reservedUntil(selectedProduct) : undefined}
+      />
+
+      <ReservationModal
+        product={reservingProduct}
+        holdHours={siteSettings?.reservationHoldHours ?? 24}
+        onClose={() => setReservingProduct(null)}
+      />
+
+      <CartDrawer
+        isOpen={isCartOpen}
+        onClose={() => setIsCartOpen(false)}
+        onCheckout={handleCheckout}
       />
       
       <CheckoutModal
         isOpen={isCheckoutOpen}
-        product={selectedProduct}
-        quantity={quantity}
         onClose={() => setIsCheckoutOpen(false)}
         onSuccess={handleOrderSuccess}
       />
@@ -335,7 +726,7 @@ export default function HomePage() {
         isOpen={isSuccessOpen}
         onClose={() => {
           setIsSuccessOpen(false);
-          setActiveSection("products");
+          navigate("/shop");
         }}
       />
     </div>
@@ -1,4 +1,4 @@
-import express, { type Express } from "express";
+import express, { type Express, type Request } from "express";
 import fs from "fs";
 import path from "path";
 import { createServer as createViteServer, createLogger } from "vite";
@@ -8,6 +8,14 @@ import { nanoid } from "nanoid";
 
 const viteLogger = createLogger();
 
+// Fills in index.html for the page being requested, e.g. with its metadata
+export type RenderPage = (
+  req: Request,
+  html: string
+) => Promise<{ status: number; html: string }>;
+
+const asIs: RenderPage = async (_req, html) => ({ status: 200, html });
+
 export function log(message: string, source = "express") {
   const formattedTime = new Date().toLocaleTimeString("en-US", {
     hour: "numeric",
@@ -19,7 +27,11 @@ export function log(message: string, source = "express") {
   console.log(`${formattedTime} [${source}] ${message}`);
 }
 
-export async function setupVite(app: Express, server: Server) {
+export async function setupVite(
+  app: Express,
+  server: Server,
+  renderPage: RenderPage = asIs
+) {
   const serverOptions = {
     middlewareMode: true,
     hmr: { server },
@@ -58,8 +70,14 @@ export async function setupVite(app: Express, server: Server) {
         `src="/src/main.tsx"`,
         `src="/src/main.tsx?v=${nanoid()}"`
       );
-      const page = await vite.transformIndexHtml(url, template);
-      res.status(200).set({ "Content-Type": "text/html" }).end(page);
+      const page = await renderPage(
+        req,
+        await vite.transformIndexHtml(url, template)
+      );
+      res
+        .status(page.status)
+        .set({ "Content-Type": "text/html" })
+        .end(page.html);
     } catch (e) {
       vite.ssrFixStacktrace(e as Error);
       next(e);
@@ -67,7 +85,7 @@ export async function setupVite(app: Express, server: Server) {
   });
 }
 
-export function serveStatic(app: Express) {
+export function serveStatic(app: Express, renderPage: RenderPage = asIs) {
   const distPath = path.resolve(import.meta.dirname, "public");
 
   if (!fs.existsSync(distPath)) {
@@ -76,10 +94,23 @@ export function serveStatic(app: Express) {
     );
   }
 
-  app.use(express.static(distPath));
+  // index.html is rendered per page rather than served as it is
+  app.use(express.static(distPath, { index: false }));
+  const template = fs.readFileSync(
+    path.resolve(distPath, "index.html"),
+    "utf-8"
+  );
 
   // fall through to index.html if the file doesn't exist
-  app.use("*", (_req, res) => {
-    res.sendFile(path.resolve(distPath, "index.html"));
+  app.use("*", async (req, res, next) => {
+    try {
+      const page = await renderPage(req, template);
+      res
+        .status(page.status)
+        .set({ "Content-Type": "text/html" })
+        .end(page.html);
+    } catch (e) {
+      next(e);
+    }
   });
 }
@@ -0,0 +1,3 @@
+ALTER TABLE "orders" ADD COLUMN "status_history" jsonb DEFAULT '[]'::jsonb NOT NULL;--> statement-breakpoint
+UPDATE "orders" SET "status" = 'delivered' WHERE "status" = 'completed';--> statement-breakpoint
+UPDATE "orders" SET "status_history" = jsonb_build_array(jsonb_build_object('status', "status", 'changedAt', to_char("created_at" AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"')));
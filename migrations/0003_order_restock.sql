@@ -0,0 +1 @@
+ALTER TABLE "orders" ADD COLUMN "restocked_at" timestamp;
\ No newline at end of file
@@ -0,0 +1,14 @@
+CREATE TABLE "stock_movements" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"product_id" varchar NOT NULL,
+	"type" text NOT NULL,
+	"quantity" integer NOT NULL,
+	"stock_after" integer NOT NULL,
+	"order_id" varchar,
+	"actor" text NOT NULL,
+	"reason" text DEFAULT '' NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "stock_movements_product_idx" ON "stock_movements" USING btree ("product_id","created_at");--> statement-breakpoint
+INSERT INTO "stock_movements" ("product_id", "type", "quantity", "stock_after", "actor", "reason") SELECT "id", 'adjustment', "stock", "stock", 'system', 'Opening balance' FROM "products" WHERE "stock" > 0;
@@ -0,0 +1 @@
+ALTER TABLE "products" ADD COLUMN "pet_details" jsonb;
\ No newline at end of file
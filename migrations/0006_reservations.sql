@@ -0,0 +1,12 @@
+CREATE TABLE "reservations" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"product_id" varchar NOT NULL,
+	"customer" jsonb NOT NULL,
+	"status" text DEFAULT 'active' NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"order_id" varchar,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "site_settings" ADD COLUMN "reservation_hold_hours" integer DEFAULT 24 NOT NULL;--> statement-breakpoint
+CREATE INDEX "reservations_status_expires_idx" ON "reservations" USING btree ("status","expires_at");
\ No newline at end of file
@@ -0,0 +1,21 @@
+CREATE TABLE "product_variants" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"product_id" varchar NOT NULL,
+	"position" integer NOT NULL,
+	"sku" text NOT NULL,
+	"options" jsonb NOT NULL,
+	"price_in_inr" double precision NOT NULL,
+	"stock" integer DEFAULT 0 NOT NULL,
+	"image" text,
+	CONSTRAINT "product_variants_sku_unique" UNIQUE("sku")
+);
+--> statement-breakpoint
+ALTER TABLE "cart_items" DROP CONSTRAINT "cart_items_cart_id_product_id_pk";--> statement-breakpoint
+ALTER TABLE "cart_items" ADD COLUMN "variant_id" varchar DEFAULT '' NOT NULL;--> statement-breakpoint
+ALTER TABLE "cart_items" ADD CONSTRAINT "cart_items_cart_id_product_id_variant_id_pk" PRIMARY KEY("cart_id","product_id","variant_id");--> statement-breakpoint
+ALTER TABLE "order_items" ADD COLUMN "variant_id" varchar;--> statement-breakpoint
+ALTER TABLE "order_items" ADD COLUMN "variant_name" text;--> statement-breakpoint
+ALTER TABLE "products" ADD COLUMN "options" jsonb DEFAULT '[]'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "stock_movements" ADD COLUMN "variant_id" varchar;--> statement-breakpoint
+ALTER TABLE "product_variants" ADD CONSTRAINT "product_variants_product_id_products_id_fk" FOREIGN KEY ("product_id") REFERENCES "public"."products"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "product_variants_product_idx" ON "product_variants" USING btree ("product_id");
\ No newline at end of file
@@ -0,0 +1,9 @@
+ALTER TABLE "products" RENAME COLUMN "images" TO "legacy_images";--> statement-breakpoint
+ALTER TABLE "products" ADD COLUMN "images" jsonb DEFAULT '[]'::jsonb NOT NULL;--> statement-breakpoint
+UPDATE "products" SET "images" = (
+  SELECT coalesce(jsonb_agg(jsonb_build_object(
+    'src', "src", 'width', null, 'height', null, 'renditions', '[]'::jsonb
+  ) ORDER BY "ord"), '[]'::jsonb)
+  FROM unnest("legacy_images") WITH ORDINALITY AS image("src", "ord")
+);--> statement-breakpoint
+ALTER TABLE "products" DROP COLUMN "legacy_images";
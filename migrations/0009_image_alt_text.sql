@@ -0,0 +1,6 @@
+UPDATE "products" SET "images" = (
+  SELECT coalesce(jsonb_agg(
+    jsonb_build_object('alt', '') || "image" ORDER BY "ord"
+  ), '[]'::jsonb)
+  FROM jsonb_array_elements("images") WITH ORDINALITY AS image("image", "ord")
+);
@@ -0,0 +1,2 @@
+-- Typo-tolerant product search uses pg_trgm's word_similarity
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
@@ -0,0 +1,6 @@
+ALTER TABLE "products" ADD COLUMN "slug" text;--> statement-breakpoint
+UPDATE "products" SET "slug" = "numbered"."slug" FROM (SELECT "id", CASE WHEN row_number() OVER "same" = 1 THEN "base" ELSE "base" || '-' || row_number() OVER "same" END AS "slug" FROM (SELECT "id", "created_at", coalesce(nullif(regexp_replace(regexp_replace(lower("name"), '\s+', '-', 'g'), '[^a-z0-9-]', '', 'g'), ''), 'item') AS "base" FROM "products") AS "bases" WINDOW "same" AS (PARTITION BY "base" ORDER BY "created_at", "id")) AS "numbered" WHERE "products"."id" = "numbered"."id";--> statement-breakpoint
+UPDATE "categories" SET "slug" = "numbered"."slug" FROM (SELECT "id", "slug" || '-' || row_number() OVER (PARTITION BY "slug" ORDER BY "created_at", "id") AS "slug", row_number() OVER (PARTITION BY "slug" ORDER BY "created_at", "id") AS "n" FROM "categories") AS "numbered" WHERE "categories"."id" = "numbered"."id" AND "numbered"."n" > 1;--> statement-breakpoint
+ALTER TABLE "products" ALTER COLUMN "slug" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "categories" ADD CONSTRAINT "categories_slug_unique" UNIQUE("slug");--> statement-breakpoint
+ALTER TABLE "products" ADD CONSTRAINT "products_slug_unique" UNIQUE("slug");
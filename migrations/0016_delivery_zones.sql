@@ -0,0 +1,18 @@
+CREATE TABLE "delivery_zones" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"pin_prefixes" jsonb NOT NULL,
+	"flat_fee_inr" double precision DEFAULT 0 NOT NULL,
+	"per_kg_fee_inr" double precision DEFAULT 0 NOT NULL,
+	"free_above_inr" double precision,
+	"delivers_pets" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "subtotal_inr" double precision;--> statement-breakpoint
+UPDATE "orders" SET "subtotal_inr" = "total_amount_inr";--> statement-breakpoint
+ALTER TABLE "orders" ALTER COLUMN "subtotal_inr" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "delivery_fee_inr" double precision DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "delivery_zone" text;--> statement-breakpoint
+ALTER TABLE "product_variants" ADD COLUMN "weight_grams" integer;--> statement-breakpoint
+ALTER TABLE "products" ADD COLUMN "weight_grams" integer;
\ No newline at end of file
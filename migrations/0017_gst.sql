@@ -0,0 +1,7 @@
+ALTER TABLE "categories" ADD COLUMN "hsn_code" text;--> statement-breakpoint
+ALTER TABLE "categories" ADD COLUMN "gst_rate_percent" double precision;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "gst" jsonb;--> statement-breakpoint
+ALTER TABLE "products" ADD COLUMN "hsn_code" text;--> statement-breakpoint
+ALTER TABLE "products" ADD COLUMN "gst_rate_percent" double precision;--> statement-breakpoint
+ALTER TABLE "site_settings" ADD COLUMN "gst_state" text;--> statement-breakpoint
+ALTER TABLE "site_settings" ADD COLUMN "prices_include_gst" boolean DEFAULT true NOT NULL;
\ No newline at end of file
@@ -0,0 +1,11 @@
+CREATE TABLE "invoice_sequences" (
+	"financial_year" text PRIMARY KEY NOT NULL,
+	"last_number" integer NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "invoice_number" text;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "invoiced_at" timestamp;--> statement-breakpoint
+ALTER TABLE "site_settings" ADD COLUMN "business_name" text DEFAULT 'PetShopForest' NOT NULL;--> statement-breakpoint
+ALTER TABLE "site_settings" ADD COLUMN "business_address" text DEFAULT '' NOT NULL;--> statement-breakpoint
+ALTER TABLE "site_settings" ADD COLUMN "gstin" text DEFAULT '' NOT NULL;--> statement-breakpoint
+ALTER TABLE "orders" ADD CONSTRAINT "orders_invoice_number_unique" UNIQUE("invoice_number");
\ No newline at end of file
@@ -0,0 +1,5 @@
+DROP INDEX "stock_movements_product_idx";--> statement-breakpoint
+CREATE SEQUENCE "stock_movements_sequence_seq";--> statement-breakpoint
+ALTER TABLE "stock_movements" ADD COLUMN "sequence" integer DEFAULT nextval('stock_movements_sequence_seq') NOT NULL;--> statement-breakpoint
+ALTER SEQUENCE "stock_movements_sequence_seq" OWNED BY "stock_movements"."sequence";--> statement-breakpoint
+CREATE INDEX "stock_movements_product_idx" ON "stock_movements" USING btree ("product_id","created_at","sequence");
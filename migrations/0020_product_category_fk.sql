@@ -0,0 +1,3 @@
+ALTER TABLE "products" ALTER COLUMN "category_id" DROP NOT NULL;--> statement-breakpoint
+UPDATE "products" SET "category_id" = NULL WHERE "category_id" NOT IN (SELECT "id" FROM "categories");--> statement-breakpoint
+ALTER TABLE "products" ADD CONSTRAINT "products_category_id_categories_id_fk" FOREIGN KEY ("category_id") REFERENCES "public"."categories"("id") ON DELETE no action ON UPDATE no action;
@@ -0,0 +1,43 @@
+-- Product search reads these indexed columns instead of rebuilding every
+-- product's document per query. They're kept by the database and left out
+-- of the Drizzle schema, so product rows don't carry them. Generated columns
+-- can't read other tables, so triggers copy the category name in.
+ALTER TABLE "products" ADD COLUMN "search_category" text DEFAULT '' NOT NULL;--> statement-breakpoint
+CREATE FUNCTION "products_search_category"() RETURNS trigger AS $$
+BEGIN
+  NEW.search_category := coalesce(
+    (SELECT name FROM categories WHERE id = NEW.category_id),
+    ''
+  );
+  RETURN NEW;
+END
+$$ LANGUAGE plpgsql;--> statement-breakpoint
+CREATE TRIGGER "products_search_category"
+  BEFORE INSERT OR UPDATE OF "category_id" ON "products"
+  FOR EACH ROW EXECUTE FUNCTION "products_search_category"();--> statement-breakpoint
+CREATE FUNCTION "categories_search_category"() RETURNS trigger AS $$
+BEGIN
+  UPDATE products SET search_category = NEW.name WHERE category_id = NEW.id;
+  RETURN NULL;
+END
+$$ LANGUAGE plpgsql;--> statement-breakpoint
+CREATE TRIGGER "categories_search_category"
+  AFTER UPDATE OF "name" ON "categories"
+  FOR EACH ROW WHEN (OLD.name IS DISTINCT FROM NEW.name)
+  EXECUTE FUNCTION "categories_search_category"();--> statement-breakpoint
+UPDATE "products" SET "search_category" = "categories"."name"
+  FROM "categories" WHERE "categories"."id" = "products"."category_id";--> statement-breakpoint
+ALTER TABLE "products" ADD COLUMN "search_vector" tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('english', "name"), 'A') ||
+  setweight(to_tsvector('english', "search_category"), 'B') ||
+  setweight(to_tsvector('english', coalesce("species", '')), 'C') ||
+  setweight(to_tsvector('english', "description"), 'D')
+) STORED;--> statement-breakpoint
+ALTER TABLE "products" ADD COLUMN "search_text" text GENERATED ALWAYS AS (
+  lower(
+    "name" || ' ' || "search_category" || ' ' ||
+    coalesce("species", '') || ' ' || "description"
+  )
+) STORED;--> statement-breakpoint
+CREATE INDEX "products_search_vector_idx" ON "products" USING gin ("search_vector");--> statement-breakpoint
+CREATE INDEX "products_search_text_idx" ON "products" USING gin ("search_text" gin_trgm_ops);
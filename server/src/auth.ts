@@ -5,7 +5,20 @@ import session from "express-session";
 import { scrypt, randomBytes, timingSafeEqual } from "crypto";
 import { promisify } from "util";
 import { storage } from "./storage.js";
-import { User as SelectUser } from "@shared/schema.js";
+import {
+  requestLoginCodeSchema,
+  verifyLoginCodeSchema,
+} from "../../shared/schema.js";
+import type { LoginCodeSent, User as SelectUser } from "@shared/schema.js";
+import {
+  LOGIN_CODE_TTL_MS,
+  assertCanResend,
+  assertValidLoginCode,
+  generateLoginCode,
+  hashLoginCode,
+  otpSender,
+  resendAt,
+} from "./otp.js";
 
 declare global {
   namespace Express {
@@ -13,6 +26,16 @@ declare global {
   }
 }
 
+declare module "express-session" {
+  interface SessionData {
+    // The signed-in customer's account. Kept apart from passport's user, so a
+    // customer is never taken for an admin.
+    customerId?: string;
+    // Where passport keeps the signed-in admin's id, see serializeUser
+    passport?: { user?: string };
+  }
+}
+
 const scryptAsync = promisify(scrypt);
 
 async function hashPassword(password: string) {
@@ -122,4 +145,70 @@ export function setupAuth(app: Express) {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     res.json(req.user);
   });
+
+  // Customer sign-in, step one: a code goes to the mobile number
+  app.post("/api/customer/login-code", async (req, res) => {
+    try {
+      const { phone } = requestLoginCodeSchema.parse(req.body);
+      const now = new Date();
+      assertCanResend(await storage.getLoginCode(phone), now);
+
+      const code = generateLoginCode();
+      const loginCode = await storage.saveLoginCode({
+        phone,
+        codeHash: hashLoginCode(phone, code),
+        expiresAt: new Date(now.getTime() + LOGIN_CODE_TTL_MS),
+      });
+      await otpSender.send(phone, code);
+
+      const sent: LoginCodeSent = {
+        phone,
+        resendAt: resendAt(loginCode).toISOString(),
+      };
+      res.status(201).json(sent);
+    } catch (error: any) {
+      res
+        .status(400)
+        .json({ message: error.message || "Failed to send login code" });
+    }
+  });
+
+  // Step two: the code signs the customer in, creating their account the
+  // first time
+  app.post("/api/customer/login", async (req, res, next) => {
+    try {
+      const { phone, code } = verifyLoginCodeSchema.parse(req.body);
+      const loginCode = await storage.recordLoginAttempt(phone);
+      assertValidLoginCode(loginCode, code, new Date());
+      await storage.deleteLoginCode(phone);
+      const customer = await storage.findOrCreateCustomer(phone);
+
+      // A new session id on sign-in, keeping an admin signed in on the same
+      // browser
+      const admin = req.session.passport;
+      req.session.regenerate((err) => {
+        if (err) return next(err);
+        req.session.passport = admin;
+        req.session.customerId = customer.id;
+        res.json(customer);
+      });
+    } catch (error: any) {
+      res.status(400).json({ message: error.message || "Failed to sign in" });
+    }
+  });
+
+  app.post("/api/customer/logout", (req, res, next) => {
+    delete req.session.customerId;
+    req.session.save((err) => {
+      if (err) return next(err);
+      res.sendStatus(200);
+    });
+  });
+
+  app.get("/api/customer", async (req, res) => {
+    const { customerId } = req.session;
+    const customer = customerId && (await storage.getCustomer(customerId));
+    if (!customer) return res.sendStatus(401);
+    res.json(customer);
+  });
 }
@@ -0,0 +1,60 @@
+import type { Cart, CartLine, Product, StoredCart } from "@shared/schema.js";
+import { variantLabel } from "../../shared/schema.js";
+import { lineVariant } from "./variants.js";
+import { thumbnailSrc } from "./images.js";
+
+export const emptyCart: Cart = {
+  id: null,
+  lines: [],
+  itemCount: 0,
+  totalAmountINR: 0,
+  gstINR: 0,
+  pricesIncludeGst: true,
+};
+
+/**
+ * Prices a stored cart against the current catalogue, GST aside. Lines whose
+ * product or variant has been deleted are dropped; lines that can no longer
+ * be fulfilled stay in the cart but are flagged and left out of the total.
+ */
+export function priceCart(
+  cart: StoredCart,
+  products: Product[]
+): Omit<Cart, "gstINR" | "pricesIncludeGst"> {
+  const lines = cart.items.flatMap((item): CartLine[] => {
+    const product = products.find((p) => p.id === item.productId);
+    if (!product) return [];
+    const variant = lineVariant(product, item.variantId);
+    if (variant === undefined) return [];
+
+    const { priceInINR, stock } = variant ?? product;
+    const image =
+      product.images.find((i) => i.src === variant?.image) ??
+      product.images[0];
+    return [
+      {
+        productId: product.id,
+        variantId: variant?.id ?? null,
+        name: product.name,
+        variantName: variant ? variantLabel(product.options, variant) : null,
+        image: image && thumbnailSrc(image),
+        priceInINR,
+        quantity: item.quantity,
+        stock,
+        purchasable: product.available && stock >= item.quantity,
+      },
+    ];
+  });
+
+  const purchasableLines = lines.filter((line) => line.purchasable);
+
+  return {
+    id: cart.id,
+    lines,
+    itemCount: lines.reduce((count, line) => count + line.quantity, 0),
+    totalAmountINR: purchasableLines.reduce(
+      (total, line) => total + line.priceInINR * line.quantity,
+      0
+    ),
+  };
+}
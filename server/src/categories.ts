@@ -0,0 +1,48 @@
+import type { Category, CategoryDeletion } from "@shared/schema.js";
+import { categoryWithDescendants } from "../../shared/schema.js";
+
+/**
+ * Checks a category can be put under parentId: the parent has to exist and
+ * can't be the category itself or one below it, which would make a loop.
+ * id is null for a category being created.
+ */
+export function assertValidParent(
+  categories: Category[],
+  id: string | null,
+  parentId: string | null | undefined
+) {
+  if (!parentId) return;
+  if (!categories.some((category) => category.id === parentId)) {
+    throw new Error("Parent category not found");
+  }
+  if (id && categoryWithDescendants(categories, id).includes(parentId)) {
+    throw new Error("A category can't be placed under itself or below it");
+  }
+}
+
+/**
+ * Checks a category can be deleted: the products still in it have to be
+ * moved to another existing category or archived, so none is left pointing
+ * at a category that's gone.
+ */
+export function assertDeletable(
+  categories: Category[],
+  id: string,
+  productCount: number,
+  { reassignTo, archiveProducts }: CategoryDeletion
+) {
+  if (reassignTo) {
+    if (reassignTo === id) {
+      throw new Error("Products can't be moved to the category being deleted");
+    }
+    if (!categories.some((category) => category.id === reassignTo)) {
+      throw new Error("Category to move the products to not found");
+    }
+  } else if (!archiveProducts && productCount > 0) {
+    const products =
+      productCount === 1 ? "1 product is" : `${productCount} products are`;
+    throw new Error(
+      `${products} still in this category; move them to another category or archive them`
+    );
+  }
+}
@@ -0,0 +1,67 @@
+// Minimal RFC 4180 CSV reading and writing for bulk imports and exports
+
+/**
+ * Splits CSV text into rows of cells. Handles quoted cells with embedded
+ * commas, quotes and line breaks, CRLF line endings and a leading BOM, as
+ * written by Excel and Google Sheets.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  const input = text.replace(/^\uFEFF/, "");
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (quoted) throw new Error("The CSV has an unclosed quote");
+  if (cell || row.length > 0) rows.push([...row, cell]);
+
+  return rows;
+}
+
+// Spreadsheets run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function escapeCell(value: string | number | null | undefined): string {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "number") return String(value);
+
+  const cell = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+}
+
+// Reverses the formula guard added on export, so exported files re-import
+export function unescapeCell(cell: string): string {
+  return cell.startsWith("'") && FORMULA_PREFIX.test(cell.slice(1))
+    ? cell.slice(1)
+    : cell;
+}
+
+export function toCsv(rows: (string | number | null | undefined)[][]): string {
+  return rows.map((row) => row.map(escapeCell).join(",")).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,183 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { DeliveryZone, Product } from "@shared/schema.js";
+import {
+  assertPrefixesFree,
+  deliveryFromQuote,
+  quoteDelivery,
+  zoneForPinCode,
+} from "./delivery.js";
+
+function zone(fields: Partial<DeliveryZone> & Pick<DeliveryZone, "name">) {
+  return {
+    id: fields.name,
+    pinPrefixes: [],
+    flatFeeINR: 0,
+    perKgFeeINR: 0,
+    freeAboveINR: null,
+    deliversPets: false,
+    createdAt: new Date(),
+    ...fields,
+  } satisfies DeliveryZone;
+}
+
+function product(fields: Partial<Product> & Pick<Product, "id" | "type">) {
+  return {
+    name: fields.id,
+    slug: fields.id,
+    categoryId: null,
+    species: null,
+    images: [],
+    description: "",
+    priceInINR: 100,
+    stock: 10,
+    available: true,
+    weightGrams: null,
+    hsnCode: null,
+    gstRatePercent: null,
+    petDetails: null,
+    options: [],
+    archivedAt: null,
+    createdAt: new Date(),
+    variants: [],
+    ...fields,
+  } satisfies Product;
+}
+
+const goa = zone({
+  name: "Goa",
+  pinPrefixes: ["403"],
+  flatFeeINR: 80,
+  perKgFeeINR: 20,
+  freeAboveINR: 999,
+});
+const panaji = zone({
+  name: "Panaji",
+  pinPrefixes: ["403001", "403002"],
+  flatFeeINR: 30,
+  freeAboveINR: 499,
+  deliversPets: true,
+});
+const zones = [goa, panaji];
+
+const kibble = product({ id: "kibble", type: "food", weightGrams: 1500 });
+const puppy = product({ id: "puppy", type: "pet" });
+const products = [kibble, puppy];
+
+describe("delivery zones", () => {
+  it("picks the zone with the longest matching PIN prefix", () => {
+    for (const [pinCode, expected] of [
+      ["403001", "Panaji"],
+      ["403002", "Panaji"],
+      ["403005", "Goa"],
+      ["403401", "Goa"],
+      ["110001", undefined],
+    ] as const) {
+      assert.equal(zoneForPinCode(zones, pinCode)?.name, expected, pinCode);
+    }
+    // Order of the zones doesn't matter
+    assert.equal(zoneForPinCode([panaji, goa], "403001")?.name, "Panaji");
+  });
+
+  it("refuses a PIN prefix another zone has", () => {
+    assertPrefixesFree(zones, goa.id, ["403"]);
+    assertPrefixesFree(zones, undefined, ["4030"]);
+    assert.throws(
+      () => assertPrefixesFree(zones, undefined, ["403002"]),
+      /403002 already belongs to Panaji/
+    );
+    assert.throws(
+      () => assertPrefixesFree(zones, undefined, ["560", "560"]),
+      /more than once/
+    );
+  });
+});
+
+describe("delivery quotes", () => {
+  const quote = (pinCode: string, quantity: number, subtotalINR: number) =>
+    quoteDelivery(
+      zones,
+      pinCode,
+      [{ productId: kibble.id, quantity }],
+      products,
+      subtotalINR
+    );
+
+  it("delivers anywhere for free until zones are set up", () => {
+    const lines = [{ productId: puppy.id, quantity: 1 }];
+    assert.deepEqual(quoteDelivery([], "110001", lines, products, 0), {
+      serviceable: true,
+      zone: null,
+      feeINR: 0,
+      freeAboveINR: null,
+    });
+  });
+
+  it("charges the flat fee plus each kg or part of one", () => {
+    // 2 × 1.5kg is 3kg; 3 × 1.5kg is 4.5kg, charged as 5
+    assert.deepEqual(quote("403005", 2, 200), {
+      serviceable: true,
+      zone: "Goa",
+      feeINR: 80 + 20 * 3,
+      freeAboveINR: 999,
+    });
+    assert.equal(
+      deliveryFromQuote(quote("403005", 3, 300)).deliveryFeeINR,
+      80 + 20 * 5
+    );
+  });
+
+  it("waives the fee from the zone's free delivery threshold", () => {
+    for (const [pinCode, subtotalINR, feeINR] of [
+      ["403005", 998, 140],
+      ["403005", 999, 0],
+      ["403005", 1500, 0],
+      ["403001", 498, 30],
+      ["403001", 499, 0],
+    ] as const) {
+      const result = quote(pinCode, 2, subtotalINR);
+      assert.ok(result.serviceable);
+      assert.equal(result.feeINR, feeINR, `${pinCode} at ₹${subtotalINR}`);
+    }
+  });
+
+  it("never waives the fee in zones without a threshold", () => {
+    const nearby = zone({ name: "Nearby", pinPrefixes: ["4"], flatFeeINR: 50 });
+    const result = quoteDelivery(
+      [nearby],
+      "411001",
+      [{ productId: kibble.id, quantity: 1 }],
+      products,
+      100_000
+    );
+    assert.ok(result.serviceable);
+    assert.equal(result.feeINR, 50);
+  });
+
+  it("delivers pets only to zones that take them", () => {
+    const lines = [
+      { productId: kibble.id, quantity: 1 },
+      { productId: puppy.id, quantity: 1 },
+    ];
+    const refused = quoteDelivery(zones, "403005", lines, products, 5000);
+    assert.equal(refused.serviceable, false);
+    assert.match(
+      (refused as { reason: string }).reason,
+      /can't deliver pets to 403005/
+    );
+    assert.throws(() => deliveryFromQuote(refused), /can't deliver pets/);
+
+    const accepted = quoteDelivery(zones, "403001", lines, products, 5000);
+    assert.deepEqual(deliveryFromQuote(accepted), {
+      deliveryFeeINR: 0,
+      deliveryZone: "Panaji",
+    });
+  });
+
+  it("refuses PIN codes outside every zone", () => {
+    assert.throws(
+      () => deliveryFromQuote(quote("110001", 1, 100)),
+      /don't deliver to 110001/
+    );
+  });
+});
@@ -0,0 +1,123 @@
+// Delivery zones and fees. A PIN code is delivered to by the zone with the
+// longest prefix it starts with; until any zone is set up, every PIN code is
+// delivered to for free.
+import type {
+  DeliveryQuote,
+  DeliveryZone,
+  InsertOrder,
+  Order,
+  Product,
+} from "@shared/schema.js";
+import { resolveVariant } from "./variants.js";
+
+// What an order pays for delivery and where it goes
+export type OrderDelivery = Pick<Order, "deliveryFeeINR" | "deliveryZone">;
+
+// Reservations are collected from the store, so their orders pay nothing
+export const storePickup: OrderDelivery = {
+  deliveryFeeINR: 0,
+  deliveryZone: null,
+};
+
+export function zoneForPinCode(
+  zones: DeliveryZone[],
+  pinCode: string
+): DeliveryZone | undefined {
+  let match: { zone: DeliveryZone; length: number } | undefined;
+  for (const zone of zones) {
+    for (const prefix of zone.pinPrefixes) {
+      if (pinCode.startsWith(prefix) && prefix.length > (match?.length ?? 0)) {
+        match = { zone, length: prefix.length };
+      }
+    }
+  }
+  return match?.zone;
+}
+
+/**
+ * Refuses a PIN prefix another zone already has, which would leave it
+ * unclear where those PIN codes belong.
+ */
+export function assertPrefixesFree(
+  zones: DeliveryZone[],
+  id: string | undefined,
+  pinPrefixes: string[]
+) {
+  if (new Set(pinPrefixes).size !== pinPrefixes.length) {
+    throw new Error("A PIN prefix is listed more than once");
+  }
+  for (const zone of zones) {
+    if (zone.id === id) continue;
+    const taken = pinPrefixes.find((prefix) =>
+      zone.pinPrefixes.includes(prefix)
+    );
+    if (taken) throw new Error(`${taken} already belongs to ${zone.name}`);
+  }
+}
+
+// Packed weight of the lines; items without a weight count as nothing
+export function orderWeightGrams(
+  lines: InsertOrder["products"],
+  products: Product[]
+): number {
+  return lines.reduce((total, line) => {
+    const product = products.find((p) => p.id === line.productId);
+    if (!product) return total;
+    const variant = resolveVariant(product, line.variantId);
+    const weight = variant?.weightGrams ?? product.weightGrams ?? 0;
+    return total + weight * line.quantity;
+  }, 0);
+}
+
+/**
+ * Whether the lines can be delivered to pinCode and the fee if so. Pets only
+ * go to zones that deliver them; the fee is waived from the zone's free
+ * delivery threshold, judged on subtotalINR.
+ */
+export function quoteDelivery(
+  zones: DeliveryZone[],
+  pinCode: string,
+  lines: InsertOrder["products"],
+  products: Product[],
+  subtotalINR: number
+): DeliveryQuote {
+  if (zones.length === 0) {
+    return { serviceable: true, zone: null, feeINR: 0, freeAboveINR: null };
+  }
+
+  const zone = zoneForPinCode(zones, pinCode);
+  if (!zone) {
+    return {
+      serviceable: false,
+      reason: `Sorry, we don't deliver to ${pinCode} yet`,
+    };
+  }
+
+  const hasPets = lines.some(
+    (line) =>
+      products.find((p) => p.id === line.productId)?.type === "pet"
+  );
+  if (hasPets && !zone.deliversPets) {
+    return {
+      serviceable: false,
+      reason:
+        `We can't deliver pets to ${pinCode}; ` +
+        "they can be collected from the store",
+    };
+  }
+
+  const free = zone.freeAboveINR !== null && subtotalINR >= zone.freeAboveINR;
+  const kilos = Math.ceil(orderWeightGrams(lines, products) / 1000);
+  return {
+    serviceable: true,
+    zone: zone.name,
+    feeINR: free ? 0 : zone.flatFeeINR + zone.perKgFeeINR * kilos,
+    freeAboveINR: zone.freeAboveINR,
+  };
+}
+
+// The order's delivery from a quote, or the reason it can't be delivered
+export function deliveryFromQuote(quote: DeliveryQuote): OrderDelivery {
+  if (!quote.serviceable) throw new Error(quote.reason);
+  return { deliveryFeeINR: quote.feeINR, deliveryZone: quote.zone };
+}
@@ -0,0 +1,43 @@
+import type {
+  ArrangeProductImages,
+  Product,
+  ProductImage,
+} from "@shared/schema.js";
+
+/**
+ * A product's images in the order the admin arranged them, with their alt
+ * text. The arrangement has to list each of the product's images exactly
+ * once, so a stale editor can't drop or resurrect an image.
+ */
+export function arrangeImages(
+  images: ProductImage[],
+  arrangement: ArrangeProductImages["images"]
+): ProductImage[] {
+  const sources = new Set(arrangement.map((image) => image.src));
+  if (
+    sources.size !== arrangement.length ||
+    arrangement.length !== images.length
+  ) {
+    throw new Error("List each of the product's images exactly once");
+  }
+
+  return arrangement.map(({ src, alt }) => {
+    const image = images.find((i) => i.src === src);
+    if (!image) throw new Error("Image not found on this product");
+    return { ...image, alt };
+  });
+}
+
+// The product without one of its images; variants shown with it fall back
+// to the cover
+export function removeImage(
+  product: Pick<Product, "images" | "variants">,
+  src: string
+) {
+  return {
+    images: product.images.filter((image) => image.src !== src),
+    variants: product.variants.map((variant) =>
+      variant.image === src ? { ...variant, image: null } : variant
+    ),
+  };
+}
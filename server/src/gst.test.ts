@@ -0,0 +1,292 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type {
+  Category,
+  IndianState,
+  OrderGst,
+  Product,
+} from "@shared/schema.js";
+import {
+  addedGstINR,
+  orderGst,
+  orderTotalINR,
+  productGst,
+  type GstSettings,
+} from "./gst.js";
+
+function category(fields: Partial<Category> & Pick<Category, "id">) {
+  return {
+    name: fields.id,
+    slug: fields.id,
+    description: "",
+    parentId: null,
+    hsnCode: null,
+    gstRatePercent: null,
+    createdAt: new Date(),
+    ...fields,
+  } satisfies Category;
+}
+
+function product(fields: Partial<Product> & Pick<Product, "id">) {
+  return {
+    name: fields.id,
+    slug: fields.id,
+    categoryId: null,
+    type: "accessory",
+    species: null,
+    images: [],
+    description: "",
+    priceInINR: 100,
+    stock: 10,
+    available: true,
+    weightGrams: null,
+    hsnCode: null,
+    gstRatePercent: null,
+    petDetails: null,
+    options: [],
+    archivedAt: null,
+    createdAt: new Date(),
+    variants: [],
+    ...fields,
+  } satisfies Product;
+}
+
+const categories = [
+  category({ id: "food", hsnCode: "2309", gstRatePercent: 5 }),
+  category({ id: "toys", hsnCode: "9503", gstRatePercent: 18 }),
+  category({ id: "balls", parentId: "toys" }),
+];
+const kibble = product({ id: "kibble", categoryId: "food", priceInINR: 50 });
+const ball = product({ id: "ball", categoryId: "balls", priceInINR: 236 });
+const products = [kibble, ball];
+
+const line = (item: Product, quantity = 1) => ({
+  productId: item.id,
+  priceInINR: item.priceInINR,
+  quantity,
+});
+
+describe("product GST", () => {
+  it("falls back to the nearest category with an HSN code and rate", () => {
+    for (const [item, expected] of [
+      [kibble, { hsnCode: "2309", ratePercent: 5 }],
+      [ball, { hsnCode: "9503", ratePercent: 18 }],
+      [
+        product({ id: "own", categoryId: "balls", gstRatePercent: 40 }),
+        { hsnCode: "9503", ratePercent: 40 },
+      ],
+      [
+        product({ id: "coded", categoryId: "food", hsnCode: "23091000" }),
+        { hsnCode: "23091000", ratePercent: 5 },
+      ],
+      [product({ id: "loose" }), { hsnCode: null, ratePercent: 0 }],
+    ] as const) {
+      assert.deepEqual(productGst(item, categories), expected, item.id);
+    }
+  });
+});
+
+describe("order GST", () => {
+  const goa = (pricesIncludeGst: boolean): GstSettings => ({
+    gstState: "Goa",
+    pricesIncludeGst,
+  });
+
+  // ₹50 of kibble at 5% and a ₹236 ball at 18%, delivered for ₹59. The
+  // ball is the principal supply, so delivery is taxed at 18% too.
+  const cases: {
+    name: string;
+    settings: GstSettings;
+    placeOfSupply: IndianState | null;
+    expected: Partial<OrderGst>;
+  }[] = [
+    {
+      name: "inclusive, within the state",
+      settings: goa(true),
+      placeOfSupply: "Goa",
+      expected: {
+        interState: false,
+        taxableValueINR: 297.62,
+        cgstINR: 23.69,
+        sgstINR: 23.69,
+        igstINR: 0,
+        totalTaxINR: 47.38,
+        roundOffINR: 0,
+      },
+    },
+    {
+      name: "inclusive, to another state",
+      settings: goa(true),
+      placeOfSupply: "Karnataka",
+      expected: {
+        interState: true,
+        taxableValueINR: 297.62,
+        cgstINR: 0,
+        sgstINR: 0,
+        igstINR: 47.38,
+        totalTaxINR: 47.38,
+        roundOffINR: 0,
+      },
+    },
+    {
+      name: "exclusive, within the state",
+      settings: goa(false),
+      placeOfSupply: "Goa",
+      expected: {
+        interState: false,
+        taxableValueINR: 345,
+        cgstINR: 27.8,
+        sgstINR: 27.8,
+        igstINR: 0,
+        totalTaxINR: 55.6,
+        roundOffINR: 0.4,
+      },
+    },
+    {
+      name: "exclusive, to another state",
+      settings: goa(false),
+      placeOfSupply: "Karnataka",
+      expected: {
+        interState: true,
+        taxableValueINR: 345,
+        cgstINR: 0,
+        sgstINR: 0,
+        igstINR: 55.6,
+        totalTaxINR: 55.6,
+        roundOffINR: 0.4,
+      },
+    },
+    {
+      name: "exclusive, collected from the store",
+      settings: goa(false),
+      placeOfSupply: null,
+      expected: {
+        interState: false,
+        cgstINR: 27.8,
+        sgstINR: 27.8,
+        igstINR: 0,
+      },
+    },
+  ];
+
+  for (const { name, settings, placeOfSupply, expected } of cases) {
+    it(`breaks down an order ${name}`, () => {
+      const gst = orderGst(
+        [line(kibble), line(ball)],
+        products,
+        categories,
+        settings,
+        placeOfSupply,
+        59
+      )!;
+      for (const [field, value] of Object.entries(expected)) {
+        assert.equal(gst[field as keyof OrderGst], value, field);
+      }
+      assert.equal(
+        Math.round((gst.cgstINR + gst.sgstINR + gst.igstINR) * 100),
+        Math.round(gst.totalTaxINR * 100)
+      );
+    });
+  }
+
+  it("taxes each line and the delivery fee at its own rate", () => {
+    const gst = orderGst(
+      [line(kibble), line(ball)],
+      products,
+      categories,
+      goa(true),
+      "Goa",
+      59
+    )!;
+    assert.deepEqual(gst.lines, [
+      { hsnCode: "2309", ratePercent: 5, taxableValueINR: 47.62, taxINR: 2.38 },
+      { hsnCode: "9503", ratePercent: 18, taxableValueINR: 200, taxINR: 36 },
+    ]);
+    assert.deepEqual(gst.delivery, {
+      ratePercent: 18,
+      taxableValueINR: 50,
+      taxINR: 9,
+    });
+  });
+
+  it("taxes delivery at the rate of the largest line by value", () => {
+    // Ten bags of kibble (₹500) outweigh the ball
+    const gst = orderGst(
+      [line(kibble, 10), line(ball)],
+      products,
+      categories,
+      goa(true),
+      "Goa",
+      59
+    )!;
+    assert.deepEqual(gst.delivery, {
+      ratePercent: 5,
+      taxableValueINR: 56.19,
+      taxINR: 2.81,
+    });
+  });
+
+  it("leaves delivery out when it's free", () => {
+    const gst = orderGst(
+      [line(ball)],
+      products,
+      categories,
+      goa(false),
+      "Goa",
+      0
+    )!;
+    assert.equal(gst.delivery, null);
+    assert.equal(gst.totalTaxINR, 42.48);
+  });
+
+  it("splits an odd paisa between CGST and SGST", () => {
+    const chew = product({ id: "chew", categoryId: "food", priceInINR: 1 });
+    const gst = orderGst(
+      [line(chew)],
+      [chew],
+      categories,
+      goa(false),
+      "Goa",
+      0
+    )!;
+    assert.equal(gst.totalTaxINR, 0.05);
+    assert.equal(gst.cgstINR, 0.03);
+    assert.equal(gst.sgstINR, 0.02);
+    assert.equal(gst.roundOffINR, -0.05);
+  });
+
+  it("is off until the shop's GST state is set", () => {
+    assert.equal(
+      orderGst(
+        [line(ball)],
+        products,
+        categories,
+        { gstState: null, pricesIncludeGst: true },
+        "Goa",
+        59
+      ),
+      null
+    );
+  });
+
+  it("adds GST to the total only when prices exclude it", () => {
+    const lines = [line(kibble), line(ball)];
+    const delivery = { deliveryFeeINR: 59, deliveryZone: "Goa" };
+    for (const [pricesIncludeGst, addedINR] of [
+      [true, 0],
+      [false, 56],
+    ] as const) {
+      const gst = orderGst(
+        lines,
+        products,
+        categories,
+        goa(pricesIncludeGst),
+        "Goa",
+        59
+      );
+      assert.equal(addedGstINR(gst), addedINR);
+      assert.equal(orderTotalINR(286, delivery, gst), 286 + 59 + addedINR);
+    }
+    assert.equal(orderTotalINR(286, delivery, null), 345);
+  });
+});
@@ -0,0 +1,151 @@
+// GST on orders: the HSN code and rate each product is taxed under, and an
+// order's CGST/SGST or IGST breakdown, delivery fee included. GST is off, and
+// orders carry no breakdown, until the shop's GST state is set.
+import type {
+  Category,
+  IndianState,
+  OrderGst,
+  OrderItem,
+  Product,
+  SiteSettings,
+} from "@shared/schema.js";
+import { categoryPath } from "../../shared/schema.js";
+import type { OrderDelivery } from "./delivery.js";
+
+export type GstSettings = Pick<SiteSettings, "gstState" | "pricesIncludeGst">;
+
+type GstLineInput = Pick<OrderItem, "productId" | "priceInINR" | "quantity">;
+
+const toPaise = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * The product's own HSN code and rate, each falling back to the nearest
+ * category above it that has one. Products with no rate anywhere are untaxed.
+ */
+export function productGst(
+  product: Pick<Product, "categoryId" | "hsnCode" | "gstRatePercent">,
+  categories: Category[]
+): { hsnCode: string | null; ratePercent: number } {
+  const nearestFirst = categoryPath(categories, product.categoryId).reverse();
+  const hsnCode =
+    product.hsnCode ??
+    nearestFirst.find((category) => category.hsnCode !== null)?.hsnCode ??
+    null;
+  const ratePercent =
+    product.gstRatePercent ??
+    nearestFirst.find((category) => category.gstRatePercent !== null)
+      ?.gstRatePercent ??
+    0;
+  return { hsnCode, ratePercent };
+}
+
+// The taxable value and tax in an amount, priced with or without GST
+function taxOn(
+  valueINR: number,
+  ratePercent: number,
+  pricesIncludeGst: boolean
+): { taxableValueINR: number; taxINR: number } {
+  if (pricesIncludeGst) {
+    const taxableValueINR = toPaise((valueINR * 100) / (100 + ratePercent));
+    return { taxableValueINR, taxINR: toPaise(valueINR - taxableValueINR) };
+  }
+  return {
+    taxableValueINR: valueINR,
+    taxINR: toPaise((valueINR * ratePercent) / 100),
+  };
+}
+
+/**
+ * The GST breakdown of priced lines and their delivery fee, delivered to
+ * placeOfSupply, or null while GST is off. Store pickups pass null: they're
+ * supplied in the shop's state. The fee is taxed at the rate of the largest
+ * line, as part of one composite supply with the goods.
+ */
+export function orderGst(
+  lines: GstLineInput[],
+  products: Product[],
+  categories: Category[],
+  settings: GstSettings,
+  placeOfSupply: IndianState | null,
+  deliveryFeeINR: number
+): OrderGst | null {
+  if (!settings.gstState) return null;
+  const interState =
+    placeOfSupply !== null && placeOfSupply !== settings.gstState;
+  const { pricesIncludeGst } = settings;
+
+  const gst: OrderGst = {
+    pricesIncludeGst,
+    interState,
+    lines: [],
+    delivery: null,
+    taxableValueINR: 0,
+    cgstINR: 0,
+    sgstINR: 0,
+    igstINR: 0,
+    totalTaxINR: 0,
+    roundOffINR: 0,
+  };
+  const addTax = (taxableValueINR: number, taxINR: number) => {
+    gst.taxableValueINR += taxableValueINR;
+    gst.totalTaxINR += taxINR;
+    if (interState) {
+      gst.igstINR += taxINR;
+    } else {
+      const cgstINR = toPaise(taxINR / 2);
+      gst.cgstINR += cgstINR;
+      gst.sgstINR += taxINR - cgstINR;
+    }
+  };
+
+  let valueINR = 0;
+  let principal = { valueINR: 0, ratePercent: 0 };
+  for (const line of lines) {
+    const product = products.find((p) => p.id === line.productId);
+    if (!product) throw new Error(`Product ${line.productId} not found`);
+    const { hsnCode, ratePercent } = productGst(product, categories);
+
+    const lineValueINR = line.priceInINR * line.quantity;
+    const tax = taxOn(lineValueINR, ratePercent, pricesIncludeGst);
+    gst.lines.push({ hsnCode, ratePercent, ...tax });
+    addTax(tax.taxableValueINR, tax.taxINR);
+    valueINR += lineValueINR;
+    if (lineValueINR > principal.valueINR) {
+      principal = { valueINR: lineValueINR, ratePercent };
+    }
+  }
+
+  if (deliveryFeeINR > 0) {
+    const { ratePercent } = principal;
+    const tax = taxOn(deliveryFeeINR, ratePercent, pricesIncludeGst);
+    gst.delivery = { ratePercent, ...tax };
+    addTax(tax.taxableValueINR, tax.taxINR);
+    valueINR += deliveryFeeINR;
+  }
+
+  gst.taxableValueINR = toPaise(gst.taxableValueINR);
+  gst.cgstINR = toPaise(gst.cgstINR);
+  gst.sgstINR = toPaise(gst.sgstINR);
+  gst.igstINR = toPaise(gst.igstINR);
+  gst.totalTaxINR = toPaise(gst.totalTaxINR);
+  if (!pricesIncludeGst) {
+    const chargedINR = valueINR + gst.totalTaxINR;
+    gst.roundOffINR = toPaise(Math.round(chargedINR) - chargedINR);
+  }
+  return gst;
+}
+
+// What GST adds to the items and delivery: nothing when prices include it
+export function addedGstINR(gst: OrderGst | null): number {
+  if (!gst || gst.pricesIncludeGst) return 0;
+  return gst.totalTaxINR + gst.roundOffINR;
+}
+
+// What the customer pays: the items, delivery and GST charged on top
+export function orderTotalINR(
+  subtotalINR: number,
+  delivery: OrderDelivery,
+  gst: OrderGst | null
+): number {
+  return toPaise(subtotalINR + addedGstINR(gst) + delivery.deliveryFeeINR);
+}
@@ -0,0 +1,163 @@
+import sharp from "sharp";
+import path from "path";
+import { readFile, unlink, writeFile } from "fs/promises";
+import type { Product, ProductImage } from "@shared/schema.js";
+
+// Widths of the WebP renditions offered in srcset; never upscaled
+export const RENDITION_WIDTHS = [320, 640, 1024, 1600];
+
+// Originals larger than this are scaled down before anything is kept
+const MAX_WIDTH = RENDITION_WIDTHS[RENDITION_WIDTHS.length - 1];
+
+const UPLOAD_DIR = path.join(process.cwd(), "server", "uploads");
+
+// A raw image on disk, from multer or unpacked from an import's zip
+type Upload = Pick<Express.Multer.File, "path">;
+
+const publicPath = (filePath: string) => `/uploads/${path.basename(filePath)}`;
+
+// Output path next to the upload, e.g. images-123-640.webp
+function outputPath(file: Upload, suffix: string) {
+  const { dir, name } = path.parse(file.path);
+  return path.join(dir, `${name}-${suffix}`);
+}
+
+/**
+ * Loads an upload upright and capped at MAX_WIDTH. Sharp drops EXIF and
+ * other metadata on output unless asked to keep it, so nothing written from
+ * here carries the camera's location.
+ */
+function load(file: Upload) {
+  return sharp(file.path)
+    .rotate()
+    .resize({ width: MAX_WIDTH, withoutEnlargement: true });
+}
+
+// A JPEG (or PNG when the image has transparency) for browsers without WebP
+async function writeFallback(file: Upload) {
+  const { hasAlpha } = await sharp(file.path).metadata();
+  const image = load(file);
+  const target = outputPath(file, hasAlpha ? "full.png" : "full.jpg");
+  const info = await (hasAlpha
+    ? image.png().toFile(target)
+    : image.jpeg({ quality: 82, mozjpeg: true }).toFile(target));
+  return { src: publicPath(target), width: info.width, height: info.height };
+}
+
+/**
+ * Turns a raw product photo into a fallback image plus WebP renditions at
+ * each width up to its own, then deletes the raw upload.
+ */
+export async function processProductImage(
+  file: Upload
+): Promise<ProductImage> {
+  try {
+    const fallback = await writeFallback(file);
+    const widths = RENDITION_WIDTHS.filter((width) => width < fallback.width);
+
+    const renditions = await Promise.all(
+      [...widths, fallback.width].map(async (width) => {
+        const target = outputPath(file, `${width}.webp`);
+        await load(file).resize({ width }).webp({ quality: 80 }).toFile(target);
+        return { width, src: publicPath(target) };
+      })
+    );
+
+    return { ...fallback, renditions, alt: "" };
+  } finally {
+    await discardUpload(file);
+  }
+}
+
+// Re-encodes an upload that is shown as-is (e.g. a health certificate) so it
+// loses its metadata, then deletes the raw upload
+export async function stripImageMetadata(
+  file: Upload
+): Promise<string> {
+  try {
+    return (await writeFallback(file)).src;
+  } finally {
+    await discardUpload(file);
+  }
+}
+
+export async function discardUpload(file: Upload) {
+  await unlink(file.path).catch(() => undefined); // already gone
+}
+
+/**
+ * Processes an image for a bulk import, unpacked from its zip or read from
+ * this shop's uploads, as if it had been uploaded on its own. Each product
+ * gets its own copy of the files, so deleting one product's image never
+ * affects another.
+ */
+export async function processBundledImage(
+  name: string,
+  data: Uint8Array
+): Promise<ProductImage> {
+  const unique = `${Date.now()}-${Math.round(Math.random() * 1e9)}`;
+  const file = {
+    path: path.join(UPLOAD_DIR, `images-${unique}${path.extname(name)}`),
+  };
+  await writeFile(file.path, data);
+  return processProductImage(file);
+}
+
+// The file behind an /uploads/ link, if this shop has it
+export function readUpload(src: string): Promise<Uint8Array | undefined> {
+  return readFile(path.join(UPLOAD_DIR, path.basename(src))).catch(
+    () => undefined
+  );
+}
+
+// Whether an image decodes all the way through, as processing it would; a
+// truncated file can still have a valid header
+export function isReadableImage(data: Uint8Array): Promise<boolean> {
+  return sharp(data)
+    .resize({ width: 64 })
+    .toBuffer()
+    .then(
+      () => true,
+      () => false
+    );
+}
+
+// An image that stays where it's linked from, e.g. in a bulk import
+export function linkedImage(src: string): ProductImage {
+  return { src, width: null, height: null, renditions: [], alt: "" };
+}
+
+// Deletes files this app uploaded; linked images elsewhere are left alone
+export async function deleteUploads(sources: string[]) {
+  await Promise.all(
+    sources
+      .filter((src) => src.startsWith("/uploads/"))
+      .map((src) =>
+        unlink(path.join(UPLOAD_DIR, path.basename(src))).catch(() => undefined)
+      )
+  );
+}
+
+// An image's files: the fallback and each rendition
+export function imageFiles(image: ProductImage): string[] {
+  return [image.src, ...image.renditions.map(({ src }) => src)];
+}
+
+// Removes an image and its renditions from disk once no product shows it
+export async function deleteProductImageFiles(image: ProductImage) {
+  await deleteUploads(imageFiles(image));
+}
+
+// Removes a deleted product's gallery and health certificate from disk
+export async function deleteProductFiles(product: Product) {
+  const certificate = product.petDetails?.healthCertificate;
+  await Promise.all([
+    ...product.images.map(deleteProductImageFiles),
+    deleteUploads(certificate ? [certificate] : []),
+  ]);
+}
+
+// Smallest rendition, for thumbnails such as cart lines
+export function thumbnailSrc(image: ProductImage): string {
+  return image.renditions[0]?.src ?? image.src;
+}
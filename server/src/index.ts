@@ -1,16 +1,17 @@
+// Load .env before anything reads process.env (storage picks its backend on import)
+import "dotenv/config";
+
 import express, { type Request, Response, NextFunction } from "express";
+import cookieParser from "cookie-parser";
 import { registerRoutes } from "./routes.js";
 import { setupVite, serveStatic, log } from "../../client/vite.js";
-import dotenv from "dotenv";
+import { renderPage } from "./seo.js";
 import path from "path";
 
-import "dotenv/config";
-
-dotenv.config();
-
 const app = express();
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
+app.use(cookieParser());
 
 app.use((req, res, next) => {
   const start = Date.now();
@@ -56,10 +57,11 @@ app.use((req, res, next) => {
   // importantly only setup vite in development and after
   // setting up all the other routes so the catch-all route
   // doesn't interfere with the other routes
+  // Pages go out with their title, description and link preview filled in
   if (app.get("env") === "development") {
-    await setupVite(app, server);
+    await setupVite(app, server, renderPage);
   } else {
-    serveStatic(app);
+    serveStatic(app, renderPage);
   }
 
   // ALWAYS serve the app on the port specified in the environment variable PORT
@@ -0,0 +1,48 @@
+import type {
+  Product,
+  ProductVariant,
+  StockMovement,
+} from "@shared/schema.js";
+
+// A ledger entry as handed to storage, before it is stamped and numbered
+export type StockChange = Pick<
+  StockMovement,
+  "type" | "quantity" | "actor" | "reason"
+> & { orderId?: string | null; variantId?: string | null };
+
+/**
+ * Stock left after applying a signed change. Throws rather than letting
+ * stock go negative, e.g. when recording damage larger than what is on hand.
+ */
+export function applyStockChange(
+  item: Pick<Product, "name" | "stock">,
+  quantity: number
+): number {
+  const stock = item.stock + quantity;
+  if (stock < 0) {
+    throw new Error(`Stock for ${item.name} cannot go below zero`);
+  }
+  return stock;
+}
+
+/**
+ * The stockAfter of a ledger entry: the variant's stock when the change was
+ * for one (none once it has been removed), otherwise the product's.
+ */
+export function stockAfter(
+  product: Pick<Product, "stock"> & { variants?: ProductVariant[] },
+  variantId?: string | null
+): number {
+  if (!variantId) return product.stock;
+  return product.variants?.find((v) => v.id === variantId)?.stock ?? 0;
+}
+
+// Shown as the reason on ledger entries written for an order
+export function orderReference(orderId: string) {
+  return `Order #${orderId.slice(-8)}`;
+}
+
+// Shown as the reason on ledger entries written for a reservation
+export function reservationReference(reservationId: string) {
+  return `Reservation #${reservationId.slice(-8)}`;
+}
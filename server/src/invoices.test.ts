@@ -0,0 +1,151 @@
+import assert from "node:assert/strict";
+import { describe, it, mock } from "node:test";
+import {
+  assertInvoiceable,
+  financialYear,
+  formatInvoiceNumber,
+} from "./invoices.js";
+import { MemStorage } from "./storage.js";
+
+const customer = {
+  name: "Asha",
+  phone: "9876543210",
+  address: {
+    house: "12",
+    street: "MG Road",
+    landmark: "",
+    city: "Panaji",
+    state: "Goa" as const,
+    pinCode: "403001",
+  },
+};
+
+// A store with one product in stock, and a way to order it
+async function shop() {
+  const storage = new MemStorage();
+  const category = await storage.createCategory({
+    name: "Toys",
+    description: "",
+  });
+  const product = await storage.createProduct({
+    name: "Ball",
+    categoryId: category.id,
+    type: "accessory",
+    description: "Bouncy",
+    priceInINR: 99,
+    stock: 20,
+    available: true,
+  });
+  const order = () =>
+    storage.placeOrder({
+      products: [{ productId: product.id, quantity: 1 }],
+      customer,
+    });
+  return { storage, order };
+}
+
+describe("financial years", () => {
+  it("start on 1 April by Indian time", () => {
+    for (const [date, expected] of [
+      // Midnight on 1 April in India is 18:30 UTC on 31 March
+      ["2026-03-31T18:29:59Z", "2025-26"],
+      ["2026-03-31T18:30:00Z", "2026-27"],
+      ["2026-04-01T00:00:00Z", "2026-27"],
+      ["2026-12-31T23:59:59Z", "2026-27"],
+      ["2027-01-01T00:00:00Z", "2026-27"],
+      ["2027-03-31T18:29:59Z", "2026-27"],
+      ["2099-04-01T00:00:00Z", "2099-00"],
+    ]) {
+      assert.equal(financialYear(new Date(date)), expected, date);
+    }
+  });
+
+  it("number invoices within the year", () => {
+    assert.equal(formatInvoiceNumber("2026-27", 1), "INV/2026-27/0001");
+    assert.equal(formatInvoiceNumber("2026-27", 42), "INV/2026-27/0042");
+    assert.equal(formatInvoiceNumber("2026-27", 12345), "INV/2026-27/12345");
+  });
+});
+
+describe("issuing invoices", () => {
+  it("refuses orders called off before they were invoiced", () => {
+    for (const status of ["cancelled", "refunded"] as const) {
+      assert.throws(
+        () => assertInvoiceable({ id: "a1b2c3d4-0000", status }),
+        new RegExp(`was ${status} before it was invoiced`)
+      );
+    }
+    for (const status of ["pending", "delivered", "returned"] as const) {
+      assertInvoiceable({ id: "a1b2c3d4-0000", status });
+    }
+  });
+
+  it("numbers orders in sequence and keeps an order's number", async () => {
+    const { storage, order } = await shop();
+    const [first, second] = [await order(), await order()];
+
+    const issued = await storage.issueInvoice(second.id);
+    assert.match(issued!.invoiceNumber!, /^INV\/\d{4}-\d{2}\/0001$/);
+    assert.ok(issued!.invoicedAt);
+    assert.match(
+      (await storage.issueInvoice(first.id))!.invoiceNumber!,
+      /\/0002$/
+    );
+    assert.equal(
+      (await storage.issueInvoice(second.id))!.invoiceNumber,
+      issued!.invoiceNumber
+    );
+    assert.equal(await storage.issueInvoice("missing"), undefined);
+  });
+
+  it("gives concurrent requests one number per order", async () => {
+    const { storage, order } = await shop();
+    const [first, second] = [await order(), await order()];
+
+    const issued = await Promise.all([
+      storage.issueInvoice(first.id),
+      storage.issueInvoice(second.id),
+      storage.issueInvoice(first.id),
+    ]);
+    const numbers = issued.map((o) => o!.invoiceNumber!.slice(-4));
+    assert.deepEqual(numbers, ["0001", "0002", "0001"]);
+  });
+
+  it("refuses cancelled and refunded orders", async () => {
+    const { storage, order } = await shop();
+    const cancelled = await order();
+    await storage.updateOrderStatus(cancelled.id, "cancelled", "admin");
+    await assert.rejects(
+      storage.issueInvoice(cancelled.id),
+      /was cancelled before it was invoiced/
+    );
+    await storage.updateOrderStatus(cancelled.id, "refunded", "admin");
+    await assert.rejects(
+      storage.issueInvoice(cancelled.id),
+      /was refunded before it was invoiced/
+    );
+    assert.equal((await storage.getOrder(cancelled.id))?.invoiceNumber, null);
+
+    // A refused order doesn't use up a number
+    const next = await storage.issueInvoice((await order()).id);
+    assert.match(next!.invoiceNumber!, /\/0001$/);
+  });
+
+  it("starts numbering again each financial year", async (t) => {
+    const { storage, order } = await shop();
+    const orders = [await order(), await order(), await order()];
+    t.after(() => mock.timers.reset());
+
+    mock.timers.enable({
+      apis: ["Date"],
+      now: new Date("2027-03-31T18:29:00Z"),
+    });
+    const invoiceNumber = async (id: string) =>
+      (await storage.issueInvoice(id))!.invoiceNumber;
+    assert.equal(await invoiceNumber(orders[0].id), "INV/2026-27/0001");
+
+    mock.timers.setTime(new Date("2027-03-31T18:31:00Z").getTime());
+    assert.equal(await invoiceNumber(orders[1].id), "INV/2027-28/0001");
+    assert.equal(await invoiceNumber(orders[2].id), "INV/2027-28/0002");
+  });
+});
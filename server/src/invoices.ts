@@ -0,0 +1,219 @@
+// Invoices and packing slips for orders. Invoice numbers run in sequence
+// within each Indian financial year (April to March) and are given when an
+// order's invoice is first printed.
+import type { Order, SiteSettings } from "@shared/schema.js";
+import { formatAddress } from "../../shared/schema.js";
+import { orderReference } from "./inventory.js";
+import type { PrintDocument } from "./print.js";
+
+// India doesn't observe daylight saving, so the offset is fixed
+const IST_OFFSET_MS = 5.5 * 60 * 60 * 1000;
+
+// The financial year a date falls in, by Indian time, e.g. "2026-27"
+export function financialYear(date: Date): string {
+  const ist = new Date(date.getTime() + IST_OFFSET_MS);
+  const year =
+    ist.getUTCMonth() >= 3 ? ist.getUTCFullYear() : ist.getUTCFullYear() - 1;
+  return `${year}-${String((year + 1) % 100).padStart(2, "0")}`;
+}
+
+export function formatInvoiceNumber(financialYear: string, number: number) {
+  return `INV/${financialYear}/${String(number).padStart(4, "0")}`;
+}
+
+// Orders called off before they were invoiced never get an invoice number
+export function assertInvoiceable(order: Pick<Order, "status" | "id">) {
+  if (order.status === "cancelled" || order.status === "refunded") {
+    throw new Error(
+      `${orderReference(order.id)} was ${order.status} before it was invoiced`
+    );
+  }
+}
+
+const amountFormat = new Intl.NumberFormat("en-IN", {
+  minimumFractionDigits: 2,
+  maximumFractionDigits: 2,
+});
+const formatAmount = (amount: number) => amountFormat.format(amount);
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString("en-IN", {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+    timeZone: "Asia/Kolkata",
+  });
+
+const lineName = (line: Order["products"][number]) =>
+  line.variantName ? `${line.name} (${line.variantName})` : line.name;
+
+function seller(settings: SiteSettings): string[] {
+  return [
+    settings.businessName,
+    ...settings.businessAddress.split("\n").filter((line) => line.trim()),
+    ...(settings.gstState ? [`State: ${settings.gstState}`] : []),
+    ...(settings.gstin ? [`GSTIN: ${settings.gstin}`] : []),
+  ];
+}
+
+function recipient(order: Order): string[] {
+  const { customer } = order;
+  return [
+    customer.name,
+    formatAddress(customer.address),
+    customer.altPhone
+      ? `Phone: ${customer.phone}, ${customer.altPhone}`
+      : `Phone: ${customer.phone}`,
+  ];
+}
+
+/**
+ * The invoice for an order that has been given its invoice number. Orders
+ * carrying a GST breakdown get a tax invoice with HSN codes and the tax on
+ * each line.
+ */
+export function invoiceDocument(
+  order: Order,
+  settings: SiteSettings
+): PrintDocument {
+  if (!order.invoiceNumber || !order.invoicedAt) {
+    throw new Error(`${orderReference(order.id)} has not been invoiced`);
+  }
+  const { gst } = order;
+  // Where the goods go for an inter-state supply, else the shop's own state
+  const placeOfSupply =
+    typeof order.customer.address === "object" && gst?.interState
+      ? order.customer.address.state
+      : settings.gstState;
+
+  const columns = gst
+    ? [
+        { label: "#" },
+        { label: "Item", grow: true },
+        { label: "HSN" },
+        { label: "Qty", align: "right" as const },
+        { label: "Rate", align: "right" as const },
+        { label: "Taxable value", align: "right" as const },
+        { label: "GST", align: "right" as const },
+        { label: "Tax", align: "right" as const },
+      ]
+    : [
+        { label: "#" },
+        { label: "Item", grow: true },
+        { label: "Qty", align: "right" as const },
+        { label: "Rate", align: "right" as const },
+        { label: "Amount", align: "right" as const },
+      ];
+  const rows = order.products.map((line, index) => {
+    const tax = gst?.lines[index];
+    return tax
+      ? [
+          String(index + 1),
+          lineName(line),
+          tax.hsnCode ?? "",
+          String(line.quantity),
+          formatAmount(line.priceInINR),
+          formatAmount(tax.taxableValueINR),
+          `${tax.ratePercent}%`,
+          formatAmount(tax.taxINR),
+        ]
+      : [
+          String(index + 1),
+          lineName(line),
+          String(line.quantity),
+          formatAmount(line.priceInINR),
+          formatAmount(line.priceInINR * line.quantity),
+        ];
+  });
+  // Taxed with the goods, so it's a line of the tax invoice
+  if (gst?.delivery) {
+    rows.push([
+      String(rows.length + 1),
+      order.deliveryZone ? `Delivery (${order.deliveryZone})` : "Delivery",
+      "",
+      "1",
+      formatAmount(order.deliveryFeeINR),
+      formatAmount(gst.delivery.taxableValueINR),
+      `${gst.delivery.ratePercent}%`,
+      formatAmount(gst.delivery.taxINR),
+    ]);
+  }
+
+  const totals: [string, string][] = [
+    ["Items", formatAmount(order.subtotalINR)],
+    ["Delivery", formatAmount(order.deliveryFeeINR)],
+  ];
+  if (gst) {
+    totals.push(["Taxable value", formatAmount(gst.taxableValueINR)]);
+    if (gst.interState) {
+      totals.push(["IGST", formatAmount(gst.igstINR)]);
+    } else {
+      totals.push(["CGST", formatAmount(gst.cgstINR)]);
+      totals.push(["SGST", formatAmount(gst.sgstINR)]);
+    }
+  }
+  if (gst?.roundOffINR) {
+    totals.push(["Round off", formatAmount(gst.roundOffINR)]);
+  }
+  totals.push(["Total (INR)", formatAmount(order.totalAmountINR)]);
+
+  return {
+    title: gst ? "Tax Invoice" : "Invoice",
+    from: seller(settings),
+    details: [
+      ["Invoice no.", order.invoiceNumber],
+      ["Invoice date", formatDate(order.invoicedAt)],
+      ["Order", `#${order.id.slice(-8)}`],
+      ["Order date", formatDate(order.createdAt)],
+      ...(gst && placeOfSupply
+        ? [["Place of supply", placeOfSupply] as [string, string]]
+        : []),
+    ],
+    to: { heading: "Bill to / Ship to", lines: recipient(order) },
+    table: { columns, rows },
+    totals,
+    notes: gst?.pricesIncludeGst ? ["Item rates include GST."] : [],
+  };
+}
+
+// What to pack for an order and where it goes, without prices
+export function packingSlipDocument(
+  order: Order,
+  settings: SiteSettings
+): PrintDocument {
+  const itemCount = order.products.reduce(
+    (count, line) => count + line.quantity,
+    0
+  );
+  return {
+    title: "Packing Slip",
+    from: seller(settings).slice(0, 1),
+    details: [
+      ["Order", `#${order.id.slice(-8)}`],
+      ["Order date", formatDate(order.createdAt)],
+      ...(order.invoiceNumber
+        ? [["Invoice no.", order.invoiceNumber] as [string, string]]
+        : []),
+      ...(order.deliveryZone
+        ? [["Delivery zone", order.deliveryZone] as [string, string]]
+        : []),
+    ],
+    to: { heading: "Ship to", lines: recipient(order) },
+    table: {
+      columns: [
+        { label: "#" },
+        { label: "Item", grow: true },
+        { label: "Qty", align: "right" },
+        { label: "Packed", align: "right" },
+      ],
+      rows: order.products.map((line, index) => [
+        String(index + 1),
+        lineName(line),
+        String(line.quantity),
+        "[  ]",
+      ]),
+    },
+    totals: [["Items", String(itemCount)]],
+    notes: [],
+  };
+}
@@ -0,0 +1,117 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  canTransitionOrder,
+  orderStatuses,
+  type OrderStatus,
+} from "../../shared/schema.js";
+import { recordStatusChange, shouldRestock } from "./orders.js";
+import { MemStorage } from "./storage.js";
+
+const allowed: [OrderStatus, OrderStatus][] = [
+  ["pending", "confirmed"],
+  ["pending", "cancelled"],
+  ["confirmed", "packed"],
+  ["confirmed", "cancelled"],
+  ["packed", "out_for_delivery"],
+  ["packed", "cancelled"],
+  ["out_for_delivery", "delivered"],
+  ["out_for_delivery", "returned"],
+  ["delivered", "returned"],
+  ["cancelled", "refunded"],
+  ["returned", "refunded"],
+];
+
+describe("order lifecycle", () => {
+  it("allows only the listed transitions", () => {
+    for (const from of orderStatuses) {
+      for (const to of orderStatuses) {
+        const expected = allowed.some(([a, b]) => a === from && b === to);
+        assert.equal(canTransitionOrder(from, to), expected, `${from} → ${to}`);
+      }
+    }
+  });
+
+  it("appends allowed changes to the history", () => {
+    const history = recordStatusChange(
+      {
+        status: "pending",
+        statusHistory: [{ status: "pending", changedAt: "2026-01-01T00:00:00Z" }],
+      },
+      "confirmed"
+    );
+    assert.deepEqual(
+      history.map((change) => change.status),
+      ["pending", "confirmed"]
+    );
+  });
+
+  it("refuses other changes", () => {
+    for (const [from, to] of [
+      ["pending", "delivered"],
+      ["delivered", "cancelled"],
+      ["refunded", "pending"],
+      ["cancelled", "cancelled"],
+    ] as [OrderStatus, OrderStatus][]) {
+      assert.throws(
+        () => recordStatusChange({ status: from, statusHistory: [] }, to),
+        new RegExp(`Cannot move order from ${from} to ${to}`)
+      );
+    }
+  });
+});
+
+describe("restocking", () => {
+  it("restocks on cancellation and return, unless already restocked", () => {
+    assert.equal(shouldRestock({ restockedAt: null }, "cancelled"), true);
+    assert.equal(shouldRestock({ restockedAt: null }, "returned"), true);
+    assert.equal(shouldRestock({ restockedAt: null }, "refunded"), false);
+    assert.equal(shouldRestock({ restockedAt: null }, "delivered"), false);
+    assert.equal(shouldRestock({ restockedAt: new Date() }, "cancelled"), false);
+    assert.equal(shouldRestock({ restockedAt: new Date() }, "returned"), false);
+  });
+
+  it("puts an order's items back exactly once", async () => {
+    const storage = new MemStorage();
+    const category = await storage.createCategory({
+      name: "Toys",
+      description: "",
+    });
+    const product = await storage.createProduct({
+      name: "Ball",
+      categoryId: category.id,
+      type: "accessory",
+      description: "Bouncy",
+      priceInINR: 99,
+      stock: 5,
+      available: true,
+    });
+    const order = await storage.placeOrder({
+      products: [{ productId: product.id, quantity: 2 }],
+      customer: {
+        name: "Asha",
+        phone: "9876543210",
+        address: {
+          house: "12",
+          street: "MG Road",
+          landmark: "",
+          city: "Panaji",
+          state: "Goa",
+          pinCode: "403001",
+        },
+      },
+    });
+    assert.equal((await storage.getProduct(product.id))?.stock, 3);
+
+    await storage.updateOrderStatus(order.id, "cancelled", "admin");
+    assert.equal((await storage.getProduct(product.id))?.stock, 5);
+    await storage.updateOrderStatus(order.id, "refunded", "admin");
+    assert.equal((await storage.getProduct(product.id))?.stock, 5);
+
+    const restocks = (await storage.getStockMovements(product.id)).filter(
+      (movement) => movement.type === "restock"
+    );
+    assert.equal(restocks.length, 1);
+    assert.equal(restocks[0].quantity, 2);
+  });
+});
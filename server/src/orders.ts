@@ -0,0 +1,122 @@
+import type {
+  InsertOrder,
+  Order,
+  OrderItem,
+  OrderStatus,
+  OrderStatusChange,
+  Product,
+} from "@shared/schema.js";
+import { canTransitionOrder, variantLabel } from "../../shared/schema.js";
+import { describeLine, resolveVariant } from "./variants.js";
+
+// A product, or one of its variants, and how many of it an order needs
+export type StockRequest = {
+  productId: string;
+  variantId: string | null;
+  quantity: number;
+};
+
+/**
+ * Total quantity requested per product and variant, so an order listing the
+ * same item on several lines is checked against stock once.
+ */
+export function requestedQuantities(
+  lines: InsertOrder["products"]
+): StockRequest[] {
+  const requests = new Map<string, StockRequest>();
+  for (const { productId, variantId = null, quantity } of lines) {
+    const key = `${productId}:${variantId ?? ""}`;
+    const request = requests.get(key);
+    if (request) {
+      request.quantity += quantity;
+    } else {
+      requests.set(key, { productId, variantId, quantity });
+    }
+  }
+  return Array.from(requests.values());
+}
+
+/**
+ * Checks every requested product is still on sale and has the quantity in
+ * stock. Throws on the first missing, unavailable or archived product,
+ * missing variant or shortfall, before anything has been changed.
+ */
+export function assertStockAvailable(
+  requests: StockRequest[],
+  products: Product[]
+) {
+  for (const { productId, variantId, quantity } of requests) {
+    const product = products.find((p) => p.id === productId);
+    if (!product) {
+      throw new Error("One or more products not found");
+    }
+    if (!product.available || product.archivedAt) {
+      throw new Error(`${product.name} is no longer available`);
+    }
+    const variant = resolveVariant(product, variantId);
+    if ((variant ?? product).stock < quantity) {
+      throw new Error(
+        `Insufficient stock for product: ${describeLine(product, variant)}`
+      );
+    }
+  }
+}
+
+// Snapshot name, variant and price of each line at the time the order is placed
+export function priceOrderLines(
+  lines: InsertOrder["products"],
+  products: Product[]
+): { products: OrderItem[]; subtotalINR: number } {
+  const orderProducts = lines.map((line) => {
+    const product = products.find((p) => p.id === line.productId);
+    if (!product) throw new Error(`Product ${line.productId} not found`);
+    const variant = resolveVariant(product, line.variantId);
+
+    return {
+      productId: line.productId,
+      variantId: variant?.id ?? null,
+      name: product.name,
+      variantName: variant ? variantLabel(product.options, variant) : null,
+      priceInINR: (variant ?? product).priceInINR,
+      quantity: line.quantity,
+    };
+  });
+
+  const subtotalINR = orderProducts.reduce(
+    (total, product) => total + product.priceInINR * product.quantity,
+    0
+  );
+
+  return { products: orderProducts, subtotalINR };
+}
+
+/**
+ * Validates a status change against the order lifecycle and returns the
+ * order's history with the new status appended.
+ */
+export function recordStatusChange(
+  order: Pick<Order, "status" | "statusHistory">,
+  status: OrderStatus
+): OrderStatusChange[] {
+  if (!canTransitionOrder(order.status, status)) {
+    throw new Error(`Cannot move order from ${order.status} to ${status}`);
+  }
+  return [
+    ...order.statusHistory,
+    { status, changedAt: new Date().toISOString() },
+  ];
+}
+
+// Moving an order into one of these puts its items back into stock
+export const restockingStatuses: OrderStatus[] = ["cancelled", "returned"];
+
+/**
+ * Whether this status change should return the order's items to stock.
+ * Orders remember when they were restocked, so it happens at most once.
+ */
+export function shouldRestock(
+  order: Pick<Order, "restockedAt">,
+  status: OrderStatus
+) {
+  return restockingStatuses.includes(status) && !order.restockedAt;
+}
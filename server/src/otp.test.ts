@@ -0,0 +1,124 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { LoginCode } from "@shared/schema.js";
+import {
+  LOGIN_CODE_TTL_MS,
+  MAX_LOGIN_ATTEMPTS,
+  RESEND_INTERVAL_MS,
+  assertCanResend,
+  assertValidLoginCode,
+  generateLoginCode,
+  hashLoginCode,
+  resendAt,
+} from "./otp.js";
+
+const phone = "+919876543210";
+const sentAt = new Date("2026-01-01T10:00:00Z");
+const after = (ms: number) => new Date(sentAt.getTime() + ms);
+
+// A code sent at sentAt, with attempts counting the one being checked
+function loginCode(code: string, attempts = 1): LoginCode {
+  return {
+    phone,
+    codeHash: hashLoginCode(phone, code),
+    expiresAt: after(LOGIN_CODE_TTL_MS),
+    attempts,
+    sentAt,
+  };
+}
+
+describe("login codes", () => {
+  it("generates six digit codes", () => {
+    for (let i = 0; i < 100; i++) {
+      assert.match(generateLoginCode(), /^\d{6}$/);
+    }
+  });
+
+  it("hashes codes with an HMAC of the phone and code", () => {
+    const hash = hashLoginCode(phone, "123456");
+    assert.match(hash, /^[0-9a-f]{64}$/);
+    assert.equal(hashLoginCode(phone, "123456"), hash);
+    assert.notEqual(hashLoginCode(phone, "123457"), hash);
+    assert.notEqual(hashLoginCode("+919876543211", "123456"), hash);
+  });
+
+  it("keys the hash with the session secret", () => {
+    const secret = process.env.SESSION_SECRET;
+    try {
+      process.env.SESSION_SECRET = "one";
+      const hash = hashLoginCode(phone, "123456");
+      process.env.SESSION_SECRET = "two";
+      assert.notEqual(hashLoginCode(phone, "123456"), hash);
+    } finally {
+      if (secret === undefined) delete process.env.SESSION_SECRET;
+      else process.env.SESSION_SECRET = secret;
+    }
+  });
+
+  it("accepts the code sent until it expires", () => {
+    const sent = loginCode("123456");
+    assertValidLoginCode(sent, "123456", after(LOGIN_CODE_TTL_MS - 1));
+    assert.throws(
+      () => assertValidLoginCode(sent, "123456", after(LOGIN_CODE_TTL_MS)),
+      /expired/
+    );
+    assert.throws(
+      () => assertValidLoginCode(undefined, "123456", sentAt),
+      /expired/
+    );
+  });
+
+  it("counts down the tries left on wrong codes", () => {
+    assert.throws(
+      () => assertValidLoginCode(loginCode("123456", 1), "654321", sentAt),
+      new RegExp(`${MAX_LOGIN_ATTEMPTS - 1} tries left`)
+    );
+    assert.throws(
+      () =>
+        assertValidLoginCode(
+          loginCode("123456", MAX_LOGIN_ATTEMPTS - 1),
+          "654321",
+          sentAt
+        ),
+      /1 try left/
+    );
+    assert.throws(
+      () =>
+        assertValidLoginCode(
+          loginCode("123456", MAX_LOGIN_ATTEMPTS),
+          "654321",
+          sentAt
+        ),
+      /Wrong code; ask for a new one/
+    );
+  });
+
+  it("stops accepting even the right code after too many attempts", () => {
+    assertValidLoginCode(
+      loginCode("123456", MAX_LOGIN_ATTEMPTS),
+      "123456",
+      sentAt
+    );
+    assert.throws(
+      () =>
+        assertValidLoginCode(
+          loginCode("123456", MAX_LOGIN_ATTEMPTS + 1),
+          "123456",
+          sentAt
+        ),
+      /Too many wrong codes/
+    );
+  });
+
+  it("waits out the resend interval before sending another code", () => {
+    assertCanResend(undefined, sentAt);
+    const sent = loginCode("123456");
+    assert.deepEqual(resendAt(sent), after(RESEND_INTERVAL_MS));
+    assert.throws(() => assertCanResend(sent, after(1)), /Wait 60s/);
+    assert.throws(
+      () => assertCanResend(sent, after(RESEND_INTERVAL_MS - 1500)),
+      /Wait 2s/
+    );
+    assertCanResend(sent, after(RESEND_INTERVAL_MS));
+  });
+});
@@ -0,0 +1,91 @@
+// One-time login codes for customer accounts: generating, sending and
+// checking them. Storage keeps only a hash of the code last sent to each
+// number.
+import { createHmac, randomInt, timingSafeEqual } from "crypto";
+import { appendFile } from "fs/promises";
+import type { LoginCode } from "@shared/schema.js";
+
+export const LOGIN_CODE_TTL_MS = 10 * 60 * 1000;
+// How long before another code can be sent to the same number
+export const RESEND_INTERVAL_MS = 60 * 1000;
+// Wrong codes allowed before the code stops working
+export const MAX_LOGIN_ATTEMPTS = 5;
+
+// Delivers login codes. Real SMS needs a provider; until one is plugged in,
+// codes are written where a developer can read them.
+export interface OtpSender {
+  send(phone: string, code: string): Promise<void>;
+}
+
+export class ConsoleOtpSender implements OtpSender {
+  async send(phone: string, code: string) {
+    console.log(`Login code for ${phone}: ${code}`);
+  }
+}
+
+// Appends one line per code, e.g. for end-to-end tests to read back
+export class FileOtpSender implements OtpSender {
+  constructor(private path: string) {}
+
+  async send(phone: string, code: string) {
+    const line = `${new Date().toISOString()} ${phone} ${code}\n`;
+    await appendFile(this.path, line);
+  }
+}
+
+export const otpSender: OtpSender = process.env.OTP_FILE
+  ? new FileOtpSender(process.env.OTP_FILE)
+  : new ConsoleOtpSender();
+
+export function generateLoginCode(): string {
+  return randomInt(0, 1_000_000).toString().padStart(6, "0");
+}
+
+// Keyed with the session secret so a leaked table doesn't give codes away
+// to a quick brute force
+export function hashLoginCode(phone: string, code: string): string {
+  return createHmac("sha256", process.env.SESSION_SECRET ?? "")
+    .update(`${phone}:${code}`)
+    .digest("hex");
+}
+
+// When another code may be sent to a number that was last sent loginCode
+export function resendAt(loginCode: LoginCode | undefined): Date {
+  return new Date((loginCode?.sentAt.getTime() ?? 0) + RESEND_INTERVAL_MS);
+}
+
+export function assertCanResend(loginCode: LoginCode | undefined, now: Date) {
+  const waitMs = resendAt(loginCode).getTime() - now.getTime();
+  if (waitMs > 0) {
+    const seconds = Math.ceil(waitMs / 1000);
+    throw new Error(`Wait ${seconds}s before asking for another code`);
+  }
+}
+
+/**
+ * Checks a code against the one sent, after the attempt has been counted
+ * in loginCode.attempts. Throws saying what's wrong with it.
+ */
+export function assertValidLoginCode(
+  loginCode: LoginCode | undefined,
+  code: string,
+  now: Date
+) {
+  if (!loginCode || loginCode.expiresAt <= now) {
+    throw new Error("This code has expired; ask for a new one");
+  }
+  if (loginCode.attempts > MAX_LOGIN_ATTEMPTS) {
+    throw new Error("Too many wrong codes; ask for a new one");
+  }
+
+  const expected = Buffer.from(loginCode.codeHash, "hex");
+  const supplied = Buffer.from(hashLoginCode(loginCode.phone, code), "hex");
+  if (!timingSafeEqual(expected, supplied)) {
+    const left = MAX_LOGIN_ATTEMPTS - loginCode.attempts;
+    throw new Error(
+      left > 0
+        ? `Wrong code; ${left} ${left === 1 ? "try" : "tries"} left`
+        : "Wrong code; ask for a new one"
+    );
+  }
+}
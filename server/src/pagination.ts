@@ -0,0 +1,81 @@
+import type { ListSort, Page } from "@shared/schema.js";
+
+// Where a page ended: the sort key and id of its last item. The id breaks
+// ties, so items sharing a key are neither skipped nor repeated.
+export type Cursor = { key: string | number; id: string };
+
+export type PageRequest = {
+  sort?: ListSort;
+  cursor?: string;
+  // Every match comes on one page when there's no limit
+  limit?: number;
+};
+
+// How MemStorage orders a list, ties broken by id
+export type SortKey<T> = {
+  of: (item: T) => string | number;
+  descending?: boolean;
+};
+
+export function encodeCursor(cursor: Cursor): string {
+  return Buffer.from(JSON.stringify([cursor.key, cursor.id])).toString(
+    "base64url"
+  );
+}
+
+export function decodeCursor(cursor: string): Cursor {
+  try {
+    const [key, id] = JSON.parse(Buffer.from(cursor, "base64url").toString());
+    const validKey = typeof key === "string" || typeof key === "number";
+    if (validKey && typeof id === "string") return { key, id };
+  } catch {
+    // Reported below
+  }
+  throw new Error("Invalid cursor");
+}
+
+/**
+ * A page from the items following the cursor, in order. Storage fetches one
+ * more than the limit so it knows whether another page follows.
+ */
+export function toPage<T extends { id: string }>(
+  following: T[],
+  keyOf: (item: T) => string | number,
+  limit: number | undefined,
+  total: number
+): Page<T> {
+  const items = limit ? following.slice(0, limit) : following;
+  const last = items[items.length - 1];
+  const hasMore = items.length < following.length;
+  const nextCursor = hasMore
+    ? encodeCursor({ key: keyOf(last), id: last.id })
+    : null;
+  return { items, nextCursor, total };
+}
+
+function compare(a: string | number, b: string | number): number {
+  if (a < b) return -1;
+  return a > b ? 1 : 0;
+}
+
+// Sorts and pages a whole list in memory
+export function paginate<T extends { id: string }>(
+  items: T[],
+  sortKey: SortKey<T>,
+  page: PageRequest = {}
+): Page<T> {
+  const direction = sortKey.descending ? -1 : 1;
+  const compareCursors = (a: Cursor, b: Cursor) =>
+    direction * (compare(a.key, b.key) || compare(a.id, b.id));
+  const cursorOf = (item: T) => ({ key: sortKey.of(item), id: item.id });
+
+  const sorted = [...items].sort((a, b) =>
+    compareCursors(cursorOf(a), cursorOf(b))
+  );
+  const after = page.cursor ? decodeCursor(page.cursor) : null;
+  const following = after
+    ? sorted.filter((item) => compareCursors(cursorOf(item), after) > 0)
+    : sorted;
+
+  return toPage(following, sortKey.of, page.limit, items.length);
+}
@@ -0,0 +1,353 @@
+// Drives PgStorage against pg-mem, an in-memory Postgres, with the schema
+// built from the migrations. Run with `npm test`.
+import assert from "node:assert/strict";
+import { randomUUID } from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import { before, describe, it } from "node:test";
+import { fileURLToPath } from "node:url";
+import { DataType, newDb } from "pg-mem";
+import type pg from "pg";
+import { linkedImage } from "./images.js";
+import { PgStorage } from "./pg-storage.js";
+
+const migrationsDir = path.resolve(
+  path.dirname(fileURLToPath(import.meta.url)),
+  "../../migrations"
+);
+
+// pg-mem has no full text search, triggers or extensions, and backfills
+// have nothing to update in a new database, so all of those are left out
+const UNSUPPORTED_MIGRATIONS = ["0021_product_search_columns.sql"];
+
+function migrationStatements(): string[] {
+  return fs
+    .readdirSync(migrationsDir)
+    .filter(
+      (file) => file.endsWith(".sql") && !UNSUPPORTED_MIGRATIONS.includes(file)
+    )
+    .sort()
+    .flatMap((file) =>
+      fs
+        .readFileSync(path.join(migrationsDir, file), "utf8")
+        .split("--> statement-breakpoint")
+    )
+    .filter((statement) => !/^\s*(UPDATE|CREATE EXTENSION|--)/.test(statement));
+}
+
+function memoryPool(): pg.Pool {
+  const db = newDb();
+  db.public.registerFunction({
+    name: "gen_random_uuid",
+    returns: DataType.text,
+    implementation: () => randomUUID(),
+    impure: true,
+  });
+  db.public.registerFunction({
+    name: "floor",
+    args: [DataType.float],
+    returns: DataType.float,
+    implementation: Math.floor,
+  });
+  db.public.none(migrationStatements().join("\n"));
+
+  const { Pool } = db.adapters.createPg();
+  // Drizzle asks for rows as arrays and passes type parsers, neither of
+  // which pg-mem's adapter understands
+  const query = Pool.prototype.query;
+  Pool.prototype.query = async function (config: any, ...rest: any[]) {
+    if (!config || typeof config !== "object") {
+      return query.call(this, config, ...rest);
+    }
+    const { types, rowMode, ...queryConfig } = config;
+    const result = await query.call(this, queryConfig, ...rest);
+    if (rowMode === "array") {
+      result.rows = result.rows.map((row: object) => Object.values(row));
+    }
+    return result;
+  };
+  return new Pool();
+}
+
+const customer = {
+  name: "Asha",
+  phone: "9876543210",
+  address: {
+    house: "12",
+    street: "MG Road",
+    landmark: "",
+    city: "Panaji",
+    state: "Goa" as const,
+    pinCode: "403001",
+  },
+};
+
+describe("PgStorage", () => {
+  let storage: PgStorage;
+  let categoryId: string;
+
+  before(async () => {
+    storage = new PgStorage(memoryPool());
+    const category = await storage.createCategory({
+      name: "Dog Food",
+      description: "Food for dogs",
+    });
+    categoryId = category.id;
+  });
+
+  it("creates and reads products", async () => {
+    const created = await storage.createProduct({
+      name: "Puppy Kibble",
+      categoryId,
+      type: "food",
+      description: "Small bites",
+      priceInINR: 450,
+      stock: 8,
+      available: true,
+    });
+
+    const product = await storage.getProduct(created.id);
+    assert.equal(product?.name, "Puppy Kibble");
+    assert.equal(product?.slug, "puppy-kibble");
+    assert.equal(product?.stock, 8);
+    assert.equal((await storage.getProductBySlug("puppy-kibble"))?.id, created.id);
+
+    const page = await storage.getProducts({ categoryId });
+    assert.deepEqual(
+      page.items.map((item) => item.id),
+      [created.id]
+    );
+  });
+
+  it("places orders and takes their stock", async () => {
+    const product = await storage.createProduct({
+      name: "Chew Toy",
+      categoryId,
+      type: "accessory",
+      description: "Rubber",
+      priceInINR: 200,
+      stock: 3,
+      available: true,
+    });
+
+    const order = await storage.placeOrder({
+      products: [{ productId: product.id, quantity: 2 }],
+      customer,
+    });
+    assert.equal(order.status, "pending");
+    assert.equal(order.subtotalINR, 400);
+    assert.equal(order.products[0].name, "Chew Toy");
+
+    assert.equal((await storage.getProduct(product.id))?.stock, 1);
+    assert.equal((await storage.getOrder(order.id))?.totalAmountINR, order.totalAmountINR);
+    assert.ok(
+      (await storage.getOrders()).items.some((item) => item.id === order.id)
+    );
+
+    const movements = await storage.getStockMovements(product.id);
+    assert.deepEqual(
+      movements.map((movement) => [movement.quantity, movement.stockAfter]),
+      [
+        [-2, 1],
+        [3, 3],
+      ]
+    );
+  });
+
+  it("refuses orders for more than is in stock", async () => {
+    const product = await storage.createProduct({
+      name: "Leash",
+      categoryId,
+      type: "accessory",
+      description: "Nylon",
+      priceInINR: 300,
+      stock: 1,
+      available: true,
+    });
+
+    await assert.rejects(
+      storage.placeOrder({
+        products: [{ productId: product.id, quantity: 2 }],
+        customer,
+      })
+    );
+    assert.equal((await storage.getProduct(product.id))?.stock, 1);
+  });
+
+  it("keeps sales made while the product form was open", async () => {
+    const fields = {
+      name: "Cat Litter",
+      categoryId,
+      type: "accessory" as const,
+      description: "Clumping",
+      priceInINR: 250,
+      available: true,
+    };
+    const product = await storage.createProduct({ ...fields, stock: 5 });
+    const stockSeen = { stock: 5, variants: {} };
+    await storage.placeOrder({
+      products: [{ productId: product.id, quantity: 2 }],
+      customer,
+    });
+
+    const renamed = await storage.updateProduct(
+      product.id,
+      { ...fields, name: "Clumping Litter", stock: 5 },
+      "admin",
+      stockSeen
+    );
+    assert.equal(renamed?.stock, 3);
+
+    await assert.rejects(
+      storage.updateProduct(
+        product.id,
+        { ...fields, stock: 9 },
+        "admin",
+        stockSeen
+      ),
+      /changed from 5 to 3/
+    );
+  });
+
+  it("lists movements written together newest first", async () => {
+    const product = await storage.createProduct({
+      name: "Harness",
+      categoryId,
+      type: "accessory",
+      description: "Padded",
+      priceInINR: 600,
+      stock: 0,
+      available: true,
+      options: [{ name: "Size", values: ["S", "M", "L"] }],
+      variants: ["S", "M", "L"].map((size) => ({
+        sku: `HARNESS-${size}`,
+        options: { Size: size },
+        priceInINR: 600,
+        stock: 4,
+      })),
+    });
+    const [small, medium, large] = product.variants;
+    await storage.placeOrder({
+      products: [small, medium, large].map((variant) => ({
+        productId: product.id,
+        variantId: variant.id,
+        quantity: 1,
+      })),
+      customer,
+    });
+
+    const movements = await storage.getStockMovements(product.id);
+    assert.deepEqual(
+      movements.map((movement) => movement.variantId),
+      [large.id, medium.id, small.id, large.id, medium.id, small.id]
+    );
+  });
+
+  it("clears the category of products archived with it", async () => {
+    const category = await storage.createCategory({
+      name: "Bird Seed",
+      description: "",
+    });
+    const product = await storage.createProduct({
+      name: "Millet Mix",
+      categoryId: category.id,
+      type: "food",
+      description: "For finches",
+      priceInINR: 150,
+      stock: 6,
+      available: true,
+    });
+
+    assert.equal(
+      await storage.deleteCategory(category.id, { archiveProducts: true }),
+      true
+    );
+    const archived = await storage.getProduct(product.id);
+    assert.equal(archived?.categoryId, null);
+    assert.equal(archived?.available, false);
+    assert.ok(archived?.archivedAt);
+  });
+
+  it("refuses orders for products that are off sale", async () => {
+    const product = await storage.createProduct({
+      name: "Fish Flakes",
+      categoryId,
+      type: "food",
+      description: "Tropical",
+      priceInINR: 120,
+      stock: 4,
+      available: false,
+    });
+
+    await assert.rejects(
+      storage.placeOrder({
+        products: [{ productId: product.id, quantity: 1 }],
+        customer,
+      }),
+      /no longer available/
+    );
+    assert.equal((await storage.getProduct(product.id))?.stock, 4);
+  });
+
+  // pg-mem can't roll a transaction back, so only the happy path is here
+  it("creates imported products with their galleries", async () => {
+    const fields = {
+      type: "accessory" as const,
+      description: "Imported",
+      priceInINR: 80,
+      stock: 2,
+      available: true,
+    };
+    const image = linkedImage("https://example.com/bell.jpg");
+    const created = await storage.createProducts([
+      { product: { ...fields, name: "Bell", categoryId }, images: [image] },
+      { product: { ...fields, name: "Perch", categoryId }, images: [] },
+    ]);
+    assert.deepEqual(
+      created.map((product) => product.slug),
+      ["bell", "perch"]
+    );
+    assert.deepEqual((await storage.getProductBySlug("bell"))?.images, [image]);
+  });
+
+  // pg-mem has no row locks, so two requests racing for one order's number
+  // can't be played out here; orders invoiced together still share the
+  // year's sequence without gaps
+  it("numbers invoices issued at the same time in sequence", async () => {
+    const product = await storage.createProduct({
+      name: "Scratching Post",
+      categoryId,
+      type: "accessory",
+      description: "Sisal",
+      priceInINR: 900,
+      stock: 5,
+      available: true,
+    });
+    const order = () =>
+      storage.placeOrder({
+        products: [{ productId: product.id, quantity: 1 }],
+        customer,
+      });
+    const orders = [await order(), await order()];
+
+    const issued = await Promise.all(
+      orders.map((placed) => storage.issueInvoice(placed.id))
+    );
+    assert.deepEqual(
+      issued.map((invoiced) => invoiced?.invoiceNumber?.slice(-4)).sort(),
+      ["0001", "0002"]
+    );
+    assert.equal(
+      (await storage.issueInvoice(orders[0].id))?.invoiceNumber,
+      issued[0]?.invoiceNumber
+    );
+
+    const cancelled = await order();
+    await storage.updateOrderStatus(cancelled.id, "cancelled", "admin");
+    await assert.rejects(
+      storage.issueInvoice(cancelled.id),
+      /was cancelled before it was invoiced/
+    );
+    assert.equal((await storage.getOrder(cancelled.id))?.invoiceNumber, null);
+  });
+});
@@ -0,0 +1,1567 @@
+import {
+  admins,
+  categories,
+  products,
+  productVariants,
+  stockMovements,
+  orders,
+  reservations,
+  orderItems,
+  carts,
+  cartItems,
+  siteSettings,
+  users,
+  customers,
+  loginCodes,
+  customerAddresses,
+  deliveryZones,
+  invoiceSequences,
+  type Admin,
+  type InsertAdmin,
+  type Customer,
+  type UpdateCustomer,
+  type LoginCode,
+  type InsertLoginCode,
+  type CustomerAddress,
+  type InsertCustomerAddress,
+  type DeliveryZone,
+  type InsertDeliveryZone,
+  type Category,
+  type InsertCategory,
+  type CategoryDeletion,
+  type Product,
+  type ProductVariant,
+  type ProductImage,
+  type ArrangeProductImages,
+  type InsertProduct,
+  type StockMovement,
+  type StockSeen,
+  type InsertStockMovement,
+  type Order,
+  type OrderStatus,
+  type InsertOrder,
+  type Reservation,
+  type ReservationStatus,
+  type InsertReservation,
+  type StoredCart,
+  type SiteSettings,
+  type UpdateSiteSettings,
+  type User,
+  type InsertUser,
+  type ListSort,
+  type OrderGst,
+  type OrderSummary,
+  type Page,
+} from "../../shared/schema.js";
+import * as schema from "../../shared/schema.js";
+import { categoryWithDescendants } from "../../shared/schema.js";
+import type {
+  IStorage,
+  NewProduct,
+  OrderFilters,
+  ProductFilters,
+} from "./storage.js";
+import {
+  requestedQuantities,
+  assertStockAvailable,
+  priceOrderLines,
+  recordStatusChange,
+  shouldRestock,
+} from "./orders.js";
+import {
+  assertPrefixesFree,
+  deliveryFromQuote,
+  quoteDelivery,
+  storePickup,
+  type OrderDelivery,
+} from "./delivery.js";
+import { orderGst, orderTotalINR } from "./gst.js";
+import {
+  assertInvoiceable,
+  financialYear,
+  formatInvoiceNumber,
+} from "./invoices.js";
+import {
+  applyStockChange,
+  orderReference,
+  reservationReference,
+  stockAfter,
+  type StockChange,
+} from "./inventory.js";
+import {
+  describeLine,
+  lineVariant,
+  reconcileStock,
+  resolveVariant,
+  stockEdits,
+  variantRows,
+  variantTotals,
+} from "./variants.js";
+import { assertActive, assertReservable, holdExpiry } from "./reservations.js";
+import { arrangeImages, removeImage } from "./gallery.js";
+import { assertDeletable, assertValidParent } from "./categories.js";
+import { toSlug, uniqueSlug } from "./slugs.js";
+import { randomUUID } from "crypto";
+import { allowedTypos, tokenize } from "./search.js";
+import { decodeCursor, toPage, type PageRequest } from "./pagination.js";
+import {
+  and,
+  asc,
+  count,
+  desc,
+  eq,
+  getTableColumns,
+  gt,
+  gte,
+  inArray,
+  isNull,
+  like,
+  lte,
+  ne,
+  sql,
+  type SQL,
+} from "drizzle-orm";
+import type { AnyPgColumn } from "drizzle-orm/pg-core";
+import { drizzle, type NodePgDatabase } from "drizzle-orm/node-postgres";
+import type pg from "pg";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+
+const PostgresSessionStore = connectPg(session);
+
+const SITE_SETTINGS_ID = "default";
+
+type ProductRow = typeof products.$inferSelect;
+type OrderRow = typeof orders.$inferSelect;
+type OrderItemRow = typeof orderItems.$inferSelect;
+
+function toOrder(row: OrderRow, items: OrderItemRow[]): Order {
+  return {
+    ...row,
+    products: items
+      .filter((item) => item.orderId === row.id)
+      .sort((a, b) => a.position - b.position)
+      .map((item) => ({
+        productId: item.productId,
+        variantId: item.variantId,
+        name: item.name,
+        variantName: item.variantName,
+        priceInINR: item.priceInINR,
+        quantity: item.quantity,
+      })),
+  };
+}
+
+type Database = NodePgDatabase<typeof schema>;
+type Transaction = Parameters<Parameters<Database["transaction"]>[0]>[0];
+
+// Attaches each product's variants, in the order the admin listed them
+async function withVariants(
+  db: Database | Transaction,
+  rows: ProductRow[]
+): Promise<Product[]> {
+  if (rows.length === 0) return [];
+
+  const variants = await db
+    .select()
+    .from(productVariants)
+    .where(
+      inArray(
+        productVariants.productId,
+        rows.map((row) => row.id)
+      )
+    )
+    .orderBy(asc(productVariants.position));
+  return rows.map((row) => ({
+    ...row,
+    variants: variants.filter((variant) => variant.productId === row.id),
+  }));
+}
+
+/**
+ * Writes a signed change to a variant and its product's total, or to the
+ * product alone. The caller holds the product row lock, which covers its
+ * variants too.
+ */
+async function changeStock(
+  tx: Transaction,
+  product: Product,
+  variant: ProductVariant | null,
+  quantity: number
+) {
+  if (variant) {
+    variant.stock = applyStockChange(
+      { name: describeLine(product, variant), stock: variant.stock },
+      quantity
+    );
+    await tx
+      .update(productVariants)
+      .set({ stock: variant.stock })
+      .where(eq(productVariants.id, variant.id));
+  }
+  product.stock = applyStockChange(product, quantity);
+  await tx
+    .update(products)
+    .set({ stock: product.stock })
+    .where(eq(products.id, product.id));
+}
+
+// Appends to the ledger once the change has been written to the stock
+async function recordStockMovement(
+  db: Database | Transaction,
+  product: Pick<Product, "id" | "stock"> & { variants?: ProductVariant[] },
+  change: StockChange
+) {
+  await db.insert(stockMovements).values({
+    ...change,
+    id: randomUUID(),
+    productId: product.id,
+    stockAfter: stockAfter(product, change.variantId),
+  });
+}
+
+// Product text as Postgres searches it, kept on each row by the database
+// (see migration 0021) and indexed: a document weighted like MemStorage's
+// index (name, then category name, species and description) and the same
+// text lower-cased for typo matching. Not in the Drizzle schema, so product
+// rows don't carry them.
+const searchDocument = sql`"products"."search_vector"`;
+const searchText = sql`"products"."search_text"`;
+
+// pg_trgm word similarity that counts as a typo of a word in the product.
+// The indexed <% operator reads it from pg_trgm.word_similarity_threshold.
+const TYPO_SIMILARITY = 0.5;
+
+/**
+ * Condition and rank for a text search. Every word of the query has to
+ * match, as a word or the start of one (stemmed, so "dogs" finds "dog"), or
+ * for longer words as a near spelling. A query with no words matches
+ * nothing.
+ */
+function productSearch(query: string) {
+  const terms = tokenize(query);
+  if (terms.length === 0) return { matches: sql`false`, rank: sql`0` };
+
+  const prefixQuery = (terms: string[], operator: string) =>
+    sql`to_tsquery(
+      'english',
+      ${terms.map((term) => `${term}:*`).join(` ${operator} `)}
+    )`;
+
+  const matches = and(
+    ...terms.map((term) => {
+      const asWord = sql`${searchDocument} @@ ${prefixQuery([term], "&")}`;
+      return allowedTypos(term) > 0
+        ? sql`(${asWord} or ${term} <% ${searchText})`
+        : asWord;
+    })
+  )!;
+  const rank = sql`ts_rank(${searchDocument}, ${prefixQuery(terms, "|")})
+    + word_similarity(${terms.join(" ")}, ${searchText})`;
+  return { matches, rank };
+}
+
+// Keyset pagination: rows are ordered by key, ties broken by id, and a page
+// starts after the key and id its cursor names
+type Keyset = { key: SQL<number | string>; descending?: boolean };
+
+const epochMillis = (column: AnyPgColumn) =>
+  sql<number>`floor(extract(epoch from ${column}) * 1000)::double precision`;
+
+const productKeysets: Record<ListSort, Keyset> = {
+  newest: { key: epochMillis(products.createdAt), descending: true },
+  price: { key: sql<number>`${products.priceInINR}` },
+  name: { key: sql<string>`lower(${products.name})` },
+};
+
+const orderKeysets: Record<ListSort, Keyset> = {
+  newest: { key: epochMillis(orders.createdAt), descending: true },
+  price: { key: sql<number>`${orders.totalAmountINR}` },
+  name: { key: sql<string>`lower(${orders.customer} ->> 'name')` },
+};
+
+function keysetOrder({ key, descending }: Keyset, id: AnyPgColumn) {
+  return descending ? [desc(key), desc(id)] : [asc(key), asc(id)];
+}
+
+function afterCursor(
+  { key, descending }: Keyset,
+  id: AnyPgColumn,
+  cursor: string | undefined
+) {
+  if (!cursor) return undefined;
+  const after = decodeCursor(cursor);
+  const past = sql.raw(descending ? "<" : ">");
+  return sql`(${key} ${past} ${after.key}
+    or (${key} = ${after.key} and ${id} ${past} ${after.id}))`;
+}
+
+// Writes a new pending order and its line items
+async function insertOrderRows(
+  tx: Transaction,
+  id: string,
+  customer: Order["customer"],
+  priced: ReturnType<typeof priceOrderLines>,
+  delivery: OrderDelivery,
+  gst: OrderGst | null,
+  customerId: string | null = null
+): Promise<Order> {
+  const [row] = await tx
+    .insert(orders)
+    .values({
+      id,
+      customer,
+      customerId,
+      subtotalINR: priced.subtotalINR,
+      ...delivery,
+      gst,
+      totalAmountINR: orderTotalINR(priced.subtotalINR, delivery, gst),
+      status: "pending",
+      statusHistory: [
+        { status: "pending", changedAt: new Date().toISOString() },
+      ],
+    })
+    .returning();
+
+  await tx.insert(orderItems).values(
+    priced.products.map((product, position) => ({
+      ...product,
+      id: randomUUID(),
+      orderId: id,
+      position,
+    }))
+  );
+
+  return { ...row, products: priced.products };
+}
+
+// Slugs other products have that a slug for name could clash with
+async function productSlugsLike(
+  db: Database | Transaction,
+  name: string,
+  exceptId: string
+): Promise<string[]> {
+  const rows = await db
+    .select({ slug: products.slug })
+    .from(products)
+    .where(
+      and(like(products.slug, `${toSlug(name)}%`), ne(products.id, exceptId))
+    );
+  return rows.map((row) => row.slug);
+}
+
+// Writes a new product, its variants and its opening stock
+async function insertProductRows(
+  tx: Transaction,
+  insertProduct: InsertProduct,
+  actor: string,
+  images: ProductImage[]
+): Promise<Product> {
+  const { variants, ...fields } = insertProduct;
+  const id = randomUUID();
+  const rows = variantRows(id, variants ?? []);
+  const slug = uniqueSlug(
+    fields.name,
+    await productSlugsLike(tx, fields.name, id)
+  );
+  const [row] = await tx
+    .insert(products)
+    .values({ ...fields, ...variantTotals(fields, rows), id, slug, images })
+    .returning();
+  if (rows.length > 0) {
+    await tx.insert(productVariants).values(rows);
+  }
+
+  const product: Product = { ...row, variants: rows };
+  for (const { variantId, quantity } of stockEdits(undefined, product)) {
+    await recordStockMovement(tx, product, {
+      type: "received",
+      quantity,
+      variantId,
+      actor,
+      reason: "Opening stock",
+    });
+  }
+  return product;
+}
+
+/**
+ * IStorage backed by PostgreSQL through Drizzle. Takes a `pg` pool (or any
+ * pool with the same interface, e.g. pg-mem's adapter) so it can run against
+ * a local database in tests; `npm test` runs pg-storage.test.ts on pg-mem.
+ * Tables come from shared/schema.ts.
+ */
+export class PgStorage implements IStorage {
+  private db: NodePgDatabase<typeof schema>;
+  public sessionStore: session.Store;
+
+  constructor(pool: pg.Pool) {
+    this.db = drizzle(pool, { schema });
+
+    this.sessionStore = new PostgresSessionStore({
+      pool,
+      createTableIfMissing: true,
+    });
+
+    // Initialize default admin user
+    this.initializeDefaultAdmin().catch((error) => {
+      console.error("Failed to initialize default admin:", error);
+    });
+  }
+
+  private async initializeDefaultAdmin() {
+    // Create default admin if not exists
+    const defaultAdmin = await this.getAdminByEmail("admin@petshop.forest");
+    if (!defaultAdmin) {
+      await this.createAdmin({
+        email: "admin@petshop.forest",
+        password: await this.hashPassword("admin123"),
+        name: "Forest Admin",
+      });
+    }
+  }
+
+  private async hashPassword(password: string): Promise<string> {
+    const { scrypt, randomBytes } = await import("crypto");
+    const { promisify } = await import("util");
+    const scryptAsync = promisify(scrypt);
+
+    const salt = randomBytes(16).toString("hex");
+    const buf = (await scryptAsync(password, salt, 64)) as Buffer;
+    return `${buf.toString("hex")}.${salt}`;
+  }
+
+  // User methods (for auth compatibility)
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db
+      .select()
+      .from(users)
+      .where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db
+      .insert(users)
+      .values({ ...insertUser, id: randomUUID() })
+      .returning();
+    return user;
+  }
+
+  // Admin methods
+  async getAdmin(id: string): Promise<Admin | undefined> {
+    const [admin] = await this.db
+      .select()
+      .from(admins)
+      .where(eq(admins.id, id));
+    return admin;
+  }
+
+  async getAdminByEmail(email: string): Promise<Admin | undefined> {
+    const [admin] = await this.db
+      .select()
+      .from(admins)
+      .where(eq(admins.email, email));
+    return admin;
+  }
+
+  async createAdmin(insertAdmin: InsertAdmin): Promise<Admin> {
+    const [admin] = await this.db
+      .insert(admins)
+      .values({ ...insertAdmin, id: randomUUID(), role: "admin" })
+      .returning();
+    return admin;
+  }
+
+  // Customer methods
+  async getCustomer(id: string): Promise<Customer | undefined> {
+    const [customer] = await this.db
+      .select()
+      .from(customers)
+      .where(eq(customers.id, id));
+    return customer;
+  }
+
+  // Two first sign-ins racing for the same number end up with one account
+  async findOrCreateCustomer(phone: string): Promise<Customer> {
+    const [created] = await this.db
+      .insert(customers)
+      .values({ id: randomUUID(), phone })
+      .onConflictDoNothing({ target: customers.phone })
+      .returning();
+    if (created) return created;
+
+    const [existing] = await this.db
+      .select()
+      .from(customers)
+      .where(eq(customers.phone, phone));
+    return existing;
+  }
+
+  async updateCustomer(
+    id: string,
+    updateData: UpdateCustomer
+  ): Promise<Customer | undefined> {
+    const [customer] = await this.db
+      .update(customers)
+      .set(updateData)
+      .where(eq(customers.id, id))
+      .returning();
+    return customer;
+  }
+
+  // Login code methods
+  async getLoginCode(phone: string): Promise<LoginCode | undefined> {
+    const [loginCode] = await this.db
+      .select()
+      .from(loginCodes)
+      .where(eq(loginCodes.phone, phone));
+    return loginCode;
+  }
+
+  async saveLoginCode(insertLoginCode: InsertLoginCode): Promise<LoginCode> {
+    const reset = { attempts: 0, sentAt: new Date() };
+    const [loginCode] = await this.db
+      .insert(loginCodes)
+      .values({ ...insertLoginCode, ...reset })
+      .onConflictDoUpdate({
+        target: loginCodes.phone,
+        set: { ...insertLoginCode, ...reset },
+      })
+      .returning();
+    return loginCode;
+  }
+
+  // Counted in one statement so parallel guesses can't share an attempt
+  async recordLoginAttempt(phone: string): Promise<LoginCode | undefined> {
+    const [loginCode] = await this.db
+      .update(loginCodes)
+      .set({ attempts: sql`${loginCodes.attempts} + 1` })
+      .where(eq(loginCodes.phone, phone))
+      .returning();
+    return loginCode;
+  }
+
+  async deleteLoginCode(phone: string): Promise<void> {
+    await this.db.delete(loginCodes).where(eq(loginCodes.phone, phone));
+  }
+
+  // Address book methods
+  async getCustomerAddresses(customerId: string): Promise<CustomerAddress[]> {
+    return this.db
+      .select()
+      .from(customerAddresses)
+      .where(eq(customerAddresses.customerId, customerId))
+      .orderBy(asc(customerAddresses.createdAt));
+  }
+
+  async createCustomerAddress(
+    customerId: string,
+    insertAddress: InsertCustomerAddress
+  ): Promise<CustomerAddress> {
+    const [address] = await this.db
+      .insert(customerAddresses)
+      .values({ ...insertAddress, customerId })
+      .returning();
+    return address;
+  }
+
+  async updateCustomerAddress(
+    customerId: string,
+    id: string,
+    updateData: InsertCustomerAddress
+  ): Promise<CustomerAddress | undefined> {
+    const [address] = await this.db
+      .update(customerAddresses)
+      .set(updateData)
+      .where(
+        and(
+          eq(customerAddresses.id, id),
+          eq(customerAddresses.customerId, customerId)
+        )
+      )
+      .returning();
+    return address;
+  }
+
+  async deleteCustomerAddress(
+    customerId: string,
+    id: string
+  ): Promise<boolean> {
+    const deleted = await this.db
+      .delete(customerAddresses)
+      .where(
+        and(
+          eq(customerAddresses.id, id),
+          eq(customerAddresses.customerId, customerId)
+        )
+      )
+      .returning({ id: customerAddresses.id });
+    return deleted.length > 0;
+  }
+
+  // Category methods
+  async getCategories(): Promise<Category[]> {
+    return this.db.select().from(categories).orderBy(asc(categories.createdAt));
+  }
+
+  async getCategory(id: string): Promise<Category | undefined> {
+    const [category] = await this.db
+      .select()
+      .from(categories)
+      .where(eq(categories.id, id));
+    return category;
+  }
+
+  // Category rows are locked while the tree is checked, so two concurrent
+  // moves can't make a loop between them
+  async createCategory(insertCategory: InsertCategory): Promise<Category> {
+    return this.db.transaction(async (tx) => {
+      const existing = await tx.select().from(categories).for("update");
+      assertValidParent(existing, null, insertCategory.parentId);
+
+      const [category] = await tx
+        .insert(categories)
+        .values({
+          ...insertCategory,
+          id: randomUUID(),
+          slug: uniqueSlug(
+            insertCategory.name,
+            existing.map((category) => category.slug)
+          ),
+        })
+        .returning();
+      return category;
+    });
+  }
+
+  async updateCategory(
+    id: string,
+    updateData: Partial<InsertCategory>
+  ): Promise<Category | undefined> {
+    return this.db.transaction(async (tx) => {
+      const existing = await tx.select().from(categories).for("update");
+      if (!existing.some((category) => category.id === id)) return undefined;
+      assertValidParent(existing, id, updateData.parentId);
+      const otherSlugs = existing
+        .filter((category) => category.id !== id)
+        .map((category) => category.slug);
+
+      const [category] = await tx
+        .update(categories)
+        .set({
+          ...updateData,
+          ...(updateData.name
+            ? { slug: uniqueSlug(updateData.name, otherSlugs) }
+            : {}),
+        })
+        .where(eq(categories.id, id))
+        .returning();
+      return category;
+    });
+  }
+
+  // Subcategories move up to the top level through the parent_id foreign key
+  async deleteCategory(
+    id: string,
+    deletion: CategoryDeletion = {}
+  ): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      const existing = await tx.select().from(categories).for("update");
+      if (!existing.some((category) => category.id === id)) return false;
+      const inCategory = eq(products.categoryId, id);
+      const [{ productCount }] = await tx
+        .select({ productCount: count() })
+        .from(products)
+        .where(and(inCategory, isNull(products.archivedAt)));
+      assertDeletable(existing, id, productCount, deletion);
+
+      if (deletion.reassignTo) {
+        await tx
+          .update(products)
+          .set({ categoryId: deletion.reassignTo })
+          .where(inCategory);
+      } else if (deletion.archiveProducts) {
+        await tx
+          .update(products)
+          .set({ available: false, archivedAt: new Date() })
+          .where(and(inCategory, isNull(products.archivedAt)));
+      }
+      // Products left behind are all archived by now and lose their category
+      await tx.update(products).set({ categoryId: null }).where(inCategory);
+
+      await tx.delete(categories).where(eq(categories.id, id));
+      return true;
+    });
+  }
+
+  async countCategoryProducts(id: string): Promise<number> {
+    const [{ productCount }] = await this.db
+      .select({ productCount: count() })
+      .from(products)
+      .where(and(eq(products.categoryId, id), isNull(products.archivedAt)));
+    return productCount;
+  }
+
+  // Product methods
+  async getProducts(
+    filters: ProductFilters = {},
+    page: PageRequest = {}
+  ): Promise<Page<Product>> {
+    const conditions = [isNull(products.archivedAt)];
+    const search = filters.q ? productSearch(filters.q) : null;
+    if (search) conditions.push(search.matches);
+
+    if (filters.categoryId) {
+      const categoryIds = categoryWithDescendants(
+        await this.getCategories(),
+        filters.categoryId
+      );
+      conditions.push(inArray(products.categoryId, categoryIds));
+    }
+    if (filters.type) {
+      conditions.push(eq(products.type, filters.type));
+    }
+    if (filters.species) {
+      conditions.push(eq(products.species, filters.species));
+    }
+    if (filters.minPrice !== undefined) {
+      conditions.push(gte(products.priceInINR, filters.minPrice));
+    }
+    if (filters.maxPrice !== undefined) {
+      conditions.push(lte(products.priceInINR, filters.maxPrice));
+    }
+    if (filters.inStock) {
+      conditions.push(gt(products.stock, 0));
+    }
+    if (filters.available !== undefined) {
+      conditions.push(eq(products.available, filters.available));
+    }
+
+    const relevance: Keyset = {
+      key: sql<number>`(${search?.rank})::double precision`,
+      descending: true,
+    };
+    const keyset =
+      search && !page.sort ? relevance : productKeysets[page.sort ?? "newest"];
+
+    const { total, rows } = await this.db.transaction(async (tx) => {
+      if (search) {
+        await tx.execute(sql`select set_config(
+          'pg_trgm.word_similarity_threshold', ${String(TYPO_SIMILARITY)}, true
+        )`);
+      }
+      const [{ total }] = await tx
+        .select({ total: count() })
+        .from(products)
+        .where(and(...conditions));
+      const query = tx
+        .select({ ...getTableColumns(products), cursorKey: keyset.key })
+        .from(products)
+        .where(
+          and(...conditions, afterCursor(keyset, products.id, page.cursor))
+        )
+        .orderBy(...keysetOrder(keyset, products.id))
+        .$dynamic();
+      const rows = await (page.limit ? query.limit(page.limit + 1) : query);
+      return { total, rows };
+    });
+
+    const cursorKeys = new Map(rows.map((row) => [row.id, row.cursorKey]));
+    const following = await withVariants(
+      this.db,
+      rows.map(({ cursorKey, ...row }) => row)
+    );
+    return toPage(
+      following,
+      (product) => cursorKeys.get(product.id)!,
+      page.limit,
+      total
+    );
+  }
+
+  async getProduct(id: string): Promise<Product | undefined> {
+    const rows = await this.db
+      .select()
+      .from(products)
+      .where(eq(products.id, id));
+    const [product] = await withVariants(this.db, rows);
+    return product;
+  }
+
+  async getProductBySlug(slug: string): Promise<Product | undefined> {
+    const rows = await this.db
+      .select()
+      .from(products)
+      .where(eq(products.slug, slug));
+    const [product] = await withVariants(this.db, rows);
+    return product;
+  }
+
+  async createProduct(
+    insertProduct: InsertProduct,
+    actor = "system",
+    images: ProductImage[] = []
+  ): Promise<Product> {
+    return this.db.transaction((tx) =>
+      insertProductRows(tx, insertProduct, actor, images)
+    );
+  }
+
+  async createProducts(
+    newProducts: NewProduct[],
+    actor = "system"
+  ): Promise<Product[]> {
+    return this.db.transaction(async (tx) => {
+      const created: Product[] = [];
+      for (const { product, images } of newProducts) {
+        created.push(await insertProductRows(tx, product, actor, images));
+      }
+      return created;
+    });
+  }
+
+  async updateProduct(
+    id: string,
+    updateData: Partial<InsertProduct>,
+    actor = "system",
+    stockSeen?: StockSeen
+  ): Promise<Product | undefined> {
+    return this.db.transaction(async (tx) => {
+      const locked = await tx
+        .select()
+        .from(products)
+        .where(eq(products.id, id))
+        .for("update");
+      const [current] = await withVariants(tx, locked);
+      if (!current) return undefined;
+
+      const { variants, ...fields } = stockSeen
+        ? reconcileStock(current, updateData, stockSeen)
+        : updateData;
+      const rows = variants
+        ? variantRows(id, variants, current.variants)
+        : current.variants;
+
+      const slug = fields.name
+        ? uniqueSlug(fields.name, await productSlugsLike(tx, fields.name, id))
+        : current.slug;
+
+      const [row] = await tx
+        .update(products)
+        .set({
+          ...fields,
+          ...variantTotals({ ...current, ...fields }, rows),
+          slug,
+        })
+        .where(eq(products.id, id))
+        .returning();
+
+      // Replaced wholesale so SKUs can be swapped between variants
+      if (variants) {
+        await tx
+          .delete(productVariants)
+          .where(eq(productVariants.productId, id));
+        if (rows.length > 0) {
+          await tx.insert(productVariants).values(rows);
+        }
+      }
+
+      const product = { ...row, variants: rows };
+      for (const edit of stockEdits(current, product)) {
+        await recordStockMovement(tx, product, {
+          type: "adjustment",
+          quantity: edit.quantity,
+          variantId: edit.variantId,
+          actor,
+          reason: "Stock edited",
+        });
+      }
+      return product;
+    });
+  }
+
+  async deleteProduct(id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(products)
+      .where(eq(products.id, id))
+      .returning({ id: products.id });
+    return deleted.length > 0;
+  }
+
+  // Gallery methods; the product row is locked so concurrent edits of the
+  // gallery don't overwrite each other
+  async addProductImages(
+    id: string,
+    images: ProductImage[]
+  ): Promise<Product | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [locked] = await tx
+        .select()
+        .from(products)
+        .where(eq(products.id, id))
+        .for("update");
+      if (!locked) return undefined;
+
+      const rows = await tx
+        .update(products)
+        .set({ images: [...locked.images, ...images] })
+        .where(eq(products.id, id))
+        .returning();
+      const [product] = await withVariants(tx, rows);
+      return product;
+    });
+  }
+
+  async arrangeProductImages(
+    id: string,
+    arrangement: ArrangeProductImages["images"]
+  ): Promise<Product | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [locked] = await tx
+        .select()
+        .from(products)
+        .where(eq(products.id, id))
+        .for("update");
+      if (!locked) return undefined;
+
+      const rows = await tx
+        .update(products)
+        .set({ images: arrangeImages(locked.images, arrangement) })
+        .where(eq(products.id, id))
+        .returning();
+      const [product] = await withVariants(tx, rows);
+      return product;
+    });
+  }
+
+  async removeProductImage(
+    id: string,
+    src: string
+  ): Promise<{ product: Product; image: ProductImage } | undefined> {
+    return this.db.transaction(async (tx) => {
+      const rows = await tx
+        .select()
+        .from(products)
+        .where(eq(products.id, id))
+        .for("update");
+      const [locked] = await withVariants(tx, rows);
+      const image = locked?.images.find((i) => i.src === src);
+      if (!locked || !image) return undefined;
+
+      const { images, variants } = removeImage(locked, src);
+      await tx
+        .update(products)
+        .set({ images })
+        .where(eq(products.id, id));
+      await tx
+        .update(productVariants)
+        .set({ image: null })
+        .where(
+          and(
+            eq(productVariants.productId, id),
+            eq(productVariants.image, src)
+          )
+        );
+      return { product: { ...locked, images, variants }, image };
+    });
+  }
+
+  // Stock ledger methods
+  async adjustProductStock(
+    id: string,
+    movement: InsertStockMovement,
+    actor: string
+  ): Promise<Product | undefined> {
+    return this.db.transaction(async (tx) => {
+      const locked = await tx
+        .select()
+        .from(products)
+        .where(eq(products.id, id))
+        .for("update");
+      const [product] = await withVariants(tx, locked);
+      if (!product) return undefined;
+
+      const variant = resolveVariant(product, movement.variantId);
+      await changeStock(tx, product, variant, movement.quantity);
+      await recordStockMovement(tx, product, {
+        ...movement,
+        variantId: variant?.id ?? null,
+        actor,
+      });
+      return product;
+    });
+  }
+
+  async getStockMovements(productId: string): Promise<StockMovement[]> {
+    return this.db
+      .select()
+      .from(stockMovements)
+      .where(eq(stockMovements.productId, productId))
+      .orderBy(
+        desc(stockMovements.createdAt),
+        desc(stockMovements.sequence)
+      );
+  }
+
+  // Order methods
+  async getOrders(
+    filters: OrderFilters = {},
+    page: PageRequest = {}
+  ): Promise<Page<Order>> {
+    const conditions = [];
+    if (filters.minPrice !== undefined) {
+      conditions.push(gte(orders.totalAmountINR, filters.minPrice));
+    }
+    if (filters.maxPrice !== undefined) {
+      conditions.push(lte(orders.totalAmountINR, filters.maxPrice));
+    }
+    if (filters.customerId) {
+      conditions.push(eq(orders.customerId, filters.customerId));
+    }
+    const keyset = orderKeysets[page.sort ?? "newest"];
+
+    const [{ total }] = await this.db
+      .select({ total: count() })
+      .from(orders)
+      .where(and(...conditions));
+    const query = this.db
+      .select({ ...getTableColumns(orders), cursorKey: keyset.key })
+      .from(orders)
+      .where(and(...conditions, afterCursor(keyset, orders.id, page.cursor)))
+      .orderBy(...keysetOrder(keyset, orders.id))
+      .$dynamic();
+    const rows = await (page.limit ? query.limit(page.limit + 1) : query);
+    if (rows.length === 0) return { items: [], nextCursor: null, total };
+
+    const items = await this.db
+      .select()
+      .from(orderItems)
+      .where(
+        inArray(
+          orderItems.orderId,
+          rows.map((row) => row.id)
+        )
+      );
+    const cursorKeys = new Map(rows.map((row) => [row.id, row.cursorKey]));
+    return toPage(
+      rows.map(({ cursorKey, ...row }) => toOrder(row, items)),
+      (order) => cursorKeys.get(order.id)!,
+      page.limit,
+      total
+    );
+  }
+
+  async getOrderSummary(): Promise<OrderSummary> {
+    const [summary] = await this.db
+      .select({
+        count: count(),
+        revenueINR: sql<number>`coalesce(sum(${orders.totalAmountINR}), 0)`
+          .mapWith(Number),
+      })
+      .from(orders);
+    return summary;
+  }
+
+  async getOrder(id: string): Promise<Order | undefined> {
+    const [row] = await this.db.select().from(orders).where(eq(orders.id, id));
+    if (!row) return undefined;
+
+    const items = await this.db
+      .select()
+      .from(orderItems)
+      .where(eq(orderItems.orderId, id));
+    return toOrder(row, items);
+  }
+
+  async placeOrder(
+    insertOrder: InsertOrder,
+    customerId?: string
+  ): Promise<Order> {
+    const requests = requestedQuantities(insertOrder.products);
+
+    return this.db.transaction(async (tx) => {
+      // Lock the product rows (in a stable order to avoid deadlocks) so
+      // concurrent orders for the same product queue up behind this one
+      const locked = await tx
+        .select()
+        .from(products)
+        .where(
+          inArray(
+            products.id,
+            requests.map((request) => request.productId)
+          )
+        )
+        .orderBy(asc(products.id))
+        .for("update");
+      const lockedProducts = await withVariants(tx, locked);
+
+      assertStockAvailable(requests, lockedProducts);
+
+      const priced = priceOrderLines(insertOrder.products, lockedProducts);
+      const delivery = deliveryFromQuote(
+        quoteDelivery(
+          await tx.select().from(deliveryZones),
+          insertOrder.customer.address.pinCode,
+          insertOrder.products,
+          lockedProducts,
+          priced.subtotalINR
+        )
+      );
+      const gst = orderGst(
+        priced.products,
+        lockedProducts,
+        await tx.select().from(categories),
+        await this.getSiteSettings(),
+        insertOrder.customer.address.state,
+        delivery.deliveryFeeINR
+      );
+
+      const id = randomUUID();
+      for (const { productId, variantId, quantity } of requests) {
+        const product = lockedProducts.find((p) => p.id === productId)!;
+        const variant = resolveVariant(product, variantId);
+        await changeStock(tx, product, variant, -quantity);
+        await recordStockMovement(tx, product, {
+          type: "sale",
+          quantity: -quantity,
+          variantId,
+          orderId: id,
+          actor: "customer",
+          reason: orderReference(id),
+        });
+      }
+
+      return insertOrderRows(
+        tx,
+        id,
+        insertOrder.customer,
+        priced,
+        delivery,
+        gst,
+        customerId
+      );
+    });
+  }
+
+  async updateOrderStatus(
+    id: string,
+    status: OrderStatus,
+    actor: string
+  ): Promise<Order | undefined> {
+    const updated = await this.db.transaction(async (tx) => {
+      const [current] = await tx
+        .select()
+        .from(orders)
+        .where(eq(orders.id, id))
+        .for("update");
+      if (!current) return false;
+
+      const statusHistory = recordStatusChange(current, status);
+      let restockedAt = current.restockedAt;
+
+      if (shouldRestock(current, status)) {
+        const items = await tx
+          .select()
+          .from(orderItems)
+          .where(eq(orderItems.orderId, id));
+        const requests = requestedQuantities(items);
+
+        const locked = await tx
+          .select()
+          .from(products)
+          .where(
+            inArray(
+              products.id,
+              requests.map((request) => request.productId)
+            )
+          )
+          .orderBy(asc(products.id))
+          .for("update");
+        const lockedProducts = await withVariants(tx, locked);
+
+        for (const { productId, variantId, quantity } of requests) {
+          // Products and variants removed since the order was placed are skipped
+          const product = lockedProducts.find((p) => p.id === productId);
+          const variant = product && lineVariant(product, variantId);
+          if (!product || variant === undefined) continue;
+
+          await changeStock(tx, product, variant, quantity);
+          await recordStockMovement(tx, product, {
+            type: "restock",
+            quantity,
+            variantId,
+            orderId: id,
+            actor,
+            reason: `${orderReference(id)} ${status}`,
+          });
+        }
+        restockedAt = new Date();
+      }
+
+      await tx
+        .update(orders)
+        .set({ status, statusHistory, restockedAt })
+        .where(eq(orders.id, id));
+      return true;
+    });
+    if (!updated) return undefined;
+
+    return this.getOrder(id);
+  }
+
+  async issueInvoice(id: string): Promise<Order | undefined> {
+    const found = await this.db.transaction(async (tx) => {
+      const [current] = await tx
+        .select()
+        .from(orders)
+        .where(eq(orders.id, id))
+        .for("update");
+      if (!current) return false;
+      if (current.invoiceNumber) return true;
+      assertInvoiceable(current);
+
+      // The upsert locks the year's row, so concurrent invoices queue up
+      // for their numbers
+      const invoicedAt = new Date();
+      const year = financialYear(invoicedAt);
+      const [{ lastNumber }] = await tx
+        .insert(invoiceSequences)
+        .values({ financialYear: year, lastNumber: 1 })
+        .onConflictDoUpdate({
+          target: invoiceSequences.financialYear,
+          set: { lastNumber: sql`${invoiceSequences.lastNumber} + 1` },
+        })
+        .returning({ lastNumber: invoiceSequences.lastNumber });
+
+      await tx
+        .update(orders)
+        .set({
+          invoiceNumber: formatInvoiceNumber(year, lastNumber),
+          invoicedAt,
+        })
+        .where(eq(orders.id, id));
+      return true;
+    });
+    if (!found) return undefined;
+
+    return this.getOrder(id);
+  }
+
+  // Reservation methods
+  async getReservations(status?: ReservationStatus): Promise<Reservation[]> {
+    return this.db
+      .select()
+      .from(reservations)
+      .where(status ? eq(reservations.status, status) : undefined)
+      .orderBy(desc(reservations.createdAt));
+  }
+
+  async createReservation(
+    insertReservation: InsertReservation,
+    holdHours: number
+  ): Promise<Reservation> {
+    return this.db.transaction(async (tx) => {
+      const locked = await tx
+        .select()
+        .from(products)
+        .where(eq(products.id, insertReservation.productId))
+        .for("update");
+      const [product] = await withVariants(tx, locked);
+      assertReservable(product);
+
+      const id = randomUUID();
+      const [updated] = await tx
+        .update(products)
+        .set({ stock: product.stock - 1 })
+        .where(eq(products.id, product.id))
+        .returning();
+      await recordStockMovement(tx, updated, {
+        type: "reservation",
+        quantity: -1,
+        actor: "customer",
+        reason: reservationReference(id),
+      });
+
+      const [reservation] = await tx
+        .insert(reservations)
+        .values({ ...insertReservation, id, expiresAt: holdExpiry(holdHours) })
+        .returning();
+      return reservation;
+    });
+  }
+
+  async releaseReservation(
+    id: string,
+    status: "expired" | "cancelled",
+    actor: string
+  ): Promise<Reservation | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [current] = await tx
+        .select()
+        .from(reservations)
+        .where(eq(reservations.id, id))
+        .for("update");
+      if (!current) return undefined;
+      assertActive(current);
+
+      // The product may have been deleted while it was on hold
+      const [product] = await tx
+        .select()
+        .from(products)
+        .where(eq(products.id, current.productId))
+        .for("update");
+      if (product) {
+        const [updated] = await tx
+          .update(products)
+          .set({ stock: product.stock + 1 })
+          .where(eq(products.id, product.id))
+          .returning();
+        await recordStockMovement(tx, updated, {
+          type: "release",
+          quantity: 1,
+          actor,
+          reason: `${reservationReference(id)} ${status}`,
+        });
+      }
+
+      const [reservation] = await tx
+        .update(reservations)
+        .set({ status })
+        .where(eq(reservations.id, id))
+        .returning();
+      return reservation;
+    });
+  }
+
+  async expireReservations(now: Date): Promise<Reservation[]> {
+    const due = await this.db
+      .select({ id: reservations.id })
+      .from(reservations)
+      .where(
+        and(
+          eq(reservations.status, "active"),
+          lte(reservations.expiresAt, now)
+        )
+      );
+
+    const expired: Reservation[] = [];
+    for (const { id } of due) {
+      const released = await this.releaseReservation(
+        id,
+        "expired",
+        "system"
+      ).catch(() => undefined); // converted or cancelled in the meantime
+      if (released) expired.push(released);
+    }
+    return expired;
+  }
+
+  async convertReservation(
+    id: string
+  ): Promise<{ reservation: Reservation; order: Order } | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [current] = await tx
+        .select()
+        .from(reservations)
+        .where(eq(reservations.id, id))
+        .for("update");
+      if (!current) return undefined;
+      assertActive(current);
+
+      const rows = await tx
+        .select()
+        .from(products)
+        .where(eq(products.id, current.productId));
+      const [product] = await withVariants(tx, rows);
+      if (!product) throw new Error("Product not found");
+
+      const priced = priceOrderLines(
+        [{ productId: product.id, quantity: 1 }],
+        [product]
+      );
+      const order = await insertOrderRows(
+        tx,
+        randomUUID(),
+        current.customer,
+        priced,
+        storePickup,
+        orderGst(
+          priced.products,
+          [product],
+          await tx.select().from(categories),
+          await this.getSiteSettings(),
+          null,
+          storePickup.deliveryFeeINR
+        )
+      );
+
+      const [reservation] = await tx
+        .update(reservations)
+        .set({ status: "converted", orderId: order.id })
+        .where(eq(reservations.id, id))
+        .returning();
+      return { reservation, order };
+    });
+  }
+
+  // Cart methods
+  async getCart(id: string): Promise<StoredCart | undefined> {
+    const [cart] = await this.db.select().from(carts).where(eq(carts.id, id));
+    if (!cart) return undefined;
+
+    const items = await this.db
+      .select()
+      .from(cartItems)
+      .where(eq(cartItems.cartId, id))
+      .orderBy(asc(cartItems.addedAt));
+    return { ...cart, items };
+  }
+
+  async createCart(): Promise<StoredCart> {
+    const [cart] = await this.db
+      .insert(carts)
+      .values({ id: randomUUID() })
+      .returning();
+    return { ...cart, items: [] };
+  }
+
+  async setCartItem(
+    cartId: string,
+    productId: string,
+    variantId: string,
+    quantity: number
+  ): Promise<StoredCart | undefined> {
+    const [cart] = await this.db
+      .update(carts)
+      .set({ updatedAt: new Date() })
+      .where(eq(carts.id, cartId))
+      .returning();
+    if (!cart) return undefined;
+
+    await this.db
+      .insert(cartItems)
+      .values({ cartId, productId, variantId, quantity })
+      .onConflictDoUpdate({
+        target: [cartItems.cartId, cartItems.productId, cartItems.variantId],
+        set: { quantity },
+      });
+    return this.getCart(cartId);
+  }
+
+  async removeCartItem(
+    cartId: string,
+    productId: string,
+    variantId: string
+  ): Promise<StoredCart | undefined> {
+    const [cart] = await this.db
+      .update(carts)
+      .set({ updatedAt: new Date() })
+      .where(eq(carts.id, cartId))
+      .returning();
+    if (!cart) return undefined;
+
+    await this.db
+      .delete(cartItems)
+      .where(
+        and(
+          eq(cartItems.cartId, cartId),
+          eq(cartItems.productId, productId),
+          eq(cartItems.variantId, variantId)
+        )
+      );
+    return this.getCart(cartId);
+  }
+
+  async clearCart(cartId: string): Promise<void> {
+    await this.db.delete(cartItems).where(eq(cartItems.cartId, cartId));
+  }
+
+  // Delivery zone methods; zones are locked while one is saved so two zones
+  // can't claim the same PIN prefix at once
+  async getDeliveryZones(): Promise<DeliveryZone[]> {
+    return this.db
+      .select()
+      .from(deliveryZones)
+      .orderBy(asc(deliveryZones.createdAt));
+  }
+
+  async createDeliveryZone(
+    insertZone: InsertDeliveryZone
+  ): Promise<DeliveryZone> {
+    return this.db.transaction(async (tx) => {
+      const existing = await tx.select().from(deliveryZones).for("update");
+      assertPrefixesFree(existing, undefined, insertZone.pinPrefixes);
+      const [zone] = await tx
+        .insert(deliveryZones)
+        .values(insertZone)
+        .returning();
+      return zone;
+    });
+  }
+
+  async updateDeliveryZone(
+    id: string,
+    updateData: InsertDeliveryZone
+  ): Promise<DeliveryZone | undefined> {
+    return this.db.transaction(async (tx) => {
+      const existing = await tx.select().from(deliveryZones).for("update");
+      if (!existing.some((zone) => zone.id === id)) return undefined;
+      assertPrefixesFree(existing, id, updateData.pinPrefixes);
+      const [zone] = await tx
+        .update(deliveryZones)
+        .set({ ...updateData, freeAboveINR: updateData.freeAboveINR ?? null })
+        .where(eq(deliveryZones.id, id))
+        .returning();
+      return zone;
+    });
+  }
+
+  async deleteDeliveryZone(id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(deliveryZones)
+      .where(eq(deliveryZones.id, id))
+      .returning({ id: deliveryZones.id });
+    return deleted.length > 0;
+  }
+
+  // Site settings methods
+  async getSiteSettings(): Promise<SiteSettings> {
+    const [settings] = await this.db
+      .select()
+      .from(siteSettings)
+      .where(eq(siteSettings.id, SITE_SETTINGS_ID));
+    if (settings) return settings;
+
+    // Initialize default site settings
+    const [created] = await this.db
+      .insert(siteSettings)
+      .values({
+        id: SITE_SETTINGS_ID,
+        description:
+          "Discover a magical world of pets, premium food, and accessories in our enchanted forest marketplace. Every creature deserves the finest care nature can provide.",
+        youtubeUrl: "https://www.youtube.com/embed/dQw4w9WgXcQ",
+      })
+      .onConflictDoNothing()
+      .returning();
+    return created ?? this.getSiteSettings();
+  }
+
+  async updateSiteSettings(
+    settings: UpdateSiteSettings
+  ): Promise<SiteSettings> {
+    await this.getSiteSettings();
+
+    const [updated] = await this.db
+      .update(siteSettings)
+      .set({ ...settings, updatedAt: new Date() })
+      .where(eq(siteSettings.id, SITE_SETTINGS_ID))
+      .returning();
+    return updated;
+  }
+}
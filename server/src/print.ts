@@ -0,0 +1,274 @@
+// Print-ready documents, such as invoices, rendered as HTML for the browser
+// to print or as PDF. Several documents render together, each on its own page.
+import PDFDocument from "pdfkit";
+import { escapeHtml } from "./seo.js";
+
+export type PrintColumn = {
+  label: string;
+  align?: "left" | "right";
+  // Takes up the width the other columns leave, e.g. item names
+  grow?: boolean;
+};
+
+export type PrintDocument = {
+  title: string;
+  // The shop's name first, then its address and registration lines
+  from: string[];
+  // Label and value pairs, e.g. the invoice number and date
+  details: [string, string][];
+  to: { heading: string; lines: string[] };
+  table: { columns: PrintColumn[]; rows: string[][] };
+  // Shown under the table; the last one is the grand total
+  totals: [string, string][];
+  notes: string[];
+};
+
+const STYLES = `
+  @page { size: A4; margin: 14mm; }
+  body { font-family: Helvetica, Arial, sans-serif; font-size: 12px; color: #111; margin: 0; }
+  .toolbar { padding: 12px; text-align: right; }
+  .document { max-width: 760px; margin: 0 auto 32px; padding: 0 12px; }
+  .document + .document { break-before: page; }
+  h1 { font-size: 22px; margin: 0 0 12px; }
+  .header { display: flex; justify-content: space-between; gap: 24px; margin-bottom: 16px; }
+  .from p, .to p { margin: 0 0 2px; }
+  .from p:first-child { font-weight: bold; }
+  .details th { text-align: left; padding: 0 12px 2px 0; }
+  .to { margin-bottom: 16px; }
+  .to h2 { font-size: 12px; margin: 0 0 4px; }
+  table.lines { width: 100%; border-collapse: collapse; }
+  table.lines th, table.lines td { border-bottom: 1px solid #ccc; padding: 6px; text-align: left; }
+  table.lines th { background: #eee; }
+  .right { text-align: right !important; }
+  .grow { width: 100%; }
+  table.totals { margin: 12px 0 0 auto; }
+  table.totals th { text-align: right; padding: 2px 12px 2px 0; font-weight: normal; }
+  table.totals td { text-align: right; }
+  table.totals tr:last-child th, table.totals tr:last-child td { font-weight: bold; border-top: 1px solid #111; padding-top: 4px; }
+  .notes { margin-top: 16px; color: #555; }
+  @media print { .toolbar { display: none; } .document { margin: 0 auto; } }
+`;
+
+function documentHtml(document: PrintDocument): string {
+  const cellClass = (column: PrintColumn) =>
+    [column.align === "right" && "right", column.grow && "grow"]
+      .filter(Boolean)
+      .join(" ");
+  const cell = (tag: "th" | "td", column: PrintColumn, text: string) =>
+    `<${tag} class="${cellClass(column)}">${escapeHtml(text)}</${tag}>`;
+  const { columns, rows } = document.table;
+
+  return `<section class="document">
+  <h1>${escapeHtml(document.title)}</h1>
+  <div class="header">
+    <div class="from">${document.from
+      .map((line) => `<p>${escapeHtml(line)}</p>`)
+      .join("")}</div>
+    <table class="details">${document.details
+      .map(
+        ([label, value]) =>
+          `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`
+      )
+      .join("")}</table>
+  </div>
+  <div class="to">
+    <h2>${escapeHtml(document.to.heading)}</h2>
+    ${document.to.lines.map((line) => `<p>${escapeHtml(line)}</p>`).join("")}
+  </div>
+  <table class="lines">
+    <thead><tr>${columns
+      .map((column) => cell("th", column, column.label))
+      .join("")}</tr></thead>
+    <tbody>${rows
+      .map(
+        (row) =>
+          `<tr>${row.map((text, i) => cell("td", columns[i], text)).join("")}</tr>`
+      )
+      .join("")}</tbody>
+  </table>
+  <table class="totals">${document.totals
+    .map(
+      ([label, value]) =>
+        `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`
+    )
+    .join("")}</table>
+  ${document.notes
+    .map((note) => `<p class="notes">${escapeHtml(note)}</p>`)
+    .join("")}
+</section>`;
+}
+
+export function renderPrintHtml(
+  title: string,
+  documents: PrintDocument[]
+): string {
+  return `<!DOCTYPE html>
+<html lang="en-IN">
+<head>
+<meta charset="utf-8" />
+<title>${escapeHtml(title)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<div class="toolbar"><button type="button" onclick="window.print()">Print</button></div>
+${documents.map(documentHtml).join("\n")}
+</body>
+</html>`;
+}
+
+const FONT = "Helvetica";
+const BOLD_FONT = "Helvetica-Bold";
+const CELL_PADDING = 4;
+const RULE_COLOR = "#cccccc";
+const HEADER_FILL = "#eeeeee";
+
+type Pdf = InstanceType<typeof PDFDocument>;
+
+// Fixed columns are as wide as their widest text; grow columns share the rest
+function columnWidths(
+  pdf: Pdf,
+  table: PrintDocument["table"],
+  width: number
+): number[] {
+  const natural = table.columns.map((column, i) => {
+    pdf.font(BOLD_FONT);
+    const label = pdf.widthOfString(column.label);
+    pdf.font(FONT);
+    const cells = table.rows.map((row) => pdf.widthOfString(row[i] ?? ""));
+    return Math.max(label, ...cells) + 2 * CELL_PADDING;
+  });
+  const fixed = natural.reduce(
+    (total, w, i) => (table.columns[i].grow ? total : total + w),
+    0
+  );
+  const growing = table.columns.filter((column) => column.grow).length;
+  return natural.map((w, i) =>
+    table.columns[i].grow ? Math.max(width - fixed, 0) / growing : w
+  );
+}
+
+function drawTable(
+  pdf: Pdf,
+  table: PrintDocument["table"],
+  left: number,
+  width: number
+) {
+  const widths = columnWidths(pdf, table, width);
+  const bottom = () => pdf.page.height - pdf.page.margins.bottom;
+
+  const drawRow = (cells: string[], header: boolean) => {
+    pdf.font(header ? BOLD_FONT : FONT);
+    const height =
+      Math.max(
+        ...cells.map((cell, i) =>
+          pdf.heightOfString(cell, { width: widths[i] - 2 * CELL_PADDING })
+        )
+      ) +
+      2 * CELL_PADDING;
+    if (!header && pdf.y + height > bottom()) {
+      pdf.addPage();
+      drawRow(
+        table.columns.map((column) => column.label),
+        true
+      );
+      pdf.font(FONT);
+    }
+
+    const y = pdf.y;
+    if (header) {
+      pdf.rect(left, y, width, height).fill(HEADER_FILL).fillColor("black");
+    }
+    let x = left;
+    cells.forEach((cell, i) => {
+      pdf.text(cell, x + CELL_PADDING, y + CELL_PADDING, {
+        width: widths[i] - 2 * CELL_PADDING,
+        align: table.columns[i].align ?? "left",
+      });
+      x += widths[i];
+    });
+    pdf
+      .moveTo(left, y + height)
+      .lineTo(left + width, y + height)
+      .strokeColor(RULE_COLOR)
+      .stroke();
+    pdf.y = y + height;
+  };
+
+  drawRow(
+    table.columns.map((column) => column.label),
+    true
+  );
+  table.rows.forEach((row) => drawRow(row, false));
+}
+
+function drawDocument(pdf: Pdf, document: PrintDocument) {
+  pdf.addPage();
+  const left = pdf.page.margins.left;
+  const width = pdf.page.width - left - pdf.page.margins.right;
+  const half = width / 2;
+
+  pdf.font(BOLD_FONT).fontSize(18).text(document.title, left, pdf.y);
+  pdf.fontSize(9).moveDown(0.5);
+
+  // The shop on the left, the details beside it on the right
+  const top = pdf.y;
+  document.from.forEach((line, i) => {
+    pdf.font(i === 0 ? BOLD_FONT : FONT).text(line, left, pdf.y, {
+      width: half - 12,
+    });
+  });
+  const fromBottom = pdf.y;
+  pdf.y = top;
+  for (const [label, value] of document.details) {
+    const y = pdf.y;
+    pdf.font(BOLD_FONT).text(label, left + half, y, { width: 90 });
+    pdf.font(FONT).text(value, left + half + 90, y, { width: half - 90 });
+  }
+  pdf.y = Math.max(fromBottom, pdf.y) + 12;
+
+  pdf.font(BOLD_FONT).text(document.to.heading, left, pdf.y);
+  pdf.font(FONT);
+  document.to.lines.forEach((line) => pdf.text(line, left, pdf.y, { width }));
+  pdf.moveDown();
+
+  drawTable(pdf, document.table, left, width);
+  pdf.moveDown(0.5);
+
+  document.totals.forEach(([label, value], i) => {
+    const last = i === document.totals.length - 1;
+    if (pdf.y + 14 > pdf.page.height - pdf.page.margins.bottom) {
+      pdf.addPage();
+    }
+    const y = pdf.y;
+    pdf.font(last ? BOLD_FONT : FONT);
+    pdf.text(label, left + width - 220, y, { width: 120, align: "right" });
+    pdf.text(value, left + width - 100, y, { width: 100, align: "right" });
+  });
+
+  if (document.notes.length > 0) {
+    pdf.moveDown().font(FONT).fillColor("#555555");
+    document.notes.forEach((note) => pdf.text(note, left, pdf.y, { width }));
+    pdf.fillColor("black");
+  }
+}
+
+export function renderPrintPdf(
+  title: string,
+  documents: PrintDocument[]
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const pdf = new PDFDocument({
+      size: "A4",
+      margin: 40,
+      autoFirstPage: false,
+      info: { Title: title },
+    });
+    const chunks: Buffer[] = [];
+    pdf.on("data", (chunk: Buffer) => chunks.push(chunk));
+    pdf.on("end", () => resolve(Buffer.concat(chunks)));
+    pdf.on("error", reject);
+
+    documents.forEach((document) => drawDocument(pdf, document));
+    pdf.end();
+  });
+}
@@ -0,0 +1,218 @@
+import type {
+  Category,
+  ImportRowError,
+  InsertProduct,
+  Product,
+} from "@shared/schema.js";
+import { insertProductSchema } from "../../shared/schema.js";
+import { unzipSync } from "fflate";
+import path from "path";
+import { parseCsv, toCsv, unescapeCell } from "./csv.js";
+
+export const PRODUCT_CSV_COLUMNS = [
+  "name",
+  "category",
+  "type",
+  "species",
+  "price",
+  "stock",
+  "description",
+  "images",
+] as const;
+
+type Column = (typeof PRODUCT_CSV_COLUMNS)[number];
+
+const OPTIONAL_COLUMNS: Column[] = ["species", "images"];
+
+// Several images go in one cell, e.g. front.jpg|side.jpg
+const IMAGE_SEPARATOR = "|";
+
+const MAX_IMPORT_ROWS = 1000;
+
+// Same limit as a single upload
+const MAX_BUNDLED_IMAGE_BYTES = 5 * 1024 * 1024;
+
+const IMAGE_EXTENSIONS = [".jpg", ".jpeg", ".png", ".webp", ".gif", ".avif"];
+
+// Schema fields under the name of the column they're read from
+const columnOf: Record<string, Column> = {
+  categoryId: "category",
+  priceInINR: "price",
+};
+
+export type ProductCsvRow = {
+  row: number;
+  product: InsertProduct;
+  // Links kept as they are, or names of files in the zip
+  images: string[];
+};
+
+// A link to an image hosted elsewhere, kept as it is
+export const isImageLink = (image: string) => /^https?:\/\//i.test(image);
+
+// An image already in this shop's uploads, as exports list them. Imported
+// products get their own copy, so deleting one leaves the other's files.
+export const isUploadedImage = (image: string) =>
+  image.startsWith("/uploads/");
+
+/**
+ * Images from an import's zip, by file name. Folders inside the zip are
+ * ignored, as are files that aren't images (e.g. macOS metadata).
+ */
+export function unzipImages(data: Uint8Array): Map<string, Uint8Array> {
+  const isImage = (name: string) =>
+    !name.startsWith("__MACOSX/") &&
+    IMAGE_EXTENSIONS.includes(path.extname(name).toLowerCase());
+
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(data, {
+      filter: (file) => {
+        if (!isImage(file.name)) return false;
+        if (file.originalSize > MAX_BUNDLED_IMAGE_BYTES) {
+          throw new Error(`${file.name} in the zip is larger than 5MB`);
+        }
+        return true;
+      },
+    });
+  } catch (error: any) {
+    const tooLarge = error.message?.includes("in the zip");
+    throw new Error(
+      tooLarge ? error.message : "The images file is not a valid zip"
+    );
+  }
+
+  return new Map(
+    Object.entries(files).map(([name, file]) => [path.basename(name), file])
+  );
+}
+
+// Price or stock as typed into a spreadsheet, e.g. "₹1,299"
+function parseNumber(cell: string): number | undefined {
+  const value = cell.replace(/[₹,\s]/g, "");
+  return value === "" ? undefined : Number(value);
+}
+
+/**
+ * Reads a product CSV into products ready to create, checking each row
+ * against insertProductSchema. Categories are given by slug. Images are
+ * links or names of files in the accompanying zip (null when there's none).
+ */
+export function parseProductCsv(
+  text: string,
+  categories: Category[],
+  bundled: Set<string> | null
+): { rows: ProductCsvRow[]; errors: ImportRowError[]; total: number } {
+  const [header = [], ...lines] = parseCsv(text);
+  const columns = header.map((name) => name.trim().toLowerCase());
+  const missing = PRODUCT_CSV_COLUMNS.filter(
+    (column) => !OPTIONAL_COLUMNS.includes(column) && !columns.includes(column)
+  );
+  if (missing.length > 0) {
+    throw new Error(`The CSV is missing columns: ${missing.join(", ")}`);
+  }
+
+  // Spreadsheet row numbers, skipping rows left blank
+  const records = lines
+    .map((cells, index) => ({ row: index + 2, cells }))
+    .filter(({ cells }) => cells.some((cell) => cell.trim()));
+  if (records.length === 0) throw new Error("The CSV has no products");
+  if (records.length > MAX_IMPORT_ROWS) {
+    throw new Error(`Import at most ${MAX_IMPORT_ROWS} products at a time`);
+  }
+
+  const rows: ProductCsvRow[] = [];
+  const errors: ImportRowError[] = [];
+
+  for (const { row, cells } of records) {
+    const cell = (column: Column) => {
+      const index = columns.indexOf(column);
+      return index < 0 ? "" : unescapeCell(cells[index] ?? "").trim();
+    };
+    const rowErrors: string[] = [];
+
+    const slug = cell("category").toLowerCase();
+    const category = categories.find((c) => c.slug === slug);
+    if (slug && !category) rowErrors.push(`category: No category "${slug}"`);
+
+    if (cell("type") === "pet") {
+      rowErrors.push(
+        "type: Pets can't be imported; add them one by one with their details"
+      );
+    }
+
+    const priceInINR = parseNumber(cell("price"));
+    const stock = parseNumber(cell("stock"));
+    if (Number.isNaN(priceInINR)) rowErrors.push("price: Must be a number");
+    if (Number.isNaN(stock)) rowErrors.push("stock: Must be a number");
+
+    const images = cell("images")
+      .split(IMAGE_SEPARATOR)
+      .map((image) => image.trim())
+      .filter(Boolean);
+    const named = images.filter(
+      (image) => !isImageLink(image) && !isUploadedImage(image)
+    );
+    for (const image of named) {
+      if (!bundled) {
+        rowErrors.push(
+          `images: "${image}" is not a link; upload a zip of the images`
+        );
+      } else if (!bundled.has(image)) {
+        rowErrors.push(`images: "${image}" is not in the zip`);
+      }
+    }
+
+    const result = insertProductSchema.safeParse({
+      name: cell("name"),
+      categoryId: category?.id ?? slug,
+      type: cell("type"),
+      species: cell("species") || null,
+      priceInINR: Number.isNaN(priceInINR) ? 0 : priceInINR,
+      stock: Number.isNaN(stock) ? 0 : stock,
+      description: cell("description"),
+    });
+    if (!result.success) {
+      for (const issue of result.error.issues) {
+        const field = String(issue.path[0] ?? "");
+        const column = columnOf[field] ?? field;
+        // Already reported above, without the schema's wording
+        const reported = rowErrors.some((e) => e.startsWith(`${column}:`));
+        if (field === "petDetails" || reported) continue;
+        rowErrors.push(column ? `${column}: ${issue.message}` : issue.message);
+      }
+    }
+
+    if (rowErrors.length > 0 || !result.success) {
+      errors.push(...rowErrors.map((message) => ({ row, message })));
+    } else {
+      rows.push({ row, product: result.data, images });
+    }
+  }
+
+  return { rows, errors, total: records.length };
+}
+
+/**
+ * The catalogue in the import format, so an export can be edited and
+ * imported into another shop. Products with variants are listed with their
+ * lowest price and total stock.
+ */
+export function productsToCsv(
+  products: Product[],
+  categories: Category[]
+): string {
+  return toCsv([
+    [...PRODUCT_CSV_COLUMNS],
+    ...products.map((product) => [
+      product.name,
+      categories.find((c) => c.id === product.categoryId)?.slug ?? "",
+      product.type,
+      product.species,
+      product.priceInINR,
+      product.stock,
+      product.description,
+      product.images.map((image) => image.src).join(IMAGE_SEPARATOR),
+    ]),
+  ]);
+}
@@ -0,0 +1,55 @@
+import type { Product, Reservation } from "@shared/schema.js";
+import type { IStorage } from "./storage.js";
+
+// How often the scheduler looks for holds that have run out
+const EXPIRY_SWEEP_INTERVAL = 60 * 1000; // 1 minute
+
+// Throws unless one unit of the product can be put on hold
+export function assertReservable(
+  product: Product | undefined
+): asserts product is Product {
+  if (!product) {
+    throw new Error("Product not found");
+  }
+  if (product.type !== "pet") {
+    throw new Error("Only pets can be reserved");
+  }
+  if (!product.available || product.stock < 1) {
+    throw new Error(`${product.name} is not available for reservation`);
+  }
+}
+
+// Holds can only be released or converted once
+export function assertActive(reservation: Reservation) {
+  if (reservation.status !== "active") {
+    throw new Error(`Reservation is already ${reservation.status}`);
+  }
+}
+
+export function holdExpiry(holdHours: number, from = new Date()): Date {
+  return new Date(from.getTime() + holdHours * 60 * 60 * 1000);
+}
+
+/**
+ * Releases expired holds now and then every minute, handing each released
+ * batch to onExpired so clients can be told the pets are back in stock.
+ */
+export function scheduleReservationExpiry(
+  storage: IStorage,
+  onExpired: (reservations: Reservation[]) => void | Promise<void>
+) {
+  const sweep = async () => {
+    try {
+      const expired = await storage.expireReservations(new Date());
+      if (expired.length > 0) await onExpired(expired);
+    } catch (error) {
+      console.error("Failed to expire reservations:", error);
+    }
+  };
+
+  const timer = setInterval(sweep, EXPIRY_SWEEP_INTERVAL);
+  // Don't keep the process alive just for the sweep
+  timer.unref();
+  sweep();
+  return timer;
+}
@@ -1,15 +1,86 @@
-import express, { type Express } from "express";
+import express, {
+  type Express,
+  type NextFunction,
+  type Request,
+  type Response,
+} from "express";
 import { createServer, type Server } from "http";
 import { WebSocketServer, WebSocket } from "ws";
 import multer from "multer";
 import path from "path";
-import { storage } from "./storage.js";
+import { storage, type NewProduct } from "./storage.js";
 import { setupAuth } from "./auth.js";
+import { emptyCart, priceCart } from "./cart.js";
+import { addedGstINR, orderGst } from "./gst.js";
+import { restockingStatuses } from "./orders.js";
+import { quoteDelivery } from "./delivery.js";
+import { scheduleReservationExpiry } from "./reservations.js";
+import { describeLine, lineVariant, resolveVariant } from "./variants.js";
+import { MAX_QUERY_LENGTH } from "./search.js";
+import { renderRobots, renderSitemap, siteOrigin } from "./seo.js";
+import {
+  assertInvoiceable,
+  invoiceDocument,
+  packingSlipDocument,
+} from "./invoices.js";
+import {
+  renderPrintHtml,
+  renderPrintPdf,
+  type PrintDocument,
+} from "./print.js";
+import {
+  isImageLink,
+  isUploadedImage,
+  parseProductCsv,
+  productsToCsv,
+  unzipImages,
+} from "./product-csv.js";
+import {
+  deleteProductFiles,
+  deleteProductImageFiles,
+  deleteUploads,
+  discardUpload,
+  imageFiles,
+  isReadableImage,
+  linkedImage,
+  processBundledImage,
+  processProductImage,
+  readUpload,
+  stripImageMetadata,
+} from "./images.js";
 import {
   insertCategorySchema,
   insertProductSchema,
+  stockSeenSchema,
+  arrangeProductImagesSchema,
   insertOrderSchema,
+  cartItemSchema,
+  updateCartItemSchema,
+  checkoutCartSchema,
   updateSiteSettingsSchema,
+  insertDeliveryZoneSchema,
+  serviceabilityQuerySchema,
+  updateCustomerSchema,
+  insertCustomerAddressSchema,
+  updateOrderStatusSchema,
+  printQuerySchema,
+  batchPrintQuerySchema,
+  insertStockMovementSchema,
+  insertReservationSchema,
+  productListQuerySchema,
+  orderListQuerySchema,
+  categoryDeletionSchema,
+  buildCategoryTree,
+  type Cart,
+  type DeliveryCheck,
+  type Order,
+  type PrintFormat,
+  type Product,
+  type ProductImage,
+  type ProductImportReport,
+  type Reservation,
+  type ReservationHold,
+  type StoredCart,
 } from "../../shared/schema.js";
 
 // Configure multer for file uploads
@@ -38,6 +109,108 @@ const upload = multer({
   },
 });
 
+// Product forms carry gallery images plus a pet's health certificate
+const productUpload = upload.fields([
+  { name: "images", maxCount: 5 },
+  { name: "healthCertificate", maxCount: 1 },
+]);
+
+// The gallery editor uploads photos on their own
+const galleryUpload = upload.fields([{ name: "images", maxCount: 5 }]);
+
+// A bulk import's CSV and optional zip of images, kept in memory
+const importUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 50 * 1024 * 1024, // 50MB limit, for the zip
+  },
+}).fields([
+  { name: "file", maxCount: 1 },
+  { name: "images", maxCount: 1 },
+]);
+
+// Files uploaded under one form field
+function uploadedFiles(req: Request, field: string): Express.Multer.File[] {
+  const files = req.files as Record<string, Express.Multer.File[]> | undefined;
+  return files?.[field] ?? [];
+}
+
+// Raw uploads may carry EXIF location data, so none are left behind
+async function discardUploads(req: Request) {
+  const files = req.files as Record<string, Express.Multer.File[]> | undefined;
+  await Promise.all(Object.values(files ?? {}).flat().map(discardUpload));
+}
+
+// Resized, EXIF-free versions of the product photos in the request. If one
+// can't be read, those already processed are deleted again.
+async function processUploadedImages(req: Request): Promise<ProductImage[]> {
+  const results = await Promise.allSettled(
+    uploadedFiles(req, "images").map(processProductImage)
+  );
+  const images = results.flatMap((result) =>
+    result.status === "fulfilled" ? [result.value] : []
+  );
+  const failure = results.find((result) => result.status === "rejected");
+  if (failure) {
+    await Promise.all(images.map(deleteProductImageFiles));
+    throw failure.reason;
+  }
+  return images;
+}
+
+/**
+ * Product form data with its uploads processed, before anything is saved, so
+ * a photo that can't be read fails the request without touching the product.
+ * A pet's health certificate is the one uploaded with the form, else the one
+ * the product already has; never a path the client sent.
+ */
+async function parseProductForm(req: Request, current?: Product) {
+  const data = insertProductSchema.parse(
+    JSON.parse(req.body.productData || "{}")
+  );
+  const images = await processUploadedImages(req);
+  // Files written here, for deleting if the save fails
+  const files = images.flatMap(imageFiles);
+
+  if (data.petDetails) {
+    const [certificate] = uploadedFiles(req, "healthCertificate");
+    try {
+      data.petDetails.healthCertificate = certificate
+        ? await stripImageMetadata(certificate)
+        : current?.petDetails?.healthCertificate;
+    } catch (error) {
+      await deleteUploads(files);
+      throw error;
+    }
+    if (certificate) files.push(data.petDetails.healthCertificate!);
+  }
+  return { data, images, files };
+}
+
+// Runs a storage write that will show newly processed files, deleting them
+// again if it fails or finds nothing to write to
+async function saveWithFiles<T>(
+  files: string[],
+  write: () => Promise<T>
+): Promise<T> {
+  try {
+    const saved = await write();
+    if (!saved) await deleteUploads(files);
+    return saved;
+  } catch (error) {
+    await deleteUploads(files);
+    throw error;
+  }
+}
+
+// The certificate a saved edit no longer shows, replaced or dropped
+function replacedCertificate(before: Product, after: Product) {
+  const previous = before.petDetails?.healthCertificate;
+  return previous && previous !== after.petDetails?.healthCertificate
+    ? [previous]
+    : [];
+}
+
 // WebSocket clients for real-time updates
 let wsClients: Set<WebSocket> = new Set();
 
@@ -58,6 +231,137 @@ function requireAdmin(req: any, res: any, next: any) {
   next();
 }
 
+// Customer routes need a signed-in customer account; see setupAuth
+function requireCustomer(req: Request, res: Response, next: NextFunction) {
+  if (!req.session.customerId) {
+    return res.status(401).json({ message: "Sign in to continue" });
+  }
+  next();
+}
+
+// Reservation events reach every visitor, so they leave out the customer
+function reservationEvent(reservation: Reservation) {
+  const { id, productId, status, expiresAt } = reservation;
+  return { id, productId, status, expiresAt };
+}
+
+// A product's stock changed; tell clients its current state
+async function broadcastProduct(productId: string) {
+  const product = await storage.getProduct(productId);
+  if (product) broadcastUpdate("product:updated", product);
+}
+
+// Who to credit in the stock ledger for changes made by a signed-in admin
+function adminActor(req: Request): string {
+  return req.user?.username ?? "admin";
+}
+
+// Anonymous carts are keyed by a long-lived cookie holding the cart id
+const CART_COOKIE = "cartId";
+const CART_COOKIE_MAX_AGE = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+async function loadCart(req: Request): Promise<StoredCart | undefined> {
+  const cartId = req.cookies?.[CART_COOKIE];
+  return cartId ? storage.getCart(cartId) : undefined;
+}
+
+async function loadOrCreateCart(
+  req: Request,
+  res: Response
+): Promise<StoredCart> {
+  const existing = await loadCart(req);
+  if (existing) return existing;
+
+  const cart = await storage.createCart();
+  res.cookie(CART_COOKIE, cart.id, {
+    httpOnly: true,
+    sameSite: "lax",
+    maxAge: CART_COOKIE_MAX_AGE,
+  });
+  return cart;
+}
+
+// Cart lines are addressed by product id, plus ?variantId= for a variant
+function cartVariantId(req: Request): string {
+  return typeof req.query.variantId === "string" ? req.query.variantId : "";
+}
+
+async function cartProducts(cart: StoredCart): Promise<Product[]> {
+  const products = await Promise.all(
+    cart.items.map((item) => storage.getProduct(item.productId))
+  );
+  return products.filter(Boolean) as Product[];
+}
+
+// GST shown to shoppers: what prices include, or what's added on top
+async function cartGstINR(
+  lines: Cart["lines"],
+  products: Product[],
+  deliveryFeeINR: number
+): Promise<number> {
+  // The split between CGST, SGST and IGST waits for the delivery address
+  const gst = orderGst(
+    lines.filter((line) => line.purchasable),
+    products,
+    await storage.getCategories(),
+    await storage.getSiteSettings(),
+    null,
+    deliveryFeeINR
+  );
+  return gst?.pricesIncludeGst ? gst.totalTaxINR : addedGstINR(gst);
+}
+
+async function renderCart(cart: StoredCart | undefined): Promise<Cart> {
+  if (!cart) return emptyCart;
+  const products = await cartProducts(cart);
+  const priced = priceCart(cart, products);
+  const settings = await storage.getSiteSettings();
+
+  // Without the delivery fee, which waits for a PIN code
+  return {
+    ...priced,
+    gstINR: await cartGstINR(priced.lines, products, 0),
+    pricesIncludeGst: settings.pricesIncludeGst,
+  };
+}
+
+// The orders, in the order given, or the first id that wasn't found
+async function ordersById(
+  ids: string[]
+): Promise<{ orders: Order[]; missing?: string }> {
+  const orders = await Promise.all(ids.map((id) => storage.getOrder(id)));
+  const missing = ids.find((id, i) => !orders[i]);
+  return { orders: orders as Order[], missing };
+}
+
+// Numbers every order's invoice in turn, once all of them can be invoiced
+async function issueInvoices(orders: Order[]): Promise<Order[]> {
+  orders
+    .filter((order) => !order.invoiceNumber)
+    .forEach((order) => assertInvoiceable(order));
+  const issued: Order[] = [];
+  for (const order of orders) {
+    issued.push((await storage.issueInvoice(order.id)) ?? order);
+  }
+  return issued;
+}
+
+async function sendPrint(
+  res: Response,
+  format: PrintFormat,
+  title: string,
+  documents: PrintDocument[]
+) {
+  if (format === "html") {
+    return res.type("html").send(renderPrintHtml(title, documents));
+  }
+  const filename = `${title.replace(/[^\w-]+/g, "-")}.pdf`;
+  res
+    .type("application/pdf")
+    .set("Content-Disposition", `inline; filename="${filename}"`)
+    .send(await renderPrintPdf(title, documents));
+}
+
 export function registerRoutes(app: Express): Server {
   // Setup authentication routes
   setupAuth(app);
@@ -70,6 +374,20 @@ export function registerRoutes(app: Express): Server {
 
   // Public routes
 
+  // Search engines: every storefront page, and what not to crawl
+  app.get("/sitemap.xml", async (req, res) => {
+    try {
+      const sitemap = await renderSitemap(siteOrigin(req));
+      res.type("application/xml").send(sitemap);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to generate sitemap" });
+    }
+  });
+
+  app.get("/robots.txt", (req, res) => {
+    res.type("text/plain").send(renderRobots(siteOrigin(req)));
+  });
+
   // Get site settings (public)
   app.get("/api/public/settings", async (req, res) => {
     try {
@@ -90,6 +408,16 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
+  // Get categories nested under their parents (public)
+  app.get("/api/categories/tree", async (req, res) => {
+    try {
+      const categories = await storage.getCategories();
+      res.json(buildCategoryTree(categories));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch categories" });
+    }
+  });
+
   // Get single category (public)
   app.get("/api/categories/:id", async (req, res) => {
     try {
@@ -103,18 +431,20 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  // Get products with filters (public)
+  // Get a page of products with filters (public)
   app.get("/api/products", async (req, res) => {
     try {
-      const filters = {
-        categoryId: req.query.categoryId as string,
-        type: req.query.type as string,
-        species: req.query.species as string,
-      };
-      const products = await storage.getProducts(filters);
-      res.json(products);
-    } catch (error) {
-      res.status(500).json({ message: "Failed to fetch products" });
+      const { sort, cursor, limit, q, ...filters } =
+        productListQuerySchema.parse(req.query);
+      const page = await storage.getProducts(
+        { ...filters, q: q?.trim().slice(0, MAX_QUERY_LENGTH) },
+        { sort, cursor, limit }
+      );
+      res.json(page);
+    } catch (error: any) {
+      res
+        .status(400)
+        .json({ message: error.message || "Failed to fetch products" });
     }
   });
 
@@ -122,7 +452,21 @@ export function registerRoutes(app: Express): Server {
   app.get("/api/products/:id", async (req, res) => {
     try {
       const product = await storage.getProduct(req.params.id);
-      if (!product) {
+      // Archived products stay on orders but are no longer shown
+      if (!product || product.archivedAt) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+      res.json(product);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch product" });
+    }
+  });
+
+  // Get the product a storefront URL names (public)
+  app.get("/api/products/slug/:slug", async (req, res) => {
+    try {
+      const product = await storage.getProductBySlug(req.params.slug);
+      if (!product || product.archivedAt) {
         return res.status(404).json({ message: "Product not found" });
       }
       res.json(product);
@@ -136,53 +480,349 @@ export function registerRoutes(app: Express): Server {
     try {
       const validatedData = insertOrderSchema.parse(req.body);
 
-      // Get products and validate stock
-      const productIds = validatedData.products.map((p) => p.productId);
-      const products = await Promise.all(
-        productIds.map((id: string) => storage.getProduct(id))
+      // Stock check, decrement and order creation happen atomically
+      const order = await storage.placeOrder(
+        validatedData,
+        req.session.customerId
+      );
+
+      // Broadcast order created event
+      broadcastUpdate("order:created", order);
+
+      res.status(201).json(order);
+    } catch (error: any) {
+      res
+        .status(400)
+        .json({ message: error.message || "Failed to create order" });
+    }
+  });
+
+  // The signed-in customer's profile and orders; signing in is in setupAuth
+  app.put("/api/customer", requireCustomer, async (req, res) => {
+    try {
+      const validatedData = updateCustomerSchema.parse(req.body);
+      const customer = await storage.updateCustomer(
+        req.session.customerId!,
+        validatedData
+      );
+      if (!customer) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+      res.json(customer);
+    } catch (error: any) {
+      res
+        .status(400)
+        .json({ message: error.message || "Failed to update profile" });
+    }
+  });
+
+  app.get("/api/customer/orders", requireCustomer, async (req, res) => {
+    try {
+      const { sort, cursor, limit, ...filters } = orderListQuerySchema.parse(
+        req.query
+      );
+      const page = await storage.getOrders(
+        { ...filters, customerId: req.session.customerId },
+        { sort, cursor, limit }
+      );
+      res.json(page);
+    } catch (error: any) {
+      res
+        .status(400)
+        .json({ message: error.message || "Failed to fetch orders" });
+    }
+  });
+
+  // The signed-in customer's address book
+  app.get("/api/customer/addresses", requireCustomer, async (req, res) => {
+    try {
+      const addresses = await storage.getCustomerAddresses(
+        req.session.customerId!
+      );
+      res.json(addresses);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch addresses" });
+    }
+  });
+
+  app.post("/api/customer/addresses", requireCustomer, async (req, res) => {
+    try {
+      const validatedData = insertCustomerAddressSchema.parse(req.body);
+      const address = await storage.createCustomerAddress(
+        req.session.customerId!,
+        validatedData
+      );
+      res.status(201).json(address);
+    } catch (error: any) {
+      res
+        .status(400)
+        .json({ message: error.message || "Failed to save address" });
+    }
+  });
+
+  app.put(
+    "/api/customer/addresses/:id",
+    requireCustomer,
+    async (req, res) => {
+      try {
+        const validatedData = insertCustomerAddressSchema.parse(req.body);
+        const address = await storage.updateCustomerAddress(
+          req.session.customerId!,
+          req.params.id,
+          validatedData
+        );
+        if (!address) {
+          return res.status(404).json({ message: "Address not found" });
+        }
+        res.json(address);
+      } catch (error: any) {
+        res
+          .status(400)
+          .json({ message: error.message || "Failed to update address" });
+      }
+    }
+  );
+
+  app.delete(
+    "/api/customer/addresses/:id",
+    requireCustomer,
+    async (req, res) => {
+      try {
+        const deleted = await storage.deleteCustomerAddress(
+          req.session.customerId!,
+          req.params.id
+        );
+        if (!deleted) {
+          return res.status(404).json({ message: "Address not found" });
+        }
+        res.status(204).send();
+      } catch (error) {
+        res.status(500).json({ message: "Failed to delete address" });
+      }
+    }
+  );
+
+  // Pets currently on hold (public)
+  app.get("/api/reservations/holds", async (req, res) => {
+    try {
+      const reservations = await storage.getReservations("active");
+      const holds: ReservationHold[] = reservations.map(
+        ({ productId, expiresAt }) => ({ productId, expiresAt })
       );
+      res.json(holds);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch reservations" });
+    }
+  });
+
+  // Reserve a pet for the configured hold period (public)
+  app.post("/api/reservations", async (req, res) => {
+    try {
+      const validatedData = insertReservationSchema.parse(req.body);
+      const { reservationHoldHours } = await storage.getSiteSettings();
+
+      const reservation = await storage.createReservation(
+        validatedData,
+        reservationHoldHours
+      );
+
+      broadcastUpdate("reservation:created", reservationEvent(reservation));
+      await broadcastProduct(reservation.productId);
+
+      res.status(201).json(reservation);
+    } catch (error: any) {
+      res
+        .status(400)
+        .json({ message: error.message || "Failed to reserve pet" });
+    }
+  });
+
+  // Get the visitor's cart (public)
+  app.get("/api/cart", async (req, res) => {
+    try {
+      res.json(await renderCart(await loadCart(req)));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch cart" });
+    }
+  });
+
+  // Add a product to the cart, on top of any quantity already there (public)
+  app.post("/api/cart/items", async (req, res) => {
+    try {
+      const {
+        productId,
+        variantId = "",
+        quantity,
+      } = cartItemSchema.parse(req.body);
 
-      if (products.some((p) => !p)) {
+      const product = await storage.getProduct(productId);
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+      if (!product.available) {
         return res
           .status(400)
-          .json({ message: "One or more products not found" });
+          .json({ message: `${product.name} is not available` });
+      }
+      const variant = resolveVariant(product, variantId);
+      const { stock } = variant ?? product;
+
+      const cart = await loadOrCreateCart(req, res);
+      const existing = cart.items.find(
+        (item) => item.productId === productId && item.variantId === variantId
+      );
+      const newQuantity = (existing?.quantity ?? 0) + quantity;
+      if (newQuantity > stock) {
+        return res.status(400).json({
+          message: `Only ${stock} of ${describeLine(product, variant)} in stock`,
+        });
       }
 
-      // Check stock availability
-      for (const orderProduct of validatedData.products) {
-        const product = products.find((p) => p?.id === orderProduct.productId);
-        if (!product || product.stock < orderProduct.quantity) {
+      const updated = await storage.setCartItem(
+        cart.id,
+        productId,
+        variantId,
+        newQuantity
+      );
+      res.json(await renderCart(updated));
+    } catch (error: any) {
+      res
+        .status(400)
+        .json({ message: error.message || "Failed to add item to cart" });
+    }
+  });
+
+  // Change the quantity of a cart line (public)
+  app.put("/api/cart/items/:productId", async (req, res) => {
+    try {
+      const { quantity } = updateCartItemSchema.parse(req.body);
+      const variantId = cartVariantId(req);
+
+      const cart = await loadCart(req);
+      if (
+        !cart ||
+        !cart.items.some(
+          (item) =>
+            item.productId === req.params.productId &&
+            item.variantId === variantId
+        )
+      ) {
+        return res.status(404).json({ message: "Cart item not found" });
+      }
+
+      const product = await storage.getProduct(req.params.productId);
+      const variant = product && lineVariant(product, variantId);
+      if (product && variant !== undefined) {
+        const { stock } = variant ?? product;
+        if (quantity > stock) {
           return res.status(400).json({
-            message: `Insufficient stock for product: ${product?.name}`,
+            message: `Only ${stock} of ${describeLine(product, variant)} in stock`,
           });
         }
       }
 
-      // Create order
-      const order = await storage.createOrder(
-        validatedData,
-        products.filter(Boolean) as any[]
+      const updated = await storage.setCartItem(
+        cart.id,
+        req.params.productId,
+        variantId,
+        quantity
       );
+      res.json(await renderCart(updated));
+    } catch (error: any) {
+      res
+        .status(400)
+        .json({ message: error.message || "Failed to update cart item" });
+    }
+  });
 
-      // Update product stock atomically
-      for (const orderProduct of validatedData.products) {
-        const product = products.find((p) => p?.id === orderProduct.productId);
-        if (product) {
-          await storage.updateProductStock(
-            product.id,
-            product.stock - orderProduct.quantity
-          );
-        }
+  // Remove a line from the cart (public)
+  app.delete("/api/cart/items/:productId", async (req, res) => {
+    try {
+      const cart = await loadCart(req);
+      if (!cart) {
+        return res.json(emptyCart);
       }
 
-      // Broadcast order created event
+      const updated = await storage.removeCartItem(
+        cart.id,
+        req.params.productId,
+        cartVariantId(req)
+      );
+      res.json(await renderCart(updated));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to remove cart item" });
+    }
+  });
+
+  // Turn the whole cart into a single order (public)
+  app.post("/api/cart/checkout", async (req, res) => {
+    try {
+      const { customer } = checkoutCartSchema.parse(req.body);
+
+      const cart = await renderCart(await loadCart(req));
+      if (!cart.id || cart.lines.length === 0) {
+        return res.status(400).json({ message: "Your cart is empty" });
+      }
+      if (cart.lines.some((line) => !line.purchasable)) {
+        return res.status(400).json({
+          message: "Some items in your cart are no longer available",
+        });
+      }
+
+      const order = await storage.placeOrder(
+        {
+          products: cart.lines.map((line) => ({
+            productId: line.productId,
+            variantId: line.variantId,
+            quantity: line.quantity,
+          })),
+          customer,
+        },
+        req.session.customerId
+      );
+      await storage.clearCart(cart.id);
+
       broadcastUpdate("order:created", order);
 
       res.status(201).json(order);
     } catch (error: any) {
       res
         .status(400)
-        .json({ message: error.message || "Failed to create order" });
+        .json({ message: error.message || "Failed to place order" });
+    }
+  });
+
+  // Whether the visitor's cart can be delivered to a PIN code, and the
+  // delivery fee (public)
+  app.get("/api/delivery/serviceability", async (req, res) => {
+    try {
+      const { pinCode } = serviceabilityQuerySchema.parse(req.query);
+      const cart = await loadCart(req);
+      const products = cart ? await cartProducts(cart) : [];
+      const { lines, totalAmountINR } = cart
+        ? priceCart(cart, products)
+        : emptyCart;
+
+      const quote = quoteDelivery(
+        await storage.getDeliveryZones(),
+        pinCode,
+        lines.filter((line) => line.purchasable),
+        products,
+        totalAmountINR
+      );
+      const check: DeliveryCheck = {
+        ...quote,
+        gstINR: await cartGstINR(
+          lines,
+          products,
+          quote.serviceable ? quote.feeINR : 0
+        ),
+      };
+      res.json(check);
+    } catch (error: any) {
+      res
+        .status(400)
+        .json({ message: error.message || "Failed to check delivery" });
     }
   });
 
@@ -205,6 +845,62 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
+  // Delivery zones
+  app.get("/api/admin/delivery-zones", requireAdmin, async (req, res) => {
+    try {
+      const zones = await storage.getDeliveryZones();
+      res.json(zones);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch delivery zones" });
+    }
+  });
+
+  app.post("/api/admin/delivery-zones", requireAdmin, async (req, res) => {
+    try {
+      const validatedData = insertDeliveryZoneSchema.parse(req.body);
+      const zone = await storage.createDeliveryZone(validatedData);
+      res.status(201).json(zone);
+    } catch (error: any) {
+      res
+        .status(400)
+        .json({ message: error.message || "Failed to create delivery zone" });
+    }
+  });
+
+  app.put("/api/admin/delivery-zones/:id", requireAdmin, async (req, res) => {
+    try {
+      const validatedData = insertDeliveryZoneSchema.parse(req.body);
+      const zone = await storage.updateDeliveryZone(
+        req.params.id,
+        validatedData
+      );
+      if (!zone) {
+        return res.status(404).json({ message: "Delivery zone not found" });
+      }
+      res.json(zone);
+    } catch (error: any) {
+      res
+        .status(400)
+        .json({ message: error.message || "Failed to update delivery zone" });
+    }
+  });
+
+  app.delete(
+    "/api/admin/delivery-zones/:id",
+    requireAdmin,
+    async (req, res) => {
+      try {
+        const deleted = await storage.deleteDeliveryZone(req.params.id);
+        if (!deleted) {
+          return res.status(404).json({ message: "Delivery zone not found" });
+        }
+        res.status(204).send();
+      } catch (error) {
+        res.status(500).json({ message: "Failed to delete delivery zone" });
+      }
+    }
+  );
+
   // Category management
   app.post("/api/admin/categories", requireAdmin, async (req, res) => {
     try {
@@ -243,9 +939,30 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
+  // How many products deleting the category would affect
+  app.get(
+    "/api/admin/categories/:id/product-count",
+    requireAdmin,
+    async (req, res) => {
+      try {
+        const category = await storage.getCategory(req.params.id);
+        if (!category) {
+          return res.status(404).json({ message: "Category not found" });
+        }
+        const count = await storage.countCategoryProducts(req.params.id);
+        res.json({ count });
+      } catch (error) {
+        res.status(500).json({ message: "Failed to count products" });
+      }
+    }
+  );
+
+  // ?reassignTo=<category id> moves the category's products there and
+  // ?archiveProducts=true archives them; one is needed while it has any
   app.delete("/api/admin/categories/:id", requireAdmin, async (req, res) => {
     try {
-      const deleted = await storage.deleteCategory(req.params.id);
+      const deletion = categoryDeletionSchema.parse(req.query);
+      const deleted = await storage.deleteCategory(req.params.id, deletion);
       if (!deleted) {
         return res.status(404).json({ message: "Category not found" });
       }
@@ -253,8 +970,10 @@ export function registerRoutes(app: Express): Server {
       broadcastUpdate("category:deleted", { id: req.params.id });
 
       res.status(204).send();
-    } catch (error) {
-      res.status(500).json({ message: "Failed to delete category" });
+    } catch (error: any) {
+      res
+        .status(400)
+        .json({ message: error.message || "Failed to delete category" });
     }
   });
 
@@ -262,27 +981,19 @@ export function registerRoutes(app: Express): Server {
   app.post(
     "/api/admin/products",
     requireAdmin,
-    upload.array("images", 5),
+    productUpload,
     async (req, res) => {
       try {
-        const productData = JSON.parse(req.body.productData || "{}");
-        const validatedData = insertProductSchema.parse(productData);
-
-        const product = await storage.createProduct(validatedData);
-
-        // Handle uploaded images
-        if (req.files && Array.isArray(req.files)) {
-          const imagePaths = req.files.map(
-            (file) => `/uploads/${file.filename}`
-          );
-          await storage.updateProductImages(product.id, imagePaths);
-          product.images = imagePaths;
-        }
+        const form = await parseProductForm(req);
+        const product = await saveWithFiles(form.files, () =>
+          storage.createProduct(form.data, adminActor(req), form.images)
+        );
 
         broadcastUpdate("product:created", product);
 
         res.status(201).json(product);
       } catch (error: any) {
+        await discardUploads(req);
         res
           .status(400)
           .json({ message: error.message || "Failed to create product" });
@@ -293,34 +1004,49 @@ export function registerRoutes(app: Express): Server {
   app.put(
     "/api/admin/products/:id",
     requireAdmin,
-    upload.array("images", 5),
+    productUpload,
     async (req, res) => {
       try {
-        const productData = JSON.parse(req.body.productData || "{}");
-        const validatedData = insertProductSchema.parse(productData);
+        const current = await storage.getProduct(req.params.id);
+        if (!current) {
+          await discardUploads(req);
+          return res.status(404).json({ message: "Product not found" });
+        }
 
-        const product = await storage.updateProduct(
-          req.params.id,
-          validatedData
-        );
+        const stockSeen = req.body.stockSeen
+          ? stockSeenSchema.parse(JSON.parse(req.body.stockSeen))
+          : undefined;
+        const form = await parseProductForm(req, current);
 
+        let product = await saveWithFiles(form.files, () =>
+          storage.updateProduct(
+            current.id,
+            form.data,
+            adminActor(req),
+            stockSeen
+          )
+        );
         if (!product) {
+          await discardUploads(req);
           return res.status(404).json({ message: "Product not found" });
         }
+        await deleteUploads(replacedCertificate(current, product));
 
-        // Handle uploaded images if provided
-        if (req.files && Array.isArray(req.files) && req.files.length > 0) {
-          const imagePaths = req.files.map(
-            (file) => `/uploads/${file.filename}`
+        // Uploaded images are added to the gallery, not swapped in for it
+        if (form.images.length > 0) {
+          product = await saveWithFiles(form.images.flatMap(imageFiles), () =>
+            storage.addProductImages(current.id, form.images)
           );
-          await storage.updateProductImages(product.id, imagePaths);
-          product.images = imagePaths;
+          if (!product) {
+            return res.status(404).json({ message: "Product not found" });
+          }
         }
 
         broadcastUpdate("product:updated", product);
 
         res.json(product);
       } catch (error: any) {
+        await discardUploads(req);
         res
           .status(400)
           .json({ message: error.message || "Failed to update product" });
@@ -330,11 +1056,14 @@ export function registerRoutes(app: Express): Server {
 
   app.delete("/api/admin/products/:id", requireAdmin, async (req, res) => {
     try {
-      const deleted = await storage.deleteProduct(req.params.id);
+      const product = await storage.getProduct(req.params.id);
+      const deleted = product && (await storage.deleteProduct(product.id));
       if (!deleted) {
         return res.status(404).json({ message: "Product not found" });
       }
 
+      await deleteProductFiles(product);
+
       broadcastUpdate("product:deleted", { id: req.params.id });
 
       res.status(204).send();
@@ -343,16 +1072,361 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
+  // Bulk import and export. Every row is checked before anything is
+  // created, so a file with errors imports nothing.
+  app.post(
+    "/api/admin/products/import",
+    requireAdmin,
+    importUpload,
+    async (req, res) => {
+      try {
+        const dryRun = req.query.dryRun === "true";
+        const [csv] = uploadedFiles(req, "file");
+        if (!csv) {
+          return res.status(400).json({ message: "Choose a CSV file" });
+        }
+        const [zip] = uploadedFiles(req, "images");
+        const bundled = zip ? unzipImages(zip.buffer) : null;
+
+        const categories = await storage.getCategories();
+        const { rows, errors, total } = parseProductCsv(
+          csv.buffer.toString("utf8"),
+          categories,
+          bundled && new Set(bundled.keys())
+        );
+        // Images from the zip or this shop's uploads are read and decoded
+        // now, dry run or not, so one that can't be fails its row instead of
+        // the import partway through
+        const imageData = new Map<string, Uint8Array | null>();
+        for (const { row, images } of rows) {
+          for (const image of images.filter((image) => !isImageLink(image))) {
+            if (!imageData.has(image)) {
+              const data = isUploadedImage(image)
+                ? await readUpload(image)
+                : bundled!.get(image)!;
+              const readable = data && (await isReadableImage(data));
+              imageData.set(image, readable ? data : null);
+            }
+            if (!imageData.get(image)) {
+              const message = isUploadedImage(image)
+                ? `images: "${image}" is not an image in this shop's uploads`
+                : `images: "${image}" in the zip can't be read`;
+              errors.push({ row, message });
+            }
+          }
+        }
+        errors.sort((a, b) => a.row - b.row);
+
+        const report: ProductImportReport = {
+          dryRun,
+          rows: total,
+          imported: 0,
+          errors,
+        };
+
+        if (errors.length > 0 && !dryRun) {
+          const failed = new Set(errors.map((error) => error.row)).size;
+          const message = `${failed} of ${total} rows have errors`;
+          return res
+            .status(400)
+            .json({ ...report, message: `${message}; nothing was imported` });
+        }
+        if (dryRun) return res.json(report);
+
+        // Every image is processed before any product is created, and the
+        // products are created together, so a failure imports nothing
+        const processed: ProductImage[] = [];
+        let created: Product[];
+        try {
+          const newProducts: NewProduct[] = [];
+          for (const { product, images } of rows) {
+            const gallery: ProductImage[] = [];
+            for (const image of images) {
+              if (isImageLink(image)) {
+                gallery.push(linkedImage(image));
+              } else {
+                const file = await processBundledImage(
+                  image,
+                  imageData.get(image)!
+                );
+                processed.push(file);
+                gallery.push(file);
+              }
+            }
+            newProducts.push({ product, images: gallery });
+          }
+          created = await storage.createProducts(newProducts, adminActor(req));
+        } catch (error) {
+          await Promise.all(processed.map(deleteProductImageFiles));
+          throw error;
+        }
+
+        for (const product of created) {
+          broadcastUpdate("product:created", product);
+        }
+        report.imported = created.length;
+
+        res.status(201).json(report);
+      } catch (error: any) {
+        res
+          .status(400)
+          .json({ message: error.message || "Failed to import products" });
+      }
+    }
+  );
+
+  app.get("/api/admin/products/export", requireAdmin, async (req, res) => {
+    try {
+      const [{ items: products }, categories] = await Promise.all([
+        storage.getProducts(),
+        storage.getCategories(),
+      ]);
+      res
+        .type("text/csv")
+        .attachment("products.csv")
+        .send(productsToCsv(products, categories));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to export products" });
+    }
+  });
+
+  // Product gallery
+  app.post(
+    "/api/admin/products/:id/images",
+    requireAdmin,
+    galleryUpload,
+    async (req, res) => {
+      try {
+        const images = await processUploadedImages(req);
+        if (images.length === 0) {
+          return res.status(400).json({ message: "No images uploaded" });
+        }
+
+        const product = await storage.addProductImages(req.params.id, images);
+        if (!product) {
+          await Promise.all(images.map(deleteProductImageFiles));
+          return res.status(404).json({ message: "Product not found" });
+        }
+
+        broadcastUpdate("product:updated", product);
+
+        res.status(201).json(product);
+      } catch (error: any) {
+        await discardUploads(req);
+        res
+          .status(400)
+          .json({ message: error.message || "Failed to upload images" });
+      }
+    }
+  );
+
+  // Reorders the gallery (the first image is the cover) and sets alt text
+  app.put("/api/admin/products/:id/images", requireAdmin, async (req, res) => {
+    try {
+      const { images } = arrangeProductImagesSchema.parse(req.body);
+      const product = await storage.arrangeProductImages(
+        req.params.id,
+        images
+      );
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+
+      broadcastUpdate("product:updated", product);
+
+      res.json(product);
+    } catch (error: any) {
+      res
+        .status(400)
+        .json({ message: error.message || "Failed to update images" });
+    }
+  });
+
+  // Removes one image, identified by its src, and deletes its files
+  app.delete(
+    "/api/admin/products/:id/images",
+    requireAdmin,
+    async (req, res) => {
+      try {
+        const src = typeof req.query.src === "string" ? req.query.src : "";
+        const removed = await storage.removeProductImage(req.params.id, src);
+        if (!removed) {
+          return res.status(404).json({ message: "Image not found" });
+        }
+
+        await deleteProductImageFiles(removed.image);
+        broadcastUpdate("product:updated", removed.product);
+
+        res.json(removed.product);
+      } catch (error) {
+        res.status(500).json({ message: "Failed to delete image" });
+      }
+    }
+  );
+
+  // Stock ledger
+  app.get(
+    "/api/admin/products/:id/stock-movements",
+    requireAdmin,
+    async (req, res) => {
+      try {
+        const movements = await storage.getStockMovements(req.params.id);
+        res.json(movements);
+      } catch (error) {
+        res.status(500).json({ message: "Failed to fetch stock movements" });
+      }
+    }
+  );
+
+  app.post(
+    "/api/admin/products/:id/stock-movements",
+    requireAdmin,
+    async (req, res) => {
+      try {
+        const validatedData = insertStockMovementSchema.parse(req.body);
+
+        const product = await storage.adjustProductStock(
+          req.params.id,
+          validatedData,
+          adminActor(req)
+        );
+        if (!product) {
+          return res.status(404).json({ message: "Product not found" });
+        }
+
+        broadcastUpdate("product:updated", product);
+
+        res.status(201).json(product);
+      } catch (error: any) {
+        res.status(400).json({
+          message: error.message || "Failed to record stock movement",
+        });
+      }
+    }
+  );
+
   // Order management
   app.get("/api/admin/orders", requireAdmin, async (req, res) => {
     try {
-      const orders = await storage.getOrders();
-      res.json(orders);
+      const { sort, cursor, limit, ...filters } = orderListQuerySchema.parse(
+        req.query
+      );
+      const page = await storage.getOrders(filters, { sort, cursor, limit });
+      res.json(page);
+    } catch (error: any) {
+      res
+        .status(400)
+        .json({ message: error.message || "Failed to fetch orders" });
+    }
+  });
+
+  app.get("/api/admin/orders/summary", requireAdmin, async (req, res) => {
+    try {
+      const summary = await storage.getOrderSummary();
+      res.json(summary);
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch orders" });
+      res.status(500).json({ message: "Failed to fetch order summary" });
+    }
+  });
+
+  // Invoices and packing slips as print-ready HTML, or ?format=pdf. An
+  // order's invoice number is given the first time its invoice is printed.
+  app.get("/api/admin/orders/invoices", requireAdmin, async (req, res) => {
+    try {
+      const { ids, format } = batchPrintQuerySchema.parse(req.query);
+      const { orders, missing } = await ordersById(ids);
+      if (missing) {
+        return res.status(404).json({ message: `Order ${missing} not found` });
+      }
+
+      const invoiced = await issueInvoices(orders);
+      const settings = await storage.getSiteSettings();
+      await sendPrint(
+        res,
+        format,
+        "Invoices",
+        invoiced.map((order) => invoiceDocument(order, settings))
+      );
+      invoiced.forEach((order) => broadcastUpdate("order:updated", order));
+    } catch (error: any) {
+      res
+        .status(400)
+        .json({ message: error.message || "Failed to print invoices" });
+    }
+  });
+
+  app.get(
+    "/api/admin/orders/packing-slips",
+    requireAdmin,
+    async (req, res) => {
+      try {
+        const { ids, format } = batchPrintQuerySchema.parse(req.query);
+        const { orders, missing } = await ordersById(ids);
+        if (missing) {
+          return res
+            .status(404)
+            .json({ message: `Order ${missing} not found` });
+        }
+
+        const settings = await storage.getSiteSettings();
+        await sendPrint(
+          res,
+          format,
+          "Packing slips",
+          orders.map((order) => packingSlipDocument(order, settings))
+        );
+      } catch (error: any) {
+        res
+          .status(400)
+          .json({ message: error.message || "Failed to print packing slips" });
+      }
+    }
+  );
+
+  app.get("/api/admin/orders/:id/invoice", requireAdmin, async (req, res) => {
+    try {
+      const { format } = printQuerySchema.parse(req.query);
+      const order = await storage.getOrder(req.params.id);
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+
+      const [invoiced] = await issueInvoices([order]);
+      const settings = await storage.getSiteSettings();
+      await sendPrint(res, format, `Invoice ${invoiced.invoiceNumber}`, [
+        invoiceDocument(invoiced, settings),
+      ]);
+      broadcastUpdate("order:updated", invoiced);
+    } catch (error: any) {
+      res
+        .status(400)
+        .json({ message: error.message || "Failed to print invoice" });
     }
   });
 
+  app.get(
+    "/api/admin/orders/:id/packing-slip",
+    requireAdmin,
+    async (req, res) => {
+      try {
+        const { format } = printQuerySchema.parse(req.query);
+        const order = await storage.getOrder(req.params.id);
+        if (!order) {
+          return res.status(404).json({ message: "Order not found" });
+        }
+
+        const settings = await storage.getSiteSettings();
+        await sendPrint(res, format, `Packing slip ${order.id.slice(-8)}`, [
+          packingSlipDocument(order, settings),
+        ]);
+      } catch (error: any) {
+        res
+          .status(400)
+          .json({ message: error.message || "Failed to print packing slip" });
+      }
+    }
+  );
+
   app.get("/api/admin/orders/:id", requireAdmin, async (req, res) => {
     try {
       const order = await storage.getOrder(req.params.id);
@@ -367,24 +1441,97 @@ export function registerRoutes(app: Express): Server {
 
   app.put("/api/admin/orders/:id/status", requireAdmin, async (req, res) => {
     try {
-      const { status } = req.body;
-      if (!["pending", "completed", "cancelled"].includes(status)) {
-        return res.status(400).json({ message: "Invalid status" });
-      }
+      const { status } = updateOrderStatusSchema.parse(req.body);
 
-      const order = await storage.updateOrderStatus(req.params.id, status);
+      const order = await storage.updateOrderStatus(
+        req.params.id,
+        status,
+        adminActor(req)
+      );
       if (!order) {
         return res.status(404).json({ message: "Order not found" });
       }
 
       broadcastUpdate("order:updated", order);
 
+      // Cancelled and returned orders put their items back into stock
+      if (restockingStatuses.includes(order.status)) {
+        const productIds = new Set(order.products.map((p) => p.productId));
+        for (const productId of Array.from(productIds)) {
+          const product = await storage.getProduct(productId);
+          if (product) broadcastUpdate("product:updated", product);
+        }
+      }
+
       res.json(order);
+    } catch (error: any) {
+      res
+        .status(400)
+        .json({ message: error.message || "Failed to update order status" });
+    }
+  });
+
+  // Reservation management
+  app.get("/api/admin/reservations", requireAdmin, async (req, res) => {
+    try {
+      const reservations = await storage.getReservations();
+      res.json(reservations);
     } catch (error) {
-      res.status(500).json({ message: "Failed to update order status" });
+      res.status(500).json({ message: "Failed to fetch reservations" });
     }
   });
 
+  app.post(
+    "/api/admin/reservations/:id/convert",
+    requireAdmin,
+    async (req, res) => {
+      try {
+        const converted = await storage.convertReservation(req.params.id);
+        if (!converted) {
+          return res.status(404).json({ message: "Reservation not found" });
+        }
+
+        broadcastUpdate(
+          "reservation:updated",
+          reservationEvent(converted.reservation)
+        );
+        broadcastUpdate("order:created", converted.order);
+
+        res.status(201).json(converted);
+      } catch (error: any) {
+        res.status(400).json({
+          message: error.message || "Failed to convert reservation",
+        });
+      }
+    }
+  );
+
+  app.post(
+    "/api/admin/reservations/:id/cancel",
+    requireAdmin,
+    async (req, res) => {
+      try {
+        const reservation = await storage.releaseReservation(
+          req.params.id,
+          "cancelled",
+          adminActor(req)
+        );
+        if (!reservation) {
+          return res.status(404).json({ message: "Reservation not found" });
+        }
+
+        broadcastUpdate("reservation:updated", reservationEvent(reservation));
+        await broadcastProduct(reservation.productId);
+
+        res.json(reservation);
+      } catch (error: any) {
+        res.status(400).json({
+          message: error.message || "Failed to cancel reservation",
+        });
+      }
+    }
+  );
+
   // Create HTTP server
   const httpServer = createServer(app);
 
@@ -404,5 +1551,13 @@ export function registerRoutes(app: Express): Server {
     });
   });
 
+  // Put pets back on sale once their hold runs out
+  scheduleReservationExpiry(storage, async (expired) => {
+    for (const reservation of expired) {
+      broadcastUpdate("reservation:updated", reservationEvent(reservation));
+      await broadcastProduct(reservation.productId);
+    }
+  });
+
   return httpServer;
 }
@@ -0,0 +1,141 @@
+// Product text search for MemStorage: an inverted index from terms to the
+// products they appear in, with prefix and typo-tolerant matching.
+// PgStorage searches with tsvector and pg_trgm instead.
+
+// How much a match counts, by the field it's in
+const FIELD_WEIGHTS = {
+  name: 4,
+  category: 3,
+  species: 2,
+  description: 1,
+};
+
+export type SearchDocument = Record<keyof typeof FIELD_WEIGHTS, string | null>;
+
+// How much a match counts, by how closely the term matches
+const EXACT = 1;
+const PREFIX = 0.7;
+const TYPO = 0.4;
+
+// Longest queries the search accepts
+export const MAX_QUERY_LENGTH = 100;
+
+// Lowercased words with accents removed, e.g. "Café Crème" -> cafe, creme
+export function tokenize(text: string): string[] {
+  return text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+// Typos allowed in a query term; short terms must be spelt right
+export function allowedTypos(term: string): number {
+  if (term.length >= 8) return 2;
+  return term.length >= 4 ? 1 : 0;
+}
+
+/**
+ * Edit distance counting a swap of adjacent letters as one edit, as in
+ * "laebl". Gives up once the distance is certain to exceed max.
+ */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + cost
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], beforePrevious[j - 2] + 1);
+      }
+    }
+    if (Math.min(...current) > max) return max + 1;
+    beforePrevious = previous;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// How closely an indexed term matches a query term, 0 for not at all
+function matchQuality(queryTerm: string, term: string): number {
+  if (term === queryTerm) return EXACT;
+  if (queryTerm.length >= 2 && term.startsWith(queryTerm)) return PREFIX;
+
+  const typos = allowedTypos(queryTerm);
+  if (typos > 0 && editDistance(queryTerm, term, typos) <= typos) return TYPO;
+  return 0;
+}
+
+export class SearchIndex {
+  // Term -> product id -> weight of the heaviest field it appears in
+  private postings = new Map<string, Map<string, number>>();
+  // Product id -> its terms, so a product can be re-indexed
+  private documents = new Map<string, Set<string>>();
+
+  set(id: string, document: SearchDocument) {
+    this.remove(id);
+
+    const terms = new Set<string>();
+    for (const [field, weight] of Object.entries(FIELD_WEIGHTS)) {
+      const text = document[field as keyof SearchDocument] ?? "";
+      for (const term of tokenize(text)) {
+        const posting = this.postings.get(term) ?? new Map<string, number>();
+        posting.set(id, Math.max(posting.get(id) ?? 0, weight));
+        this.postings.set(term, posting);
+        terms.add(term);
+      }
+    }
+    this.documents.set(id, terms);
+  }
+
+  remove(id: string) {
+    for (const term of this.documents.get(id) ?? []) {
+      const posting = this.postings.get(term);
+      posting?.delete(id);
+      if (posting?.size === 0) this.postings.delete(term);
+    }
+    this.documents.delete(id);
+  }
+
+  /**
+   * Scores of the products matching every word of the query. Each word
+   * counts by the field it best matches in and how closely it matches.
+   */
+  search(query: string): Map<string, number> {
+    const queryTerms = Array.from(new Set(tokenize(query)));
+    if (queryTerms.length === 0) return new Map();
+
+    const [first, ...rest] = queryTerms.map((term) => this.termScores(term));
+    return rest.reduce(
+      (scores, termScores) =>
+        new Map(
+          [...scores]
+            .filter(([id]) => termScores.has(id))
+            .map(([id, score]) => [id, score + termScores.get(id)!])
+        ),
+      first
+    );
+  }
+
+  // Score of each product matching one word of a query
+  private termScores(queryTerm: string): Map<string, number> {
+    const scores = new Map<string, number>();
+    for (const [term, posting] of this.postings) {
+      const quality = matchQuality(queryTerm, term);
+      if (!quality) continue;
+      for (const [id, weight] of posting) {
+        scores.set(id, Math.max(scores.get(id) ?? 0, quality * weight));
+      }
+    }
+    return scores;
+  }
+}
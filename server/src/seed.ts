@@ -61,6 +61,16 @@ async function seedDatabase() {
       priceInINR: 25000,
       stock: 2,
       available: true,
+      petDetails: {
+        breed: "Golden Retriever",
+        sex: "male",
+        dateOfBirth: "2024-01-10",
+        colour: "Golden",
+        weightKg: 6.5,
+        vaccinations: [{ name: "DHPPi", date: "2024-02-21" }],
+        lastDewormedOn: "2024-02-07",
+        pedigreePapers: true,
+      },
     });
 
     await storage.createProduct({
@@ -73,6 +83,21 @@ async function seedDatabase() {
       priceInINR: 1200,
       stock: 15,
       available: true,
+      options: [{ name: "Pack size", values: ["1kg", "3kg"] }],
+      variants: [
+        {
+          sku: "DOG-FOOD-ADULT-1KG",
+          options: { "Pack size": "1kg" },
+          priceInINR: 1200,
+          stock: 10,
+        },
+        {
+          sku: "DOG-FOOD-ADULT-3KG",
+          options: { "Pack size": "3kg" },
+          priceInINR: 3200,
+          stock: 5,
+        },
+      ],
     });
 
     await storage.createProduct({
@@ -85,6 +110,30 @@ async function seedDatabase() {
       priceInINR: 800,
       stock: 8,
       available: true,
+      options: [
+        { name: "Colour", values: ["Brown", "Black"] },
+        { name: "Size", values: ["M", "L"] },
+      ],
+      variants: [
+        {
+          sku: "DOG-LEASH-BROWN-M",
+          options: { Colour: "Brown", Size: "M" },
+          priceInINR: 800,
+          stock: 3,
+        },
+        {
+          sku: "DOG-LEASH-BROWN-L",
+          options: { Colour: "Brown", Size: "L" },
+          priceInINR: 850,
+          stock: 2,
+        },
+        {
+          sku: "DOG-LEASH-BLACK-M",
+          options: { Colour: "Black", Size: "M" },
+          priceInINR: 800,
+          stock: 3,
+        },
+      ],
     });
 
     // Cat products
@@ -98,6 +147,14 @@ async function seedDatabase() {
       priceInINR: 18000,
       stock: 3,
       available: true,
+      petDetails: {
+        breed: "Persian",
+        sex: "female",
+        dateOfBirth: "2024-01-20",
+        colour: "White",
+        vaccinations: [{ name: "FVRCP", date: "2024-03-15" }],
+        pedigreePapers: false,
+      },
     });
 
     await storage.createProduct({
@@ -135,6 +192,12 @@ async function seedDatabase() {
       priceInINR: 350,
       stock: 12,
       available: true,
+      petDetails: {
+        breed: "Freshwater Angelfish",
+        sex: "pair",
+        vaccinations: [],
+        pedigreePapers: false,
+      },
     });
 
     await storage.createProduct({
@@ -172,6 +235,13 @@ async function seedDatabase() {
       priceInINR: 8000,
       stock: 4,
       available: true,
+      petDetails: {
+        breed: "Cockatiel",
+        sex: "pair",
+        colour: "Grey pied",
+        vaccinations: [],
+        pedigreePapers: false,
+      },
     });
 
     await storage.createProduct({
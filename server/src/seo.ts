@@ -0,0 +1,237 @@
+// Metadata for search engines and link previews. The storefront renders in
+// the browser, so the server puts each page's title, description, Open Graph
+// tags and JSON-LD into index.html before sending it.
+import type { Request } from "express";
+import type { Category, Product } from "@shared/schema.js";
+import { storage } from "./storage.js";
+
+const SITE_NAME = "PetShopForest";
+
+// Longest description worth sending; search results cut them off about here
+const MAX_DESCRIPTION_LENGTH = 160;
+
+export type PageMetadata = {
+  // 404 for a product or category that doesn't exist
+  status: number;
+  title: string;
+  description: string;
+  // Absolute URLs, as link previews need
+  url: string;
+  image?: string;
+  type: "website" | "product";
+  jsonLd?: object;
+};
+
+// Where the site is reached publicly; SITE_URL overrides what the request
+// says when a proxy in front of the server hides it
+export function siteOrigin(req: Request): string {
+  return (process.env.SITE_URL ?? `${req.protocol}://${req.get("host")}`)
+    .replace(/\/+$/, "");
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function truncate(text: string): string {
+  const singleLine = text.replace(/\s+/g, " ").trim();
+  if (singleLine.length <= MAX_DESCRIPTION_LENGTH) return singleLine;
+  return `${singleLine.slice(0, MAX_DESCRIPTION_LENGTH - 1).trimEnd()}…`;
+}
+
+function productJsonLd(
+  product: Product,
+  category: Category | undefined,
+  url: string,
+  images: string[]
+) {
+  const inStock = product.available && product.stock > 0;
+  return {
+    "@context": "https://schema.org",
+    "@type": "Product",
+    name: product.name,
+    description: product.description,
+    image: images,
+    url,
+    ...(category ? { category: category.name } : {}),
+    ...(product.variants[0] ? { sku: product.variants[0].sku } : {}),
+    offers: {
+      "@type": "Offer",
+      url,
+      priceCurrency: "INR",
+      price: product.priceInINR,
+      availability: inStock
+        ? "https://schema.org/InStock"
+        : "https://schema.org/OutOfStock",
+    },
+  };
+}
+
+/**
+ * What a storefront URL shows, looked up from the catalogue: the product or
+ * category it names, or the section. Paths outside the storefront get the
+ * site's own description.
+ */
+export async function pageMetadata(
+  path: string,
+  origin: string
+): Promise<PageMetadata> {
+  const settings = await storage.getSiteSettings();
+  const page: PageMetadata = {
+    status: 200,
+    title: SITE_NAME,
+    description: truncate(settings.description),
+    url: `${origin}${path}`,
+    type: "website",
+  };
+
+  const productSlug = path.match(/^\/product\/([^/]+)$/)?.[1];
+  const categorySlug = path.match(/^\/shop\/([^/]+)$/)?.[1];
+
+  if (productSlug) {
+    const product = await storage.getProductBySlug(
+      decodeURIComponent(productSlug)
+    );
+    if (!product || product.archivedAt) {
+      const title = `Product not found | ${SITE_NAME}`;
+      return { ...page, status: 404, title };
+    }
+    const category = product.categoryId
+      ? await storage.getCategory(product.categoryId)
+      : undefined;
+    const images = product.images.map((image) =>
+      new URL(image.src, origin).toString()
+    );
+    return {
+      ...page,
+      title: `${product.name} | ${SITE_NAME}`,
+      description: truncate(product.description),
+      image: images[0],
+      type: "product",
+      jsonLd: productJsonLd(product, category, page.url, images),
+    };
+  }
+
+  if (categorySlug) {
+    const slug = decodeURIComponent(categorySlug);
+    const categories = await storage.getCategories();
+    const category = categories.find((c) => c.slug === slug);
+    if (!category) {
+      const title = `Category not found | ${SITE_NAME}`;
+      return { ...page, status: 404, title };
+    }
+    return {
+      ...page,
+      title: `${category.name} | ${SITE_NAME}`,
+      description: truncate(
+        category.description || `Shop ${category.name} at ${SITE_NAME}.`
+      ),
+    };
+  }
+
+  if (path === "/shop") return { ...page, title: `Shop | ${SITE_NAME}` };
+  if (path === "/contact") {
+    return {
+      ...page,
+      title: `Contact | ${SITE_NAME}`,
+      description:
+        `Visit ${SITE_NAME} at 123 Forest Grove Lane, Mumbai, ` +
+        "or call +91 98765 43210.",
+    };
+  }
+  return page;
+}
+
+// The page's tags, placed at the end of index.html's <head>
+export function injectMetadata(html: string, page: PageMetadata): string {
+  const title = escapeHtml(page.title);
+  const description = escapeHtml(page.description);
+  const url = escapeHtml(page.url);
+  const tags = [
+    `<title>${title}</title>`,
+    `<meta name="description" content="${description}" />`,
+    `<link rel="canonical" href="${url}" />`,
+    `<meta property="og:site_name" content="${SITE_NAME}" />`,
+    `<meta property="og:type" content="${page.type}" />`,
+    `<meta property="og:title" content="${title}" />`,
+    `<meta property="og:description" content="${description}" />`,
+    `<meta property="og:url" content="${url}" />`,
+    ...(page.image
+      ? [
+          `<meta property="og:image" content="${escapeHtml(page.image)}" />`,
+          `<meta name="twitter:card" content="summary_large_image" />`,
+        ]
+      : []),
+    // "<" is escaped so text in the catalogue can't close the script
+    ...(page.jsonLd
+      ? [
+          `<script type="application/ld+json">${JSON.stringify(
+            page.jsonLd
+          ).replace(/</g, "\\u003c")}</script>`,
+        ]
+      : []),
+  ];
+  return html.replace("</head>", `  ${tags.join("\n    ")}\n  </head>`);
+}
+
+// Every storefront page worth indexing: the sections, each category and
+// each product that's still listed
+export async function renderSitemap(origin: string): Promise<string> {
+  const categories = await storage.getCategories();
+  const { items: products } = await storage.getProducts();
+
+  const paths = [
+    "/",
+    "/shop",
+    "/contact",
+    ...categories.map((category) => `/shop/${category.slug}`),
+    ...products.map((product) => `/product/${product.slug}`),
+  ];
+  const urls = paths.map(
+    (path) => `  <url><loc>${escapeHtml(`${origin}${path}`)}</loc></url>`
+  );
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">`,
+    ...urls,
+    `</urlset>`,
+    "",
+  ].join("\n");
+}
+
+/**
+ * index.html for the requested page with its metadata, and the status to
+ * send it with. The page is still served, without metadata, if the
+ * catalogue can't be read.
+ */
+export async function renderPage(
+  req: Request,
+  html: string
+): Promise<{ status: number; html: string }> {
+  try {
+    const path = req.originalUrl.split("?")[0];
+    const page = await pageMetadata(path, siteOrigin(req));
+    return { status: page.status, html: injectMetadata(html, page) };
+  } catch (error) {
+    console.error("Failed to render page metadata:", error);
+    return { status: 200, html };
+  }
+}
+
+export function renderRobots(origin: string): string {
+  return [
+    "User-agent: *",
+    "Disallow: /admin",
+    "Disallow: /auth",
+    "Disallow: /account",
+    "Disallow: /api/",
+    "",
+    `Sitemap: ${origin}/sitemap.xml`,
+    "",
+  ].join("\n");
+}
@@ -0,0 +1,20 @@
+// URL slugs for categories and products, e.g. "Dog Food" -> dog-food. They
+// name storefront pages (/shop/dog-food, /product/royal-canin-adult), so no
+// two categories and no two products share one.
+
+export function toSlug(name: string): string {
+  const slug = name
+    .toLowerCase()
+    .replace(/\s+/g, "-")
+    .replace(/[^a-z0-9-]/g, "");
+  return slug || "item";
+}
+
+// The name's slug, numbered (-2, -3, ...) when another item already has it
+export function uniqueSlug(name: string, taken: Iterable<string>): string {
+  const base = toSlug(name);
+  const takenSlugs = new Set(taken);
+  let slug = base;
+  for (let n = 2; takenSlugs.has(slug); n++) slug = `${base}-${n}`;
+  return slug;
+}
@@ -1,23 +1,137 @@
 import {
   type Admin,
   type InsertAdmin,
+  type Customer,
+  type UpdateCustomer,
+  type LoginCode,
+  type InsertLoginCode,
+  type CustomerAddress,
+  type InsertCustomerAddress,
+  type DeliveryZone,
+  type InsertDeliveryZone,
   type Category,
   type InsertCategory,
+  type CategoryDeletion,
   type Product,
+  type ProductVariant,
+  type ProductImage,
+  type ArrangeProductImages,
   type InsertProduct,
+  type StockMovement,
+  type StockSeen,
+  type InsertStockMovement,
   type Order,
+  type OrderGst,
+  type OrderStatus,
+  type OrderSummary,
   type InsertOrder,
+  type Reservation,
+  type ReservationStatus,
+  type InsertReservation,
+  type StoredCart,
   type SiteSettings,
   type UpdateSiteSettings,
   type User,
   type InsertUser,
+  type ListSort,
+  type Page,
 } from "@shared/schema.js";
+import { categoryWithDescendants } from "../../shared/schema.js";
 import { randomUUID } from "crypto";
 import session from "express-session";
 import createMemoryStore from "memorystore";
+import pg from "pg";
+import { PgStorage } from "./pg-storage.js";
+import {
+  requestedQuantities,
+  assertStockAvailable,
+  priceOrderLines,
+  recordStatusChange,
+  shouldRestock,
+} from "./orders.js";
+import {
+  assertPrefixesFree,
+  deliveryFromQuote,
+  quoteDelivery,
+  storePickup,
+  type OrderDelivery,
+} from "./delivery.js";
+import { orderGst, orderTotalINR } from "./gst.js";
+import {
+  assertInvoiceable,
+  financialYear,
+  formatInvoiceNumber,
+} from "./invoices.js";
+import {
+  applyStockChange,
+  orderReference,
+  reservationReference,
+  stockAfter,
+  type StockChange,
+} from "./inventory.js";
+import {
+  describeLine,
+  lineVariant,
+  reconcileStock,
+  resolveVariant,
+  stockEdits,
+  variantRows,
+  variantTotals,
+} from "./variants.js";
+import { assertActive, assertReservable, holdExpiry } from "./reservations.js";
+import { arrangeImages, removeImage } from "./gallery.js";
+import { SearchIndex } from "./search.js";
+import { assertDeletable, assertValidParent } from "./categories.js";
+import { uniqueSlug } from "./slugs.js";
+import { paginate, type PageRequest, type SortKey } from "./pagination.js";
 
 const MemoryStore = createMemoryStore(session);
 
+export type ProductFilters = {
+  // Includes the categories below it
+  categoryId?: string;
+  type?: Product["type"];
+  species?: string;
+  // Text search; matches come best first unless a sort is asked for
+  q?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  inStock?: boolean;
+  available?: boolean;
+};
+
+// A product to create along with its already processed gallery
+export type NewProduct = {
+  product: InsertProduct;
+  images: ProductImage[];
+};
+
+export type OrderFilters = {
+  // Order total
+  minPrice?: number;
+  maxPrice?: number;
+  customerId?: string;
+};
+
+const productSortKeys: Record<ListSort, SortKey<Product>> = {
+  newest: { of: (product) => product.createdAt.getTime(), descending: true },
+  price: { of: (product) => product.priceInINR },
+  name: { of: (product) => product.name.toLowerCase() },
+};
+
+const orderSortKeys: Record<ListSort, SortKey<Order>> = {
+  newest: { of: (order) => order.createdAt.getTime(), descending: true },
+  price: { of: (order) => order.totalAmountINR },
+  name: { of: (order) => order.customer.name.toLowerCase() },
+};
+
+const inPriceRange = (
+  price: number,
+  { minPrice, maxPrice }: { minPrice?: number; maxPrice?: number }
+) =>
+  (minPrice === undefined || price >= minPrice) &&
+  (maxPrice === undefined || price <= maxPrice);
+
 export interface IStorage {
   // User methods (for auth compatibility)
   getUser(id: string): Promise<User | undefined>;
@@ -29,6 +143,36 @@ export interface IStorage {
   getAdminByEmail(email: string): Promise<Admin | undefined>;
   createAdmin(admin: InsertAdmin): Promise<Admin>;
 
+  // Customer methods
+  getCustomer(id: string): Promise<Customer | undefined>;
+  // The account for a verified number, created on its first sign-in
+  findOrCreateCustomer(phone: string): Promise<Customer>;
+  updateCustomer(
+    id: string,
+    customer: UpdateCustomer
+  ): Promise<Customer | undefined>;
+
+  // Login code methods; a number has one code at a time
+  getLoginCode(phone: string): Promise<LoginCode | undefined>;
+  // Replaces any code sent before, with no attempts used
+  saveLoginCode(loginCode: InsertLoginCode): Promise<LoginCode>;
+  // Counts an attempt at the code and returns the code as it then stands
+  recordLoginAttempt(phone: string): Promise<LoginCode | undefined>;
+  deleteLoginCode(phone: string): Promise<void>;
+
+  // Address book methods; a customer only reaches their own addresses
+  getCustomerAddresses(customerId: string): Promise<CustomerAddress[]>;
+  createCustomerAddress(
+    customerId: string,
+    address: InsertCustomerAddress
+  ): Promise<CustomerAddress>;
+  updateCustomerAddress(
+    customerId: string,
+    id: string,
+    address: InsertCustomerAddress
+  ): Promise<CustomerAddress | undefined>;
+  deleteCustomerAddress(customerId: string, id: string): Promise<boolean>;
+
   // Category methods
   getCategories(): Promise<Category[]>;
   getCategory(id: string): Promise<Category | undefined>;
@@ -37,38 +181,123 @@ export interface IStorage {
     id: string,
     category: Partial<InsertCategory>
   ): Promise<Category | undefined>;
-  deleteCategory(id: string): Promise<boolean>;
+  // Refuses while products are left in the category, unless the deletion
+  // says to move them to another category or archive them
+  deleteCategory(id: string, deletion?: CategoryDeletion): Promise<boolean>;
+  // Products in the category itself, not its subcategories; archived ones
+  // aren't counted
+  countCategoryProducts(id: string): Promise<number>;
 
   // Product methods
-  getProducts(filters?: {
-    categoryId?: string;
-    type?: string;
-    species?: string;
-  }): Promise<Product[]>;
+  // Newest first by default, or best match first when searching
+  getProducts(
+    filters?: ProductFilters,
+    page?: PageRequest
+  ): Promise<Page<Product>>;
   getProduct(id: string): Promise<Product | undefined>;
-  createProduct(product: InsertProduct): Promise<Product>;
+  getProductBySlug(slug: string): Promise<Product | undefined>;
+  // Both save the product's variants with it and record any change to
+  // stock, per variant where it has them, in the ledger against actor.
+  // Updates made from a form pass the stock it showed; see reconcileStock.
+  // New products can be saved with their already processed gallery
+  createProduct(
+    product: InsertProduct,
+    actor?: string,
+    images?: ProductImage[]
+  ): Promise<Product>;
+  // Creates all of them or, if any fails, none
+  createProducts(products: NewProduct[], actor?: string): Promise<Product[]>;
   updateProduct(
     id: string,
-    product: Partial<InsertProduct>
+    product: Partial<InsertProduct>,
+    actor?: string,
+    stockSeen?: StockSeen
   ): Promise<Product | undefined>;
   deleteProduct(id: string): Promise<boolean>;
-  updateProductImages(
+  // Gallery methods; the first image is the product's cover
+  addProductImages(
     id: string,
-    images: string[]
+    images: ProductImage[]
   ): Promise<Product | undefined>;
-  updateProductStock(
+  arrangeProductImages(
     id: string,
-    newStock: number
+    arrangement: ArrangeProductImages["images"]
   ): Promise<Product | undefined>;
+  // Returns the removed image so its files can be deleted
+  removeProductImage(
+    id: string,
+    src: string
+  ): Promise<{ product: Product; image: ProductImage } | undefined>;
+
+  // Stock ledger methods; movements for a product with variants name one
+  adjustProductStock(
+    id: string,
+    movement: InsertStockMovement,
+    actor: string
+  ): Promise<Product | undefined>;
+  getStockMovements(productId: string): Promise<StockMovement[]>;
 
   // Order methods
-  getOrders(): Promise<Order[]>;
+  // Newest first by default
+  getOrders(filters?: OrderFilters, page?: PageRequest): Promise<Page<Order>>;
+  getOrderSummary(): Promise<OrderSummary>;
   getOrder(id: string): Promise<Order | undefined>;
-  createOrder(order: InsertOrder, products: Product[]): Promise<Order>;
+  // Validates stock, decrements it and creates the order as one atomic step;
+  // customerId is the signed-in customer's account, if any
+  placeOrder(order: InsertOrder, customerId?: string): Promise<Order>;
   updateOrderStatus(
     id: string,
-    status: "pending" | "completed" | "cancelled"
+    status: OrderStatus,
+    actor: string
   ): Promise<Order | undefined>;
+  // Gives the order the next invoice number of the financial year, unless it
+  // has one already; throws for orders that were called off first
+  issueInvoice(id: string): Promise<Order | undefined>;
+
+  // Reservation methods
+  getReservations(status?: ReservationStatus): Promise<Reservation[]>;
+  // Takes one unit of the pet out of stock for holdHours
+  createReservation(
+    reservation: InsertReservation,
+    holdHours: number
+  ): Promise<Reservation>;
+  // Ends an active hold and puts the unit back into stock
+  releaseReservation(
+    id: string,
+    status: "expired" | "cancelled",
+    actor: string
+  ): Promise<Reservation | undefined>;
+  // Releases every active hold that ran out by now
+  expireReservations(now: Date): Promise<Reservation[]>;
+  // Places an order for the held unit; stock was already taken by the hold
+  convertReservation(
+    id: string
+  ): Promise<{ reservation: Reservation; order: Order } | undefined>;
+
+  // Cart methods; variantId is empty for products without variants
+  getCart(id: string): Promise<StoredCart | undefined>;
+  createCart(): Promise<StoredCart>;
+  setCartItem(
+    cartId: string,
+    productId: string,
+    variantId: string,
+    quantity: number
+  ): Promise<StoredCart | undefined>;
+  removeCartItem(
+    cartId: string,
+    productId: string,
+    variantId: string
+  ): Promise<StoredCart | undefined>;
+  clearCart(cartId: string): Promise<void>;
+
+  // Delivery zone methods; a PIN prefix belongs to one zone at most
+  getDeliveryZones(): Promise<DeliveryZone[]>;
+  createDeliveryZone(zone: InsertDeliveryZone): Promise<DeliveryZone>;
+  updateDeliveryZone(
+    id: string,
+    zone: InsertDeliveryZone
+  ): Promise<DeliveryZone | undefined>;
+  deleteDeliveryZone(id: string): Promise<boolean>;
 
   // Site settings methods
   getSiteSettings(): Promise<SiteSettings>;
@@ -81,10 +310,21 @@ export interface IStorage {
 export class MemStorage implements IStorage {
   private users: Map<string, User>;
   private admins: Map<string, Admin>;
+  private customers = new Map<string, Customer>();
+  private loginCodes = new Map<string, LoginCode>();
+  private customerAddresses = new Map<string, CustomerAddress>();
   private categories: Map<string, Category>;
   private products: Map<string, Product>;
+  private searchIndex = new SearchIndex();
+  private stockMovements: StockMovement[];
   private orders: Map<string, Order>;
+  private reservations: Map<string, Reservation>;
+  private carts: Map<string, StoredCart>;
+  private deliveryZones = new Map<string, DeliveryZone>();
+  // Last invoice number given, by financial year
+  private invoiceSequences = new Map<string, number>();
   private siteSettings: SiteSettings;
+  private orderLock: Promise<unknown> = Promise.resolve();
   public sessionStore: session.Store;
 
   constructor() {
@@ -92,7 +332,10 @@ export class MemStorage implements IStorage {
     this.admins = new Map();
     this.categories = new Map();
     this.products = new Map();
+    this.stockMovements = [];
     this.orders = new Map();
+    this.reservations = new Map();
+    this.carts = new Map();
 
     // Initialize default site settings
     this.siteSettings = {
@@ -100,6 +343,12 @@ export class MemStorage implements IStorage {
       description:
         "Discover a magical world of pets, premium food, and accessories in our enchanted forest marketplace. Every creature deserves the finest care nature can provide.",
       youtubeUrl: "https://www.youtube.com/embed/dQw4w9WgXcQ",
+      reservationHoldHours: 24,
+      gstState: null,
+      pricesIncludeGst: true,
+      businessName: "PetShopForest",
+      businessAddress: "",
+      gstin: "",
       updatedAt: new Date(),
     };
 
@@ -174,6 +423,105 @@ export class MemStorage implements IStorage {
     return admin;
   }
 
+  // Customer methods
+  async getCustomer(id: string): Promise<Customer | undefined> {
+    return this.customers.get(id);
+  }
+
+  async findOrCreateCustomer(phone: string): Promise<Customer> {
+    const existing = Array.from(this.customers.values()).find(
+      (customer) => customer.phone === phone
+    );
+    if (existing) return existing;
+
+    const customer: Customer = {
+      id: randomUUID(),
+      phone,
+      name: "",
+      email: "",
+      createdAt: new Date(),
+    };
+    this.customers.set(customer.id, customer);
+    return customer;
+  }
+
+  async updateCustomer(
+    id: string,
+    updateData: UpdateCustomer
+  ): Promise<Customer | undefined> {
+    const customer = this.customers.get(id);
+    if (!customer) return undefined;
+    const updated = { ...customer, ...updateData };
+    this.customers.set(id, updated);
+    return updated;
+  }
+
+  // Login code methods
+  async getLoginCode(phone: string): Promise<LoginCode | undefined> {
+    return this.loginCodes.get(phone);
+  }
+
+  async saveLoginCode(insertLoginCode: InsertLoginCode): Promise<LoginCode> {
+    const loginCode = { ...insertLoginCode, attempts: 0, sentAt: new Date() };
+    this.loginCodes.set(loginCode.phone, loginCode);
+    return loginCode;
+  }
+
+  async recordLoginAttempt(phone: string): Promise<LoginCode | undefined> {
+    const loginCode = this.loginCodes.get(phone);
+    if (!loginCode) return undefined;
+    const attempted = { ...loginCode, attempts: loginCode.attempts + 1 };
+    this.loginCodes.set(phone, attempted);
+    return attempted;
+  }
+
+  async deleteLoginCode(phone: string): Promise<void> {
+    this.loginCodes.delete(phone);
+  }
+
+  // Address book methods
+  async getCustomerAddresses(customerId: string): Promise<CustomerAddress[]> {
+    return Array.from(this.customerAddresses.values())
+      .filter((address) => address.customerId === customerId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async createCustomerAddress(
+    customerId: string,
+    insertAddress: InsertCustomerAddress
+  ): Promise<CustomerAddress> {
+    const address: CustomerAddress = {
+      ...insertAddress,
+      id: randomUUID(),
+      customerId,
+      createdAt: new Date(),
+    };
+    this.customerAddresses.set(address.id, address);
+    return address;
+  }
+
+  async updateCustomerAddress(
+    customerId: string,
+    id: string,
+    updateData: InsertCustomerAddress
+  ): Promise<CustomerAddress | undefined> {
+    const address = this.customerAddresses.get(id);
+    if (address?.customerId !== customerId) return undefined;
+    const updated = { ...address, ...updateData };
+    this.customerAddresses.set(id, updated);
+    return updated;
+  }
+
+  async deleteCustomerAddress(
+    customerId: string,
+    id: string
+  ): Promise<boolean> {
+    if (this.customerAddresses.get(id)?.customerId !== customerId) {
+      return false;
+    }
+    return this.customerAddresses.delete(id);
+  }
+
   // Category methods
   async getCategories(): Promise<Category[]> {
     return Array.from(this.categories.values()).sort(
@@ -186,15 +534,24 @@ export class MemStorage implements IStorage {
   }
 
   async createCategory(insertCategory: InsertCategory): Promise<Category> {
+    assertValidParent(
+      Array.from(this.categories.values()),
+      null,
+      insertCategory.parentId
+    );
+
     const id = randomUUID();
-    const slug = insertCategory.name
-      .toLowerCase()
-      .replace(/\s+/g, "-")
-      .replace(/[^a-z0-9-]/g, "");
+    const slug = uniqueSlug(
+      insertCategory.name,
+      Array.from(this.categories.values()).map((category) => category.slug)
+    );
     const category: Category = {
       ...insertCategory,
       id,
       slug,
+      parentId: insertCategory.parentId ?? null,
+      hsnCode: insertCategory.hsnCode ?? null,
+      gstRatePercent: insertCategory.gstRatePercent ?? null,
       createdAt: new Date(),
     };
     this.categories.set(id, category);
@@ -207,149 +564,435 @@ export class MemStorage implements IStorage {
   ): Promise<Category | undefined> {
     const category = this.categories.get(id);
     if (!category) return undefined;
+    assertValidParent(
+      Array.from(this.categories.values()),
+      id,
+      updateData.parentId
+    );
 
     const updatedCategory: Category = {
       ...category,
       ...updateData,
       slug: updateData.name
-        ? updateData.name
-            .toLowerCase()
-            .replace(/\s+/g, "-")
-            .replace(/[^a-z0-9-]/g, "")
+        ? uniqueSlug(updateData.name, this.otherSlugs(this.categories, id))
         : category.slug,
     };
     this.categories.set(id, updatedCategory);
+    for (const product of Array.from(this.products.values())) {
+      if (product.categoryId === id) this.indexProduct(product);
+    }
     return updatedCategory;
   }
 
-  async deleteCategory(id: string): Promise<boolean> {
-    return this.categories.delete(id);
+  async deleteCategory(
+    id: string,
+    deletion: CategoryDeletion = {}
+  ): Promise<boolean> {
+    if (!this.categories.has(id)) return false;
+    assertDeletable(
+      Array.from(this.categories.values()),
+      id,
+      await this.countCategoryProducts(id),
+      deletion
+    );
+
+    // Products left behind are all archived by now and lose their category
+    for (const product of Array.from(this.products.values())) {
+      if (product.categoryId !== id) continue;
+      const moved = deletion.reassignTo
+        ? { ...product, categoryId: deletion.reassignTo }
+        : {
+            ...product,
+            categoryId: null,
+            available: false,
+            archivedAt: product.archivedAt ?? new Date(),
+          };
+      this.products.set(product.id, moved);
+      this.indexProduct(moved);
+    }
+
+    this.categories.delete(id);
+    // Its subcategories move up to the top level
+    for (const category of Array.from(this.categories.values())) {
+      if (category.parentId === id) {
+        this.categories.set(category.id, { ...category, parentId: null });
+      }
+    }
+    return true;
+  }
+
+  async countCategoryProducts(id: string): Promise<number> {
+    return Array.from(this.products.values()).filter(
+      (p) => p.categoryId === id && !p.archivedAt
+    ).length;
   }
 
   // Product methods
-  async getProducts(filters?: {
-    categoryId?: string;
-    type?: string;
-    species?: string;
-  }): Promise<Product[]> {
-    let products = Array.from(this.products.values());
-
-    if (filters?.categoryId) {
-      products = products.filter((p) => p.categoryId === filters.categoryId);
+  async getProducts(
+    filters: ProductFilters = {},
+    page: PageRequest = {}
+  ): Promise<Page<Product>> {
+    let products = Array.from(this.products.values()).filter(
+      (p) => !p.archivedAt
+    );
+    const scores = filters.q ? this.searchIndex.search(filters.q) : null;
+
+    if (scores) {
+      products = products.filter((p) => scores.has(p.id));
+    }
+    if (filters.categoryId) {
+      const categoryIds = categoryWithDescendants(
+        Array.from(this.categories.values()),
+        filters.categoryId
+      );
+      products = products.filter(
+        (p) => p.categoryId !== null && categoryIds.includes(p.categoryId)
+      );
     }
-    if (filters?.type) {
+    if (filters.type) {
       products = products.filter((p) => p.type === filters.type);
     }
-    if (filters?.species) {
+    if (filters.species) {
       products = products.filter((p) => p.species === filters.species);
     }
+    products = products.filter((p) => inPriceRange(p.priceInINR, filters));
+    if (filters.inStock) {
+      products = products.filter((p) => p.stock > 0);
+    }
+    if (filters.available !== undefined) {
+      products = products.filter((p) => p.available === filters.available);
+    }
 
-    return products.sort(
-      (a, b) => a.createdAt.getTime() - b.createdAt.getTime()
-    );
+    const sortKey: SortKey<Product> =
+      scores && !page.sort
+        ? { of: (p) => scores.get(p.id)!, descending: true }
+        : productSortKeys[page.sort ?? "newest"];
+    return paginate(products, sortKey, page);
+  }
+
+  // Keeps the search index in step with a product and its category's name
+  private indexProduct(product: Product) {
+    this.searchIndex.set(product.id, {
+      name: product.name,
+      category: product.categoryId
+        ? (this.categories.get(product.categoryId)?.name ?? null)
+        : null,
+      species: product.species,
+      description: product.description,
+    });
+  }
+
+  // Slugs taken by every item but the one with this id
+  private otherSlugs(items: Map<string, { slug: string }>, id: string) {
+    return Array.from(items.entries())
+      .filter(([itemId]) => itemId !== id)
+      .map(([, item]) => item.slug);
   }
 
   async getProduct(id: string): Promise<Product | undefined> {
     return this.products.get(id);
   }
 
-  async createProduct(insertProduct: InsertProduct): Promise<Product> {
+  async getProductBySlug(slug: string): Promise<Product | undefined> {
+    return Array.from(this.products.values()).find((p) => p.slug === slug);
+  }
+
+  async createProduct(
+    insertProduct: InsertProduct,
+    actor = "system",
+    images: ProductImage[] = []
+  ): Promise<Product> {
+    const { variants, ...fields } = insertProduct;
     const id = randomUUID();
+    const productVariants = variantRows(id, variants ?? []);
     const product: Product = {
-      ...insertProduct,
+      ...fields,
+      ...variantTotals(fields, productVariants),
       id,
-      images: [],
+      slug: uniqueSlug(fields.name, this.otherSlugs(this.products, id)),
+      species: fields.species ?? null,
+      weightGrams: fields.weightGrams ?? null,
+      hsnCode: fields.hsnCode ?? null,
+      gstRatePercent: fields.gstRatePercent ?? null,
+      petDetails: fields.petDetails ?? null,
+      options: fields.options ?? [],
+      variants: productVariants,
+      images,
+      archivedAt: null,
       createdAt: new Date(),
     };
     this.products.set(id, product);
+    this.indexProduct(product);
+
+    for (const { variantId, quantity } of stockEdits(undefined, product)) {
+      this.recordStockMovement(product, {
+        type: "received",
+        quantity,
+        variantId,
+        actor,
+        reason: "Opening stock",
+      });
+    }
     return product;
   }
 
+  async createProducts(
+    products: NewProduct[],
+    actor = "system"
+  ): Promise<Product[]> {
+    // Under the lock so no order sees some of them and not the others
+    return this.withOrderLock(async () => {
+      const created: Product[] = [];
+      for (const { product, images } of products) {
+        created.push(await this.createProduct(product, actor, images));
+      }
+      return created;
+    });
+  }
+
   async updateProduct(
     id: string,
-    updateData: Partial<InsertProduct>
+    updateData: Partial<InsertProduct>,
+    actor = "system",
+    stockSeen?: StockSeen
   ): Promise<Product | undefined> {
     const product = this.products.get(id);
     if (!product) return undefined;
 
-    const updatedProduct: Product = {
+    const { variants, ...fields } = stockSeen
+      ? reconcileStock(product, updateData, stockSeen)
+      : updateData;
+    const productVariants = variants
+      ? variantRows(id, variants, product.variants)
+      : product.variants;
+    const merged = {
       ...product,
-      ...updateData,
+      ...fields,
+      slug: fields.name
+        ? uniqueSlug(fields.name, this.otherSlugs(this.products, id))
+        : product.slug,
+      variants: productVariants,
+    };
+    const updatedProduct: Product = {
+      ...merged,
+      ...variantTotals(merged, productVariants),
     };
     this.products.set(id, updatedProduct);
+    this.indexProduct(updatedProduct);
+
+    for (const edit of stockEdits(product, updatedProduct)) {
+      this.recordStockMovement(updatedProduct, {
+        type: "adjustment",
+        quantity: edit.quantity,
+        variantId: edit.variantId,
+        actor,
+        reason: "Stock edited",
+      });
+    }
     return updatedProduct;
   }
 
   async deleteProduct(id: string): Promise<boolean> {
+    this.searchIndex.remove(id);
     return this.products.delete(id);
   }
 
-  async updateProductImages(
+  // Gallery methods
+  async addProductImages(
     id: string,
-    images: string[]
+    images: ProductImage[]
   ): Promise<Product | undefined> {
     const product = this.products.get(id);
     if (!product) return undefined;
 
-    product.images = images;
-    this.products.set(id, product);
+    product.images = [...product.images, ...images];
     return product;
   }
 
-  async updateProductStock(
+  async arrangeProductImages(
     id: string,
-    newStock: number
+    arrangement: ArrangeProductImages["images"]
   ): Promise<Product | undefined> {
     const product = this.products.get(id);
     if (!product) return undefined;
 
-    product.stock = newStock;
-    this.products.set(id, product);
+    product.images = arrangeImages(product.images, arrangement);
+    return product;
+  }
+
+  async removeProductImage(
+    id: string,
+    src: string
+  ): Promise<{ product: Product; image: ProductImage } | undefined> {
+    const product = this.products.get(id);
+    const image = product?.images.find((i) => i.src === src);
+    if (!product || !image) return undefined;
+
+    Object.assign(product, removeImage(product, src));
+    return { product, image };
+  }
+
+  // Stock ledger methods
+  async adjustProductStock(
+    id: string,
+    movement: InsertStockMovement,
+    actor: string
+  ): Promise<Product | undefined> {
+    const product = this.products.get(id);
+    if (!product) return undefined;
+
+    const variant = resolveVariant(product, movement.variantId);
+    this.changeStock(product, variant, movement.quantity);
+    this.recordStockMovement(product, {
+      ...movement,
+      variantId: variant?.id ?? null,
+      actor,
+    });
     return product;
   }
 
+  async getStockMovements(productId: string): Promise<StockMovement[]> {
+    return this.stockMovements
+      .filter((movement) => movement.productId === productId)
+      .reverse();
+  }
+
+  // Applies a signed change to a variant, and so to its product's total
+  private changeStock(
+    product: Product,
+    variant: ProductVariant | null,
+    quantity: number
+  ) {
+    if (variant) {
+      variant.stock = applyStockChange(
+        { name: describeLine(product, variant), stock: variant.stock },
+        quantity
+      );
+    }
+    product.stock = applyStockChange(product, quantity);
+  }
+
+  // Appends to the ledger once the change has been applied to the stock
+  private recordStockMovement(product: Product, change: StockChange) {
+    this.stockMovements.push({
+      ...change,
+      id: randomUUID(),
+      productId: product.id,
+      variantId: change.variantId ?? null,
+      stockAfter: stockAfter(product, change.variantId),
+      orderId: change.orderId ?? null,
+      createdAt: new Date(),
+      sequence: this.stockMovements.length + 1,
+    });
+  }
+
   // Order methods
-  async getOrders(): Promise<Order[]> {
-    return Array.from(this.orders.values()).sort(
-      (a, b) => b.createdAt.getTime() - a.createdAt.getTime()
+  async getOrders(
+    filters: OrderFilters = {},
+    page: PageRequest = {}
+  ): Promise<Page<Order>> {
+    const orders = Array.from(this.orders.values()).filter(
+      (order) =>
+        inPriceRange(order.totalAmountINR, filters) &&
+        (!filters.customerId || order.customerId === filters.customerId)
     );
+    return paginate(orders, orderSortKeys[page.sort ?? "newest"], page);
+  }
+
+  async getOrderSummary(): Promise<OrderSummary> {
+    const orders = Array.from(this.orders.values());
+    return {
+      count: orders.length,
+      revenueINR: orders.reduce((sum, order) => sum + order.totalAmountINR, 0),
+    };
   }
 
   async getOrder(id: string): Promise<Order | undefined> {
     return this.orders.get(id);
   }
 
-  async createOrder(
+  async placeOrder(
     insertOrder: InsertOrder,
-    products: Product[]
+    customerId?: string
   ): Promise<Order> {
-    const id = randomUUID();
+    return this.withOrderLock(async () => {
+      const requests = requestedQuantities(insertOrder.products);
+      const products = requests
+        .map(({ productId }) => this.products.get(productId))
+        .filter((product): product is Product => !!product);
 
-    // Calculate order details
-    const orderProducts = insertOrder.products.map((orderProduct) => {
-      const product = products.find((p) => p.id === orderProduct.productId);
-      if (!product)
-        throw new Error(`Product ${orderProduct.productId} not found`);
-
-      return {
-        productId: orderProduct.productId,
-        name: product.name,
-        priceInINR: product.priceInINR,
-        quantity: orderProduct.quantity,
-      };
-    });
+      // Validate every line before touching stock so a failure changes nothing
+      assertStockAvailable(requests, products);
 
-    const totalAmountINR = orderProducts.reduce(
-      (total, product) => total + product.priceInINR * product.quantity,
-      0
-    );
+      const priced = priceOrderLines(insertOrder.products, products);
+      const delivery = deliveryFromQuote(
+        quoteDelivery(
+          await this.getDeliveryZones(),
+          insertOrder.customer.address.pinCode,
+          insertOrder.products,
+          products,
+          priced.subtotalINR
+        )
+      );
+      const gst = orderGst(
+        priced.products,
+        products,
+        Array.from(this.categories.values()),
+        this.siteSettings,
+        insertOrder.customer.address.state,
+        delivery.deliveryFeeINR
+      );
+
+      const id = randomUUID();
+      for (const { productId, variantId, quantity } of requests) {
+        const product = this.products.get(productId)!;
+        const variant = resolveVariant(product, variantId);
+        this.changeStock(product, variant, -quantity);
+        this.recordStockMovement(product, {
+          type: "sale",
+          quantity: -quantity,
+          variantId,
+          orderId: id,
+          actor: "customer",
+          reason: orderReference(id),
+        });
+      }
+
+      return this.insertOrder(
+        id,
+        insertOrder.customer,
+        priced,
+        delivery,
+        gst,
+        customerId
+      );
+    });
+  }
 
+  private insertOrder(
+    id: string,
+    customer: Order["customer"],
+    priced: ReturnType<typeof priceOrderLines>,
+    delivery: OrderDelivery,
+    gst: OrderGst | null,
+    customerId: string | null = null
+  ): Order {
     const order: Order = {
       id,
-      products: orderProducts,
-      customer: insertOrder.customer,
-      totalAmountINR,
+      products: priced.products,
+      customer,
+      customerId,
+      subtotalINR: priced.subtotalINR,
+      ...delivery,
+      gst,
+      invoiceNumber: null,
+      invoicedAt: null,
+      totalAmountINR: orderTotalINR(priced.subtotalINR, delivery, gst),
       status: "pending",
+      statusHistory: [
+        { status: "pending", changedAt: new Date().toISOString() },
+      ],
+      restockedAt: null,
       createdAt: new Date(),
     };
 
@@ -357,16 +1000,301 @@ export class MemStorage implements IStorage {
     return order;
   }
 
+  // Runs fn after every previously queued order has settled
+  private withOrderLock<T>(fn: () => Promise<T>): Promise<T> {
+    const result = this.orderLock.then(fn, fn);
+    this.orderLock = result.catch(() => undefined);
+    return result;
+  }
+
   async updateOrderStatus(
     id: string,
-    status: "pending" | "completed" | "cancelled"
+    status: OrderStatus,
+    actor: string
   ): Promise<Order | undefined> {
-    const order = this.orders.get(id);
-    if (!order) return undefined;
+    // Shares the order lock so restocking can't interleave with placeOrder
+    return this.withOrderLock(async () => {
+      const order = this.orders.get(id);
+      if (!order) return undefined;
 
-    order.status = status;
-    this.orders.set(id, order);
-    return order;
+      order.statusHistory = recordStatusChange(order, status);
+
+      if (shouldRestock(order, status)) {
+        const requests = requestedQuantities(order.products);
+        for (const { productId, variantId, quantity } of requests) {
+          // Products and variants removed since the order was placed are skipped
+          const product = this.products.get(productId);
+          const variant = product && lineVariant(product, variantId);
+          if (!product || variant === undefined) continue;
+
+          this.changeStock(product, variant, quantity);
+          this.recordStockMovement(product, {
+            type: "restock",
+            quantity,
+            variantId,
+            orderId: id,
+            actor,
+            reason: `${orderReference(id)} ${status}`,
+          });
+        }
+        order.restockedAt = new Date();
+      }
+
+      order.status = status;
+      this.orders.set(id, order);
+      return order;
+    });
+  }
+
+  async issueInvoice(id: string): Promise<Order | undefined> {
+    return this.withOrderLock(async () => {
+      const order = this.orders.get(id);
+      if (!order || order.invoiceNumber) return order;
+      assertInvoiceable(order);
+
+      const invoicedAt = new Date();
+      const year = financialYear(invoicedAt);
+      const number = (this.invoiceSequences.get(year) ?? 0) + 1;
+      this.invoiceSequences.set(year, number);
+
+      order.invoiceNumber = formatInvoiceNumber(year, number);
+      order.invoicedAt = invoicedAt;
+      return order;
+    });
+  }
+
+  // Reservation methods
+  async getReservations(status?: ReservationStatus): Promise<Reservation[]> {
+    return Array.from(this.reservations.values())
+      .filter((reservation) => !status || reservation.status === status)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async createReservation(
+    insertReservation: InsertReservation,
+    holdHours: number
+  ): Promise<Reservation> {
+    // Holds take stock, so they queue behind orders like any other sale
+    return this.withOrderLock(async () => {
+      const product = this.products.get(insertReservation.productId);
+      assertReservable(product);
+
+      const id = randomUUID();
+      product.stock -= 1;
+      this.recordStockMovement(product, {
+        type: "reservation",
+        quantity: -1,
+        actor: "customer",
+        reason: reservationReference(id),
+      });
+
+      const reservation: Reservation = {
+        ...insertReservation,
+        id,
+        status: "active",
+        expiresAt: holdExpiry(holdHours),
+        orderId: null,
+        createdAt: new Date(),
+      };
+      this.reservations.set(id, reservation);
+      return reservation;
+    });
+  }
+
+  async releaseReservation(
+    id: string,
+    status: "expired" | "cancelled",
+    actor: string
+  ): Promise<Reservation | undefined> {
+    return this.withOrderLock(async () => {
+      const reservation = this.reservations.get(id);
+      if (!reservation) return undefined;
+      assertActive(reservation);
+
+      const product = this.products.get(reservation.productId);
+      if (product) {
+        product.stock += 1;
+        this.recordStockMovement(product, {
+          type: "release",
+          quantity: 1,
+          actor,
+          reason: `${reservationReference(id)} ${status}`,
+        });
+      }
+
+      reservation.status = status;
+      return reservation;
+    });
+  }
+
+  async expireReservations(now: Date): Promise<Reservation[]> {
+    const due = (await this.getReservations("active")).filter(
+      (reservation) => reservation.expiresAt <= now
+    );
+
+    const expired: Reservation[] = [];
+    for (const reservation of due) {
+      const released = await this.releaseReservation(
+        reservation.id,
+        "expired",
+        "system"
+      ).catch(() => undefined); // converted or cancelled in the meantime
+      if (released) expired.push(released);
+    }
+    return expired;
+  }
+
+  async convertReservation(
+    id: string
+  ): Promise<{ reservation: Reservation; order: Order } | undefined> {
+    return this.withOrderLock(async () => {
+      const reservation = this.reservations.get(id);
+      if (!reservation) return undefined;
+      assertActive(reservation);
+
+      const product = this.products.get(reservation.productId);
+      if (!product) throw new Error("Product not found");
+
+      const priced = priceOrderLines(
+        [{ productId: product.id, quantity: 1 }],
+        [product]
+      );
+      const order = this.insertOrder(
+        randomUUID(),
+        reservation.customer,
+        priced,
+        storePickup,
+        orderGst(
+          priced.products,
+          [product],
+          Array.from(this.categories.values()),
+          this.siteSettings,
+          null,
+          storePickup.deliveryFeeINR
+        )
+      );
+
+      reservation.status = "converted";
+      reservation.orderId = order.id;
+      return { reservation, order };
+    });
+  }
+
+  // Cart methods
+  async getCart(id: string): Promise<StoredCart | undefined> {
+    return this.carts.get(id);
+  }
+
+  async createCart(): Promise<StoredCart> {
+    const id = randomUUID();
+    const cart: StoredCart = {
+      id,
+      items: [],
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.carts.set(id, cart);
+    return cart;
+  }
+
+  async setCartItem(
+    cartId: string,
+    productId: string,
+    variantId: string,
+    quantity: number
+  ): Promise<StoredCart | undefined> {
+    const cart = this.carts.get(cartId);
+    if (!cart) return undefined;
+
+    const item = cart.items.find(
+      (i) => i.productId === productId && i.variantId === variantId
+    );
+    if (item) {
+      item.quantity = quantity;
+    } else {
+      cart.items.push({
+        cartId,
+        productId,
+        variantId,
+        quantity,
+        addedAt: new Date(),
+      });
+    }
+    cart.updatedAt = new Date();
+    return cart;
+  }
+
+  async removeCartItem(
+    cartId: string,
+    productId: string,
+    variantId: string
+  ): Promise<StoredCart | undefined> {
+    const cart = this.carts.get(cartId);
+    if (!cart) return undefined;
+
+    cart.items = cart.items.filter(
+      (i) => i.productId !== productId || i.variantId !== variantId
+    );
+    cart.updatedAt = new Date();
+    return cart;
+  }
+
+  async clearCart(cartId: string): Promise<void> {
+    const cart = this.carts.get(cartId);
+    if (!cart) return;
+
+    cart.items = [];
+    cart.updatedAt = new Date();
+  }
+
+  // Delivery zone methods
+  async getDeliveryZones(): Promise<DeliveryZone[]> {
+    return Array.from(this.deliveryZones.values()).sort(
+      (a, b) => a.createdAt.getTime() - b.createdAt.getTime()
+    );
+  }
+
+  async createDeliveryZone(
+    insertZone: InsertDeliveryZone
+  ): Promise<DeliveryZone> {
+    assertPrefixesFree(
+      await this.getDeliveryZones(),
+      undefined,
+      insertZone.pinPrefixes
+    );
+    const zone: DeliveryZone = {
+      deliversPets: false,
+      ...insertZone,
+      id: randomUUID(),
+      freeAboveINR: insertZone.freeAboveINR ?? null,
+      createdAt: new Date(),
+    };
+    this.deliveryZones.set(zone.id, zone);
+    return zone;
+  }
+
+  async updateDeliveryZone(
+    id: string,
+    updateData: InsertDeliveryZone
+  ): Promise<DeliveryZone | undefined> {
+    const zone = this.deliveryZones.get(id);
+    if (!zone) return undefined;
+    assertPrefixesFree(
+      await this.getDeliveryZones(),
+      id,
+      updateData.pinPrefixes
+    );
+    const updated = {
+      ...zone,
+      ...updateData,
+      freeAboveINR: updateData.freeAboveINR ?? null,
+    };
+    this.deliveryZones.set(id, updated);
+    return updated;
+  }
+
+  async deleteDeliveryZone(id: string): Promise<boolean> {
+    return this.deliveryZones.delete(id);
   }
 
   // Site settings methods
@@ -386,4 +1314,7 @@ export class MemStorage implements IStorage {
   }
 }
 
-export const storage = new MemStorage();
+// Use PostgreSQL when a database is provisioned, otherwise keep everything in memory
+export const storage: IStorage = process.env.DATABASE_URL
+  ? new PgStorage(new pg.Pool({ connectionString: process.env.DATABASE_URL }))
+  : new MemStorage();
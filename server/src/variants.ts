@@ -0,0 +1,185 @@
+import type {
+  InsertProduct,
+  InsertProductVariant,
+  Product,
+  ProductVariant,
+  StockSeen,
+} from "@shared/schema.js";
+import { variantLabel } from "../../shared/schema.js";
+import { randomUUID } from "crypto";
+
+/**
+ * The variant an order or cart line refers to, or null for a product sold
+ * without variants. Undefined when the line no longer fits the product, e.g.
+ * its variant was removed or the product has gained variants since.
+ */
+export function lineVariant(
+  product: Product,
+  variantId?: string | null
+): ProductVariant | null | undefined {
+  if (product.variants.length === 0) return variantId ? undefined : null;
+  return product.variants.find((variant) => variant.id === variantId);
+}
+
+// As lineVariant, but a line that doesn't fit the product is an error
+export function resolveVariant(
+  product: Product,
+  variantId?: string | null
+): ProductVariant | null {
+  const variant = lineVariant(product, variantId);
+  if (variant === undefined) {
+    throw new Error(
+      variantId
+        ? `The chosen option of ${product.name} is no longer available`
+        : `Choose an option for ${product.name}`
+    );
+  }
+  return variant;
+}
+
+// Product name with the variant's options, for messages and order lines
+export function describeLine(product: Product, variant: ProductVariant | null) {
+  return variant
+    ? `${product.name} (${variantLabel(product.options, variant)})`
+    : product.name;
+}
+
+/**
+ * Price and stock shown for a product with variants: the lowest variant
+ * price and the combined stock. Products without variants keep their own.
+ */
+export function variantTotals(
+  product: Pick<Product, "priceInINR" | "stock">,
+  variants: Pick<ProductVariant, "priceInINR" | "stock">[]
+): Pick<Product, "priceInINR" | "stock"> {
+  if (variants.length === 0) {
+    return { priceInINR: product.priceInINR, stock: product.stock };
+  }
+  return {
+    priceInINR: Math.min(...variants.map((variant) => variant.priceInINR)),
+    stock: variants.reduce((total, variant) => total + variant.stock, 0),
+  };
+}
+
+/**
+ * Variant rows for a product, in the order the admin listed them. Ids are
+ * kept only for variants the product already has; anything else is new.
+ */
+export function variantRows(
+  productId: string,
+  variants: InsertProductVariant[],
+  existing: ProductVariant[] = []
+): ProductVariant[] {
+  return variants.map(({ id, ...variant }, position) => ({
+    ...variant,
+    id: existing.some((v) => v.id === id) ? id! : randomUUID(),
+    productId,
+    position,
+    weightGrams: variant.weightGrams ?? null,
+    image: variant.image ?? null,
+  }));
+}
+
+export type StockEdit = {
+  variantId: string | null;
+  quantity: number;
+  stockAfter: number;
+};
+
+/**
+ * Ledger entries for an edit of a product and its variants: one per variant
+ * whose stock changed (removed variants drop to zero), plus one for the
+ * product itself for any change not explained by its variants.
+ */
+export function stockEdits(
+  before: Pick<Product, "stock" | "variants"> | undefined,
+  after: Pick<Product, "stock" | "variants">
+): StockEdit[] {
+  const previous = before?.variants ?? [];
+  const edits: StockEdit[] = [];
+
+  for (const variant of previous) {
+    const removed = !after.variants.some((v) => v.id === variant.id);
+    if (removed && variant.stock) {
+      edits.push({
+        variantId: variant.id,
+        quantity: -variant.stock,
+        stockAfter: 0,
+      });
+    }
+  }
+  for (const variant of after.variants) {
+    const old = previous.find((v) => v.id === variant.id);
+    const quantity = variant.stock - (old?.stock ?? 0);
+    if (quantity) {
+      edits.push({
+        variantId: variant.id,
+        quantity,
+        stockAfter: variant.stock,
+      });
+    }
+  }
+
+  const explained = edits.reduce((total, edit) => total + edit.quantity, 0);
+  const residual = after.stock - (before?.stock ?? 0) - explained;
+  if (residual) {
+    edits.push({
+      variantId: null,
+      quantity: residual,
+      stockAfter: after.stock,
+    });
+  }
+  return edits;
+}
+
+/**
+ * An edit made in a form that showed the stock in seen, fitted to the stock
+ * now. Stock the admin left alone follows the current level, so sales made
+ * while the form was open aren't undone; a changed level is refused if the
+ * stock it replaces has moved since.
+ */
+export function reconcileStock(
+  current: Product,
+  update: Partial<InsertProduct>,
+  seen: StockSeen
+): Partial<InsertProduct> {
+  const edited = (
+    label: string,
+    submitted: number,
+    was: number | undefined,
+    now: number
+  ) => {
+    if (was === undefined || was === now) return submitted;
+    if (submitted === was) return now;
+    throw new Error(
+      `Stock of ${label} changed from ${was} to ${now} while you were ` +
+        `editing; reopen the product to see the latest stock`
+    );
+  };
+
+  const variants = update.variants?.map((variant) => {
+    const existing = current.variants.find((v) => v.id === variant.id);
+    if (!existing) return variant;
+    return {
+      ...variant,
+      stock: edited(
+        describeLine(current, existing),
+        variant.stock,
+        seen.variants[existing.id],
+        existing.stock
+      ),
+    };
+  });
+  // With variants the product's stock is their total, checked above
+  const stock =
+    update.stock === undefined ||
+    (update.variants ?? current.variants).length > 0
+      ? update.stock
+      : edited(current.name, update.stock, seen.stock, current.stock);
+
+  return {
+    ...update,
+    ...(variants ? { variants } : {}),
+    ...(stock === undefined ? {} : { stock }),
+  };
+}
@@ -1,184 +1,1188 @@
+import { sql } from "drizzle-orm";
+import {
+  pgTable,
+  type AnyPgColumn,
+  text,
+  varchar,
+  integer,
+  serial,
+  doublePrecision,
+  boolean,
+  timestamp,
+  jsonb,
+  primaryKey,
+  index,
+} from "drizzle-orm/pg-core";
+import { createInsertSchema, createSelectSchema } from "drizzle-zod";
 import { z } from "zod";
 
 // Admin schema
-export const admins = {
-  id: z.string(),
-  name: z.string(),
-  email: z.string().email(),
-  password: z.string(),
-  role: z.enum(["admin"]).default("admin"),
-  createdAt: z.date().default(() => new Date()),
-};
+export const admins = pgTable("admins", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  email: text("email").notNull().unique(),
+  password: text("password").notNull(),
+  role: text("role", { enum: ["admin"] }).notNull().default("admin"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
 
-export const insertAdminSchema = z.object({
-  name: z.string().min(1, "Name is required"),
-  email: z.string().email("Invalid email format"),
-  password: z.string().min(6, "Password must be at least 6 characters"),
+export const insertAdminSchema = createInsertSchema(admins, {
+  name: (schema) => schema.min(1, "Name is required"),
+  email: (schema) => schema.email("Invalid email format"),
+  password: (schema) =>
+    schema.min(6, "Password must be at least 6 characters"),
+}).pick({
+  name: true,
+  email: true,
+  password: true,
 });
+export const selectAdminSchema = createSelectSchema(admins);
 
 export type InsertAdmin = z.infer<typeof insertAdminSchema>;
-export type Admin = {
-  id: string;
-  name: string;
-  email: string;
-  password: string;
-  role: "admin";
-  createdAt: Date;
-};
+export type Admin = typeof admins.$inferSelect;
 
-// Category schema
-export const categories = {
-  id: z.string(),
-  name: z.string(),
-  slug: z.string(),
-  description: z.string(),
-  createdAt: z.date().default(() => new Date()),
-};
+// GST. Each product is taxed under an HSN code at one of the GST slabs; a
+// product without its own takes its nearest category's.
+export const gstRates = [0, 5, 18, 40] as const;
 
-export const insertCategorySchema = z.object({
-  name: z.string().min(1, "Name is required"),
+export type GstRate = (typeof gstRates)[number];
+
+const hsnCodeSchema = z
+  .string()
+  .trim()
+  .regex(/^(\d{4}|\d{6}|\d{8})$/, "HSN codes are 4, 6 or 8 digits")
+  .nullable()
+  .optional();
+const gstRateSchema = z
+  .number()
+  .refine((rate) => (gstRates as readonly number[]).includes(rate), {
+    message: `GST rate must be one of ${gstRates.join(", ")}%`,
+  })
+  .nullable()
+  .optional();
+
+// Category schema. Categories nest, e.g. Dogs > Food > Puppy Food; those
+// without a parent are top level.
+export const categories = pgTable("categories", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  slug: text("slug").notNull().unique(),
+  description: text("description").notNull().default(""),
+  parentId: varchar("parent_id").references((): AnyPgColumn => categories.id, {
+    onDelete: "set null",
+  }),
+  // Defaults for the category's products, and its subcategories'
+  hsnCode: text("hsn_code"),
+  gstRatePercent: doublePrecision("gst_rate_percent"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertCategorySchema = createInsertSchema(categories, {
+  name: (schema) => schema.min(1, "Name is required"),
   description: z.string().optional().default(""),
+  parentId: z.string().min(1).nullable().optional(),
+  hsnCode: hsnCodeSchema,
+  gstRatePercent: gstRateSchema,
+}).pick({
+  name: true,
+  description: true,
+  parentId: true,
+  hsnCode: true,
+  gstRatePercent: true,
 });
+export const selectCategorySchema = createSelectSchema(categories);
 
 export type InsertCategory = z.infer<typeof insertCategorySchema>;
-export type Category = {
-  id: string;
-  name: string;
-  slug: string;
-  description: string;
-  createdAt: Date;
-};
-
-// Product schema
-export const products = {
-  id: z.string(),
-  name: z.string(),
-  categoryId: z.string(),
-  type: z.enum(["pet", "food", "accessory"]),
-  species: z.string().optional(),
-  images: z.array(z.string()).default([]),
-  description: z.string(),
-  priceInINR: z.number().positive(),
-  stock: z.number().min(0),
-  available: z.boolean().default(true),
-  createdAt: z.date().default(() => new Date()),
-};
-
-export const insertProductSchema = z.object({
-  name: z.string().min(1, "Name is required"),
-  categoryId: z.string().min(1, "Category is required"),
-  type: z.enum(["pet", "food", "accessory"]),
-  species: z.string().optional(),
-  description: z.string().min(1, "Description is required"),
-  priceInINR: z.number().positive("Price must be positive"),
-  stock: z.number().min(0, "Stock cannot be negative"),
-  available: z.boolean().default(true),
+export type Category = typeof categories.$inferSelect;
+export type CategoryNode = Category & { children: CategoryNode[] };
+
+// Categories under their parents, keeping the order they're given in
+export function buildCategoryTree(categories: Category[]): CategoryNode[] {
+  const nodes = new Map<string, CategoryNode>(
+    categories.map((category) => [category.id, { ...category, children: [] }])
+  );
+  const roots: CategoryNode[] = [];
+  Array.from(nodes.values()).forEach((node) => {
+    const parent = node.parentId ? nodes.get(node.parentId) : undefined;
+    (parent ? parent.children : roots).push(node);
+  });
+  return roots;
+}
+
+// A category and its ancestors, top level first
+export function categoryPath(categories: Category[], id: string | null): Category[] {
+  const path: Category[] = [];
+  let category = categories.find((c) => c.id === id);
+  while (category && !path.includes(category)) {
+    path.unshift(category);
+    const { parentId } = category;
+    category = parentId ? categories.find((c) => c.id === parentId) : undefined;
+  }
+  return path;
+}
+
+// Ids of a category and of every category below it
+export function categoryWithDescendants(
+  categories: Category[],
+  id: string
+): string[] {
+  const ids = [id];
+  for (let i = 0; i < ids.length; i++) {
+    categories
+      .filter((c) => c.parentId === ids[i] && !ids.includes(c.id))
+      .forEach((c) => ids.push(c.id));
+  }
+  return ids;
+}
+
+// Pet details, only carried by products of type "pet"
+const calendarDate = (label: string) =>
+  z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, `${label} must be a date (YYYY-MM-DD)`)
+    .refine(
+      (date) => new Date(date) <= new Date(),
+      `${label} cannot be in the future`
+    );
+
+export const petSexes = ["male", "female", "pair", "unsexed"] as const;
+
+export const vaccinationSchema = z.object({
+  name: z.string().min(1, "Vaccine name is required"),
+  date: calendarDate("Vaccination date"),
 });
 
+export const petDetailsSchema = z.object({
+  breed: z.string().min(1, "Breed is required"),
+  sex: z.enum(petSexes, { message: "Sex is required" }),
+  dateOfBirth: calendarDate("Date of birth").optional(),
+  colour: z.string().optional(),
+  weightKg: z.number().positive("Weight must be positive").optional(),
+  vaccinations: z.array(vaccinationSchema).default([]),
+  lastDewormedOn: calendarDate("Deworming date").optional(),
+  microchipNumber: z
+    .string()
+    .regex(/^\d{15}$/, "Microchip number must be 15 digits")
+    .optional(),
+  kciRegistrationNumber: z.string().optional(),
+  pedigreePapers: z.boolean().default(false),
+  // Upload path of the vet's health certificate. Set by the server from an
+  // upload; whatever the product form sends here is ignored.
+  healthCertificate: z.string().optional(),
+});
+
+export type PetSex = (typeof petSexes)[number];
+export type Vaccination = z.infer<typeof vaccinationSchema>;
+export type PetDetails = z.infer<typeof petDetailsSchema>;
+
+// Product images: each upload is stored as an EXIF-free fallback plus WebP
+// renditions at several widths for srcset. Images uploaded before processing
+// existed have no dimensions or renditions.
+export type ImageRendition = {
+  width: number;
+  src: string;
+};
+
+export type ProductImage = {
+  src: string;
+  width: number | null;
+  height: number | null;
+  // Narrowest first
+  renditions: ImageRendition[];
+  // Empty until an admin describes the image
+  alt: string;
+};
+
+// Order and alt text of a product's images, as arranged in the gallery
+// editor. The first image is the cover.
+export const arrangeProductImagesSchema = z.object({
+  images: z.array(
+    z.object({
+      src: z.string().min(1),
+      alt: z.string().trim().max(200, "Alt text is limited to 200 characters"),
+    })
+  ),
+});
+
+export type ArrangeProductImages = z.infer<typeof arrangeProductImagesSchema>;
+
+// Product schema. The database also keeps search columns on this table,
+// added in migration 0021 and left out here; see productSearch.
+export const products = pgTable("products", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  // Names the product's page, /product/<slug>
+  slug: text("slug").notNull().unique(),
+  // Cleared only when the category is deleted with the product archived
+  categoryId: varchar("category_id").references(() => categories.id),
+  type: text("type", { enum: ["pet", "food", "accessory"] }).notNull(),
+  species: text("species"),
+  images: jsonb("images").$type<ProductImage[]>().notNull().default([]),
+  description: text("description").notNull(),
+  priceInINR: doublePrecision("price_in_inr").notNull(),
+  stock: integer("stock").notNull().default(0),
+  available: boolean("available").notNull().default(true),
+  // Packed weight, for delivery fees by weight; a variant's own weight
+  // replaces it. Left empty, the product weighs nothing for delivery.
+  weightGrams: integer("weight_grams"),
+  // Left empty, the category's are used
+  hsnCode: text("hsn_code"),
+  gstRatePercent: doublePrecision("gst_rate_percent"),
+  petDetails: jsonb("pet_details").$type<PetDetails>(),
+  // Option names and their values, e.g. Pack size: 1kg, 3kg; empty when the
+  // product is sold without variants
+  options: jsonb("options").$type<ProductOption[]>().notNull().default([]),
+  // Set when the product's category was deleted with its products archived;
+  // archived products are left out of every product list but stay on orders
+  archivedAt: timestamp("archived_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Product options and variants. A product with variants sells, prices and
+// stocks each variant separately; its own price is the lowest variant price
+// and its own stock the sum of the variants' stock.
+export const productOptionSchema = z.object({
+  name: z.string().min(1, "Option name is required"),
+  values: z
+    .array(z.string().min(1, "Option values cannot be blank"))
+    .min(1, "Each option needs at least one value"),
+});
+
+export type ProductOption = z.infer<typeof productOptionSchema>;
+
+const weightGramsSchema = z
+  .number()
+  .int("Weight is in whole grams")
+  .positive("Weight must be positive")
+  .nullable()
+  .optional();
+
+export const productVariants = pgTable(
+  "product_variants",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    productId: varchar("product_id")
+      .notNull()
+      .references(() => products.id, { onDelete: "cascade" }),
+    position: integer("position").notNull(),
+    sku: text("sku").notNull().unique(),
+    // Chosen value for each of the product's options, keyed by option name
+    options: jsonb("options").$type<Record<string, string>>().notNull(),
+    priceInINR: doublePrecision("price_in_inr").notNull(),
+    stock: integer("stock").notNull().default(0),
+    weightGrams: integer("weight_grams"),
+    // src of one of the product's images
+    image: text("image"),
+  },
+  (table) => [index("product_variants_product_idx").on(table.productId)]
+);
+
+// Variants are sent with their product; existing ones keep their id
+export const productVariantSchema = createInsertSchema(productVariants, {
+  sku: (schema) => schema.trim().min(1, "SKU is required"),
+  options: z.record(z.string(), z.string()),
+  priceInINR: (schema) => schema.positive("Variant price must be positive"),
+  stock: z.number().int().min(0, "Variant stock cannot be negative"),
+  weightGrams: weightGramsSchema,
+  image: z.string().nullable().optional(),
+})
+  .pick({
+    sku: true,
+    options: true,
+    priceInINR: true,
+    stock: true,
+    weightGrams: true,
+    image: true,
+  })
+  .extend({ id: z.string().optional() });
+
+export type ProductVariant = typeof productVariants.$inferSelect;
+export type InsertProductVariant = z.infer<typeof productVariantSchema>;
+
+// Label for a variant in option order, e.g. "3kg / Chicken"
+export function variantLabel(
+  options: ProductOption[],
+  variant: Pick<ProductVariant, "options">
+) {
+  return options.map((option) => variant.options[option.name]).join(" / ");
+}
+
+type ProductVariantInput = {
+  type: string;
+  options?: ProductOption[];
+  variants?: InsertProductVariant[];
+};
+
+// Every variant must pick one listed value per option, and no two variants
+// may share a combination or a SKU
+function checkVariants(product: ProductVariantInput, ctx: z.RefinementCtx) {
+  const { options = [], variants = [] } = product;
+  const issue = (message: string, path: (string | number)[]) =>
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message, path });
+
+  if (variants.length === 0) {
+    if (options.length > 0) {
+      issue("Add at least one variant for the options", ["variants"]);
+    }
+    return;
+  }
+  if (product.type === "pet") {
+    issue("Pets cannot have variants", ["variants"]);
+    return;
+  }
+  if (options.length === 0) {
+    issue("Variants need at least one option", ["options"]);
+    return;
+  }
+
+  const names = options.map((option) => option.name);
+  if (new Set(names).size !== names.length) {
+    issue("Option names must be unique", ["options"]);
+  }
+
+  const skus = new Set<string>();
+  const combinations = new Set<string>();
+  variants.forEach((variant, index) => {
+    const chosen = Object.keys(variant.options);
+    const valid =
+      chosen.length === options.length &&
+      options.every((option) =>
+        option.values.includes(variant.options[option.name])
+      );
+    if (!valid) {
+      issue(`Variant ${variant.sku} must pick a value for every option`, [
+        "variants",
+        index,
+        "options",
+      ]);
+    }
+
+    const combination = variantLabel(options, variant);
+    if (combinations.has(combination)) {
+      issue(`More than one variant is ${combination}`, ["variants", index]);
+    }
+    combinations.add(combination);
+
+    if (skus.has(variant.sku)) {
+      issue(`SKU ${variant.sku} is used more than once`, [
+        "variants",
+        index,
+        "sku",
+      ]);
+    }
+    skus.add(variant.sku);
+  });
+}
+
+// Pet details are dropped for other product types before validation, so
+// leftovers from a product that used to be a pet never fail the check
+export const insertProductSchema = z.preprocess(
+  (data) =>
+    data && typeof data === "object" && "type" in data && data.type !== "pet"
+      ? { ...data, petDetails: null }
+      : data,
+  createInsertSchema(products, {
+    name: (schema) => schema.min(1, "Name is required"),
+    categoryId: z.string().min(1, "Category is required"),
+    description: (schema) => schema.min(1, "Description is required"),
+    priceInINR: (schema) => schema.positive("Price must be positive"),
+    stock: z.number().int().min(0, "Stock cannot be negative"),
+    available: z.boolean().default(true),
+    weightGrams: weightGramsSchema,
+    hsnCode: hsnCodeSchema,
+    gstRatePercent: gstRateSchema,
+    petDetails: petDetailsSchema.nullable().optional(),
+    options: z.array(productOptionSchema).optional(),
+  })
+    .omit({
+      id: true,
+      slug: true,
+      images: true,
+      archivedAt: true,
+      createdAt: true,
+    })
+    .extend({ variants: z.array(productVariantSchema).optional() })
+    .refine((product) => product.type !== "pet" || !!product.petDetails, {
+      message: "Pet details are required for pets",
+      path: ["petDetails"],
+    })
+    .superRefine(checkVariants)
+);
+export const selectProductSchema = createSelectSchema(products);
+
 export type InsertProduct = z.infer<typeof insertProductSchema>;
-export type Product = {
-  id: string;
-  name: string;
-  categoryId: string;
-  type: "pet" | "food" | "accessory";
-  species?: string;
-  images: string[];
-  description: string;
-  priceInINR: number;
-  stock: number;
-  available: boolean;
-  createdAt: Date;
+
+// Stock the product form was opened with, variants keyed by id, so saving
+// it can tell the admin's stock edits from sales made in the meantime
+export const stockSeenSchema = z.object({
+  stock: z.number().int(),
+  variants: z.record(z.string(), z.number().int()).default({}),
+});
+export type StockSeen = z.infer<typeof stockSeenSchema>;
+export type Product = typeof products.$inferSelect & {
+  variants: ProductVariant[];
 };
 
-// Order schema
-export const orders = {
-  id: z.string(),
-  products: z.array(z.object({
-    productId: z.string(),
-    name: z.string(),
-    priceInINR: z.number(),
-    quantity: z.number(),
-  })),
-  customer: z.object({
-    name: z.string(),
-    phone: z.string(),
-    altPhone: z.string().optional(),
-    address: z.string(),
-  }),
-  totalAmountINR: z.number(),
-  status: z.enum(["pending", "completed", "cancelled"]).default("pending"),
-  createdAt: z.date().default(() => new Date()),
-};
-
-export const insertOrderSchema = z.object({
-  products: z.array(z.object({
-    productId: z.string(),
-    quantity: z.number().positive(),
-  })).min(1, "At least one product is required"),
-  customer: z.object({
-    name: z.string().min(1, "Name is required"),
-    phone: z.string().min(10, "Valid phone number is required"),
-    altPhone: z.string().optional(),
-    address: z.string().min(1, "Address is required"),
+// Bulk CSV import of products. Rows are numbered as in a spreadsheet, with
+// the header on row 1.
+export type ImportRowError = {
+  row: number;
+  message: string;
+};
+
+export type ProductImportReport = {
+  dryRun: boolean;
+  // Product rows in the file
+  rows: number;
+  // Nothing is imported on a dry run or when any row has errors
+  imported: number;
+  errors: ImportRowError[];
+};
+
+// Stock movement ledger, append-only: one row per change to a product's stock
+export const stockMovementTypes = [
+  "sale",
+  "restock",
+  "adjustment",
+  "received",
+  "damage",
+  "reservation",
+  "release",
+] as const;
+
+export type StockMovementType = (typeof stockMovementTypes)[number];
+
+export const stockMovements = pgTable(
+  "stock_movements",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    // Not a foreign key: the history outlives deleted products
+    productId: varchar("product_id").notNull(),
+    // Set when the movement is for one variant; stockAfter is then its stock
+    variantId: varchar("variant_id"),
+    type: text("type", { enum: stockMovementTypes }).notNull(),
+    // Signed change in stock; negative for sales and damage
+    quantity: integer("quantity").notNull(),
+    stockAfter: integer("stock_after").notNull(),
+    orderId: varchar("order_id"),
+    actor: text("actor").notNull(),
+    reason: text("reason").notNull().default(""),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+    // Insert order; movements written in one transaction share createdAt
+    sequence: serial("sequence").notNull(),
+  },
+  (table) => [
+    index("stock_movements_product_idx").on(
+      table.productId,
+      table.createdAt,
+      table.sequence
+    ),
+  ]
+);
+
+// Movements an admin can record by hand; sales and restocks come from orders
+export const insertStockMovementSchema = createInsertSchema(stockMovements, {
+  type: z.enum(["adjustment", "received", "damage"], {
+    message: "Invalid movement type",
   }),
+  quantity: z
+    .number()
+    .int("Quantity must be a whole number")
+    .refine((quantity) => quantity !== 0, "Quantity cannot be zero"),
+  reason: (schema) => schema.min(1, "Reason is required"),
+})
+  .pick({
+    variantId: true,
+    type: true,
+    quantity: true,
+    reason: true,
+  })
+  .refine((movement) => movement.type !== "received" || movement.quantity > 0, {
+    message: "Goods received must add stock",
+    path: ["quantity"],
+  })
+  .refine((movement) => movement.type !== "damage" || movement.quantity < 0, {
+    message: "Damage or loss must remove stock",
+    path: ["quantity"],
+  });
+export const selectStockMovementSchema = createSelectSchema(stockMovements);
+
+export type InsertStockMovement = z.infer<typeof insertStockMovementSchema>;
+export type StockMovement = typeof stockMovements.$inferSelect;
+
+// Customer accounts. Customers sign in with a one-time code sent to their
+// mobile number; they're separate from admins and the legacy users table.
+export const customers = pgTable("customers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  // +91 and ten digits, see normalizeMobileNumber
+  phone: text("phone").notNull().unique(),
+  name: text("name").notNull().default(""),
+  email: text("email").notNull().default(""),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// The code last sent to a number, hashed; a new one replaces it
+export const loginCodes = pgTable("login_codes", {
+  phone: text("phone").primaryKey(),
+  codeHash: text("code_hash").notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  // Wrong codes tried so far; the code stops working after a few
+  attempts: integer("attempts").notNull().default(0),
+  sentAt: timestamp("sent_at").notNull().defaultNow(),
+});
+
+/**
+ * An Indian mobile number as +91 and its ten digits, or null if it isn't
+ * one. Spaces, dashes and a leading 0, 91 or +91 are accepted.
+ */
+export function normalizeMobileNumber(phone: string): string | null {
+  const digits = phone
+    .replace(/[\s().-]/g, "")
+    .replace(/^(\+91|0091|0|91(?=\d{10}$))/, "");
+  return /^[6-9]\d{9}$/.test(digits) ? `+91${digits}` : null;
+}
+
+export const mobileNumberSchema = z.string().transform((phone, ctx) => {
+  const normalized = normalizeMobileNumber(phone);
+  if (!normalized) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "Enter a valid 10-digit mobile number",
+    });
+    return z.NEVER;
+  }
+  return normalized;
+});
+
+export const requestLoginCodeSchema = z.object({ phone: mobileNumberSchema });
+export const verifyLoginCodeSchema = z.object({
+  phone: mobileNumberSchema,
+  code: z.string().regex(/^\d{6}$/, "Enter the 6-digit code"),
+});
+export const updateCustomerSchema = createInsertSchema(customers, {
+  name: (schema) => schema.trim().min(1, "Name is required"),
+  email: z.union([z.literal(""), z.string().trim().email("Invalid email")]),
+}).pick({
+  name: true,
+  email: true,
+});
+
+export type Customer = typeof customers.$inferSelect;
+export type UpdateCustomer = z.infer<typeof updateCustomerSchema>;
+export type LoginCode = typeof loginCodes.$inferSelect;
+export type InsertLoginCode = Omit<LoginCode, "attempts" | "sentAt">;
+export type RequestLoginCode = z.infer<typeof requestLoginCodeSchema>;
+export type VerifyLoginCode = z.infer<typeof verifyLoginCodeSchema>;
+// When the next code can be asked for, sent after a code goes out
+export type LoginCodeSent = { phone: string; resendAt: string };
+
+// Indian states and union territories, as delivery addresses name them
+export const indianStates = [
+  "Andaman and Nicobar Islands",
+  "Andhra Pradesh",
+  "Arunachal Pradesh",
+  "Assam",
+  "Bihar",
+  "Chandigarh",
+  "Chhattisgarh",
+  "Dadra and Nagar Haveli and Daman and Diu",
+  "Delhi",
+  "Goa",
+  "Gujarat",
+  "Haryana",
+  "Himachal Pradesh",
+  "Jammu and Kashmir",
+  "Jharkhand",
+  "Karnataka",
+  "Kerala",
+  "Ladakh",
+  "Lakshadweep",
+  "Madhya Pradesh",
+  "Maharashtra",
+  "Manipur",
+  "Meghalaya",
+  "Mizoram",
+  "Nagaland",
+  "Odisha",
+  "Puducherry",
+  "Punjab",
+  "Rajasthan",
+  "Sikkim",
+  "Tamil Nadu",
+  "Telangana",
+  "Tripura",
+  "Uttar Pradesh",
+  "Uttarakhand",
+  "West Bengal",
+] as const;
+
+export type IndianState = (typeof indianStates)[number];
+
+export const deliveryAddressSchema = z.object({
+  // House or flat number and building
+  house: z.string().trim().min(1, "House or flat is required"),
+  street: z.string().trim().min(1, "Street or area is required"),
+  landmark: z.string().trim().default(""),
+  city: z.string().trim().min(1, "City is required"),
+  state: z.enum(indianStates, { message: "Choose a state" }),
+  // Six digits, the first never 0
+  pinCode: z
+    .string()
+    .trim()
+    .regex(/^[1-9]\d{5}$/, "Enter a valid 6-digit PIN code"),
+});
+
+export type DeliveryAddress = z.infer<typeof deliveryAddressSchema>;
+
+/**
+ * An address on one line, for display. Orders placed before addresses were
+ * structured have only the text typed at checkout, shown as it is.
+ */
+export function formatAddress(address: DeliveryAddress | string): string {
+  if (typeof address === "string") return address;
+  const { house, street, landmark, city, state, pinCode } = address;
+  return [house, street, landmark, city, `${state} ${pinCode}`]
+    .filter(Boolean)
+    .join(", ");
+}
+
+// A signed-in customer's saved delivery addresses, offered at checkout
+export const customerAddresses = pgTable(
+  "customer_addresses",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    customerId: varchar("customer_id")
+      .notNull()
+      .references(() => customers.id, { onDelete: "cascade" }),
+    // What the customer calls it, e.g. "Home"
+    label: text("label").notNull().default(""),
+    house: text("house").notNull(),
+    street: text("street").notNull(),
+    landmark: text("landmark").notNull().default(""),
+    city: text("city").notNull(),
+    state: text("state", { enum: indianStates }).notNull(),
+    pinCode: text("pin_code").notNull(),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => [index("customer_addresses_customer_idx").on(table.customerId)]
+);
+
+export const insertCustomerAddressSchema = deliveryAddressSchema.extend({
+  label: z.string().trim().max(40, "Keep the label short").default(""),
+});
+
+export type CustomerAddress = typeof customerAddresses.$inferSelect;
+export type InsertCustomerAddress = z.infer<typeof insertCustomerAddressSchema>;
+
+// Delivery zones: which PIN codes are delivered to, and what it costs. A PIN
+// code belongs to the zone with the longest prefix it starts with.
+export const deliveryZones = pgTable("delivery_zones", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  // Whole PIN codes, or their first digits to cover an area, e.g. "4000"
+  pinPrefixes: jsonb("pin_prefixes").$type<string[]>().notNull(),
+  // Charged on every order, plus perKgFeeINR for each kg or part of one
+  flatFeeINR: doublePrecision("flat_fee_inr").notNull().default(0),
+  perKgFeeINR: doublePrecision("per_kg_fee_inr").notNull().default(0),
+  // Orders whose items come to at least this much are delivered free
+  freeAboveINR: doublePrecision("free_above_inr"),
+  // Whether pets can be delivered here, e.g. only within the city
+  deliversPets: boolean("delivers_pets").notNull().default(false),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertDeliveryZoneSchema = createInsertSchema(deliveryZones, {
+  name: (schema) => schema.trim().min(1, "Name is required"),
+  pinPrefixes: z
+    .array(
+      z
+        .string()
+        .trim()
+        .regex(/^[1-9]\d{0,5}$/, "PIN prefixes are 1 to 6 digits")
+    )
+    .min(1, "Add at least one PIN code or prefix"),
+  flatFeeINR: z.number().min(0, "Fees cannot be negative"),
+  perKgFeeINR: z.number().min(0, "Fees cannot be negative"),
+  freeAboveINR: z
+    .number()
+    .positive("The free delivery threshold must be positive")
+    .nullable()
+    .optional(),
+}).pick({
+  name: true,
+  pinPrefixes: true,
+  flatFeeINR: true,
+  perKgFeeINR: true,
+  freeAboveINR: true,
+  deliversPets: true,
+});
+export const serviceabilityQuerySchema = z.object({
+  pinCode: deliveryAddressSchema.shape.pinCode,
+});
+
+export type DeliveryZone = typeof deliveryZones.$inferSelect;
+export type InsertDeliveryZone = z.infer<typeof insertDeliveryZoneSchema>;
+// Whether an order can be delivered to a PIN code, and for how much
+export type DeliveryQuote =
+  | {
+      serviceable: true;
+      // The zone's name; null when no zones are set up
+      zone: string | null;
+      feeINR: number;
+      freeAboveINR: number | null;
+    }
+  | { serviceable: false; reason: string };
+// A quote for the cart, with its GST once the fee is taxed along with it
+export type DeliveryCheck = DeliveryQuote & { gstINR: number };
+
+// Order schema
+export const orderCustomerSchema = z.object({
+  name: z.string().min(1, "Name is required"),
+  phone: z.string().min(10, "Valid phone number is required"),
+  altPhone: z.string().optional(),
+  address: deliveryAddressSchema,
+});
+// As stored: orders and holds placed before addresses were structured keep
+// the address as the text that was typed
+export const storedOrderCustomerSchema = orderCustomerSchema.extend({
+  address: z.union([deliveryAddressSchema, z.string()]),
+});
+
+export type OrderCustomer = z.infer<typeof storedOrderCustomerSchema>;
+
+// Order lifecycle
+export const orderStatuses = [
+  "pending",
+  "confirmed",
+  "packed",
+  "out_for_delivery",
+  "delivered",
+  "cancelled",
+  "returned",
+  "refunded",
+] as const;
+
+export type OrderStatus = (typeof orderStatuses)[number];
+
+// Statuses an order may move to from each status; every other move is rejected
+export const orderStatusTransitions: Record<OrderStatus, OrderStatus[]> = {
+  pending: ["confirmed", "cancelled"],
+  confirmed: ["packed", "cancelled"],
+  packed: ["out_for_delivery", "cancelled"],
+  out_for_delivery: ["delivered", "returned"],
+  delivered: ["returned"],
+  cancelled: ["refunded"],
+  returned: ["refunded"],
+  refunded: [],
+};
+
+export function canTransitionOrder(from: OrderStatus, to: OrderStatus) {
+  return orderStatusTransitions[from].includes(to);
+}
+
+export type OrderStatusChange = {
+  status: OrderStatus;
+  changedAt: string;
+};
+
+// GST on one order line, as charged
+export type OrderGstLine = {
+  hsnCode: string | null;
+  ratePercent: number;
+  taxableValueINR: number;
+  taxINR: number;
+};
+
+// Delivery billed with the goods is part of one composite supply, so the fee
+// is taxed at the rate of the principal supply: the order's largest line
+export type OrderGstDelivery = {
+  ratePercent: number;
+  taxableValueINR: number;
+  taxINR: number;
+};
+
+// The GST breakdown of an order, in rupees to the paisa. An intra-state
+// supply splits the tax evenly into CGST and SGST; an inter-state one is
+// all IGST.
+export type OrderGst = {
+  pricesIncludeGst: boolean;
+  interState: boolean;
+  // One per line of Order.products, in the same order
+  lines: OrderGstLine[];
+  // Null without a delivery fee; missing on orders from before it was taxed
+  delivery?: OrderGstDelivery | null;
+  // Of the lines and the delivery fee together
+  taxableValueINR: number;
+  cgstINR: number;
+  sgstINR: number;
+  igstINR: number;
+  totalTaxINR: number;
+  // Added to bring the total to whole rupees when GST is charged on top
+  roundOffINR: number;
+};
+
+export const orders = pgTable(
+  "orders",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    customer: jsonb("customer").$type<OrderCustomer>().notNull(),
+    // The account that placed the order; null for guest checkouts
+    customerId: varchar("customer_id").references(() => customers.id, {
+      onDelete: "set null",
+    }),
+    // The items' total, then what delivery added to make totalAmountINR
+    subtotalINR: doublePrecision("subtotal_inr").notNull(),
+    deliveryFeeINR: doublePrecision("delivery_fee_inr").notNull().default(0),
+    // The zone delivered to; null for orders collected from the store
+    deliveryZone: text("delivery_zone"),
+    // null for orders placed while GST was off
+    gst: jsonb("gst").$type<OrderGst>(),
+    // Given when the invoice is first printed, e.g. INV/2026-27/0001
+    invoiceNumber: text("invoice_number").unique(),
+    invoicedAt: timestamp("invoiced_at"),
+    totalAmountINR: doublePrecision("total_amount_inr").notNull(),
+    status: text("status", { enum: orderStatuses })
+      .notNull()
+      .default("pending"),
+    // One entry per status the order has been in, oldest first
+    statusHistory: jsonb("status_history")
+      .$type<OrderStatusChange[]>()
+      .notNull()
+      .default([]),
+    // Set once the order's items have been put back into stock
+    restockedAt: timestamp("restocked_at"),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => [index("orders_customer_idx").on(table.customerId)]
+);
+
+// The last invoice number given in each financial year, e.g. "2026-27"
+export const invoiceSequences = pgTable("invoice_sequences", {
+  financialYear: text("financial_year").primaryKey(),
+  lastNumber: integer("last_number").notNull(),
+});
+
+// Order line items, one row per entry in Order.products
+export const orderItems = pgTable("order_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orderId: varchar("order_id")
+    .notNull()
+    .references(() => orders.id, { onDelete: "cascade" }),
+  position: integer("position").notNull(),
+  productId: varchar("product_id").notNull(),
+  variantId: varchar("variant_id"),
+  name: text("name").notNull(),
+  // Chosen options at the time of ordering, e.g. "3kg / Chicken"
+  variantName: text("variant_name"),
+  priceInINR: doublePrecision("price_in_inr").notNull(),
+  quantity: integer("quantity").notNull(),
+});
+
+export const insertOrderSchema = createInsertSchema(orders, {
+  customer: orderCustomerSchema,
+})
+  .pick({ customer: true })
+  .extend({
+    products: z
+      .array(
+        createInsertSchema(orderItems, {
+          quantity: (schema) => schema.positive(),
+        }).pick({
+          productId: true,
+          variantId: true,
+          quantity: true,
+        })
+      )
+      .min(1, "At least one product is required"),
+  });
+export const selectOrderSchema = createSelectSchema(orders, {
+  customer: storedOrderCustomerSchema,
+});
+// Invoices and packing slips, for one order or a batch of them
+export const printFormats = ["html", "pdf"] as const;
+export type PrintFormat = (typeof printFormats)[number];
+
+export const MAX_PRINT_BATCH = 50;
+
+export const printQuerySchema = z.object({
+  format: z.enum(printFormats).default("html"),
+});
+export const batchPrintQuerySchema = printQuerySchema.extend({
+  // Comma separated order ids, printed in the order given
+  ids: z
+    .string()
+    .transform((ids) => ids.split(",").filter(Boolean))
+    .pipe(
+      z
+        .array(z.string())
+        .min(1, "Choose at least one order")
+        .max(MAX_PRINT_BATCH, `Print at most ${MAX_PRINT_BATCH} orders at once`)
+    ),
 });
+export const updateOrderStatusSchema = z.object({
+  status: z.enum(orderStatuses, { message: "Invalid status" }),
+});
+export const selectOrderItemSchema = createSelectSchema(orderItems);
 
 export type InsertOrder = z.infer<typeof insertOrderSchema>;
-export type Order = {
-  id: string;
-  products: Array<{
-    productId: string;
-    name: string;
-    priceInINR: number;
-    quantity: number;
-  }>;
-  customer: {
-    name: string;
-    phone: string;
-    altPhone?: string;
-    address: string;
-  };
+export type UpdateOrderStatus = z.infer<typeof updateOrderStatusSchema>;
+export type OrderItem = Pick<
+  typeof orderItems.$inferSelect,
+  "productId" | "variantId" | "name" | "variantName" | "priceInINR" | "quantity"
+>;
+export type Order = typeof orders.$inferSelect & {
+  products: OrderItem[];
+};
+// Totals across every order, for the dashboard
+export type OrderSummary = {
+  count: number;
+  revenueINR: number;
+};
+
+// Product and order lists are served a page at a time. Pass a page's
+// nextCursor back as cursor for the page after it; the last page has none.
+export const listSorts = ["newest", "price", "name"] as const;
+export type ListSort = (typeof listSorts)[number];
+
+export type Page<T> = {
+  items: T[];
+  nextCursor: string | null;
+  // Matches across every page
+  total: number;
+};
+
+export const MAX_PAGE_SIZE = 100;
+
+// Query string flags, e.g. ?inStock=true
+const queryFlag = z
+  .enum(["true", "false"])
+  .transform((flag) => flag === "true");
+
+const listQueryFields = {
+  sort: z.enum(listSorts).optional(),
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(24),
+  minPrice: z.coerce.number().min(0, "minPrice cannot be negative").optional(),
+  maxPrice: z.coerce.number().min(0, "maxPrice cannot be negative").optional(),
+};
+
+const isPriceRange = (query: { minPrice?: number; maxPrice?: number }) =>
+  query.minPrice === undefined ||
+  query.maxPrice === undefined ||
+  query.minPrice <= query.maxPrice;
+const priceRangeError = {
+  message: "minPrice cannot be more than maxPrice",
+  path: ["minPrice"],
+};
+
+export const productListQuerySchema = z
+  .object({
+    ...listQueryFields,
+    categoryId: z.string().optional(),
+    type: z.enum(["pet", "food", "accessory"]).optional(),
+    species: z.string().optional(),
+    q: z.string().optional(),
+    inStock: queryFlag.optional(),
+    available: queryFlag.optional(),
+  })
+  .refine(isPriceRange, priceRangeError);
+
+export const orderListQuerySchema = z
+  .object(listQueryFields)
+  .refine(isPriceRange, priceRangeError);
+
+// What happens to a category's products when it's deleted: moved to another
+// category or archived. A category still holding products needs one of them.
+export const categoryDeletionSchema = z
+  .object({
+    reassignTo: z.string().min(1).optional(),
+    archiveProducts: queryFlag.optional(),
+  })
+  .refine((deletion) => !(deletion.reassignTo && deletion.archiveProducts), {
+    message: "Either move the products or archive them, not both",
+  });
+
+export type CategoryDeletion = z.infer<typeof categoryDeletionSchema>;
+
+// Reservation schema: a customer holding a pet for a while before buying.
+// The held unit is taken out of stock until the hold is released or converted.
+export const reservationStatuses = [
+  "active",
+  "expired",
+  "cancelled",
+  "converted",
+] as const;
+
+export type ReservationStatus = (typeof reservationStatuses)[number];
+
+export const reservations = pgTable(
+  "reservations",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    productId: varchar("product_id").notNull(),
+    customer: jsonb("customer").$type<OrderCustomer>().notNull(),
+    status: text("status", { enum: reservationStatuses })
+      .notNull()
+      .default("active"),
+    expiresAt: timestamp("expires_at").notNull(),
+    // Set when an admin turns the hold into an order
+    orderId: varchar("order_id"),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => [
+    index("reservations_status_expires_idx").on(table.status, table.expiresAt),
+  ]
+);
+
+export const insertReservationSchema = createInsertSchema(reservations, {
+  productId: (schema) => schema.min(1, "Product is required"),
+  customer: orderCustomerSchema,
+}).pick({
+  productId: true,
+  customer: true,
+});
+export const selectReservationSchema = createSelectSchema(reservations, {
+  customer: storedOrderCustomerSchema,
+});
+
+export type InsertReservation = z.infer<typeof insertReservationSchema>;
+export type Reservation = typeof reservations.$inferSelect;
+// What the storefront is told about a hold, without the customer's details
+export type ReservationHold = Pick<Reservation, "productId" | "expiresAt">;
+
+// Cart schema
+export const carts = pgTable("carts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const cartItems = pgTable(
+  "cart_items",
+  {
+    cartId: varchar("cart_id")
+      .notNull()
+      .references(() => carts.id, { onDelete: "cascade" }),
+    productId: varchar("product_id").notNull(),
+    // Empty for products without variants; part of the key, so never null
+    variantId: varchar("variant_id").notNull().default(""),
+    quantity: integer("quantity").notNull(),
+    addedAt: timestamp("added_at").notNull().defaultNow(),
+  },
+  (table) => [
+    primaryKey({ columns: [table.cartId, table.productId, table.variantId] }),
+  ]
+);
+
+export const cartItemSchema = createInsertSchema(cartItems, {
+  productId: (schema) => schema.min(1, "Product is required"),
+  quantity: (schema) => schema.int().positive("Quantity must be at least 1"),
+}).pick({
+  productId: true,
+  variantId: true,
+  quantity: true,
+});
+export const updateCartItemSchema = cartItemSchema.pick({ quantity: true });
+export const checkoutCartSchema = insertOrderSchema.pick({ customer: true });
+
+export type InsertCartItem = z.infer<typeof cartItemSchema>;
+export type CheckoutCart = z.infer<typeof checkoutCartSchema>;
+export type CartItem = typeof cartItems.$inferSelect;
+export type StoredCart = typeof carts.$inferSelect & { items: CartItem[] };
+
+// Cart as served by /api/cart, priced against the current catalogue
+export type CartLine = {
+  productId: string;
+  variantId: string | null;
+  name: string;
+  variantName: string | null;
+  image?: string;
+  priceInINR: number;
+  quantity: number;
+  stock: number;
+  // false when the product was withdrawn or stock fell below the quantity
+  purchasable: boolean;
+};
+export type Cart = {
+  id: string | null;
+  lines: CartLine[];
+  itemCount: number;
   totalAmountINR: number;
-  status: "pending" | "completed" | "cancelled";
-  createdAt: Date;
+  // GST within totalAmountINR, or to be added to it when prices exclude GST
+  gstINR: number;
+  pricesIncludeGst: boolean;
 };
 
 // Site settings schema
-export const siteSettings = {
-  id: z.string(),
-  description: z.string(),
-  youtubeUrl: z.string(),
-  updatedAt: z.date().default(() => new Date()),
-};
+export const siteSettings = pgTable("site_settings", {
+  id: varchar("id").primaryKey(),
+  description: text("description").notNull(),
+  youtubeUrl: text("youtube_url").notNull().default(""),
+  reservationHoldHours: integer("reservation_hold_hours").notNull().default(24),
+  // Where the shop is registered for GST; GST is off until it's set
+  gstState: text("gst_state", { enum: indianStates }),
+  // Whether product prices already include GST or have it added at checkout
+  pricesIncludeGst: boolean("prices_include_gst").notNull().default(true),
+  // The seller on invoices
+  businessName: text("business_name").notNull().default("PetShopForest"),
+  businessAddress: text("business_address").notNull().default(""),
+  gstin: text("gstin").notNull().default(""),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
 
-export const updateSiteSettingsSchema = z.object({
-  description: z.string().min(1, "Description is required"),
+export const updateSiteSettingsSchema = createInsertSchema(siteSettings, {
+  description: (schema) => schema.min(1, "Description is required"),
   youtubeUrl: z.string().url("Invalid YouTube URL").optional().default(""),
+  reservationHoldHours: z
+    .number()
+    .int("Hold period must be a whole number of hours")
+    .min(1, "Hold period must be at least 1 hour")
+    .max(168, "Hold period cannot exceed a week")
+    .optional(),
+  gstState: z.enum(indianStates).nullable().optional(),
+  pricesIncludeGst: z.boolean().optional(),
+  businessName: (schema) =>
+    schema.trim().min(1, "Business name is required").optional(),
+  businessAddress: z.string().trim().optional(),
+  gstin: z
+    .string()
+    .trim()
+    .toUpperCase()
+    .regex(
+      /^(\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z])?$/,
+      "GSTIN must be 15 characters, e.g. 27ABCDE1234F1Z5"
+    )
+    .optional(),
+}).pick({
+  description: true,
+  youtubeUrl: true,
+  reservationHoldHours: true,
+  gstState: true,
+  pricesIncludeGst: true,
+  businessName: true,
+  businessAddress: true,
+  gstin: true,
 });
+export const selectSiteSettingsSchema = createSelectSchema(siteSettings);
 
 export type UpdateSiteSettings = z.infer<typeof updateSiteSettingsSchema>;
-export type SiteSettings = {
-  id: string;
-  description: string;
-  youtubeUrl: string;
-  updatedAt: Date;
-};
+export type SiteSettings = typeof siteSettings.$inferSelect;
 
 // Legacy User schema for auth compatibility
-export const users = {
-  id: z.string(),
-  username: z.string(),
-  password: z.string(),
-};
+export const users = pgTable("users", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  username: text("username").notNull().unique(),
+  password: text("password").notNull(),
+});
 
-export const insertUserSchema = z.object({
-  username: z.string().min(1),
-  password: z.string().min(6),
+export const insertUserSchema = createInsertSchema(users, {
+  username: (schema) => schema.min(1),
+  password: (schema) => schema.min(6),
+}).pick({
+  username: true,
+  password: true,
 });
+export const selectUserSchema = createSelectSchema(users);
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
-export type User = {
-  id: string;
-  username: string;
-  password: string;
-};
+export type User = typeof users.$inferSelect;